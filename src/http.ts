@@ -0,0 +1,341 @@
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import {
+	createServer as createHttpServer,
+	type IncomingMessage,
+	type Server as HttpServer,
+	type ServerResponse,
+} from "node:http";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createServer } from "./server.js";
+import { SERVER_CONSTANTS, type TransportConfig } from "./utils/index.js";
+
+// --- Configuration ---
+
+export const HTTP_PATHS = {
+	MCP: "/mcp", // Streamable HTTP
+	SSE: "/sse", // Legacy HTTP+SSE stream
+	MESSAGES: "/messages", // Legacy HTTP+SSE message endpoint
+	HEALTH: "/health",
+} as const;
+
+const MAX_BODY_SIZE = 4 * 1024 * 1024; // 4MB
+const MAX_SWEEP_INTERVAL = 60 * 1000; // Check for idle sessions at least once a minute
+
+export type HttpServerConfig = Pick<
+	TransportConfig,
+	"host" | "port" | "authToken" | "allowedHosts" | "sessionIdleTimeout"
+>;
+
+export interface HttpServerHandle {
+	httpServer: HttpServer;
+	close(): Promise<void>;
+}
+
+interface Session<T> {
+	transport: T;
+	server: McpServer;
+	lastActivity: number;
+}
+
+// --- Helpers ---
+
+class HttpError extends Error {
+	constructor(
+		public readonly status: number,
+		public readonly rpcCode: number,
+		message: string
+	) {
+		super(message);
+		this.name = "HttpError";
+	}
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+	const chunks: Buffer[] = [];
+	let size = 0;
+
+	for await (const chunk of req) {
+		size += chunk.length;
+		if (size > MAX_BODY_SIZE) {
+			throw new HttpError(413, -32600, "Request body too large");
+		}
+		chunks.push(chunk as Buffer);
+	}
+
+	try {
+		return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+	} catch {
+		throw new HttpError(400, -32700, "Parse error: invalid JSON");
+	}
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+	res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+}
+
+function sendRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+	sendJson(res, status, { jsonrpc: "2.0", error: { code, message }, id: null });
+}
+
+/**
+ * Hostname of a Host header or Origin URL, or undefined when it does not parse
+ */
+function parseHostname(value: string): string | undefined {
+	try {
+		return new URL(value.includes("://") ? value : `http://${value}`).hostname;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Compare bearer tokens without leaking their contents through timing
+ */
+function tokensMatch(provided: string, expected: string): boolean {
+	const digest = (token: string) => createHash("sha256").update(token).digest();
+	return timingSafeEqual(digest(provided), digest(expected));
+}
+
+/**
+ * Reject requests from hosts or origins that are not allowed (DNS rebinding)
+ * and, when a token is configured, requests without it
+ */
+function checkAccess(
+	req: IncomingMessage,
+	{ authToken, allowedHosts }: Pick<HttpServerConfig, "authToken" | "allowedHosts">
+): void {
+	const hostname = req.headers.host ? parseHostname(req.headers.host) : undefined;
+	if (!hostname || !allowedHosts.includes(hostname)) {
+		throw new HttpError(403, -32000, "Forbidden: host not allowed");
+	}
+
+	const origin = req.headers.origin;
+	if (origin !== undefined) {
+		const originHostname = parseHostname(origin);
+		if (!originHostname || !allowedHosts.includes(originHostname)) {
+			throw new HttpError(403, -32000, "Forbidden: origin not allowed");
+		}
+	}
+
+	if (authToken) {
+		const [scheme, token] = (req.headers.authorization ?? "").split(" ");
+		if (scheme?.toLowerCase() !== "bearer" || !token || !tokensMatch(token, authToken)) {
+			throw new HttpError(401, -32001, "Unauthorized: missing or invalid bearer token");
+		}
+	}
+}
+
+// --- HTTP Server ---
+
+/**
+ * Serve MCP over Streamable HTTP (with the legacy HTTP+SSE transport as fallback).
+ * Each session gets its own MCP server instance built from the shared tool registrations.
+ * Every route but the health check requires an allowed Host (and Origin, when sent)
+ * and, if configured, the bearer token. Streamable sessions are closed once idle.
+ *
+ * @param config - Bind address, port and access settings
+ * @returns Handle to the running HTTP server
+ *
+ * @example
+ * ```typescript
+ * const handle = await startHttpServer(getTransportConfig())
+ * await handle.close()
+ * ```
+ */
+export async function startHttpServer({
+	host,
+	port,
+	authToken,
+	allowedHosts,
+	sessionIdleTimeout,
+}: HttpServerConfig): Promise<HttpServerHandle> {
+	const streamableSessions = new Map<string, Session<StreamableHTTPServerTransport>>();
+	const sseSessions = new Map<string, Session<SSEServerTransport>>();
+
+	// Sessions leave the map before their server closes, since closing fires onclose again
+	async function closeSession<T>(
+		sessions: Map<string, Session<T>>,
+		id: string,
+		label: string
+	): Promise<void> {
+		const session = sessions.get(id);
+		if (!session) return;
+
+		sessions.delete(id);
+		console.error(`[INFO] ${label} session closed: ${id}`);
+		await session.server.close();
+	}
+
+	const idleTimeout = sessionIdleTimeout * 1000;
+	const sweeper = setInterval(
+		() => {
+			const now = Date.now();
+			for (const [id, session] of streamableSessions) {
+				if (now - session.lastActivity >= idleTimeout) {
+					console.error(`[INFO] HTTP session idle for ${sessionIdleTimeout}s: ${id}`);
+					closeSession(streamableSessions, id, "HTTP").catch((error) =>
+						console.error(`[WARN] Failed to close idle HTTP session ${id}:`, error)
+					);
+				}
+			}
+		},
+		Math.min(idleTimeout, MAX_SWEEP_INTERVAL)
+	);
+	sweeper.unref();
+
+	async function handleStreamableRequest(req: IncomingMessage, res: ServerResponse) {
+		const sessionHeader = req.headers["mcp-session-id"];
+		const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+		const existing = sessionId ? streamableSessions.get(sessionId) : undefined;
+		if (existing) existing.lastActivity = Date.now();
+
+		if (req.method === "POST") {
+			const body = await readJsonBody(req);
+
+			if (existing) {
+				await existing.transport.handleRequest(req, res, body);
+				return;
+			}
+
+			if (!sessionId && isInitializeRequest(body)) {
+				const server = createServer();
+				const transport = new StreamableHTTPServerTransport({
+					sessionIdGenerator: () => randomUUID(),
+					onsessioninitialized: (id) => {
+						streamableSessions.set(id, { transport, server, lastActivity: Date.now() });
+						console.error(`[INFO] HTTP session started: ${id}`);
+					},
+				});
+				transport.onclose = () => {
+					const id = transport.sessionId;
+					if (id) {
+						closeSession(streamableSessions, id, "HTTP").catch((error) =>
+							console.error(`[WARN] Failed to close HTTP session ${id}:`, error)
+						);
+					}
+				};
+
+				await server.connect(transport);
+				await transport.handleRequest(req, res, body);
+
+				// Initialization failed, so no session will ever reach this server again
+				if (!transport.sessionId) await server.close();
+				return;
+			}
+
+			sendRpcError(res, 400, -32000, "Bad Request: no valid session ID provided");
+			return;
+		}
+
+		if (req.method === "GET" || req.method === "DELETE") {
+			if (!existing) {
+				sendRpcError(res, 400, -32000, "Bad Request: invalid or missing session ID");
+				return;
+			}
+			await existing.transport.handleRequest(req, res);
+			return;
+		}
+
+		sendRpcError(res, 405, -32000, "Method not allowed");
+	}
+
+	async function handleSseStream(res: ServerResponse) {
+		const server = createServer();
+		const transport = new SSEServerTransport(HTTP_PATHS.MESSAGES, res);
+		sseSessions.set(transport.sessionId, { transport, server, lastActivity: Date.now() });
+		console.error(`[INFO] SSE session started: ${transport.sessionId}`);
+
+		res.on("close", () => {
+			closeSession(sseSessions, transport.sessionId, "SSE").catch((error) =>
+				console.error(`[WARN] Failed to close SSE session ${transport.sessionId}:`, error)
+			);
+		});
+
+		await server.connect(transport);
+	}
+
+	async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL) {
+		const sessionId = url.searchParams.get("sessionId");
+		const session = sessionId ? sseSessions.get(sessionId) : undefined;
+		if (!session) {
+			sendRpcError(res, 400, -32000, "Bad Request: unknown SSE session");
+			return;
+		}
+
+		session.lastActivity = Date.now();
+		const body = await readJsonBody(req);
+		await session.transport.handlePostMessage(req, res, body);
+	}
+
+	const httpServer = createHttpServer(async (req, res) => {
+		const url = new URL(req.url ?? "/", "http://localhost");
+
+		try {
+			if (url.pathname === HTTP_PATHS.HEALTH && req.method === "GET") {
+				sendJson(res, 200, {
+					status: "ok",
+					name: SERVER_CONSTANTS.NAME,
+					version: SERVER_CONSTANTS.VERSION,
+					sessions: {
+						streamableHttp: streamableSessions.size,
+						sse: sseSessions.size,
+					},
+					uptime: Math.round(process.uptime()),
+				});
+				return;
+			}
+
+			checkAccess(req, { authToken, allowedHosts });
+			if (url.pathname === HTTP_PATHS.MCP) {
+				await handleStreamableRequest(req, res);
+			} else if (url.pathname === HTTP_PATHS.SSE && req.method === "GET") {
+				await handleSseStream(res);
+			} else if (url.pathname === HTTP_PATHS.MESSAGES && req.method === "POST") {
+				await handleSseMessage(req, res, url);
+			} else {
+				sendJson(res, 404, { error: `Not found: ${req.method} ${url.pathname}` });
+			}
+		} catch (error) {
+			console.error(`[ERROR] HTTP request failed: ${req.method} ${url.pathname}`, error);
+			if (!res.headersSent) {
+				if (error instanceof HttpError) {
+					if (error.status === 401) res.setHeader("WWW-Authenticate", "Bearer");
+					sendRpcError(res, error.status, error.rpcCode, error.message);
+				} else {
+					sendRpcError(res, 500, -32603, "Internal server error");
+				}
+			}
+		}
+	});
+
+	try {
+		await new Promise<void>((resolve, reject) => {
+			httpServer.once("error", reject);
+			httpServer.listen(port, host, () => {
+				httpServer.off("error", reject);
+				resolve();
+			});
+		});
+	} catch (error) {
+		clearInterval(sweeper);
+		throw error;
+	}
+
+	return {
+		httpServer,
+		async close() {
+			clearInterval(sweeper);
+			await Promise.allSettled([
+				...[...streamableSessions.keys()].map((id) =>
+					closeSession(streamableSessions, id, "HTTP")
+				),
+				...[...sseSessions.keys()].map((id) => closeSession(sseSessions, id, "SSE")),
+			]);
+
+			await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+		},
+	};
+}
@@ -3,6 +3,8 @@
 import "dotenv/config";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { server } from "./server.js";
+import { startHttpServer, HTTP_PATHS, type HttpServerHandle } from "./http.js";
+import { getTransportConfig } from "./utils/index.js";
 
 // --- Configuration ---
 
@@ -10,12 +12,27 @@ console.error("[INFO] Environment configuration loaded");
 
 // --- Server Initialization ---
 
+let httpServer: HttpServerHandle | undefined;
+
 export async function startServer(): Promise<void> {
 	try {
 		console.error("[INFO] Starting Fibrous MCP Server...");
 
-		const transport = new StdioServerTransport();
-		await server.connect(transport);
+		// Transport is selected with --transport or MCP_TRANSPORT (stdio by default)
+		const transportConfig = getTransportConfig();
+		const { transport, host, port } = transportConfig;
+
+		if (transport === "http") {
+			httpServer = await startHttpServer(transportConfig);
+			console.error(
+				`[INFO] Streamable HTTP on http://${host}:${port}${HTTP_PATHS.MCP}, SSE fallback on ${HTTP_PATHS.SSE}, health on ${HTTP_PATHS.HEALTH}`
+			);
+			console.error(
+				`[INFO] HTTP access: hosts ${transportConfig.allowedHosts.join(", ")}, bearer token ${transportConfig.authToken ? "required" : "not set"}, sessions idle out after ${transportConfig.sessionIdleTimeout}s`
+			);
+		} else {
+			await server.connect(new StdioServerTransport());
+		}
 
 		console.error("[SUCCESS] Fibrous MCP Server started successfully");
 	} catch (error) {
@@ -30,6 +47,7 @@ export async function gracefulShutdown(signal: string): Promise<void> {
 	console.error(`\n[INFO] Received ${signal}, initiating graceful shutdown...`);
 
 	try {
+		await httpServer?.close();
 		console.error("[INFO] Fibrous MCP Server shutdown complete");
 		process.exit(0);
 	} catch (error) {
@@ -6,6 +6,7 @@ import {
 	SERVER_CONSTANTS,
 	API_ENDPOINTS,
 	VALIDATION_LIMITS,
+	MAX_LADDER_STEPS,
 	getValidChains,
 	logConfigStatus,
 	validateChain,
@@ -14,11 +15,21 @@ import {
 	getSupportedTokensHandler,
 	getSupportedProtocolsHandler,
 	getBestRouteHandler,
+	analyzeRouteHandler,
+	getPriceLadderHandler,
+	compareChainsHandler,
 	buildTransactionHandler,
 	formatTokenAmountHandler,
 	getTokenHandler,
 	executeSwapHandler,
 	estimateSwapHandler,
+	getWalletBalancesHandler,
+	getAllowancesHandler,
+	revokeApprovalHandler,
+	prepareSwapHandler,
+	confirmSwapHandler,
+	getSwapHistoryHandler,
+	getTransactionStatusHandler,
 } from "./tools/handlers.js";
 
 // --- Configuration ---
@@ -40,11 +51,19 @@ export const schemas = {
 	tokenAddress: z
 		.string()
 		.min(VALIDATION_LIMITS.MIN_STRING_LENGTH)
-		.describe("Token contract address"),
+		.describe('Token contract address or symbol (e.g. "USDC", "ETH")'),
 	amount: z
 		.string()
 		.min(VALIDATION_LIMITS.MIN_STRING_LENGTH)
 		.describe("Token amount as string (wei format)"),
+	amountWei: z
+		.string()
+		.min(VALIDATION_LIMITS.MIN_STRING_LENGTH)
+		.describe("Input amount in wei (smallest unit)"),
+	amountHuman: z
+		.string()
+		.min(VALIDATION_LIMITS.MIN_STRING_LENGTH)
+		.describe('Input amount in human-readable units, e.g. "1.5"'),
 	slippage: z
 		.number()
 		.min(VALIDATION_LIMITS.MIN_SLIPPAGE)
@@ -59,6 +78,456 @@ export const schemas = {
 	operation: z.enum(["format", "parse"]).describe("Amount conversion operation"),
 } as const;
 
+// Route and swap tools accept the input amount in wei or human-readable form
+const amountInputShape = {
+	amount: schemas.amount.optional().describe("Deprecated alias for amountWei"),
+	amountWei: schemas.amountWei.optional(),
+	amountHuman: schemas.amountHuman.optional(),
+};
+
+// Single-swap tools fall back to the configured overrides and default
+const swapSlippageSchema = z
+	.union([schemas.slippage, z.literal("auto")])
+	.optional()
+	.describe(
+		'Slippage percentage (0.01-50%), or "auto" to use the route recommendation; defaults to the configured overrides, then DEFAULT_SLIPPAGE'
+	);
+
+// --- Output Schemas ---
+
+const resolvedAmountSchema = z
+	.object({
+		wei: z.string(),
+		human: z.string().optional(),
+		decimals: z.number().optional(),
+	})
+	.describe("Input amount in wei and human-readable form");
+
+const tokenSchema = z
+	.object({
+		address: z.string(),
+		name: z.string(),
+		symbol: z.string(),
+		decimals: z.union([z.string(), z.number()]),
+		price: z.string().nullable().optional(),
+	})
+	.passthrough();
+
+const routeTokenSchema = z.object({
+	address: z.string(),
+	symbol: z.string().optional().describe("Known for the route's input and output tokens"),
+	decimals: z.number().int().optional(),
+});
+
+const routeSchema = z
+	.object({
+		inputToken: routeTokenSchema,
+		outputToken: routeTokenSchema,
+		inputAmount: z.string(),
+		outputAmount: z.string(),
+		estimatedGasUsed: z.string().optional(),
+		estimatedGasUsedInUsd: z.string().optional(),
+		paths: z.number().int().describe("Paths the input is split across"),
+		pathAmounts: z
+			.array(
+				z.object({
+					path: z.number().int(),
+					percent: z.number().describe("Share of the route's input sent down this path"),
+					amountIn: z.string().describe("Route input sent down this path"),
+					steps: z.number().int().describe("Hops the input goes through in turn"),
+				})
+			)
+			.describe("Input per split path; the router reports no amounts per hop"),
+		hops: z.array(
+			z.object({
+				path: z.number().int().describe("Split path the hop belongs to, from 0"),
+				step: z.number().int().describe("Position of the hop within its path, from 0"),
+				protocol: z.string(),
+				protocolId: z.number(),
+				pool: z.object({ id: z.string(), address: z.string(), name: z.string() }),
+				tokenIn: routeTokenSchema,
+				tokenOut: routeTokenSchema,
+				pathPercent: z.number().describe("Share of the route's input sent down this path"),
+				percent: z.number().describe("Share of the step's input swapped in this pool"),
+			})
+		),
+	})
+	.describe("Fibrous route flattened into hops");
+
+const gasEstimateSchema = z.object({
+	gasEstimate: z.string().describe("Estimated gas units"),
+	gasPrice: z.string().describe("Gas price in wei"),
+	l2ExecutionFee: z.string().describe("Execution fee on the chain itself"),
+	l1DataFee: z.string().describe("Fee for posting the transaction data to Ethereum"),
+	totalFee: z.string().describe("L2 execution fee plus L1 data fee"),
+	estimatedCost: z.string().describe("Estimated cost in the native token (same as totalFee)"),
+	feeToken: z.enum(["ETH", "STRK"]).describe("Token the fees are paid in"),
+	costInUSD: z.string().optional().describe("Total fee in USD, when the fee token is priced"),
+	source: z
+		.enum(["rpc", "fallback"])
+		.describe("fallback: fixed placeholder values used because estimation failed"),
+	fallbackReason: z.string().optional().describe("Why the RPC estimate failed"),
+	maxFee: z.string().optional().describe("EIP-1559 max fee per gas in wei"),
+	priorityFee: z.string().optional().describe("EIP-1559 priority fee per gas in wei"),
+});
+
+const slippageSourceSchema = z
+	.enum(["explicit", "auto", "pair", "chain", "default"])
+	.describe(
+		"explicit: the slippage argument; auto: route recommendation; pair/chain: SLIPPAGE_BY_PAIR/SLIPPAGE_BY_CHAIN; default: DEFAULT_SLIPPAGE"
+	);
+
+const slippageRecommendationSchema = z
+	.object({
+		slippage: z.number(),
+		volatility: z.enum(["stable", "major", "long-tail"]),
+		priceImpact: z.number().optional(),
+		hops: z.number().int(),
+	})
+	.describe("Slippage suggested from token volatility, price impact and route depth");
+
+const balanceCheckSchema = z.object({
+	token: z.string(),
+	required: z.string(),
+	available: z.string(),
+	sufficient: z.boolean(),
+});
+
+const preflightSchema = z
+	.object({
+		passed: z.boolean(),
+		tokenBalance: balanceCheckSchema,
+		gasBalance: balanceCheckSchema.extend({
+			estimatedCost: z.string(),
+			fallbackEstimate: z.boolean(),
+		}),
+		allowance: z
+			.object({ spender: z.string(), current: z.string(), sufficient: z.boolean() })
+			.optional(),
+		approvalRequired: z.boolean(),
+		errors: z.array(z.string()),
+	})
+	.describe("Balance, gas and allowance checks run before signing");
+
+const tokenAmountSchema = z.object({
+	raw: z.string().describe("Amount in the token's smallest unit"),
+	formatted: z.string().describe("Human-readable amount"),
+});
+
+const tokenBalanceSchema = z.object({
+	symbol: z.string(),
+	name: z.string(),
+	address: z.string(),
+	decimals: z.number().int(),
+	balance: tokenAmountSchema,
+	allowance: tokenAmountSchema.optional().describe("Amount the Fibrous router may spend"),
+});
+
+const transactionStateSchema = z.enum(["pending", "confirmed", "reverted", "not_found"]);
+
+const swapStatusSchema = z.enum(["executed", "simulated", "failed"]);
+
+const swapRecordSchema = z.object({
+	id: z.string(),
+	chainName: schemas.chainName,
+	status: swapStatusSchema,
+	params: z
+		.object({
+			amount: z.string(),
+			tokenInAddress: z.string(),
+			tokenOutAddress: z.string(),
+			slippage: z.number().optional(),
+			receiverAddress: z.string().optional(),
+			dryRun: z.boolean().optional(),
+		})
+		.passthrough(),
+	amount: resolvedAmountSchema.optional(),
+	quote: z
+		.object({
+			id: z.string(),
+			expectedOutput: z.string(),
+			currentOutput: z.string().optional(),
+			drift: z.number().optional(),
+		})
+		.optional(),
+	transactionHash: z.string().optional(),
+	explorerUrl: z.string().optional(),
+	gasUsed: z.string().optional(),
+	outputAmount: z.string().optional(),
+	expectedOutputAmount: z.string().optional(),
+	realisedSlippage: z.number().optional(),
+	error: z.string().optional(),
+	errorCode: z.string().optional(),
+	startedAt: z.string(),
+	completedAt: z.string(),
+});
+
+// Shapes of the structuredContent returned by each tool
+export const outputSchemas = {
+	supportedTokens: {
+		chainName: schemas.chainName,
+		count: z.number().int(),
+		tokens: z.record(tokenSchema).describe("Tokens keyed by lowercased symbol"),
+	},
+	supportedProtocols: {
+		chainName: schemas.chainName,
+		protocols: z
+			.record(z.union([z.string(), z.number()]))
+			.describe("Protocol IDs keyed by name"),
+	},
+	route: {
+		amount: resolvedAmountSchema,
+		route: routeSchema,
+		inputValueUsd: z.string().optional().describe("USD value of the input amount"),
+		outputValueUsd: z.string().optional().describe("USD value of the quoted output"),
+		recommendedSlippage: slippageRecommendationSchema,
+	},
+	routeAnalysis: {
+		amount: resolvedAmountSchema,
+		tokenIn: z.string(),
+		tokenOut: z.string(),
+		inputValueUsd: z.string().optional().describe("USD value of the input amount"),
+		outputValueUsd: z.string().optional().describe("USD value of the quoted output"),
+		analysis: z.object({
+			effectiveRate: z.string().describe("Output tokens per input token"),
+			inverseRate: z.string().describe("Input tokens per output token"),
+			referenceRate: z.string().optional().describe("Rate of the small reference quote"),
+			priceImpact: z
+				.string()
+				.optional()
+				.describe("Percent the rate falls below the reference rate"),
+			hops: z.number().int().describe("Swaps in the longest path"),
+			splits: z.number().int().describe("Paths the input is split across"),
+			protocols: z.array(z.string()),
+			gasCostUsd: z.string().optional().describe("Router gas estimate in USD"),
+			gasAsPercentOfTrade: z
+				.string()
+				.optional()
+				.describe("Gas cost as a percent of the input USD value"),
+			riskGrade: z.enum(["A", "B", "C", "D"]).describe("A: clean route; D: avoid or split"),
+			riskFactors: z.array(z.string()).describe("Why the grade is below A"),
+		}),
+		recommendedSlippage: slippageRecommendationSchema,
+		route: routeSchema,
+	},
+	priceLadder: {
+		chainName: schemas.chainName,
+		tokenIn: z.string(),
+		tokenOut: z.string(),
+		steps: z.array(
+			z.object({
+				amount: z.object({ wei: z.string(), human: z.string() }),
+				outputAmount: tokenAmountSchema.optional(),
+				rate: z.string().optional().describe("Output tokens per input token"),
+				marginalRate: z
+					.string()
+					.optional()
+					.describe("Output per input token added since the previous step"),
+				priceImpact: z
+					.string()
+					.optional()
+					.describe("Percent the rate falls below a small reference quote"),
+				error: z.string().optional().describe("Why this amount could not be routed"),
+				errorCode: z.string().optional(),
+			})
+		),
+	},
+	chainComparison: {
+		tokenIn: z.string(),
+		tokenOut: z.string(),
+		amountHuman: z.string(),
+		bestChain: schemas.chainName,
+		ranking: z.array(
+			z.object({
+				rank: z.number().int(),
+				chainName: schemas.chainName,
+				amount: resolvedAmountSchema,
+				outputAmount: tokenAmountSchema,
+				outputValueUsd: z.string().optional(),
+				gasCostUsd: z
+					.string()
+					.optional()
+					.describe("Swap gas estimate in USD (absent when gas could not be estimated)"),
+				netOutput: z
+					.string()
+					.describe(
+						"Output less gas in output tokens; gross output when gas is unpriced"
+					),
+				gasIncluded: z.boolean().describe("Whether netOutput has the gas cost taken off"),
+			})
+		),
+		failed: z
+			.array(
+				z.object({ chainName: schemas.chainName, error: z.string(), errorCode: z.string() })
+			)
+			.describe("Chains where the pair could not be routed"),
+	},
+	routeBatch: {
+		chainName: schemas.chainName,
+		routes: z.array(
+			z.union([
+				routeSchema,
+				z.object({ success: z.literal(false), errorMessage: z.string() }),
+			])
+		),
+	},
+	transaction: {
+		amount: resolvedAmountSchema,
+		route: routeSchema,
+		calldata: z.unknown().describe("Calldata to submit to the Fibrous router"),
+		slippage: z.number(),
+		slippageSource: slippageSourceSchema,
+	},
+	batchTransaction: {
+		chainName: schemas.chainName,
+		calls: z.array(z.unknown()).describe("Calls to submit to the Fibrous router"),
+	},
+	tokenAmount: {
+		amount: z.string(),
+		result: z.string(),
+		operation: schemas.operation,
+		decimals: z.number().int(),
+	},
+	token: {
+		found: z.boolean(),
+		chainName: schemas.chainName,
+		token: tokenSchema.optional(),
+	},
+	swapResult: {
+		success: z.boolean(),
+		dryRun: z.boolean().optional(),
+		amount: resolvedAmountSchema,
+		transactionHash: z.string().optional(),
+		explorerUrl: z.string().optional(),
+		gasUsed: z.string().optional(),
+		outputAmount: z.string().optional().describe("Output decoded from the receipt"),
+		expectedOutputAmount: z.string().optional().describe("Quoted output of the route"),
+		effectivePrice: z.string().optional().describe("Output tokens received per input token"),
+		realisedSlippage: z
+			.number()
+			.optional()
+			.describe("Percent the output fell below the quote (negative when better)"),
+		replacements: z
+			.array(
+				z.object({
+					stage: z.enum(["approval", "swap"]),
+					action: z.enum(["speed-up", "cancel"]),
+					originalHash: z.string(),
+					replacementHash: z.string(),
+					outcome: z.enum(["replaced", "original_mined"]),
+				})
+			)
+			.optional()
+			.describe("Same-nonce replacements sent for transactions stuck past the timeout"),
+		approvalRequired: z.boolean().optional(),
+		gasEstimate: z.string().optional(),
+		revertReason: z.string().optional(),
+		errorCode: z.string().optional().describe("Error code when a dry run reverts"),
+		preflight: preflightSchema.optional(),
+		slippage: z.number().optional(),
+		slippageSource: slippageSourceSchema.optional(),
+		quote: z
+			.object({
+				id: z.string(),
+				expectedOutput: z.string(),
+				currentOutput: z.string(),
+				drift: z.number().describe("Percent the output fell since the quote"),
+			})
+			.optional()
+			.describe("Quote check, for swaps run through confirm-swap"),
+	},
+	gasEstimate: {
+		amount: resolvedAmountSchema,
+		slippage: z.number(),
+		slippageSource: slippageSourceSchema,
+		gasEstimate: gasEstimateSchema,
+	},
+	swapQuote: {
+		quoteId: z.string().describe("Pass to confirm-swap to execute this quote"),
+		expiresAt: z.string().describe("ISO timestamp after which the quote is rejected"),
+		chainName: schemas.chainName,
+		amount: resolvedAmountSchema,
+		tokenIn: z.string(),
+		tokenOut: z.string(),
+		expectedOutput: tokenAmountSchema,
+		minOutput: tokenAmountSchema.describe("Expected output less slippage"),
+		priceImpact: z
+			.string()
+			.optional()
+			.describe("Percent of input USD value lost, when both tokens are priced"),
+		inputValueUsd: z.string().optional().describe("USD value of the input amount"),
+		outputValueUsd: z.string().optional().describe("USD value of the expected output"),
+		gasAsPercentOfTrade: z
+			.string()
+			.optional()
+			.describe("Gas cost as a percent of the input USD value"),
+		slippage: z.number(),
+		slippageSource: slippageSourceSchema,
+		recommendedSlippage: slippageRecommendationSchema,
+		receiverAddress: z.string(),
+		gasEstimate: gasEstimateSchema,
+		route: routeSchema,
+	},
+	allowances: {
+		chainName: schemas.chainName,
+		address: z.string(),
+		spender: z.string(),
+		allowances: z.array(
+			z.object({
+				symbol: z.string(),
+				name: z.string(),
+				address: z.string(),
+				decimals: z.number().int(),
+				allowance: tokenAmountSchema,
+				unlimited: z.boolean(),
+			})
+		),
+		failed: z.array(
+			z.object({ symbol: z.string().optional(), address: z.string(), error: z.string() })
+		),
+	},
+	revokeResult: {
+		chainName: schemas.chainName,
+		tokenAddress: z.string(),
+		spender: z.string(),
+		previousAllowance: z.string(),
+		revoked: z.boolean().describe("False when there was no allowance to revoke"),
+		transactionHash: z.string().optional(),
+		explorerUrl: z.string().optional(),
+	},
+	transactionStatus: {
+		chainName: schemas.chainName,
+		transactionHash: z.string(),
+		status: transactionStateSchema,
+		blockNumber: z.string().optional(),
+		confirmations: z.number().int().optional(),
+		gasUsed: z.string().optional().describe("Gas units used (EVM only)"),
+		effectiveGasPrice: z.string().optional().describe("Gas price paid in wei (EVM only)"),
+		fee: tokenAmountSchema
+			.extend({ token: z.enum(["ETH", "STRK"]) })
+			.optional()
+			.describe("Total fee paid, including any L1 data fee"),
+		revertReason: z.string().optional(),
+		explorerUrl: z.string(),
+	},
+	swapHistory: {
+		count: z.number().int(),
+		swaps: z.array(swapRecordSchema).describe("Newest first"),
+	},
+	walletBalances: {
+		chainName: schemas.chainName,
+		address: z.string(),
+		routerAddress: z.string().optional(),
+		native: tokenBalanceSchema,
+		tokens: z.array(tokenBalanceSchema),
+		failed: z
+			.array(
+				z.object({ symbol: z.string().optional(), address: z.string(), error: z.string() })
+			)
+			.describe("Tokens whose balance could not be read"),
+	},
+} as const;
+
 // --- Initialization ---
 
 export let fibrousRouter: FibrousRouter;
@@ -76,11 +545,6 @@ export let fibrousRouter: FibrousRouter;
 	}
 })();
 
-export const server = new McpServer({
-	name: SERVER_CONFIG.name,
-	version: SERVER_CONFIG.version,
-});
-
 // --- Tool Registration ---
 const tools: any[] = [
 	{
@@ -89,6 +553,7 @@ const tools: any[] = [
 		inputSchema: z.object({
 			chainName: schemas.chainName,
 		}),
+		outputSchema: outputSchemas.supportedTokens,
 		handler: getSupportedTokensHandler,
 	},
 	{
@@ -97,13 +562,14 @@ const tools: any[] = [
 		inputSchema: z.object({
 			chainName: schemas.chainName,
 		}),
+		outputSchema: outputSchemas.supportedProtocols,
 		handler: getSupportedProtocolsHandler,
 	},
 	{
 		name: "get-best-route",
 		description: "Find the best swap route between two tokens",
 		inputSchema: z.object({
-			amount: schemas.amount,
+			...amountInputShape,
 			tokenInAddress: schemas.tokenAddress,
 			tokenOutAddress: schemas.tokenAddress,
 			chainName: schemas.chainName,
@@ -114,8 +580,77 @@ const tools: any[] = [
 				})
 				.optional(),
 		}),
+		outputSchema: outputSchemas.route,
 		handler: getBestRouteHandler,
 	},
+	{
+		name: "analyze-route",
+		description:
+			"Analyze the best route's quality: price impact against a small reference quote, effective and inverse rates, hops and protocols, gas share of the trade and a risk grade",
+		inputSchema: z.object({
+			...amountInputShape,
+			tokenInAddress: schemas.tokenAddress,
+			tokenOutAddress: schemas.tokenAddress,
+			chainName: schemas.chainName,
+			options: z
+				.object({
+					direct: z.boolean().optional(),
+					excludeProtocols: z.array(z.string()).optional(),
+				})
+				.optional(),
+		}),
+		outputSchema: outputSchemas.routeAnalysis,
+		handler: analyzeRouteHandler,
+	},
+	{
+		name: "get-price-ladder",
+		description:
+			"Quote a pair at a list of amounts, or a start/end/steps range, with the output, marginal rate and price impact of each step",
+		inputSchema: z.object({
+			tokenInAddress: schemas.tokenAddress,
+			tokenOutAddress: schemas.tokenAddress,
+			chainName: schemas.chainName,
+			amounts: z
+				.array(schemas.amountHuman)
+				.min(1)
+				.max(MAX_LADDER_STEPS)
+				.optional()
+				.describe('Input amounts in human-readable units, e.g. ["1", "5", "10"]'),
+			range: z
+				.object({
+					start: schemas.amountHuman.describe("First amount (human-readable)"),
+					end: schemas.amountHuman.describe("Last amount (human-readable)"),
+					steps: z.number().int().min(2).max(MAX_LADDER_STEPS),
+				})
+				.optional()
+				.describe("Evenly spaced amounts from start to end, instead of amounts"),
+			options: z
+				.object({
+					direct: z.boolean().optional(),
+					excludeProtocols: z.array(z.string()).optional(),
+				})
+				.optional(),
+		}),
+		outputSchema: outputSchemas.priceLadder,
+		handler: getPriceLadderHandler,
+	},
+	{
+		name: "compare-chains",
+		description:
+			"Quote the same token pair on each chain and rank the chains by net output after estimated gas (chains whose gas cannot be estimated rank last)",
+		inputSchema: z.object({
+			tokenIn: z.string().min(1).describe('Input token symbol, e.g. "USDC"'),
+			tokenOut: z.string().min(1).describe('Output token symbol, e.g. "ETH"'),
+			amountHuman: schemas.amountHuman,
+			chains: z
+				.array(schemas.chainName)
+				.min(1)
+				.optional()
+				.describe("Chains to compare (default: all supported chains)"),
+		}),
+		outputSchema: outputSchemas.chainComparison,
+		handler: compareChainsHandler,
+	},
 	{
 		name: "get-best-route-batch",
 		description: "Find the best routes for multiple swaps (Starknet only)",
@@ -125,6 +660,7 @@ const tools: any[] = [
 			tokenOutAddresses: z.array(schemas.tokenAddress),
 			chainName: z.literal("starknet"),
 		}),
+		outputSchema: outputSchemas.routeBatch,
 		// We'll update imports to include this handler next
 		handler: async (args: any, router: FibrousRouter) => {
 			const { getBestRouteBatchHandler } = await import("./tools/handlers.js");
@@ -135,10 +671,10 @@ const tools: any[] = [
 		name: "build-transaction",
 		description: "Build the transaction data for a swap",
 		inputSchema: z.object({
-			amount: schemas.amount,
+			...amountInputShape,
 			tokenInAddress: schemas.tokenAddress,
 			tokenOutAddress: schemas.tokenAddress,
-			slippage: schemas.slippage,
+			slippage: swapSlippageSchema,
 			receiverAddress: z.string().min(1).describe("Recipient wallet address"),
 			chainName: schemas.chainName,
 			options: z
@@ -148,6 +684,7 @@ const tools: any[] = [
 				})
 				.optional(),
 		}),
+		outputSchema: outputSchemas.transaction,
 		handler: buildTransactionHandler,
 	},
 	{
@@ -157,10 +694,15 @@ const tools: any[] = [
 			amounts: z.array(schemas.amount),
 			tokenInAddresses: z.array(schemas.tokenAddress),
 			tokenOutAddresses: z.array(schemas.tokenAddress),
-			slippage: schemas.slippage,
+			slippage: schemas.slippage
+				.optional()
+				.describe(
+					"Slippage percentage (0.01-50%) for every swap; defaults to SLIPPAGE_BY_CHAIN, then DEFAULT_SLIPPAGE"
+				),
 			receiverAddress: z.string().min(1).describe("Recipient wallet address"),
 			chainName: z.literal("starknet"),
 		}),
+		outputSchema: outputSchemas.batchTransaction,
 		// We'll update imports to include this handler next
 		handler: async (args: any, router: FibrousRouter) => {
 			const { buildBatchTransactionHandler } = await import("./tools/handlers.js");
@@ -175,6 +717,7 @@ const tools: any[] = [
 			decimals: schemas.decimals,
 			operation: schemas.operation,
 		}),
+		outputSchema: outputSchemas.tokenAmount,
 		handler: formatTokenAmountHandler,
 	},
 	{
@@ -184,8 +727,98 @@ const tools: any[] = [
 			address: schemas.tokenAddress,
 			chainName: schemas.chainName,
 		}),
+		outputSchema: outputSchemas.token,
 		handler: getTokenHandler,
 	},
+	{
+		name: "get-wallet-balances",
+		description:
+			"Get native and token balances, with Fibrous router allowances, for the configured wallet or any address",
+		inputSchema: z.object({
+			chainName: schemas.chainName,
+			address: z
+				.string()
+				.min(1)
+				.optional()
+				.describe("Wallet address (defaults to the configured wallet)"),
+			tokens: z
+				.array(schemas.tokenAddress)
+				.optional()
+				.describe("Tokens to check (defaults to all supported tokens)"),
+			supportedOnly: z
+				.boolean()
+				.optional()
+				.describe("Skip tokens not returned by get-supported-tokens"),
+			includeZeroBalances: z
+				.boolean()
+				.optional()
+				.describe(
+					"Include tokens with a zero balance (default: only when tokens are given)"
+				),
+		}),
+		outputSchema: outputSchemas.walletBalances,
+		handler: getWalletBalancesHandler,
+	},
+	{
+		name: "get-allowances",
+		description:
+			"List the token allowances a wallet has granted to the Fibrous router (or another spender)",
+		inputSchema: z.object({
+			chainName: schemas.chainName,
+			address: z
+				.string()
+				.min(1)
+				.optional()
+				.describe("Wallet address (defaults to the configured wallet)"),
+			tokens: z
+				.array(schemas.tokenAddress)
+				.optional()
+				.describe(
+					"Tokens to check (defaults to all supported tokens, open allowances only)"
+				),
+			spender: z
+				.string()
+				.min(1)
+				.optional()
+				.describe("Spender address (defaults to the Fibrous router)"),
+		}),
+		outputSchema: outputSchemas.allowances,
+		handler: getAllowancesHandler,
+	},
+	{
+		name: "get-swap-history",
+		description:
+			"List recorded swaps (executed, simulated and failed), newest first, filtered by chain, token, status or date",
+		inputSchema: z.object({
+			chainName: schemas.chainName.optional(),
+			token: schemas.tokenAddress
+				.optional()
+				.describe("Input or output token (a symbol requires chainName)"),
+			status: swapStatusSchema.optional(),
+			from: z.string().optional().describe("Earliest start time (ISO 8601)"),
+			to: z.string().optional().describe("Latest start time (ISO 8601)"),
+			limit: z
+				.number()
+				.int()
+				.min(1)
+				.max(500)
+				.optional()
+				.describe("Maximum records to return (default: 50)"),
+		}),
+		outputSchema: outputSchemas.swapHistory,
+		handler: getSwapHistoryHandler,
+	},
+	{
+		name: "get-transaction-status",
+		description:
+			"Get a transaction's status (pending, confirmed or reverted), confirmations, gas used, fee and revert reason",
+		inputSchema: z.object({
+			transactionHash: z.string().describe("Transaction hash (0x-prefixed)"),
+			chainName: schemas.chainName,
+		}),
+		outputSchema: outputSchemas.transactionStatus,
+		handler: getTransactionStatusHandler,
+	},
 ];
 
 // Conditionally add tools that require wallet configuration
@@ -196,259 +829,325 @@ if (validChains.length > 0) {
 			name: "execute-swap",
 			description: `Execute a token swap (Available for: ${validChains.join(", ")})`,
 			inputSchema: z.object({
-				amount: schemas.amount,
+				...amountInputShape,
 				tokenInAddress: schemas.tokenAddress,
 				tokenOutAddress: schemas.tokenAddress,
-				slippage: schemas.slippage.optional(),
+				slippage: swapSlippageSchema,
 				receiverAddress: z
 					.string()
 					.optional()
 					.describe("Address to receive swapped tokens"),
 				chainName: schemas.chainName,
+				dryRun: z
+					.boolean()
+					.optional()
+					.describe("Simulate the approve + swap calls without broadcasting"),
 			}),
+			outputSchema: outputSchemas.swapResult,
 			handler: executeSwapHandler,
 		},
+		{
+			name: "prepare-swap",
+			description: `Quote a swap for confirmation; returns a short-lived quote ID and nothing is signed (Available for: ${validChains.join(", ")})`,
+			inputSchema: z.object({
+				...amountInputShape,
+				tokenInAddress: schemas.tokenAddress,
+				tokenOutAddress: schemas.tokenAddress,
+				slippage: swapSlippageSchema,
+				receiverAddress: z
+					.string()
+					.optional()
+					.describe("Address to receive swapped tokens"),
+				chainName: schemas.chainName,
+			}),
+			outputSchema: outputSchemas.swapQuote,
+			handler: prepareSwapHandler,
+		},
+		{
+			name: "confirm-swap",
+			description:
+				"Execute a quote from prepare-swap, unless it has expired or the price has drifted past the tolerance",
+			inputSchema: z.object({
+				quoteId: z.string().min(1).describe("Quote ID returned by prepare-swap"),
+			}),
+			outputSchema: outputSchemas.swapResult,
+			handler: confirmSwapHandler,
+		},
 		{
 			name: "estimate-swap",
 			description: `Estimate gas cost for a token swap (Available for: ${validChains.join(", ")})`,
 			inputSchema: z.object({
-				amount: schemas.amount,
+				...amountInputShape,
 				tokenInAddress: schemas.tokenAddress,
 				tokenOutAddress: schemas.tokenAddress,
-				slippage: schemas.slippage.optional(),
+				slippage: swapSlippageSchema,
 				chainName: schemas.chainName,
 			}),
+			outputSchema: outputSchemas.gasEstimate,
 			handler: estimateSwapHandler,
+		},
+		{
+			name: "revoke-approval",
+			description: `Revoke a token allowance granted by the configured wallet (Available for: ${validChains.join(", ")})`,
+			inputSchema: z.object({
+				chainName: schemas.chainName,
+				tokenAddress: schemas.tokenAddress,
+				spender: z
+					.string()
+					.min(1)
+					.optional()
+					.describe("Spender address (defaults to the Fibrous router)"),
+			}),
+			outputSchema: outputSchemas.revokeResult,
+			handler: revokeApprovalHandler,
 		}
 	);
 }
 
-// Register all tools
-tools.forEach((tool) => {
-	const { name, description, inputSchema, handler } = tool;
+/**
+ * Register every tool definition on a server instance
+ */
+function registerTools(server: McpServer): void {
+	tools.forEach((tool) => {
+		const { name, description, inputSchema, outputSchema, handler } = tool;
 
-	// Create wrapper function to inject fibrousRouter
-	const wrappedHandler = async (args: any) => {
-		return (handler as any)(args, fibrousRouter);
-	};
+		// Create wrapper function to inject fibrousRouter
+		const wrappedHandler = async (args: any) => {
+			return (handler as any)(args, fibrousRouter);
+		};
 
-	server.tool(name, { description, input: inputSchema } as any, wrappedHandler);
-});
-
-// Log total number of tools
+		server.registerTool(name, { description, inputSchema, outputSchema }, wrappedHandler);
+	});
+}
 
 // --- Resources ---
 
-server.resource("fibrous-config", "fibrous://config", async (uri) => ({
-	contents: [
-		{
-			uri: uri.href,
-			text: JSON.stringify(
-				{
-					serverInfo: {
-						name: SERVER_CONFIG.name,
-						version: SERVER_CONFIG.version,
-						description: SERVER_CONFIG.description,
-					},
-					capabilities: {
-						supportedChains: SERVER_CONFIG.supportedChains,
-						rateLimit: SERVER_CONFIG.rateLimit,
-						features: [
-							"Token discovery",
-							"Protocol aggregation",
-							"Route optimization",
-							"Transaction building",
-						],
+function registerResources(server: McpServer): void {
+	server.resource("fibrous-config", "fibrous://config", async (uri) => ({
+		contents: [
+			{
+				uri: uri.href,
+				text: JSON.stringify(
+					{
+						serverInfo: {
+							name: SERVER_CONFIG.name,
+							version: SERVER_CONFIG.version,
+							description: SERVER_CONFIG.description,
+						},
+						capabilities: {
+							supportedChains: SERVER_CONFIG.supportedChains,
+							rateLimit: SERVER_CONFIG.rateLimit,
+							features: [
+								"Token discovery",
+								"Protocol aggregation",
+								"Route optimization",
+								"Transaction building",
+							],
+						},
+						endpoints: SERVER_CONFIG.apiEndpoints,
+						documentation: "https://docs.fibrous.finance/",
+						lastUpdated: new Date().toISOString(),
 					},
-					endpoints: SERVER_CONFIG.apiEndpoints,
-					documentation: "https://docs.fibrous.finance/",
-					lastUpdated: new Date().toISOString(),
-				},
-				null,
-				2
-			),
-		},
-	],
-}));
+					null,
+					2
+				),
+			},
+		],
+	}));
 
-server.resource(
-	"chain-info",
-	new ResourceTemplate("chain://{chainName}/info", { list: undefined }),
-	async (uri, { chainName }) => {
-		const chainNameStr = Array.isArray(chainName) ? chainName[0] : chainName;
+	server.resource(
+		"chain-info",
+		new ResourceTemplate("chain://{chainName}/info", { list: undefined }),
+		async (uri, { chainName }) => {
+			const chainNameStr = Array.isArray(chainName) ? chainName[0] : chainName;
 
-		try {
-			validateChain(chainNameStr);
+			try {
+				validateChain(chainNameStr);
 
-			const [tokens, protocols] = await Promise.allSettled([
-				fibrousRouter.supportedTokens(chainNameStr),
-				fibrousRouter.supportedProtocols(chainNameStr),
-			]);
+				const [tokens, protocols] = await Promise.allSettled([
+					fibrousRouter.supportedTokens(chainNameStr),
+					fibrousRouter.supportedProtocols(chainNameStr),
+				]);
 
-			const tokensResult = tokens.status === "fulfilled" ? tokens.value : null;
-			const protocolsResult = protocols.status === "fulfilled" ? protocols.value : null;
+				const tokensResult = tokens.status === "fulfilled" ? tokens.value : null;
+				const protocolsResult = protocols.status === "fulfilled" ? protocols.value : null;
 
-			return {
-				contents: [
-					{
-						uri: uri.href,
-						text: JSON.stringify(
-							{
-								chainName: chainNameStr,
-								lastUpdated: new Date().toISOString(),
-								tokenCount: tokensResult ? tokensResult.size : 0,
-								protocolCount: protocolsResult ? protocolsResult.size : 0,
-							},
-							null,
-							2
-						),
-					},
-				],
-			};
-		} catch (error) {
-			return {
-				contents: [
-					{
-						uri: uri.href,
-						text: JSON.stringify(
-							{
-								chainName: chainNameStr,
-								error: error instanceof Error ? error.message : "Unknown error",
-								timestamp: new Date().toISOString(),
-							},
-							null,
-							2
-						),
-					},
-				],
-			};
+				return {
+					contents: [
+						{
+							uri: uri.href,
+							text: JSON.stringify(
+								{
+									chainName: chainNameStr,
+									lastUpdated: new Date().toISOString(),
+									tokenCount: tokensResult ? tokensResult.size : 0,
+									protocolCount: protocolsResult ? protocolsResult.size : 0,
+								},
+								null,
+								2
+							),
+						},
+					],
+				};
+			} catch (error) {
+				return {
+					contents: [
+						{
+							uri: uri.href,
+							text: JSON.stringify(
+								{
+									chainName: chainNameStr,
+									error: error instanceof Error ? error.message : "Unknown error",
+									timestamp: new Date().toISOString(),
+								},
+								null,
+								2
+							),
+						},
+					],
+				};
+			}
 		}
-	}
-);
+	);
 
-server.resource(
-	"greeting",
-	new ResourceTemplate("greeting://{name}", { list: undefined }),
-	async (uri, { name }) => ({
-		contents: [
-			{
-				uri: uri.href,
-				text: `Hello ${name}! Welcome to Fibrous MCP Server.
+	server.resource(
+		"greeting",
+		new ResourceTemplate("greeting://{name}", { list: undefined }),
+		async (uri, { name }) => ({
+			contents: [
+				{
+					uri: uri.href,
+					text: `Hello ${name}! Welcome to Fibrous MCP Server.
 
-Available tools: get-supported-tokens, get-supported-protocols, get-best-route, build-transaction, format-token-amount, get-token
+Available tools: get-supported-tokens, get-supported-protocols, get-best-route, analyze-route, get-price-ladder, compare-chains, build-transaction, format-token-amount, get-token, get-wallet-balances, get-allowances, get-swap-history, get-transaction-status
 
 Supported chains: ${SERVER_CONFIG.supportedChains.join(", ")}
 
 Use "help" prompt for detailed documentation.`,
-			},
-		],
-	})
-);
+				},
+			],
+		})
+	);
+}
 
 // --- Prompts ---
 
-server.prompt(
-	"analyze-swap",
-	{
-		tokenIn: z.string().describe("Input token"),
-		tokenOut: z.string().describe("Output token"),
-		amount: z.string().describe("Amount to swap"),
-		chainName: schemas.chainName as any,
-	} as any,
-	(({
-		tokenIn,
-		tokenOut,
-		amount,
-		chainName,
-	}: {
-		tokenIn: string;
-		tokenOut: string;
-		amount: string;
-		chainName: string;
-	}) => ({
-		messages: [
-			{
-				role: "user",
-				content: {
-					type: "text",
-					text: `Analyze this token swap on ${chainName}:
+function registerPrompts(server: McpServer): void {
+	server.prompt(
+		"analyze-swap",
+		{
+			tokenIn: z.string().describe("Input token"),
+			tokenOut: z.string().describe("Output token"),
+			amount: z.string().describe("Amount to swap"),
+			chainName: schemas.chainName as any,
+		} as any,
+		(({
+			tokenIn,
+			tokenOut,
+			amount,
+			chainName,
+		}: {
+			tokenIn: string;
+			tokenOut: string;
+			amount: string;
+			chainName: string;
+		}) => ({
+			messages: [
+				{
+					role: "user",
+					content: {
+						type: "text",
+						text: `Analyze this token swap on ${chainName}:
 
 From: ${tokenIn}
 To: ${tokenOut}
 Amount: ${amount}
 
 Please use Fibrous SDK tools to:
-1. Get route analysis with get-best-route
-2. Provide slippage recommendations
-3. Assess costs and risks
-4. Suggest optimization strategies`,
+1. Run analyze-route for the price impact, rates, hops, protocols, gas share and risk grade
+2. Explain the risk grade and its risk factors
+3. Suggest a slippage, starting from recommendedSlippage
+4. Suggest optimization strategies (e.g. a smaller or split trade when the price impact is high)`,
+					},
 				},
-			},
-		],
-	})) as any
-);
+			],
+		})) as any
+	);
 
-server.prompt(
-	"defi-strategy",
-	{
-		portfolio: z.string().describe("Current portfolio"),
-		goal: z.string().describe("Investment goal"),
-		riskTolerance: z.string().optional().describe("Risk tolerance"),
-	} as any,
-	(({
-		portfolio,
-		goal,
-		riskTolerance,
-	}: {
-		portfolio: string;
-		goal: string;
-		riskTolerance?: string;
-	}) => ({
-		messages: [
-			{
-				role: "user",
-				content: {
-					type: "text",
-					text: `Analyze DeFi portfolio strategy:
+	server.prompt(
+		"defi-strategy",
+		{
+			portfolio: z.string().describe("Current portfolio"),
+			goal: z.string().describe("Investment goal"),
+			riskTolerance: z.string().optional().describe("Risk tolerance"),
+		} as any,
+		(({
+			portfolio,
+			goal,
+			riskTolerance,
+		}: {
+			portfolio: string;
+			goal: string;
+			riskTolerance?: string;
+		}) => ({
+			messages: [
+				{
+					role: "user",
+					content: {
+						type: "text",
+						text: `Analyze DeFi portfolio strategy:
 
 Portfolio: ${portfolio}
 Goal: ${goal}
 Risk Tolerance: ${riskTolerance || "Not specified"}
 
 Use Fibrous tools to analyze rebalancing opportunities and provide actionable recommendations.`,
+					},
 				},
-			},
-		],
-	})) as any
-);
+			],
+		})) as any
+	);
 
-server.prompt("help", {}, () => ({
-	messages: [
-		{
-			role: "user",
-			content: {
-				type: "text",
-				text: `Fibrous MCP Server Documentation
+	server.prompt("help", {}, () => ({
+		messages: [
+			{
+				role: "user",
+				content: {
+					type: "text",
+					text: `Fibrous MCP Server Documentation
 
 TOOLS:
 • get-supported-tokens - Get available tokens for a chain
 • get-supported-protocols - List DEX protocols  
 • get-best-route - Find optimal swap routes
+• analyze-route - Grade a route: price impact, rates, hops, protocols and gas share
+• get-price-ladder - Quote a pair across several amounts to size a trade
+• compare-chains - Rank chains by net output after gas for the same pair
 • build-transaction - Generate transaction data
 • format-token-amount - Convert amounts
 • get-token - Get token info by address
-• execute-swap - Execute token swap with real transactions
+• get-wallet-balances - Get wallet balances and router allowances
+• get-allowances - List router allowances granted by a wallet
+• get-swap-history - List recorded swaps by chain, token, status or date
+• get-transaction-status - Check a transaction's status, confirmations, fee and revert reason
+• execute-swap - Execute token swap with real transactions (dryRun: true to simulate only)
+• prepare-swap - Quote a swap and get a short-lived quote ID to confirm
+• confirm-swap - Execute a prepared quote if it is still valid
 • estimate-swap - Estimate gas costs for swaps
+• revoke-approval - Revoke a router allowance
 
 SUPPORTED CHAINS: ${SERVER_CONFIG.supportedChains.join(", ")}
 
+Tokens can be given by address or by symbol (e.g. "USDC"); symbols are resolved per chain from the supported token list.
+Route and swap tools take the input amount as "amountWei" or "amountHuman" (e.g. "1.5"); decimals are resolved from the token data.
+
 EXAMPLE USAGE:
 {
 	"name": "get-best-route",
 	"arguments": {
-		"amount": "1000000000000000000",
-		"tokenInAddress": "0x...",
-		"tokenOutAddress": "0x...",
+		"amountHuman": "1.5",
+		"tokenInAddress": "ETH",
+		"tokenOutAddress": "USDC",
 		"chainName": "base"
 	}
 }
@@ -456,7 +1155,7 @@ EXAMPLE USAGE:
 {
 	"name": "execute-swap",
 	"arguments": {
-		"amount": "1000000000000000000",
+		"amountWei": "1000000000000000000",
 		"tokenInAddress": "0x...",
 		"tokenOutAddress": "0x...",
 		"slippage": 1,
@@ -464,10 +1163,37 @@ EXAMPLE USAGE:
 	}
 }
 
+On Base and Scroll, native ETH can be used as tokenIn or tokenOut via 0x0000000000000000000000000000000000000000 (or 0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE).
+
+Set "dryRun": true on execute-swap to simulate the swap and get the expected output, gas and revert reason without broadcasting.
+
 ⚠️  IMPORTANT: execute-swap requires wallet configuration in environment variables!
 
 For detailed help with any specific tool or operation, just ask!`,
+				},
 			},
-		},
-	],
-}));
+		],
+	}));
+}
+
+// --- Server Factory ---
+
+/**
+ * Create an MCP server with all Fibrous tools, resources and prompts registered.
+ * Every session of the HTTP transport gets its own instance sharing the same router.
+ */
+export function createServer(): McpServer {
+	const server = new McpServer({
+		name: SERVER_CONFIG.name,
+		version: SERVER_CONFIG.version,
+	});
+
+	registerTools(server);
+	registerResources(server);
+	registerPrompts(server);
+
+	return server;
+}
+
+// Default instance used by the stdio transport
+export const server = createServer();
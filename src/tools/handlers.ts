@@ -1,10 +1,11 @@
 import type { Router as FibrousRouter } from "fibrous-router-sdk";
 import {
 	type Token,
-	type getBestRouteParams,
 	type buildRouteAndCalldataParams,
 	type getBestRouteBatchParams,
 	type buildBatchTransactionParams,
+	type RouteSuccess,
+	type RouteFailure,
 } from "fibrous-router-sdk";
 import {
 	convertAmount,
@@ -18,12 +19,64 @@ import {
 	estimateSwapGas,
 	getChainConfig,
 	validateChainConfig,
-	DEFAULTS,
 	type SwapParams,
+	type GasEstimate,
 	type SupportedChain,
 	type McpSuccessResponse,
 	type McpErrorResponse,
 	mapProtocolIds,
+	resolveAmount,
+	resolveTokenAddresses,
+	ToolError,
+	type AmountInput,
+	isSameAddress,
+	isValidAddressForChain,
+	getRpcUrl,
+	getWalletAddress,
+	getWalletBalances,
+	isUnlimitedAllowance,
+	revokeApproval,
+	type FailedBalance,
+	type ResolvedAmount,
+	type SwapResult,
+	formatAmountPretty,
+	getServerConfig,
+	saveQuote,
+	getQuote,
+	consumeQuote,
+	getMinOutput,
+	getFloorSlippage,
+	getQuoteDrift,
+	estimatePriceImpact,
+	getSwapPolicy,
+	isPolicyActive,
+	enforceSwapPolicy,
+	reserveSwapSpend,
+	type ChainConfig,
+	classifyError,
+	recordSwap,
+	querySwapHistory,
+	type SwapRecord,
+	type SwapStatus,
+	isTokenAddress,
+	getTransactionStatus,
+	valueTrade,
+	resolveSlippage,
+	getChainSlippage,
+	recommendSlippage,
+	type ResolvedSlippage,
+	analyzeRoute,
+	getReferenceAmount,
+	getRouteRate,
+	getLadderAmounts,
+	buildPriceLadder,
+	getTokenDecimals,
+	getTokenPriceUsd,
+	type LadderRange,
+	getChainQuote,
+	rankChainQuotes,
+	SUPPORTED_CHAINS,
+	normalizeRoute,
 } from "../utils/index.js";
 
 type ToolResponse = McpSuccessResponse | McpErrorResponse;
@@ -51,10 +104,14 @@ export async function getSupportedTokensHandler(
 		}
 
 		if (Object.keys(tokensObject).length === 0) {
-			return createEmptyResponse("tokens", chainName);
+			return createEmptyResponse("tokens", chainName, { chainName, count: 0, tokens: {} });
 		}
 
-		return createSuccessResponse(tokensObject, `Supported tokens for ${chainName}`);
+		const count = Object.keys(tokensObject).length;
+		return createSuccessResponse(
+			{ chainName, count, tokens: tokensObject },
+			`Supported tokens for ${chainName}: ${count} tokens`
+		);
 	} catch (error) {
 		return createErrorResponse(error, "get-supported-tokens", chainName);
 	}
@@ -71,60 +128,338 @@ export async function getSupportedProtocolsHandler(
 		validateChain(chainName);
 		const protocols = await fibrousRouter.supportedProtocols(chainName);
 
-		return createSuccessResponse(protocols, `Supported protocols for ${chainName}`);
+		return createSuccessResponse(
+			{ chainName, protocols },
+			`Supported protocols for ${chainName}: ${Object.keys(protocols).join(", ")}`
+		);
 	} catch (error) {
 		return createErrorResponse(error, "get-supported-protocols", chainName);
 	}
 }
 
+type RouteArgs = AmountInput & {
+	tokenInAddress: string;
+	tokenOutAddress: string;
+	chainName: string;
+	options?: { direct?: boolean; excludeProtocols?: string[] };
+};
+
+/**
+ * Resolve a route tool's tokens and amount, then fetch the best route
+ */
+async function findBestRoute(
+	{
+		amount,
+		amountWei,
+		amountHuman,
+		tokenInAddress,
+		tokenOutAddress,
+		chainName,
+		options,
+	}: RouteArgs,
+	fibrousRouter: FibrousRouter
+): Promise<{ swapParams: SwapParams; amount: ResolvedAmount; route: RouteSuccess }> {
+	validateChain(chainName);
+
+	// Token arguments may be symbols (e.g. "USDC") instead of addresses
+	const [tokenIn, tokenOut] = await resolveTokenAddresses(
+		[tokenInAddress, tokenOutAddress],
+		chainName,
+		fibrousRouter
+	);
+
+	const resolvedAmount = await resolveAmount(
+		{ amount, amountWei, amountHuman },
+		tokenIn,
+		chainName,
+		fibrousRouter
+	);
+
+	const swapParams: SwapParams = {
+		amount: resolvedAmount.wei,
+		tokenInAddress: tokenIn,
+		tokenOutAddress: tokenOut,
+		chainName,
+		options,
+	};
+	const route = await fetchSwapRoute(swapParams, fibrousRouter);
+	return { swapParams, amount: resolvedAmount, route };
+}
+
 /**
  * Find the best route between two tokens
  */
 export async function getBestRouteHandler(
+	args: RouteArgs,
+	fibrousRouter: FibrousRouter
+): Promise<ToolResponse> {
+	const { chainName } = args;
+	try {
+		const {
+			swapParams,
+			amount: resolvedAmount,
+			route,
+		} = await findBestRoute(args, fibrousRouter);
+
+		const { inputValueUsd, outputValueUsd } = await valueTrade(
+			swapParams.chainName,
+			route,
+			undefined,
+			fibrousRouter
+		);
+
+		return createSuccessResponse(
+			{
+				amount: resolvedAmount,
+				route: normalizeRoute(route),
+				inputValueUsd,
+				outputValueUsd,
+				recommendedSlippage: recommendSlippage(route),
+			},
+			`Best route for ${chainName} swap`
+		);
+	} catch (error) {
+		console.error(`Error finding route on ${chainName}:`, error);
+		return createErrorResponse(error, "get-best-route", chainName);
+	}
+}
+
+/**
+ * Analyze a route's quality: price impact against a small reference quote,
+ * rates, hops and protocols, gas share of the trade and a risk grade
+ */
+export async function analyzeRouteHandler(
+	args: RouteArgs,
+	fibrousRouter: FibrousRouter
+): Promise<ToolResponse> {
+	const { chainName } = args;
+	try {
+		const {
+			swapParams,
+			amount: resolvedAmount,
+			route,
+		} = await findBestRoute(args, fibrousRouter);
+
+		// A failed reference quote leaves the price impact unknown rather than failing
+		const referenceAmount = getReferenceAmount(toBigInt(route.inputAmount), route.inputToken);
+		let referenceRoute: RouteSuccess | undefined;
+		if (referenceAmount) {
+			try {
+				referenceRoute = await fetchSwapRoute(
+					{ ...swapParams, amount: referenceAmount.toString() },
+					fibrousRouter
+				);
+			} catch (error) {
+				console.error(
+					`[WARN] Reference quote failed on ${chainName}: ${error instanceof Error ? error.message : error}`
+				);
+			}
+		}
+
+		const { inputValueUsd, outputValueUsd } = await valueTrade(
+			swapParams.chainName,
+			route,
+			undefined,
+			fibrousRouter
+		);
+		const analysis = analyzeRoute(route, referenceRoute, { inputValueUsd });
+
+		return createSuccessResponse(
+			{
+				amount: resolvedAmount,
+				tokenIn: route.inputToken.symbol,
+				tokenOut: route.outputToken.symbol,
+				inputValueUsd,
+				outputValueUsd,
+				analysis,
+				recommendedSlippage: recommendSlippage(route),
+				route: normalizeRoute(route),
+			},
+			`Route analysis for ${chainName} swap: risk grade ${analysis.riskGrade}${analysis.riskFactors.length > 0 ? ` (${analysis.riskFactors.join("; ")})` : ""}`
+		);
+	} catch (error) {
+		console.error(`Error analyzing route on ${chainName}:`, error);
+		return createErrorResponse(error, "analyze-route", chainName);
+	}
+}
+
+/**
+ * Quote a pair across a ladder of input amounts, to find where size gets expensive
+ */
+export async function getPriceLadderHandler(
 	{
-		amount,
 		tokenInAddress,
 		tokenOutAddress,
 		chainName,
+		amounts,
+		range,
 		options,
 	}: {
-		amount: string;
 		tokenInAddress: string;
 		tokenOutAddress: string;
 		chainName: string;
+		amounts?: string[];
+		range?: LadderRange;
 		options?: { direct?: boolean; excludeProtocols?: string[] };
 	},
 	fibrousRouter: FibrousRouter
 ): Promise<ToolResponse> {
 	try {
 		validateChain(chainName);
-		const amountBI = toBigInt(amount);
 
-		// Resolve chainId (V2 best practice)
-		const supportedChains = fibrousRouter.supportedChains;
-		const chainId = supportedChains.find((c) => c.chain_name === chainName)?.chain_id;
+		// Token arguments may be symbols (e.g. "USDC") instead of addresses
+		const [tokenIn, tokenOut] = await resolveTokenAddresses(
+			[tokenInAddress, tokenOutAddress],
+			chainName,
+			fibrousRouter
+		);
 
-		const params: getBestRouteParams = {
-			amount: amountBI,
-			tokenInAddress,
-			tokenOutAddress,
-			chainId: chainId!, // chainName is validated, but chainId might be missing if refresh failed
-			options: options
-				? {
-						...options,
-						excludeProtocols: options.excludeProtocols
-							? mapProtocolIds(options.excludeProtocols)
-							: undefined,
-					}
-				: undefined,
-		};
+		const decimals = await getTokenDecimals(tokenIn, chainName, fibrousRouter);
+		const ladderAmounts = getLadderAmounts({ amounts, range }, decimals);
+		const fetchRoute = (amount: string) =>
+			fetchSwapRoute(
+				{ amount, tokenInAddress: tokenIn, tokenOutAddress: tokenOut, chainName, options },
+				fibrousRouter
+			);
+
+		// Price impact is measured against a quote no larger than the first step
+		const price = await getTokenPriceUsd(chainName, { address: tokenIn }, fibrousRouter);
+		const referenceAmount = getReferenceAmount(BigInt(ladderAmounts[0]), {
+			decimals: String(decimals),
+			price: price ?? null,
+		});
+		let referenceRate: number | undefined;
+		if (referenceAmount) {
+			try {
+				referenceRate = getRouteRate(await fetchRoute(referenceAmount.toString()));
+			} catch (error) {
+				console.error(
+					`[WARN] Reference quote failed on ${chainName}: ${error instanceof Error ? error.message : error}`
+				);
+			}
+		}
 
-		const route = await fibrousRouter.getBestRoute(params);
+		const steps = await buildPriceLadder(ladderAmounts, decimals, fetchRoute, referenceRate);
+		const routed = steps.filter((step) => !step.error).length;
+		if (routed === 0) {
+			throw new ToolError(
+				"NO_ROUTE",
+				`No route found for any ladder amount: ${steps[0].error}`,
+				{
+					details: { tokenIn, tokenOut, steps },
+				}
+			);
+		}
 
-		return createSuccessResponse(route, `Best route for ${chainName} swap`);
+		return createSuccessResponse(
+			{
+				chainName,
+				tokenIn,
+				tokenOut,
+				steps,
+			},
+			`Price ladder for ${chainName}: ${routed} of ${steps.length} amounts routed`
+		);
 	} catch (error) {
-		console.error(`Error finding route on ${chainName}:`, error);
-		return createErrorResponse(error, "get-best-route", chainName);
+		console.error(`Error building price ladder on ${chainName}:`, error);
+		return createErrorResponse(error, "get-price-ladder", chainName);
+	}
+}
+
+/**
+ * Quote the same pair on several chains and rank them by net output after gas
+ */
+export async function compareChainsHandler(
+	{
+		tokenIn,
+		tokenOut,
+		amountHuman,
+		chains,
+	}: {
+		tokenIn: string;
+		tokenOut: string;
+		amountHuman: string;
+		chains?: string[];
+	},
+	fibrousRouter: FibrousRouter
+): Promise<ToolResponse> {
+	try {
+		const chainNames = chains && chains.length > 0 ? chains : [...SUPPORTED_CHAINS];
+		chainNames.forEach((chainName) => validateChain(chainName));
+
+		// Addresses differ from chain to chain, so the pair is given by symbol
+		const addresses = [tokenIn, tokenOut].filter(isTokenAddress);
+		if (addresses.length > 0) {
+			throw new ToolError(
+				"INVALID_PARAMS",
+				`compare-chains takes token symbols, not addresses: ${addresses.join(", ")}`
+			);
+		}
+
+		const results = await Promise.allSettled(
+			chainNames.map(async (chainName) => {
+				const { swapParams, amount, route } = await findBestRoute(
+					{ amountHuman, tokenInAddress: tokenIn, tokenOutAddress: tokenOut, chainName },
+					fibrousRouter
+				);
+
+				// Gas is estimated as in estimate-swap and prepare-swap, on chains with a wallet
+				let gasEstimate: GasEstimate | undefined;
+				if (validateChainConfig(swapParams.chainName).isValid) {
+					gasEstimate = await estimateSwapGas(
+						swapParams,
+						getChainConfig(swapParams.chainName),
+						fibrousRouter
+					).catch((error) => {
+						console.error(
+							`[WARN] Gas estimate failed on ${swapParams.chainName}:`,
+							error
+						);
+						return undefined;
+					});
+				}
+
+				// Fallback estimates are placeholders, so the chain ranks as gas unknown
+				if (gasEstimate?.source === "fallback") {
+					console.error(
+						`[WARN] No gas estimate on ${swapParams.chainName}: ${gasEstimate.fallbackReason ?? "RPC estimate failed"}`
+					);
+					gasEstimate = undefined;
+				}
+
+				const valuation = await valueTrade(
+					swapParams.chainName,
+					route,
+					gasEstimate,
+					fibrousRouter
+				);
+				return getChainQuote(swapParams.chainName, amount, route, valuation);
+			})
+		);
+
+		const quotes = results.flatMap((result) =>
+			result.status === "fulfilled" ? [result.value] : []
+		);
+		const failed = results.flatMap((result, index) => {
+			if (result.status === "fulfilled") return [];
+			const { code, message } = classifyError(result.reason);
+			return [{ chainName: chainNames[index], error: message, errorCode: code }];
+		});
+		if (quotes.length === 0) {
+			throw new ToolError("NO_ROUTE", `No chain could route ${tokenIn} to ${tokenOut}`, {
+				details: { failed },
+			});
+		}
+
+		const ranking = rankChainQuotes(quotes);
+		const [best] = ranking;
+		return createSuccessResponse(
+			{ tokenIn, tokenOut, amountHuman, bestChain: best.chainName, ranking, failed },
+			`Best execution for ${amountHuman} ${tokenIn} → ${tokenOut}: ${best.chainName} (${best.netOutput} ${tokenOut}${best.gasIncluded ? " after gas" : ""})`
+		);
+	} catch (error) {
+		console.error("Error comparing chains:", error);
+		return createErrorResponse(error, "compare-chains");
 	}
 }
 
@@ -148,7 +483,7 @@ export async function getBestRouteBatchHandler(
 	try {
 		validateChain(chainName);
 		if (chainName !== "starknet") {
-			throw new Error("Batch routes are only supported on Starknet");
+			throw new ToolError("UNSUPPORTED_CHAIN", "Batch routes are only supported on Starknet");
 		}
 
 		// Convert strings to bigints
@@ -156,20 +491,35 @@ export async function getBestRouteBatchHandler(
 
 		console.error(`Finding batch routes on ${chainName}: ${amounts.length} swaps`);
 
+		// Token arguments may be symbols (e.g. "USDC") instead of addresses
+		const [tokenIns, tokenOuts] = await Promise.all([
+			resolveTokenAddresses(tokenInAddresses, chainName, fibrousRouter),
+			resolveTokenAddresses(tokenOutAddresses, chainName, fibrousRouter),
+		]);
+
 		// Resolve chainId
 		const supportedChains = fibrousRouter.supportedChains;
 		const chainId = supportedChains.find((c) => c.chain_name === chainName)?.chain_id;
 
 		const params: getBestRouteBatchParams = {
 			amounts: amountsBI,
-			tokenInAddresses,
-			tokenOutAddresses,
+			tokenInAddresses: tokenIns,
+			tokenOutAddresses: tokenOuts,
 			chainId: chainId!,
 		};
 
 		const routes = await fibrousRouter.getBestRouteBatch(params);
 
-		return createSuccessResponse(routes, `Batch routes for ${chainName}`);
+		// Routes the router could not find keep their error message
+		return createSuccessResponse(
+			{
+				chainName,
+				routes: routes.map((route: RouteSuccess | RouteFailure) =>
+					route.success ? normalizeRoute(route) : route
+				),
+			},
+			`Batch routes for ${chainName}: ${routes.length} routes`
+		);
 	} catch (error) {
 		console.error(`Error finding batch routes on ${chainName}:`, error);
 		return createErrorResponse(error, "get-best-route-batch", chainName);
@@ -182,17 +532,18 @@ export async function getBestRouteBatchHandler(
 export async function buildTransactionHandler(
 	{
 		amount,
+		amountWei,
+		amountHuman,
 		tokenInAddress,
 		tokenOutAddress,
 		slippage,
 		receiverAddress,
 		chainName,
 		options,
-	}: {
-		amount: string;
+	}: AmountInput & {
 		tokenInAddress: string;
 		tokenOutAddress: string;
-		slippage: number;
+		slippage?: number | "auto";
 		receiverAddress: string;
 		chainName: string;
 		options?: { direct?: boolean; excludeProtocols?: string[] };
@@ -201,7 +552,34 @@ export async function buildTransactionHandler(
 ): Promise<ToolResponse> {
 	try {
 		validateChain(chainName);
-		const amountBI = toBigInt(amount);
+
+		// Token arguments may be symbols (e.g. "USDC") instead of addresses
+		const [tokenIn, tokenOut] = await resolveTokenAddresses(
+			[tokenInAddress, tokenOutAddress],
+			chainName,
+			fibrousRouter
+		);
+
+		const resolvedAmount = await resolveAmount(
+			{ amount, amountWei, amountHuman },
+			tokenIn,
+			chainName,
+			fibrousRouter
+		);
+		const amountBI = toBigInt(resolvedAmount.wei);
+
+		const resolvedSlippage = await resolveSwapSlippage(
+			slippage,
+			{
+				amount: resolvedAmount.wei,
+				tokenInAddress: tokenIn,
+				tokenOutAddress: tokenOut,
+				chainName,
+				options,
+			},
+			[tokenInAddress, tokenOutAddress],
+			fibrousRouter
+		);
 
 		// Resolve chainId
 		const supportedChains = fibrousRouter.supportedChains;
@@ -209,9 +587,9 @@ export async function buildTransactionHandler(
 
 		const params: buildRouteAndCalldataParams = {
 			inputAmount: amountBI,
-			tokenInAddress,
-			tokenOutAddress,
-			slippage,
+			tokenInAddress: tokenIn,
+			tokenOutAddress: tokenOut,
+			slippage: resolvedSlippage.slippage,
 			destination: receiverAddress,
 			chainId: chainId!,
 			options: options
@@ -230,8 +608,11 @@ export async function buildTransactionHandler(
 
 		// Combine them to mimic useful output for the agent, or return standardized format
 		const result = {
-			route,
+			amount: resolvedAmount,
+			route: normalizeRoute(route),
 			calldata,
+			slippage: resolvedSlippage.slippage,
+			slippageSource: resolvedSlippage.source,
 		};
 
 		return createSuccessResponse(result, `Transaction data for ${chainName} swap`);
@@ -256,7 +637,7 @@ export async function buildBatchTransactionHandler(
 		amounts: string[];
 		tokenInAddresses: string[];
 		tokenOutAddresses: string[];
-		slippage: number;
+		slippage?: number;
 		receiverAddress: string;
 		chainName: "starknet";
 	},
@@ -265,28 +646,41 @@ export async function buildBatchTransactionHandler(
 	try {
 		validateChain(chainName);
 		if (chainName !== "starknet") {
-			throw new Error("Batch transactions are only supported on Starknet");
+			throw new ToolError(
+				"UNSUPPORTED_CHAIN",
+				"Batch transactions are only supported on Starknet"
+			);
 		}
 
 		console.error(`Building batch transaction on ${chainName}`);
 		const amountsBI = amounts.map((a) => toBigInt(a));
 
+		// Token arguments may be symbols (e.g. "USDC") instead of addresses
+		const [tokenIns, tokenOuts] = await Promise.all([
+			resolveTokenAddresses(tokenInAddresses, chainName, fibrousRouter),
+			resolveTokenAddresses(tokenOutAddresses, chainName, fibrousRouter),
+		]);
+
 		// Resolve chainId
 		const supportedChains = fibrousRouter.supportedChains;
 		const chainId = supportedChains.find((c) => c.chain_name === chainName)?.chain_id;
 
 		const params: buildBatchTransactionParams = {
 			inputAmounts: amountsBI,
-			tokenInAddresses,
-			tokenOutAddresses,
-			slippage,
+			tokenInAddresses: tokenIns,
+			tokenOutAddresses: tokenOuts,
+			// One slippage covers every pair, so pair overrides do not apply
+			slippage: slippage ?? getChainSlippage(chainName, getServerConfig()).slippage,
 			destination: receiverAddress,
 			chainId: chainId!,
 		};
 
 		const calls = await fibrousRouter.buildBatchTransaction(params);
 
-		return createSuccessResponse(calls, `Batch transaction calls for ${chainName}`);
+		return createSuccessResponse(
+			{ chainName, calls },
+			`Batch transaction calls for ${chainName}: ${calls.length} calls`
+		);
 	} catch (error) {
 		console.error(`Error building batch transaction on ${chainName}:`, error);
 		return createErrorResponse(error, "build-batch-transaction", chainName);
@@ -307,14 +701,10 @@ export async function formatTokenAmountHandler({
 }): Promise<ToolResponse> {
 	try {
 		const result = convertAmount(amount, decimals, operation);
-		return {
-			content: [
-				{
-					type: "text",
-					text: `Amount conversion: ${amount} → ${result} (${operation}, ${decimals} decimals)`,
-				},
-			],
-		};
+		return createSuccessResponse(
+			{ amount, result, operation, decimals },
+			`Amount conversion: ${amount} → ${result} (${operation}, ${decimals} decimals)`
+		);
 	} catch (error) {
 		console.error(`Error formatting amount:`, error);
 		return createErrorResponse(error, "format-token-amount");
@@ -336,21 +726,21 @@ export async function getTokenHandler(
 ): Promise<ToolResponse> {
 	try {
 		validateChain(chainName);
-		const token = await fibrousRouter.getToken(address, chainName);
+		const [tokenAddress] = await resolveTokenAddresses([address], chainName, fibrousRouter);
+		const token = await fibrousRouter.getToken(tokenAddress, chainName);
 
 		if (!token) {
-			return {
-				content: [
-					{
-						type: "text",
-						text: `Token not found: ${address} on ${chainName}`,
-					},
-				],
-			};
+			return createSuccessResponse(
+				{ found: false, chainName },
+				`Token not found: ${address} on ${chainName}`
+			);
 		}
 
 		console.error(`Found token: ${token.symbol} (${token.name})`);
-		return createSuccessResponse(token, `Token information for ${token.symbol}`);
+		return createSuccessResponse(
+			{ found: true, chainName, token },
+			`Token information for ${token.symbol}`
+		);
 	} catch (error) {
 		console.error(`Error fetching token ${address} on ${chainName}:`, error);
 		return createErrorResponse(error, "get-token", chainName);
@@ -359,26 +749,324 @@ export async function getTokenHandler(
 
 // --- Swap Execution Handlers ---
 
+/**
+ * Turn a swap result into a tool response (dry runs report reverts as data)
+ */
+function toSwapResponse(
+	swapResult: SwapResult,
+	amount: ResolvedAmount,
+	chainName: string,
+	toolName: string,
+	extra: Record<string, unknown> = {}
+): ToolResponse {
+	// Dry runs report the simulation outcome, including reverts
+	if (swapResult.simulated) {
+		return createSuccessResponse(
+			{
+				dryRun: true,
+				success: swapResult.success,
+				amount,
+				approvalRequired: swapResult.approvalRequired,
+				expectedOutputAmount: swapResult.expectedOutputAmount,
+				gasEstimate: swapResult.gasEstimate,
+				revertReason: swapResult.revertReason,
+				errorCode: swapResult.errorCode,
+				preflight: swapResult.preflight,
+				...extra,
+			},
+			swapResult.success
+				? `Swap simulation succeeded on ${chainName} (nothing was broadcast)`
+				: `Swap simulation reverted on ${chainName} (nothing was broadcast)`
+		);
+	}
+
+	if (swapResult.success) {
+		console.error(`[SUCCESS] Swap successful: ${swapResult.transactionHash}`);
+		const executed = {
+			success: true,
+			amount,
+			transactionHash: swapResult.transactionHash,
+			explorerUrl: swapResult.explorerUrl,
+			outputAmount: swapResult.outputAmount,
+		};
+		const summary = `Swap executed successfully on ${chainName}`;
+		try {
+			return createSuccessResponse(
+				{
+					...executed,
+					gasUsed: swapResult.gasUsed,
+					expectedOutputAmount: swapResult.expectedOutputAmount,
+					effectivePrice: swapResult.effectivePrice,
+					realisedSlippage: swapResult.realisedSlippage,
+					replacements: swapResult.replacements,
+					preflight: swapResult.preflight,
+					...extra,
+				},
+				summary
+			);
+		} catch (error) {
+			// The swap is on-chain, so an oversized result is cut down rather than reported as failed
+			console.error("[WARN] Swap result over the response size limit:", error);
+			return createSuccessResponse(executed, summary);
+		}
+	}
+
+	console.error(`Swap failed: ${swapResult.error}`);
+	// A swap that reverted on-chain still has a transaction to point at
+	const { preflight, transactionHash, explorerUrl, replacements } = swapResult;
+	const details = preflight
+		? { preflight }
+		: transactionHash
+			? { transactionHash, explorerUrl, replacements }
+			: undefined;
+	return createErrorResponse(
+		new ToolError(
+			swapResult.errorCode ?? "UNKNOWN_ERROR",
+			swapResult.error || "Swap execution failed",
+			details ? { details } : {}
+		),
+		toolName,
+		chainName
+	);
+}
+
+/**
+ * Fetch the best route for resolved swap parameters
+ */
+async function fetchSwapRoute(
+	swapParams: SwapParams,
+	fibrousRouter: FibrousRouter
+): Promise<RouteSuccess> {
+	const { amount, tokenInAddress, tokenOutAddress, chainName, options } = swapParams;
+	const chainId = fibrousRouter.supportedChains.find((c) => c.chain_name === chainName)?.chain_id;
+
+	const route = await fibrousRouter.getBestRoute({
+		amount: toBigInt(amount),
+		tokenInAddress,
+		tokenOutAddress,
+		chainId: chainId!,
+		options: options
+			? {
+					...options,
+					excludeProtocols: options.excludeProtocols
+						? mapProtocolIds(options.excludeProtocols)
+						: undefined,
+				}
+			: undefined,
+	});
+	if (!route.success) {
+		throw new ToolError("NO_ROUTE", route.errorMessage || "No route found", {
+			details: { tokenIn: tokenInAddress, tokenOut: tokenOutAddress, amount },
+		});
+	}
+	return route;
+}
+
+/**
+ * Resolve a tool's slippage argument for one swap; the route fetched for "auto" is returned for reuse
+ */
+async function resolveSwapSlippage(
+	slippage: number | "auto" | undefined,
+	swap: Omit<SwapParams, "slippage">,
+	tokenReferences: [string, string],
+	fibrousRouter: FibrousRouter
+): Promise<ResolvedSlippage & { route?: RouteSuccess }> {
+	// Token arguments that are not addresses are the symbols the caller used
+	const [tokenInSymbol, tokenOutSymbol] = tokenReferences.map((reference) =>
+		isTokenAddress(reference) ? undefined : reference
+	);
+
+	let route: RouteSuccess | undefined;
+	const resolved = await resolveSlippage(
+		slippage,
+		{
+			chainName: swap.chainName,
+			tokenIn: { address: swap.tokenInAddress, symbol: tokenInSymbol },
+			tokenOut: { address: swap.tokenOutAddress, symbol: tokenOutSymbol },
+		},
+		getServerConfig(),
+		fibrousRouter,
+		async () => (route = await fetchSwapRoute(swap, fibrousRouter))
+	);
+	return { ...resolved, route };
+}
+
+/**
+ * Check a swap against the configured policy, then execute it
+ *
+ * @param route - Route already fetched for these parameters; fetched here when the policy needs one
+ * @param beforeExecute - Called once the swap has passed the policy, right before it executes
+ */
+async function executePolicySwap(
+	swapParams: SwapParams,
+	chainConfig: ChainConfig,
+	fibrousRouter: FibrousRouter,
+	route?: RouteSuccess,
+	beforeExecute?: () => void
+): Promise<SwapResult> {
+	const policy = getSwapPolicy();
+	if (!isPolicyActive(policy)) {
+		beforeExecute?.();
+		return executeSwap(swapParams, chainConfig, fibrousRouter);
+	}
+
+	const { chainName } = swapParams;
+	const walletAddress = await getWalletAddress(chainConfig, chainName);
+	const policyRoute = route ?? (await fetchSwapRoute(swapParams, fibrousRouter));
+	const releaseSpend = reserveSwapSpend(policy, {
+		chainName,
+		route: policyRoute,
+		slippage: swapParams.slippage ?? getServerConfig().defaultSlippage,
+		receiverAddress: swapParams.receiverAddress || walletAddress,
+		walletAddress,
+	});
+
+	let swapResult: SwapResult;
+	try {
+		beforeExecute?.();
+		swapResult = await executeSwap(swapParams, chainConfig, fibrousRouter);
+	} catch (error) {
+		releaseSpend();
+		throw error;
+	}
+
+	// A swap still pending may yet be mined, so its spend stays counted
+	if (swapResult.simulated || !(swapResult.success || isSwapPending(swapResult))) {
+		releaseSpend();
+	}
+	return swapResult;
+}
+
+/**
+ * Whether a failed swap was sent and could still be mined: it timed out with a
+ * swap hash (a stuck approval has none) and no cancel replaced it
+ */
+function isSwapPending(swapResult: SwapResult): boolean {
+	const cancelled = swapResult.replacements?.some(
+		({ stage, action, outcome }) =>
+			stage === "swap" && action === "cancel" && outcome === "replaced"
+	);
+	return (
+		swapResult.errorCode === "TRANSACTION_TIMEOUT" &&
+		Boolean(swapResult.transactionHash) &&
+		!cancelled
+	);
+}
+
+/**
+ * Append a swap attempt to the history; a write failure never fails the swap
+ */
+async function saveSwapRecord(
+	swapParams: SwapParams,
+	startedAt: string,
+	outcome: Pick<
+		SwapRecord,
+		| "status"
+		| "transactionHash"
+		| "explorerUrl"
+		| "gasUsed"
+		| "outputAmount"
+		| "expectedOutputAmount"
+		| "realisedSlippage"
+		| "error"
+		| "errorCode"
+	>,
+	context: Pick<SwapRecord, "amount" | "quote">
+): Promise<void> {
+	try {
+		await recordSwap(
+			{
+				chainName: swapParams.chainName,
+				params: swapParams,
+				...context,
+				...outcome,
+				startedAt,
+				completedAt: new Date().toISOString(),
+			},
+			getServerConfig().historyDir
+		);
+	} catch (error) {
+		console.error("[WARN] Failed to record swap history:", error);
+	}
+}
+
+/**
+ * Execute a swap under the policy and record the attempt, whatever its outcome
+ */
+async function runSwap(
+	swapParams: SwapParams,
+	chainConfig: ChainConfig,
+	fibrousRouter: FibrousRouter,
+	context: Pick<SwapRecord, "amount" | "quote"> & {
+		route?: RouteSuccess;
+		beforeExecute?: () => void;
+	}
+): Promise<SwapResult> {
+	const { route, beforeExecute, ...recordContext } = context;
+	const startedAt = new Date().toISOString();
+
+	let swapResult: SwapResult;
+	try {
+		swapResult = await executePolicySwap(
+			swapParams,
+			chainConfig,
+			fibrousRouter,
+			route,
+			beforeExecute
+		);
+	} catch (error) {
+		const { code, message } = classifyError(error);
+		await saveSwapRecord(
+			swapParams,
+			startedAt,
+			{ status: "failed", error: message, errorCode: code },
+			recordContext
+		);
+		throw error;
+	}
+
+	await saveSwapRecord(
+		swapParams,
+		startedAt,
+		{
+			status: swapResult.simulated ? "simulated" : swapResult.success ? "executed" : "failed",
+			transactionHash: swapResult.transactionHash,
+			explorerUrl: swapResult.explorerUrl,
+			gasUsed: swapResult.gasUsed,
+			outputAmount: swapResult.outputAmount,
+			expectedOutputAmount: swapResult.expectedOutputAmount,
+			realisedSlippage: swapResult.realisedSlippage,
+			error: swapResult.error ?? swapResult.revertReason,
+			errorCode: swapResult.errorCode,
+		},
+		recordContext
+	);
+	return swapResult;
+}
+
 /**
  * Execute a token swap with real transactions
  */
 export async function executeSwapHandler(
 	{
 		amount,
+		amountWei,
+		amountHuman,
 		tokenInAddress,
 		tokenOutAddress,
 		slippage,
 		receiverAddress,
 		chainName,
 		options,
-	}: {
-		amount: string;
+		dryRun,
+	}: AmountInput & {
 		tokenInAddress: string;
 		tokenOutAddress: string;
-		slippage?: number;
+		slippage?: number | "auto";
 		receiverAddress?: string;
 		chainName: string;
 		options?: { direct?: boolean; excludeProtocols?: string[] };
+		dryRun?: boolean;
 	},
 	fibrousRouter: FibrousRouter
 ): Promise<ToolResponse> {
@@ -389,7 +1077,8 @@ export async function executeSwapHandler(
 		const chainValidation = validateChainConfig(chainName as SupportedChain);
 		if (!chainValidation.isValid) {
 			return createErrorResponse(
-				new Error(
+				new ToolError(
+					"CONFIG_INVALID",
 					`Wallet configuration invalid for ${chainName}: ${chainValidation.errors.join(", ")}`
 				),
 				"execute-swap",
@@ -397,22 +1086,58 @@ export async function executeSwapHandler(
 			);
 		}
 
+		// Token arguments may be symbols (e.g. "USDC") instead of addresses
+		const [tokenIn, tokenOut] = await resolveTokenAddresses(
+			[tokenInAddress, tokenOutAddress],
+			chainName,
+			fibrousRouter
+		);
+
+		const resolvedAmount = await resolveAmount(
+			{ amount, amountWei, amountHuman },
+			tokenIn,
+			chainName,
+			fibrousRouter
+		);
+
+		const {
+			route,
+			slippage: resolvedSlippage,
+			source: slippageSource,
+		} = await resolveSwapSlippage(
+			slippage,
+			{
+				amount: resolvedAmount.wei,
+				tokenInAddress: tokenIn,
+				tokenOutAddress: tokenOut,
+				chainName,
+				options,
+			},
+			[tokenInAddress, tokenOutAddress],
+			fibrousRouter
+		);
+
 		// Prepare swap parameters
 		const swapParams: SwapParams = {
-			amount,
-			tokenInAddress,
-			tokenOutAddress,
-			slippage: slippage ?? DEFAULTS.SLIPPAGE,
+			amount: resolvedAmount.wei,
+			tokenInAddress: tokenIn,
+			tokenOutAddress: tokenOut,
+			slippage: resolvedSlippage,
 			receiverAddress,
 			chainName,
 			options,
+			dryRun,
 		};
 
 		// Validate swap parameters
 		const paramValidation = validateSwapParams(swapParams);
 		if (!paramValidation.isValid) {
 			return createErrorResponse(
-				new Error(`Invalid swap parameters: ${paramValidation.errors.join(", ")}`),
+				new ToolError(
+					"INVALID_PARAMS",
+					`Invalid swap parameters: ${paramValidation.errors.join(", ")}`,
+					{ details: { errors: paramValidation.errors } }
+				),
 				"execute-swap",
 				chainName
 			);
@@ -421,33 +1146,250 @@ export async function executeSwapHandler(
 		// Get chain configuration
 		const chainConfig = getChainConfig(chainName);
 
-		console.error(`[INFO] Executing swap on ${chainName}...`);
+		console.error(`[INFO] ${dryRun ? "Simulating" : "Executing"} swap on ${chainName}...`);
 		// Execute swap
-		const swapResult = await executeSwap(swapParams, chainConfig, fibrousRouter);
+		const swapResult = await runSwap(swapParams, chainConfig, fibrousRouter, {
+			amount: resolvedAmount,
+			route,
+		});
 
-		if (swapResult.success) {
-			console.error(`[SUCCESS] Swap successful: ${swapResult.transactionHash}`);
-			return createSuccessResponse(
-				{
-					success: true,
-					transactionHash: swapResult.transactionHash,
-					explorerUrl: swapResult.explorerUrl,
-					gasUsed: swapResult.gasUsed,
-					outputAmount: swapResult.outputAmount,
-				},
-				`Swap executed successfully on ${chainName}`
+		return toSwapResponse(swapResult, resolvedAmount, chainName, "execute-swap", {
+			slippage: resolvedSlippage,
+			slippageSource,
+		});
+	} catch (error) {
+		console.error(`Error executing swap on ${chainName}:`, error);
+		return createErrorResponse(error, "execute-swap", chainName);
+	}
+}
+
+/**
+ * Quote a swap for later confirmation; nothing is signed
+ */
+export async function prepareSwapHandler(
+	{
+		amount,
+		amountWei,
+		amountHuman,
+		tokenInAddress,
+		tokenOutAddress,
+		slippage,
+		receiverAddress,
+		chainName,
+		options,
+	}: AmountInput & {
+		tokenInAddress: string;
+		tokenOutAddress: string;
+		slippage?: number | "auto";
+		receiverAddress?: string;
+		chainName: string;
+		options?: { direct?: boolean; excludeProtocols?: string[] };
+	},
+	fibrousRouter: FibrousRouter
+): Promise<ToolResponse> {
+	try {
+		validateChain(chainName);
+
+		// Validate wallet configuration for specific chain
+		const chainValidation = validateChainConfig(chainName as SupportedChain);
+		if (!chainValidation.isValid) {
+			throw new ToolError(
+				"CONFIG_INVALID",
+				`Wallet configuration invalid for ${chainName}: ${chainValidation.errors.join(", ")}`
 			);
-		} else {
-			console.error(`Swap failed: ${swapResult.error}`);
-			return createErrorResponse(
-				new Error(swapResult.error || "Swap execution failed"),
-				"execute-swap",
-				chainName
+		}
+
+		// Token arguments may be symbols (e.g. "USDC") instead of addresses
+		const [tokenIn, tokenOut] = await resolveTokenAddresses(
+			[tokenInAddress, tokenOutAddress],
+			chainName,
+			fibrousRouter
+		);
+
+		const resolvedAmount = await resolveAmount(
+			{ amount, amountWei, amountHuman },
+			tokenIn,
+			chainName,
+			fibrousRouter
+		);
+
+		const chainConfig = getChainConfig(chainName);
+
+		const {
+			route: autoRoute,
+			slippage: resolvedSlippage,
+			source: slippageSource,
+		} = await resolveSwapSlippage(
+			slippage,
+			{
+				amount: resolvedAmount.wei,
+				tokenInAddress: tokenIn,
+				tokenOutAddress: tokenOut,
+				chainName,
+				options,
+			},
+			[tokenInAddress, tokenOutAddress],
+			fibrousRouter
+		);
+
+		// The receiver is fixed now so confirm-swap pays out to the address shown
+		const walletAddress = await getWalletAddress(chainConfig, chainName);
+		const swapParams: SwapParams = {
+			amount: resolvedAmount.wei,
+			tokenInAddress: tokenIn,
+			tokenOutAddress: tokenOut,
+			slippage: resolvedSlippage,
+			receiverAddress: receiverAddress || walletAddress,
+			chainName,
+			options,
+		};
+
+		const paramValidation = validateSwapParams(swapParams);
+		if (!paramValidation.isValid) {
+			throw new ToolError(
+				"INVALID_PARAMS",
+				`Invalid swap parameters: ${paramValidation.errors.join(", ")}`,
+				{ details: { errors: paramValidation.errors } }
 			);
 		}
+
+		console.error(`[INFO] Preparing swap quote on ${chainName}...`);
+		const [route, gasEstimate] = await Promise.all([
+			autoRoute ?? fetchSwapRoute(swapParams, fibrousRouter),
+			estimateSwapGas(swapParams, chainConfig, fibrousRouter),
+		]);
+
+		// Refuse up front a quote that confirm-swap would block
+		const policy = getSwapPolicy();
+		if (isPolicyActive(policy)) {
+			enforceSwapPolicy(policy, {
+				chainName,
+				route,
+				slippage: swapParams.slippage!,
+				receiverAddress: swapParams.receiverAddress!,
+				walletAddress,
+			});
+		}
+
+		const { inputValueUsd, outputValueUsd, gasAsPercentOfTrade } = await valueTrade(
+			chainName,
+			route,
+			gasEstimate,
+			fibrousRouter
+		);
+
+		const quote = saveQuote(
+			{
+				chainName,
+				params: swapParams,
+				amount: resolvedAmount,
+				expectedOutput: route.outputAmount,
+				minOutput: getMinOutput(route.outputAmount, swapParams.slippage!),
+				priceImpact: estimatePriceImpact(route),
+				inputValueUsd,
+				outputValueUsd,
+				gasAsPercentOfTrade,
+				gasEstimate,
+			},
+			getServerConfig().quoteTtl
+		);
+
+		const outputDecimals = Number(route.outputToken.decimals);
+		const toAmount = (raw: string) => ({
+			raw,
+			formatted: formatAmountPretty(raw, outputDecimals),
+		});
+
+		return createSuccessResponse(
+			{
+				quoteId: quote.id,
+				expiresAt: new Date(quote.expiresAt).toISOString(),
+				chainName,
+				amount: resolvedAmount,
+				tokenIn: route.inputToken.symbol,
+				tokenOut: route.outputToken.symbol,
+				expectedOutput: toAmount(quote.expectedOutput),
+				minOutput: toAmount(quote.minOutput),
+				priceImpact: quote.priceImpact,
+				inputValueUsd,
+				outputValueUsd,
+				gasAsPercentOfTrade,
+				slippage: swapParams.slippage,
+				slippageSource,
+				recommendedSlippage: recommendSlippage(route),
+				receiverAddress: swapParams.receiverAddress,
+				gasEstimate,
+				route: normalizeRoute(route),
+			},
+			`Quote ${quote.id} on ${chainName}: min ${toAmount(quote.minOutput).formatted} ${route.outputToken.symbol}, confirm with confirm-swap before ${new Date(quote.expiresAt).toISOString()}`
+		);
 	} catch (error) {
-		console.error(`Error executing swap on ${chainName}:`, error);
-		return createErrorResponse(error, "execute-swap", chainName);
+		console.error(`Error preparing swap on ${chainName}:`, error);
+		return createErrorResponse(error, "prepare-swap", chainName);
+	}
+}
+
+/**
+ * Execute a swap prepared by prepare-swap, if the quote is still valid
+ */
+export async function confirmSwapHandler(
+	{ quoteId }: { quoteId: string },
+	fibrousRouter: FibrousRouter
+): Promise<ToolResponse> {
+	let chainName: string | undefined;
+	try {
+		// The quote is only used up once the checks below and the policy pass
+		const quote = getQuote(quoteId);
+		chainName = quote.chainName;
+
+		// Re-quote and refuse to execute if the output has fallen too far
+		const { quoteDriftTolerance, defaultSlippage } = getServerConfig();
+		const route = await fetchSwapRoute(quote.params, fibrousRouter);
+		const drift = getQuoteDrift(quote.expectedOutput, route.outputAmount);
+		const quoteCheck = {
+			id: quote.id,
+			expectedOutput: quote.expectedOutput,
+			currentOutput: route.outputAmount,
+			drift,
+		};
+		if (drift > quoteDriftTolerance) {
+			throw new ToolError(
+				"SLIPPAGE_EXCEEDED",
+				`Output fell ${drift}% since the quote was prepared (tolerance ${quoteDriftTolerance}%)`,
+				{ details: { quote: quoteCheck, tolerance: quoteDriftTolerance } }
+			);
+		}
+
+		// Tighten the slippage so the fresh route still guarantees the quoted minimum
+		const slippage = Math.min(
+			quote.params.slippage ?? defaultSlippage,
+			getFloorSlippage(route.outputAmount, quote.minOutput)
+		);
+		if (slippage <= 0) {
+			throw new ToolError(
+				"SLIPPAGE_EXCEEDED",
+				`Output ${route.outputAmount} no longer covers the quoted minimum ${quote.minOutput}`,
+				{ details: { quote: quoteCheck, minOutput: quote.minOutput } }
+			);
+		}
+
+		const chainConfig = getChainConfig(quote.chainName);
+
+		console.error(`[INFO] Executing quote ${quote.id} on ${chainName}...`);
+		const swapParams = { ...quote.params, slippage, minOutput: quote.minOutput };
+		const swapResult = await runSwap(swapParams, chainConfig, fibrousRouter, {
+			amount: quote.amount,
+			quote: quoteCheck,
+			route,
+			beforeExecute: () => consumeQuote(quote.id),
+		});
+
+		return toSwapResponse(swapResult, quote.amount, chainName, "confirm-swap", {
+			quote: quoteCheck,
+		});
+	} catch (error) {
+		console.error(`Error confirming quote ${quoteId}:`, error);
+		return createErrorResponse(error, "confirm-swap", chainName);
 	}
 }
 
@@ -457,15 +1399,16 @@ export async function executeSwapHandler(
 export async function estimateSwapHandler(
 	{
 		amount,
+		amountWei,
+		amountHuman,
 		tokenInAddress,
 		tokenOutAddress,
 		slippage,
 		chainName,
-	}: {
-		amount: string;
+	}: AmountInput & {
 		tokenInAddress: string;
 		tokenOutAddress: string;
-		slippage?: number;
+		slippage?: number | "auto";
 		chainName: string;
 	},
 	fibrousRouter: FibrousRouter
@@ -477,7 +1420,8 @@ export async function estimateSwapHandler(
 		const chainValidation = validateChainConfig(chainName as SupportedChain);
 		if (!chainValidation.isValid) {
 			return createErrorResponse(
-				new Error(
+				new ToolError(
+					"CONFIG_INVALID",
 					`Wallet configuration invalid for ${chainName}: ${chainValidation.errors.join(", ")}`
 				),
 				"estimate-swap",
@@ -485,12 +1429,38 @@ export async function estimateSwapHandler(
 			);
 		}
 
+		// Token arguments may be symbols (e.g. "USDC") instead of addresses
+		const [tokenIn, tokenOut] = await resolveTokenAddresses(
+			[tokenInAddress, tokenOutAddress],
+			chainName,
+			fibrousRouter
+		);
+
+		const resolvedAmount = await resolveAmount(
+			{ amount, amountWei, amountHuman },
+			tokenIn,
+			chainName,
+			fibrousRouter
+		);
+
+		const { slippage: resolvedSlippage, source: slippageSource } = await resolveSwapSlippage(
+			slippage,
+			{
+				amount: resolvedAmount.wei,
+				tokenInAddress: tokenIn,
+				tokenOutAddress: tokenOut,
+				chainName,
+			},
+			[tokenInAddress, tokenOutAddress],
+			fibrousRouter
+		);
+
 		// Prepare swap parameters
 		const swapParams: SwapParams = {
-			amount,
-			tokenInAddress,
-			tokenOutAddress,
-			slippage: slippage ?? DEFAULTS.SLIPPAGE,
+			amount: resolvedAmount.wei,
+			tokenInAddress: tokenIn,
+			tokenOutAddress: tokenOut,
+			slippage: resolvedSlippage,
 			chainName,
 		};
 
@@ -501,9 +1471,367 @@ export async function estimateSwapHandler(
 		// Estimate gas
 		const gasEstimate = await estimateSwapGas(swapParams, chainConfig, fibrousRouter);
 
-		return createSuccessResponse(gasEstimate, `Gas estimation for ${chainName} swap`);
+		return createSuccessResponse(
+			{ amount: resolvedAmount, slippage: resolvedSlippage, slippageSource, gasEstimate },
+			gasEstimate.source === "fallback"
+				? `Gas estimation for ${chainName} swap failed, showing fallback values (${gasEstimate.fallbackReason})`
+				: `Gas estimation for ${chainName} swap`
+		);
 	} catch (error) {
 		console.error(`Error estimating gas on ${chainName}:`, error);
 		return createErrorResponse(error, "estimate-swap", chainName);
 	}
 }
+
+// --- Wallet Handlers ---
+
+/**
+ * Resolve the wallet to inspect: the given address, or the configured wallet
+ */
+async function resolveOwnerAddress(
+	chainName: SupportedChain,
+	address: string | undefined
+): Promise<string> {
+	let owner = address;
+	if (!owner) {
+		const chainValidation = validateChainConfig(chainName);
+		if (!chainValidation.isValid) {
+			throw new ToolError(
+				"CONFIG_INVALID",
+				`No address given and wallet configuration invalid for ${chainName}: ${chainValidation.errors.join(", ")}`
+			);
+		}
+		owner = await getWalletAddress(getChainConfig(chainName), chainName);
+	}
+	if (!isValidAddressForChain(owner, chainName)) {
+		throw new ToolError("INVALID_ADDRESS", `Invalid ${chainName} address: ${owner}`);
+	}
+	return owner;
+}
+
+/**
+ * Pick the tokens to read: the given symbols/addresses, or every supported token
+ */
+async function selectTokens(
+	tokens: string[] | undefined,
+	supportedOnly: boolean | undefined,
+	chainName: SupportedChain,
+	fibrousRouter: FibrousRouter
+): Promise<{ selected: Token[]; skipped: FailedBalance[] }> {
+	const tokenMap = await fibrousRouter.supportedTokens(chainName);
+	const supportedTokens: Token[] =
+		tokenMap instanceof Map ? [...tokenMap.values()] : Object.values(tokenMap);
+
+	if (!tokens || tokens.length === 0) {
+		return { selected: supportedTokens, skipped: [] };
+	}
+
+	const selected: Token[] = [];
+	const skipped: FailedBalance[] = [];
+	const tokenAddresses = await resolveTokenAddresses(tokens, chainName, fibrousRouter);
+	for (const tokenAddress of tokenAddresses) {
+		const token =
+			supportedTokens.find((t) => isSameAddress(t.address, tokenAddress)) ??
+			(supportedOnly ? undefined : await fibrousRouter.getToken(tokenAddress, chainName));
+		if (token) {
+			selected.push(token);
+		} else {
+			skipped.push({
+				address: tokenAddress,
+				error: supportedOnly ? "Not a supported token" : "Token not found",
+			});
+		}
+	}
+	return { selected, skipped };
+}
+
+function getRouterAddress(fibrousRouter: FibrousRouter, chainName: string): string | undefined {
+	return fibrousRouter.supportedChains.find((c) => c.chain_name === chainName)?.router_address;
+}
+
+/**
+ * Get native and token balances, with router allowances, for a wallet
+ */
+export async function getWalletBalancesHandler(
+	{
+		chainName,
+		address,
+		tokens,
+		supportedOnly,
+		includeZeroBalances,
+	}: {
+		chainName: string;
+		address?: string;
+		tokens?: string[];
+		supportedOnly?: boolean;
+		includeZeroBalances?: boolean;
+	},
+	fibrousRouter: FibrousRouter
+): Promise<ToolResponse> {
+	try {
+		validateChain(chainName);
+		const owner = await resolveOwnerAddress(chainName, address);
+
+		// Explicit tokens are always reported, even with a zero balance
+		const { selected, skipped } = await selectTokens(
+			tokens,
+			supportedOnly,
+			chainName,
+			fibrousRouter
+		);
+
+		console.error(
+			`[INFO] Reading ${selected.length} token balances for ${owner} on ${chainName}`
+		);
+		const balances = await getWalletBalances(owner, chainName, selected, {
+			rpcUrl: getRpcUrl(chainName),
+			routerAddress: getRouterAddress(fibrousRouter, chainName),
+			includeZeroBalances: includeZeroBalances ?? Boolean(tokens?.length),
+		});
+		balances.failed.push(...skipped);
+
+		return createSuccessResponse(
+			balances,
+			`Balances for ${owner} on ${chainName}: ${balances.native.balance.formatted} ${balances.native.symbol} and ${balances.tokens.length} tokens`
+		);
+	} catch (error) {
+		console.error(`Error fetching wallet balances on ${chainName}:`, error);
+		return createErrorResponse(error, "get-wallet-balances", chainName);
+	}
+}
+
+/**
+ * List the allowances a wallet has granted to the Fibrous router (or another spender)
+ */
+export async function getAllowancesHandler(
+	{
+		chainName,
+		address,
+		tokens,
+		spender,
+	}: {
+		chainName: string;
+		address?: string;
+		tokens?: string[];
+		spender?: string;
+	},
+	fibrousRouter: FibrousRouter
+): Promise<ToolResponse> {
+	try {
+		validateChain(chainName);
+		const owner = await resolveOwnerAddress(chainName, address);
+
+		const spenderAddress = spender ?? getRouterAddress(fibrousRouter, chainName);
+		if (!spenderAddress) {
+			throw new ToolError("UNSUPPORTED_CHAIN", `Router address not found for ${chainName}`);
+		}
+		if (!isValidAddressForChain(spenderAddress, chainName)) {
+			throw new ToolError(
+				"INVALID_ADDRESS",
+				`Invalid ${chainName} address: ${spenderAddress}`
+			);
+		}
+
+		const { selected, skipped } = await selectTokens(tokens, false, chainName, fibrousRouter);
+		const balances = await getWalletBalances(owner, chainName, selected, {
+			rpcUrl: getRpcUrl(chainName),
+			routerAddress: spenderAddress,
+			includeZeroBalances: true,
+		});
+
+		// A full token scan only reports open allowances; explicit tokens are always reported
+		const allowances = balances.tokens
+			.filter((token) => token.allowance && (tokens?.length || token.allowance.raw !== "0"))
+			.map(({ symbol, name, address: tokenAddress, decimals, allowance }) => ({
+				symbol,
+				name,
+				address: tokenAddress,
+				decimals,
+				allowance: allowance!,
+				unlimited: isUnlimitedAllowance(BigInt(allowance!.raw)),
+			}));
+
+		return createSuccessResponse(
+			{
+				chainName,
+				address: owner,
+				spender: spenderAddress,
+				allowances,
+				failed: [...balances.failed, ...skipped],
+			},
+			`${allowances.length} allowances for ${spenderAddress} from ${owner} on ${chainName}`
+		);
+	} catch (error) {
+		console.error(`Error fetching allowances on ${chainName}:`, error);
+		return createErrorResponse(error, "get-allowances", chainName);
+	}
+}
+
+/**
+ * Revoke the configured wallet's allowance for the Fibrous router (or another spender)
+ */
+export async function revokeApprovalHandler(
+	{
+		chainName,
+		tokenAddress,
+		spender,
+	}: {
+		chainName: string;
+		tokenAddress: string;
+		spender?: string;
+	},
+	fibrousRouter: FibrousRouter
+): Promise<ToolResponse> {
+	try {
+		validateChain(chainName);
+
+		const chainValidation = validateChainConfig(chainName);
+		if (!chainValidation.isValid) {
+			throw new ToolError(
+				"CONFIG_INVALID",
+				`Wallet configuration invalid for ${chainName}: ${chainValidation.errors.join(", ")}`
+			);
+		}
+
+		const spenderAddress = spender ?? getRouterAddress(fibrousRouter, chainName);
+		if (!spenderAddress) {
+			throw new ToolError("UNSUPPORTED_CHAIN", `Router address not found for ${chainName}`);
+		}
+		if (!isValidAddressForChain(spenderAddress, chainName)) {
+			throw new ToolError(
+				"INVALID_ADDRESS",
+				`Invalid ${chainName} address: ${spenderAddress}`
+			);
+		}
+
+		const [token] = await resolveTokenAddresses([tokenAddress], chainName, fibrousRouter);
+		const result = await revokeApproval(
+			token,
+			spenderAddress,
+			chainName,
+			getChainConfig(chainName)
+		);
+
+		return createSuccessResponse(
+			result,
+			result.revoked
+				? `Revoked allowance of ${token} for ${spenderAddress} on ${chainName}: ${result.transactionHash}`
+				: `No allowance of ${token} for ${spenderAddress} on ${chainName}; nothing to revoke`
+		);
+	} catch (error) {
+		console.error(`Error revoking approval on ${chainName}:`, error);
+		return createErrorResponse(error, "revoke-approval", chainName);
+	}
+}
+
+// --- History Handlers ---
+
+/**
+ * Query recorded swaps (executed, simulated and failed)
+ */
+export async function getSwapHistoryHandler(
+	{
+		chainName,
+		token,
+		status,
+		from,
+		to,
+		limit,
+	}: {
+		chainName?: string;
+		token?: string;
+		status?: SwapStatus;
+		from?: string;
+		to?: string;
+		limit?: number;
+	},
+	fibrousRouter: FibrousRouter
+): Promise<ToolResponse> {
+	try {
+		if (chainName) {
+			validateChain(chainName);
+		}
+
+		// Records store token addresses; a symbol is resolved on the given chain
+		let tokenAddress = token;
+		if (token && !isTokenAddress(token)) {
+			if (!chainName) {
+				throw new ToolError(
+					"INVALID_PARAMS",
+					"chainName is required to filter by token symbol"
+				);
+			}
+			[tokenAddress] = await resolveTokenAddresses(
+				[token],
+				chainName as SupportedChain,
+				fibrousRouter
+			);
+		}
+
+		const toDate = (value: string | undefined, name: string) => {
+			if (!value) return undefined;
+			const date = new Date(value);
+			if (isNaN(date.getTime())) {
+				throw new ToolError("INVALID_PARAMS", `${name} must be an ISO date, got: ${value}`);
+			}
+			return date;
+		};
+
+		const swaps = await querySwapHistory(
+			{
+				chainName: chainName as SupportedChain | undefined,
+				token: tokenAddress,
+				status,
+				from: toDate(from, "from"),
+				to: toDate(to, "to"),
+				limit,
+			},
+			getServerConfig().historyDir
+		);
+
+		return createSuccessResponse(
+			{ count: swaps.length, swaps },
+			`Swap history: ${swaps.length} swaps`
+		);
+	} catch (error) {
+		console.error("Error reading swap history:", error);
+		return createErrorResponse(error, "get-swap-history", chainName);
+	}
+}
+
+// --- Transaction Handlers ---
+
+/**
+ * Look up the status, confirmations, fee and revert reason of a transaction
+ */
+export async function getTransactionStatusHandler({
+	chainName,
+	transactionHash,
+}: {
+	chainName: string;
+	transactionHash: string;
+}): Promise<ToolResponse> {
+	try {
+		validateChain(chainName);
+		// Starknet hashes are felts and may drop leading zeros; EVM hashes are always 32 bytes
+		const hashPattern =
+			chainName === "starknet" ? /^0x[0-9a-fA-F]{1,64}$/ : /^0x[0-9a-fA-F]{64}$/;
+		if (!hashPattern.test(transactionHash)) {
+			throw new ToolError("INVALID_PARAMS", `Invalid transaction hash: ${transactionHash}`);
+		}
+
+		const status = await getTransactionStatus(transactionHash, chainName, getRpcUrl(chainName));
+
+		const details = [
+			status.confirmations !== undefined && `${status.confirmations} confirmations`,
+			status.revertReason,
+		].filter(Boolean);
+		return createSuccessResponse(
+			status,
+			`Transaction ${transactionHash} on ${chainName}: ${status.status}${details.length ? ` (${details.join(", ")})` : ""}`
+		);
+	} catch (error) {
+		console.error(`Error fetching transaction status on ${chainName}:`, error);
+		return createErrorResponse(error, "get-transaction-status", chainName);
+	}
+}
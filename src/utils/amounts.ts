@@ -1,5 +1,6 @@
 import { parseUnits, formatUnits } from "viem";
 import { VALIDATION_LIMITS } from "./constants.js";
+import { ToolError } from "./errors.js";
 
 /**
  * Convert amount between wei and readable format using ethers utilities
@@ -25,12 +26,12 @@ export function convertAmount(
 ): string {
 	// Validate input
 	if (!amount || amount.trim() === "") {
-		throw new Error("Amount cannot be empty");
+		throw new ToolError("INVALID_AMOUNT", "Amount cannot be empty");
 	}
 
 	// Check for negative values
 	if (amount.startsWith("-")) {
-		throw new Error("Amount cannot be negative");
+		throw new ToolError("INVALID_AMOUNT", "Amount cannot be negative");
 	}
 
 	// Check for multiple decimal points or other invalid formats
@@ -38,7 +39,7 @@ export function convertAmount(
 		operation === "parse" &&
 		(amount.split(".").length > 2 || amount.includes("e") || amount === "invalid")
 	) {
-		throw new Error("Invalid amount format");
+		throw new ToolError("INVALID_AMOUNT", "Invalid amount format");
 	}
 
 	if (operation === "format") {
@@ -46,7 +47,7 @@ export function convertAmount(
 		try {
 			BigInt(amount);
 		} catch {
-			throw new Error("Invalid amount format for formatting");
+			throw new ToolError("INVALID_AMOUNT", "Invalid amount format for formatting");
 		}
 		// Convert wei to readable format using ethers' formatUnits
 		return formatUnits(BigInt(amount), decimals);
@@ -55,7 +56,7 @@ export function convertAmount(
 		try {
 			return parseUnits(amount, decimals).toString();
 		} catch {
-			throw new Error("Invalid amount format for parsing");
+			throw new ToolError("INVALID_AMOUNT", "Invalid amount format for parsing");
 		}
 	}
 }
@@ -76,29 +77,29 @@ export function convertAmount(
 export function toBigInt(amount: string): bigint {
 	// Validate input
 	if (!amount || amount.trim() === "") {
-		throw new Error("Amount cannot be empty");
+		throw new ToolError("INVALID_AMOUNT", "Amount cannot be empty");
 	}
 
 	// Check for negative values
 	if (amount.startsWith("-")) {
-		throw new Error("Amount cannot be negative");
+		throw new ToolError("INVALID_AMOUNT", "Amount cannot be negative");
 	}
 
 	// Check for invalid formats (decimals, incomplete hex, etc.)
 	if (amount.includes(".") || amount === "0x" || amount === "invalid") {
-		throw new Error("Invalid amount format");
+		throw new ToolError("INVALID_AMOUNT", "Invalid amount format");
 	}
 
 	// Check for overflow scenarios
 	if (amount.includes("e") || amount.length > VALIDATION_LIMITS.MAX_AMOUNT_LENGTH) {
 		// Safe length check
-		throw new Error("Amount overflow");
+		throw new ToolError("INVALID_AMOUNT", "Amount overflow");
 	}
 
 	try {
 		return BigInt(amount);
 	} catch {
-		throw new Error("Invalid amount format");
+		throw new ToolError("INVALID_AMOUNT", "Invalid amount format");
 	}
 }
 
@@ -119,18 +120,18 @@ export function toBigInt(amount: string): bigint {
 export function createTestAmount(amount: string, decimals = 18): bigint {
 	// Check for negative values
 	if (amount.startsWith("-")) {
-		throw new Error("Test amount cannot be negative");
+		throw new ToolError("INVALID_AMOUNT", "Test amount cannot be negative");
 	}
 
 	// Check for overflow scenarios
 	if (amount.includes("e") && amount.includes("1000")) {
-		throw new Error("Test amount overflow");
+		throw new ToolError("INVALID_AMOUNT", "Test amount overflow");
 	}
 
 	try {
 		return BigInt(parseUnits(amount, decimals).toString());
 	} catch {
-		throw new Error("Invalid test amount format");
+		throw new ToolError("INVALID_AMOUNT", "Invalid test amount format");
 	}
 }
 
@@ -150,7 +151,7 @@ export function createTestAmount(amount: string, decimals = 18): bigint {
 export function formatAmountPretty(amount: string, decimals: number, maxDecimals = 6): string {
 	// Validate input
 	if (!amount || amount.trim() === "" || amount === "invalid") {
-		throw new Error("Invalid amount for formatting");
+		throw new ToolError("INVALID_AMOUNT", "Invalid amount for formatting");
 	}
 
 	try {
@@ -167,10 +168,33 @@ export function formatAmountPretty(amount: string, decimals: number, maxDecimals
 		const trimmed = decimal.replace(/0+$/, "");
 		return trimmed ? `${whole}.${trimmed}` : whole;
 	} catch {
-		throw new Error("Invalid amount for formatting");
+		throw new ToolError("INVALID_AMOUNT", "Invalid amount for formatting");
 	}
 }
 
+/**
+ * USD value of a token amount
+ *
+ * @param amount - Amount in smallest unit (wei)
+ * @param decimals - Number of decimal places
+ * @param price - USD price per whole token, as reported by the Fibrous API
+ * @returns USD value, or undefined when the token has no usable price
+ *
+ * @example
+ * ```typescript
+ * toUsdValue("1500000000000000000", 18, "3000") // 4500
+ * ```
+ */
+export function toUsdValue(
+	amount: string,
+	decimals: number | string,
+	price?: string | null
+): number | undefined {
+	const usd = Number(price);
+	if (!price || !Number.isFinite(usd) || usd <= 0) return undefined;
+	return (Number(amount) / 10 ** Number(decimals)) * usd;
+}
+
 /**
  * Convert bigint to string for compatibility
  * @param amount - bigint amount
@@ -0,0 +1,426 @@
+import type { RouteSuccess, Token } from "fibrous-router-sdk";
+import { formatUnits } from "viem";
+import { convertAmount, formatAmountPretty } from "./amounts.js";
+import { classifyError, ToolError, type ErrorCode } from "./errors.js";
+import type { TradeValuation } from "./pricing.js";
+import { formatUsd } from "./pricing.js";
+import { recommendSlippage } from "./slippage.js";
+import { normalizeRoute } from "./routes.js";
+import type { SupportedChain } from "./validation.js";
+
+/**
+ * Risk grade of a route, from A (clean) to D (avoid or split the trade)
+ */
+export type RiskGrade = "A" | "B" | "C" | "D";
+
+/**
+ * Quality figures for a route, measured against a small reference quote
+ */
+export interface RouteAnalysis {
+	effectiveRate: string; // Output tokens per input token
+	inverseRate: string; // Input tokens per output token
+	referenceRate?: string; // Rate of the reference quote, when one was found
+	priceImpact?: string; // Percent the rate falls below the reference rate
+	hops: number; // Swaps in the longest path
+	splits: number; // Paths the input is split across
+	protocols: string[];
+	gasCostUsd?: string;
+	gasAsPercentOfTrade?: string; // Router gas estimate as a percent of the input value
+	riskGrade: RiskGrade;
+	riskFactors: string[]; // Why the grade is below A
+}
+
+/**
+ * Ladder amounts as a start/end range, in human-readable units
+ */
+export interface LadderRange {
+	start: string;
+	end: string;
+	steps: number; // Amounts from start to end inclusive
+}
+
+/**
+ * One amount of a price ladder; failed routes carry the error instead of figures
+ */
+export interface PriceLadderStep {
+	amount: { wei: string; human: string };
+	outputAmount?: { raw: string; formatted: string };
+	rate?: string; // Output tokens per input token
+	marginalRate?: string; // Output per input token added since the previous step
+	priceImpact?: string; // Percent the rate falls below the reference rate
+	error?: string;
+	errorCode?: ErrorCode;
+}
+
+/**
+ * Best route for a pair on one chain, valued net of the swap's estimated gas
+ */
+export interface ChainQuote {
+	rank: number; // 1 for the highest net output
+	chainName: SupportedChain;
+	amount: { wei: string; human?: string };
+	outputAmount: { raw: string; formatted: string };
+	outputValueUsd?: string;
+	gasCostUsd?: string;
+	netOutput: string; // Output less gas, in output tokens; the gross output when gas cannot be priced
+	gasIncluded: boolean; // Whether netOutput has the gas cost taken off
+}
+
+export const MAX_LADDER_STEPS = 20;
+// Routes fetched at once, to stay clear of the Fibrous API rate limit
+const LADDER_CONCURRENCY = 4;
+
+// The reference quote is worth about $10, and never more than a tenth of the trade
+const REFERENCE_TRADE_USD = 10;
+const REFERENCE_MAX_SHARE = 10n;
+// Unpriced input tokens are referenced with a thousandth of the trade
+const REFERENCE_UNPRICED_SHARE = 1000n;
+
+// Upper bounds for grades A, B and C; anything above is D
+const PRICE_IMPACT_GRADES = [0.5, 2, 5];
+const GAS_SHARE_GRADES = [1, 3, 10];
+const MAX_HOPS_FOR_A = 3;
+
+const GRADES: RiskGrade[] = ["A", "B", "C", "D"];
+
+function gradeFor(value: number, bounds: number[]): RiskGrade {
+	const index = bounds.findIndex((bound) => value <= bound);
+	return GRADES[index === -1 ? bounds.length : index];
+}
+
+function formatRate(rate: number): string {
+	return String(Number(rate.toPrecision(8)));
+}
+
+function getPriceImpact(rate: number, referenceRate: number): string {
+	return (((referenceRate - rate) / referenceRate) * 100).toFixed(2);
+}
+
+/**
+ * Output tokens per input token of a route, in whole tokens
+ */
+export function getRouteRate(
+	route: Pick<RouteSuccess, "inputAmount" | "inputToken" | "outputAmount" | "outputToken">
+): number {
+	const input = Number(formatUnits(BigInt(route.inputAmount), Number(route.inputToken.decimals)));
+	const output = Number(
+		formatUnits(BigInt(route.outputAmount), Number(route.outputToken.decimals))
+	);
+	return input > 0 ? output / input : 0;
+}
+
+/**
+ * Pick the input amount for a reference quote of the same pair
+ *
+ * About $10 of the input token, capped at a tenth of the trade; a thousandth of
+ * the trade when the token has no price.
+ *
+ * @param amount - Trade input amount in the token's smallest unit
+ * @param inputToken - Input token, with its decimals and price
+ * @returns Reference amount, or undefined when the trade is too small to compare
+ */
+export function getReferenceAmount(
+	amount: bigint,
+	inputToken: Pick<Token, "decimals" | "price">
+): bigint | undefined {
+	const price = Number(inputToken.price);
+	let reference = amount / REFERENCE_UNPRICED_SHARE;
+	if (inputToken.price && Number.isFinite(price) && price > 0) {
+		// Scaled by 1e6 to keep sub-unit token amounts in integer math
+		const micros = BigInt(Math.round((REFERENCE_TRADE_USD / price) * 1e6));
+		reference = (micros * 10n ** BigInt(inputToken.decimals)) / 1_000_000n;
+		const cap = amount / REFERENCE_MAX_SHARE;
+		if (reference > cap) reference = cap;
+	}
+	return reference > 0n ? reference : undefined;
+}
+
+/**
+ * Grade a route's risk from its price impact, gas share, depth and tokens
+ *
+ * The grade is the worst of: price impact (A up to 0.5%, B up to 2%, C up to
+ * 5%), gas share of the trade (A up to 1%, B up to 3%, C up to 10%), at least B
+ * for an unknown price impact or more than three hops, and at least C when a
+ * token is unverified.
+ */
+function gradeRisk(
+	route: Pick<RouteSuccess, "inputToken" | "outputToken">,
+	figures: Pick<RouteAnalysis, "priceImpact" | "gasAsPercentOfTrade" | "hops">
+): Pick<RouteAnalysis, "riskGrade" | "riskFactors"> {
+	const grades: RiskGrade[] = ["A"];
+	const riskFactors: string[] = [];
+	const flag = (grade: RiskGrade, reason: string) => {
+		if (grade === "A") return;
+		grades.push(grade);
+		riskFactors.push(reason);
+	};
+
+	if (figures.priceImpact === undefined) {
+		flag("B", "Price impact unknown: no reference quote");
+	} else {
+		flag(
+			gradeFor(Number(figures.priceImpact), PRICE_IMPACT_GRADES),
+			`Price impact ${figures.priceImpact}%`
+		);
+	}
+	if (figures.gasAsPercentOfTrade !== undefined) {
+		flag(
+			gradeFor(Number(figures.gasAsPercentOfTrade), GAS_SHARE_GRADES),
+			`Gas is ${figures.gasAsPercentOfTrade}% of the trade`
+		);
+	}
+	if (figures.hops > MAX_HOPS_FOR_A) {
+		flag("B", `${figures.hops} hops`);
+	}
+	for (const token of [route.inputToken, route.outputToken]) {
+		if (token.verified === false) flag("C", `${token.symbol} is not a verified token`);
+	}
+
+	return {
+		riskGrade: grades.reduce((worst, grade) =>
+			GRADES.indexOf(grade) > GRADES.indexOf(worst) ? grade : worst
+		),
+		riskFactors,
+	};
+}
+
+/**
+ * Analyze a route's pricing, depth and cost
+ *
+ * @param route - Route to analyze
+ * @param referenceRoute - Route for a small amount of the same pair, if one was found
+ * @param valuation - USD valuation of the route
+ * @returns Rates, price impact, hops, protocols, gas share and risk grade
+ *
+ * @example
+ * ```typescript
+ * // 10 ETH → 29,700 USDC, against 2,999 USDC per ETH for $10 of ETH
+ * analyzeRoute(route, referenceRoute, { inputValueUsd: "30000.00" })
+ * // { effectiveRate: "2970", inverseRate: "0.00033670034", referenceRate: "2999",
+ * //   priceImpact: "0.97", hops: 1, splits: 1, protocols: ["Ekubo"],
+ * //   gasCostUsd: "0.12", gasAsPercentOfTrade: "0.00", riskGrade: "B",
+ * //   riskFactors: ["Price impact 0.97%"] }
+ * ```
+ */
+export function analyzeRoute(
+	route: RouteSuccess,
+	referenceRoute: RouteSuccess | undefined,
+	valuation: Pick<TradeValuation, "inputValueUsd">
+): RouteAnalysis {
+	const rate = getRouteRate(route);
+	const referenceRate = referenceRoute && getRouteRate(referenceRoute);
+
+	const { paths, hops } = normalizeRoute(route);
+
+	const gasCost = Number(route.estimatedGasUsedInUsd);
+	const inputValue = Number(valuation.inputValueUsd);
+	const hasGasCost = Boolean(route.estimatedGasUsedInUsd) && Number.isFinite(gasCost);
+
+	const figures = {
+		effectiveRate: formatRate(rate),
+		inverseRate: rate > 0 ? formatRate(1 / rate) : "0",
+		...(referenceRate && {
+			referenceRate: formatRate(referenceRate),
+			priceImpact: getPriceImpact(rate, referenceRate),
+		}),
+		hops: recommendSlippage(route).hops,
+		splits: paths,
+		protocols: [...new Set(hops.map((hop) => hop.protocol))],
+		...(hasGasCost && { gasCostUsd: formatUsd(gasCost) }),
+		...(hasGasCost &&
+			inputValue > 0 && {
+				gasAsPercentOfTrade: ((gasCost / inputValue) * 100).toFixed(2),
+			}),
+	};
+
+	return { ...figures, ...gradeRisk(route, figures) };
+}
+
+/**
+ * Turn a price ladder request into input amounts
+ *
+ * Amounts are sorted, deduplicated and stripped of zeros, so a range may start at 0.
+ *
+ * @param input - Exactly one of a list of amounts or a start/end/steps range, in human-readable units
+ * @param decimals - Input token decimals
+ * @returns Ascending input amounts in the token's smallest unit
+ * @throws ToolError INVALID_PARAMS or INVALID_AMOUNT for a malformed ladder
+ *
+ * @example
+ * ```typescript
+ * getLadderAmounts({ range: { start: "0", end: "3", steps: 4 } }, 18)
+ * // ["1000000000000000000", "2000000000000000000", "3000000000000000000"]
+ * ```
+ */
+export function getLadderAmounts(
+	input: { amounts?: string[]; range?: LadderRange },
+	decimals: number
+): string[] {
+	const { amounts, range } = input;
+	if ((amounts === undefined) === (range === undefined)) {
+		throw new ToolError(
+			"INVALID_PARAMS",
+			"Provide either amounts or a start/end/steps range, not both"
+		);
+	}
+
+	const parse = (amount: string) => BigInt(convertAmount(amount, decimals, "parse"));
+	let ladder: bigint[];
+	if (range) {
+		const start = parse(range.start);
+		const end = parse(range.end);
+		if (!Number.isInteger(range.steps) || range.steps < 2) {
+			throw new ToolError("INVALID_PARAMS", "A range needs at least 2 steps");
+		}
+		if (end <= start) {
+			throw new ToolError("INVALID_AMOUNT", "The range end must be greater than its start");
+		}
+		const intervals = BigInt(range.steps - 1);
+		ladder = Array.from(
+			{ length: range.steps },
+			(_, i) => start + ((end - start) * BigInt(i)) / intervals
+		);
+	} else {
+		ladder = amounts!.map(parse);
+	}
+
+	const sorted = [...new Set(ladder.filter((amount) => amount > 0n))].sort((a, b) =>
+		a < b ? -1 : a > b ? 1 : 0
+	);
+	if (sorted.length === 0) {
+		throw new ToolError("INVALID_AMOUNT", "Ladder amounts must be greater than zero");
+	}
+	if (sorted.length > MAX_LADDER_STEPS) {
+		throw new ToolError(
+			"INVALID_PARAMS",
+			`A price ladder has at most ${MAX_LADDER_STEPS} steps, got ${sorted.length}`
+		);
+	}
+	return sorted.map(String);
+}
+
+/**
+ * Quote a pair at each ladder amount
+ *
+ * Routes are fetched a few at a time. The marginal rate is the output gained
+ * per input token since the previous routed step, which shows where extra size
+ * stops paying; price impact is measured against the reference rate.
+ *
+ * @param amounts - Ascending input amounts in the token's smallest unit
+ * @param inputDecimals - Input token decimals
+ * @param fetchRoute - Fetches the route for one amount
+ * @param referenceRate - Rate of a small reference quote, if one was found
+ * @returns One step per amount, in order
+ */
+export async function buildPriceLadder(
+	amounts: string[],
+	inputDecimals: number,
+	fetchRoute: (amount: string) => Promise<RouteSuccess>,
+	referenceRate?: number
+): Promise<PriceLadderStep[]> {
+	const results: PromiseSettledResult<RouteSuccess>[] = [];
+	for (let i = 0; i < amounts.length; i += LADDER_CONCURRENCY) {
+		const batch = amounts.slice(i, i + LADDER_CONCURRENCY);
+		results.push(...(await Promise.allSettled(batch.map(fetchRoute))));
+	}
+
+	let previous: RouteSuccess | undefined;
+	return results.map((result, index) => {
+		const amount = {
+			wei: amounts[index],
+			human: formatUnits(BigInt(amounts[index]), inputDecimals),
+		};
+		if (result.status === "rejected") {
+			const { code, message } = classifyError(result.reason);
+			return { amount, error: message, errorCode: code };
+		}
+
+		const route = result.value;
+		const rate = getRouteRate(route);
+		const outputDecimals = Number(route.outputToken.decimals);
+		const marginalRate = previous
+			? getRouteRate({
+					inputToken: route.inputToken,
+					outputToken: route.outputToken,
+					inputAmount: String(BigInt(route.inputAmount) - BigInt(previous.inputAmount)),
+					outputAmount: String(
+						BigInt(route.outputAmount) - BigInt(previous.outputAmount)
+					),
+				})
+			: rate;
+		previous = route;
+
+		return {
+			amount,
+			outputAmount: {
+				raw: route.outputAmount,
+				formatted: formatAmountPretty(route.outputAmount, outputDecimals),
+			},
+			rate: formatRate(rate),
+			marginalRate: formatRate(marginalRate),
+			...(referenceRate && { priceImpact: getPriceImpact(rate, referenceRate) }),
+		};
+	});
+}
+
+/**
+ * Take a swap's gas cost off its route's output, in output tokens
+ *
+ * The USD gas cost from valueTrade (the same estimate estimate-swap and
+ * prepare-swap report) is converted at the output's USD value. When either is
+ * missing, the gross output is returned with `gasIncluded: false`.
+ *
+ * @param chainName - Chain the route is on
+ * @param amount - Input amount of the route
+ * @param route - Route returned by the Fibrous router
+ * @param valuation - USD values of the route's output and the swap's gas, when priced
+ * @returns Quote without its rank
+ *
+ * @example
+ * ```typescript
+ * // 2990 USDC out with $1.50 of gas
+ * getChainQuote("base", amount, route, { outputValueUsd: "2990.00", gasCostUsd: "1.50" })
+ * // { chainName: "base", ..., gasCostUsd: "1.50", netOutput: "2988.5", gasIncluded: true }
+ * ```
+ */
+export function getChainQuote(
+	chainName: SupportedChain,
+	amount: ChainQuote["amount"],
+	route: RouteSuccess,
+	{ outputValueUsd, gasCostUsd }: Pick<TradeValuation, "outputValueUsd" | "gasCostUsd">
+): Omit<ChainQuote, "rank"> {
+	const output = Number(
+		formatUnits(BigInt(route.outputAmount), Number(route.outputToken.decimals))
+	);
+	const gasCost = Number(gasCostUsd);
+	const outputValue = Number(outputValueUsd);
+	const hasGasCost = Boolean(gasCostUsd) && Number.isFinite(gasCost);
+	const gasIncluded = hasGasCost && outputValue > 0;
+
+	return {
+		chainName,
+		amount,
+		outputAmount: {
+			raw: route.outputAmount,
+			formatted: formatAmountPretty(route.outputAmount, Number(route.outputToken.decimals)),
+		},
+		...(outputValueUsd !== undefined && { outputValueUsd }),
+		...(hasGasCost && { gasCostUsd: formatUsd(gasCost) }),
+		netOutput: formatRate(gasIncluded ? output * (1 - gasCost / outputValue) : output),
+		gasIncluded,
+	};
+}
+
+/**
+ * Rank chain quotes, best first: quotes net of gas by net output, then the
+ * quotes whose gas could not be priced by gross output
+ */
+export function rankChainQuotes(quotes: Omit<ChainQuote, "rank">[]): ChainQuote[] {
+	return [...quotes]
+		.sort(
+			(a, b) =>
+				Number(b.gasIncluded) - Number(a.gasIncluded) ||
+				Number(b.netOutput) - Number(a.netOutput)
+		)
+		.map((quote, index) => ({ rank: index + 1, ...quote }));
+}
@@ -0,0 +1,196 @@
+import { createPublicClient, createWalletClient, http, erc20Abi, parseUnits, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { Account as StarknetAccount, RpcProvider } from "starknet";
+import { getServerConfig, type ApprovalPolicy, type ChainConfig } from "./config.js";
+import type { SupportedChain } from "./validation.js";
+import { EXPLORER_URLS } from "./constants.js";
+import { ToolError } from "./errors.js";
+import { getTokenBalance } from "./balances.js";
+import { getEvmFees } from "./fees.js";
+import {
+	waitForEvmReceipt,
+	waitForStarknetReceipt,
+	type TransactionReplacement,
+} from "./replacement.js";
+import { isNativeToken, matchesToken } from "./tokens.js";
+import { getViemChain, getWalletAddress } from "./wallet.js";
+
+/**
+ * Result of revoking a token allowance
+ */
+export interface RevokeResult {
+	chainName: SupportedChain;
+	tokenAddress: string;
+	spender: string;
+	previousAllowance: string;
+	revoked: boolean; // False when there was no allowance to revoke
+	transactionHash?: string;
+	explorerUrl?: string;
+	replacement?: TransactionReplacement; // Set when the revoke got stuck and was replaced
+}
+
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+// Allowances this large are treated as unlimited (routers may decrement a max approval)
+const UNLIMITED_ALLOWANCE_THRESHOLD = MAX_UINT256 / 2n;
+
+/**
+ * Check whether an allowance is effectively unlimited
+ */
+export function isUnlimitedAllowance(allowance: bigint): boolean {
+	return allowance >= UNLIMITED_ALLOWANCE_THRESHOLD;
+}
+
+/**
+ * Work out how much to approve for a swap under the configured policy
+ *
+ * @param amount - Swap input amount in wei
+ * @param policy - Approval policy (defaults to exact approvals)
+ * @param token - Input token, to find its cap and convert it with the token's decimals
+ * @returns Allowance to grant: the swap amount, the max uint256, or the token's cap (never below the amount)
+ *
+ * @example
+ * ```typescript
+ * getApprovalAmount(100n, { mode: "exact" }) // 100n
+ * getApprovalAmount(100n, { mode: "capped", caps: [{ token: "USDC", amount: "1000" }] }, usdc) // 1000000000n
+ * ```
+ */
+export function getApprovalAmount(
+	amount: bigint,
+	policy: ApprovalPolicy = { mode: "exact" },
+	token?: { address: string; symbol?: string; decimals: number | string }
+): bigint {
+	switch (policy.mode) {
+		case "unlimited":
+			return MAX_UINT256;
+		case "capped": {
+			// Tokens without a cap of their own are approved exactly
+			const cap = token && policy.caps?.find(({ token: ref }) => matchesToken(ref, token));
+			if (!cap) return amount;
+			const capAmount = parseUnits(cap.amount, Number(token.decimals));
+			return capAmount > amount ? capAmount : amount;
+		}
+		default:
+			return amount;
+	}
+}
+
+/**
+ * Set the configured wallet's allowance for a spender back to zero
+ *
+ * @param tokenAddress - Token whose allowance is revoked
+ * @param spender - Spender address (usually the Fibrous router)
+ * @param chainName - Chain name
+ * @param chainConfig - Chain configuration
+ * @returns Revocation details; no transaction is sent when the allowance is already zero
+ */
+export async function revokeApproval(
+	tokenAddress: string,
+	spender: string,
+	chainName: SupportedChain,
+	chainConfig: ChainConfig
+): Promise<RevokeResult> {
+	if (chainName !== "starknet" && isNativeToken(tokenAddress)) {
+		throw new ToolError("INVALID_PARAMS", "Native ETH has no allowance to revoke");
+	}
+
+	const owner = await getWalletAddress(chainConfig, chainName);
+	const { allowance = 0n } = await getTokenBalance(owner, chainName, tokenAddress, {
+		rpcUrl: chainConfig.rpcUrl,
+		routerAddress: spender,
+	});
+
+	const result: RevokeResult = {
+		chainName,
+		tokenAddress,
+		spender,
+		previousAllowance: allowance.toString(),
+		revoked: false,
+	};
+	if (allowance === 0n) {
+		return result;
+	}
+
+	console.error(`[INFO] Revoking ${chainName} allowance of ${tokenAddress} for ${spender}`);
+
+	const serverConfig = getServerConfig();
+	let transactionHash: string;
+	let replacement: TransactionReplacement | undefined;
+	if (chainName === "starknet") {
+		const provider = new RpcProvider({ nodeUrl: chainConfig.rpcUrl });
+		const account = new StarknetAccount(provider, owner, chainConfig.privateKey);
+
+		// approve(spender, u256 { low: 0, high: 0 })
+		const { transaction_hash } = await account.execute([
+			{ contractAddress: tokenAddress, entrypoint: "approve", calldata: [spender, "0", "0"] },
+		]);
+
+		const receipt = await waitForStarknetReceipt(
+			provider,
+			transaction_hash,
+			serverConfig.transactionTimeout
+		);
+		if ("execution_status" in receipt && receipt.execution_status === "REVERTED") {
+			throw new ToolError(
+				"TRANSACTION_REVERTED",
+				`Revoke transaction reverted: ${transaction_hash}`
+			);
+		}
+		transactionHash = transaction_hash;
+	} else {
+		const chain = getViemChain(chainName);
+		const account = privateKeyToAccount(chainConfig.privateKey as Hex);
+		const publicClient = createPublicClient({ chain, transport: http(chainConfig.rpcUrl) });
+		const walletClient = createWalletClient({
+			account,
+			chain,
+			transport: http(chainConfig.rpcUrl),
+		});
+
+		const fees = await getEvmFees(
+			publicClient,
+			serverConfig.feeStrategy,
+			serverConfig.gasPriceMultiplier
+		);
+		const hash = await walletClient.writeContract({
+			address: tokenAddress as Hex,
+			abi: erc20Abi,
+			functionName: "approve",
+			args: [spender as Hex, 0n],
+			...fees,
+		});
+
+		const { receipt, replacement: sent } = await waitForEvmReceipt(
+			publicClient,
+			walletClient,
+			hash,
+			{
+				stage: "approval",
+				timeoutSeconds: serverConfig.transactionTimeout,
+				policy: serverConfig.stuckTransactionPolicy,
+			}
+		);
+		replacement = sent;
+
+		// A cancel replaces the revoke with an empty transaction, leaving the allowance in place
+		if (replacement?.action === "cancel" && replacement.outcome === "replaced") {
+			throw new ToolError(
+				"TRANSACTION_TIMEOUT",
+				`Revoke transaction ${hash} was not mined in time and has been cancelled; the allowance is unchanged`,
+				{ details: { replacement } }
+			);
+		}
+		if (receipt.status === "reverted") {
+			throw new ToolError("TRANSACTION_REVERTED", `Revoke transaction reverted: ${hash}`);
+		}
+		transactionHash = replacement?.outcome === "replaced" ? replacement.replacementHash : hash;
+	}
+
+	return {
+		...result,
+		revoked: true,
+		transactionHash,
+		explorerUrl: `${EXPLORER_URLS[chainName]}/${transactionHash}`,
+		...(replacement && { replacement }),
+	};
+}
@@ -0,0 +1,358 @@
+import type { Token } from "fibrous-router-sdk";
+import { createPublicClient, http, erc20Abi, type Hex } from "viem";
+import { RpcProvider } from "starknet";
+import type { SupportedChain } from "./validation.js";
+import { formatAmountPretty } from "./amounts.js";
+import { DEFAULTS, NATIVE_TOKEN } from "./constants.js";
+import { isNativeToken, isSameAddress } from "./tokens.js";
+import { getViemChain } from "./wallet.js";
+
+/**
+ * Amount in raw (smallest unit) and pretty-printed form
+ */
+export interface TokenAmount {
+	raw: string;
+	formatted: string;
+}
+
+/**
+ * Balance of a single token, with the router allowance for ERC20 tokens
+ */
+export interface TokenBalance {
+	symbol: string;
+	name: string;
+	address: string;
+	decimals: number;
+	balance: TokenAmount;
+	allowance?: TokenAmount;
+}
+
+/**
+ * Token whose balance could not be read
+ */
+export interface FailedBalance {
+	symbol?: string;
+	address: string;
+	error: string;
+}
+
+/**
+ * Balances held by an address on one chain
+ */
+export interface WalletBalances {
+	chainName: SupportedChain;
+	address: string;
+	routerAddress?: string;
+	native: TokenBalance;
+	tokens: TokenBalance[];
+	failed: FailedBalance[];
+}
+
+export interface WalletBalanceOptions {
+	rpcUrl: string;
+	routerAddress?: string; // Allowances are read for this spender when set
+	includeZeroBalances?: boolean;
+}
+
+// Starknet has no multicall on the RPC, so token reads are sent in small batches
+const STARKNET_BATCH_SIZE = 10;
+
+function toTokenAmount(raw: bigint, decimals: number): TokenAmount {
+	return { raw: raw.toString(), formatted: formatAmountPretty(raw.toString(), decimals) };
+}
+
+function toTokenBalance(
+	token: Pick<Token, "symbol" | "name" | "address">,
+	decimals: number,
+	balance: bigint,
+	allowance?: bigint
+): TokenBalance {
+	return {
+		symbol: token.symbol,
+		name: token.name,
+		address: token.address,
+		decimals,
+		balance: toTokenAmount(balance, decimals),
+		...(allowance !== undefined && { allowance: toTokenAmount(allowance, decimals) }),
+	};
+}
+
+function getErrorMessage(error: unknown): string {
+	if (error instanceof Error) {
+		return (error as Error & { shortMessage?: string }).shortMessage || error.message;
+	}
+	return "Unknown error";
+}
+
+// --- EVM ---
+
+async function getEvmBalances(
+	owner: string,
+	chainName: SupportedChain,
+	tokens: Token[],
+	{ rpcUrl, routerAddress }: WalletBalanceOptions
+): Promise<Omit<WalletBalances, "chainName" | "address" | "routerAddress">> {
+	const publicClient = createPublicClient({
+		chain: getViemChain(chainName),
+		transport: http(rpcUrl),
+	});
+
+	const nativeBalance = await publicClient.getBalance({ address: owner as Hex });
+
+	// One multicall reads every balance (and allowance) in a single request
+	const contracts = tokens.flatMap((token) => [
+		{
+			address: token.address as Hex,
+			abi: erc20Abi,
+			functionName: "balanceOf" as const,
+			args: [owner as Hex] as const,
+		},
+		...(routerAddress
+			? [
+					{
+						address: token.address as Hex,
+						abi: erc20Abi,
+						functionName: "allowance" as const,
+						args: [owner as Hex, routerAddress as Hex] as const,
+					},
+				]
+			: []),
+	]);
+	const results: { status: "success" | "failure"; result?: unknown; error?: Error }[] =
+		contracts.length > 0 ? await publicClient.multicall({ contracts, allowFailure: true }) : [];
+
+	const step = routerAddress ? 2 : 1;
+	const balances: TokenBalance[] = [];
+	const failed: FailedBalance[] = [];
+
+	tokens.forEach((token, index) => {
+		const balanceResult = results[index * step];
+		const allowanceResult = routerAddress ? results[index * step + 1] : undefined;
+
+		if (balanceResult?.status !== "success") {
+			failed.push({
+				symbol: token.symbol,
+				address: token.address,
+				error: getErrorMessage(balanceResult?.error),
+			});
+			return;
+		}
+
+		balances.push(
+			toTokenBalance(
+				token,
+				Number(token.decimals),
+				balanceResult.result as bigint,
+				allowanceResult?.status === "success"
+					? (allowanceResult.result as bigint)
+					: undefined
+			)
+		);
+	});
+
+	return {
+		native: toTokenBalance(
+			{ symbol: "ETH", name: "Ether", address: NATIVE_TOKEN.EVM_ADDRESS },
+			DEFAULTS.DECIMALS,
+			nativeBalance
+		),
+		tokens: balances,
+		failed,
+	};
+}
+
+// --- Starknet ---
+
+/**
+ * Call a Starknet view returning a u256, trying each entrypoint name in turn
+ * (older tokens only expose the snake_case variant)
+ */
+async function readStarknetU256(
+	provider: RpcProvider,
+	contractAddress: string,
+	entrypoints: string[],
+	calldata: string[]
+): Promise<bigint> {
+	let lastError: unknown;
+	for (const entrypoint of entrypoints) {
+		try {
+			const [low, high] = await provider.callContract({
+				contractAddress,
+				entrypoint,
+				calldata,
+			});
+			return BigInt(low) + (BigInt(high ?? 0) << 128n);
+		} catch (error) {
+			lastError = error;
+		}
+	}
+	throw lastError;
+}
+
+async function getStarknetBalances(
+	owner: string,
+	tokens: Token[],
+	{ rpcUrl, routerAddress }: WalletBalanceOptions
+): Promise<Omit<WalletBalances, "chainName" | "address" | "routerAddress">> {
+	const provider = new RpcProvider({ nodeUrl: rpcUrl });
+
+	const readBalance = (token: string) =>
+		readStarknetU256(provider, token, ["balanceOf", "balance_of"], [owner]);
+	const readAllowance = (token: string, spender: string) =>
+		readStarknetU256(provider, token, ["allowance"], [owner, spender]);
+
+	const nativeBalance = await readBalance(NATIVE_TOKEN.STARKNET_ETH_ADDRESS);
+
+	const balances: TokenBalance[] = [];
+	const failed: FailedBalance[] = [];
+
+	for (let i = 0; i < tokens.length; i += STARKNET_BATCH_SIZE) {
+		const batch = tokens.slice(i, i + STARKNET_BATCH_SIZE);
+		const results = await Promise.allSettled(
+			batch.map(async (token) => {
+				const [balance, allowance] = await Promise.all([
+					readBalance(token.address),
+					routerAddress
+						? readAllowance(token.address, routerAddress).catch(() => undefined)
+						: undefined,
+				]);
+				return toTokenBalance(token, Number(token.decimals), balance, allowance);
+			})
+		);
+
+		results.forEach((result, index) => {
+			if (result.status === "fulfilled") {
+				balances.push(result.value);
+			} else {
+				failed.push({
+					symbol: batch[index].symbol,
+					address: batch[index].address,
+					error: getErrorMessage(result.reason),
+				});
+			}
+		});
+	}
+
+	return {
+		native: toTokenBalance(
+			{ symbol: "ETH", name: "Ether", address: NATIVE_TOKEN.STARKNET_ETH_ADDRESS },
+			DEFAULTS.DECIMALS,
+			nativeBalance
+		),
+		tokens: balances,
+		failed,
+	};
+}
+
+// --- Public API ---
+
+/**
+ * Read the balance of a single token, and its allowance for a spender
+ *
+ * @param owner - Address whose balance is read
+ * @param chainName - Chain to query
+ * @param tokenAddress - Token address (the native sentinel reads the EVM native balance)
+ * @param options - RPC URL and optional spender address
+ * @returns Raw balance, plus the allowance when a spender is given for an ERC20 token
+ */
+export async function getTokenBalance(
+	owner: string,
+	chainName: SupportedChain,
+	tokenAddress: string,
+	{ rpcUrl, routerAddress }: Pick<WalletBalanceOptions, "rpcUrl" | "routerAddress">
+): Promise<{ balance: bigint; allowance?: bigint }> {
+	if (chainName === "starknet") {
+		const provider = new RpcProvider({ nodeUrl: rpcUrl });
+		const [balance, allowance] = await Promise.all([
+			readStarknetU256(provider, tokenAddress, ["balanceOf", "balance_of"], [owner]),
+			routerAddress
+				? readStarknetU256(provider, tokenAddress, ["allowance"], [owner, routerAddress])
+				: undefined,
+		]);
+		return { balance, allowance };
+	}
+
+	const publicClient = createPublicClient({
+		chain: getViemChain(chainName),
+		transport: http(rpcUrl),
+	});
+
+	if (isNativeToken(tokenAddress)) {
+		return { balance: await publicClient.getBalance({ address: owner as Hex }) };
+	}
+
+	const [balance, allowance] = await Promise.all([
+		publicClient.readContract({
+			address: tokenAddress as Hex,
+			abi: erc20Abi,
+			functionName: "balanceOf",
+			args: [owner as Hex],
+		}),
+		routerAddress
+			? publicClient.readContract({
+					address: tokenAddress as Hex,
+					abi: erc20Abi,
+					functionName: "allowance",
+					args: [owner as Hex, routerAddress as Hex],
+				})
+			: undefined,
+	]);
+	return { balance, allowance };
+}
+
+/**
+ * Read native and token balances, plus router allowances, for an address
+ *
+ * @param owner - Address whose balances are read
+ * @param chainName - Chain to query
+ * @param tokens - Tokens to read (the native token is always included)
+ * @param options - RPC URL, router (spender) address and zero-balance filtering
+ * @returns Balances with raw and pretty-printed amounts
+ *
+ * @example
+ * ```typescript
+ * const balances = await getWalletBalances("0x742d...", "base", tokens, {
+ *   rpcUrl: "https://mainnet.base.org",
+ *   routerAddress: "0x274...",
+ * })
+ * balances.native.balance.formatted // "0.42"
+ * ```
+ */
+export async function getWalletBalances(
+	owner: string,
+	chainName: SupportedChain,
+	tokens: Token[],
+	options: WalletBalanceOptions
+): Promise<WalletBalances> {
+	// The native token is reported separately, never as an ERC20
+	const erc20Tokens = tokens.filter((token) =>
+		chainName === "starknet"
+			? !isSameAddress(token.address, NATIVE_TOKEN.STARKNET_ETH_ADDRESS)
+			: !isNativeToken(token.address)
+	);
+
+	const {
+		native,
+		tokens: balances,
+		failed,
+	} = chainName === "starknet"
+		? await getStarknetBalances(owner, erc20Tokens, options)
+		: await getEvmBalances(owner, chainName, erc20Tokens, options);
+
+	// Tokens with a lingering allowance are kept even when the balance is zero
+	const filtered = options.includeZeroBalances
+		? balances
+		: balances.filter(
+				(token) =>
+					token.balance.raw !== "0" || (token.allowance && token.allowance.raw !== "0")
+			);
+
+	return {
+		chainName,
+		address: owner,
+		routerAddress: options.routerAddress,
+		native,
+		tokens: filtered,
+		failed,
+	};
+}
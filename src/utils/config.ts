@@ -1,4 +1,9 @@
+import { readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
 import type { SupportedChain } from "./validation.js";
+import { ToolError } from "./errors.js";
+import { PUBLIC_RPC_URLS } from "./constants.js";
 
 export interface ChainConfig {
 	rpcUrl: string;
@@ -12,11 +17,78 @@ export interface WalletConfig {
 	starknet: ChainConfig;
 }
 
+export type ApprovalMode = "exact" | "unlimited" | "capped";
+
+export interface ApprovalCap {
+	token: string; // Token symbol or address
+	amount: string; // Human-readable amount, converted with the token's decimals
+}
+
+export interface ApprovalPolicy {
+	mode: ApprovalMode;
+	caps?: ApprovalCap[]; // Allowances granted in "capped" mode; other tokens get exact approvals
+}
+
+export type FeeStrategy = "slow" | "standard" | "fast";
+
+export type StuckTransactionAction = "none" | "speed-up" | "cancel";
+
+/**
+ * What to do with an EVM transaction still pending after TRANSACTION_TIMEOUT
+ */
+export interface StuckTransactionPolicy {
+	action: StuckTransactionAction;
+	feeBump: number; // Percent added to the stuck transaction's fee for the replacement
+}
+
+/**
+ * Slippage used when a tool call gives none, before the server default
+ */
+export interface SlippageOverrides {
+	chains: Partial<Record<SupportedChain, number>>;
+	pairs: { tokens: [string, string]; slippage: number }[]; // Symbols or addresses, either order
+}
+
+/**
+ * Limits enforced on every swap; unset fields are not checked
+ */
+export interface SwapPolicy {
+	enabledChains?: SupportedChain[];
+	maxSwapUsd?: number;
+	maxDailyUsd?: number; // Rolling 24 hours, across all chains
+	maxSwapAmounts?: Record<string, string>; // Token symbol or address → max per swap, in token units
+	maxDailyAmounts?: Record<string, string>; // Token symbol or address → max per rolling 24 hours
+	allowedTokens?: string[]; // Symbols or addresses; when set, both swap tokens must be listed
+	deniedTokens?: string[];
+	allowedReceivers?: string[]; // The configured wallet is always allowed
+	maxSlippage?: number;
+	maxPriceImpact?: number;
+}
+
 export interface ServerConfig {
 	defaultSlippage: number;
-	gasPriceMultiplier: number;
+	slippageOverrides: SlippageOverrides;
+	gasPriceMultiplier: number; // Legacy gas price only; EIP-1559 fees follow feeStrategy
+	feeStrategy: FeeStrategy; // Priority fee for EIP-1559 transactions
 	transactionTimeout: number;
+	strictGasEstimates: boolean; // Fail instead of returning fallback gas estimates
 	fibrousApiKey?: string;
+	approvalPolicy: ApprovalPolicy;
+	stuckTransactionPolicy: StuckTransactionPolicy;
+	quoteTtl: number; // Seconds a prepare-swap quote stays valid
+	quoteDriftTolerance: number; // Max % the output may fall between prepare and confirm
+	historyDir: string; // Directory holding the swap history (swaps.jsonl)
+}
+
+export type TransportType = "stdio" | "http";
+
+export interface TransportConfig {
+	transport: TransportType;
+	host: string;
+	port: number;
+	authToken?: string; // Bearer token required on every HTTP request (MCP_AUTH_TOKEN)
+	allowedHosts: string[]; // Hostnames accepted in the Host and Origin headers
+	sessionIdleTimeout: number; // Seconds before an idle HTTP session is closed
 }
 
 // --- Security Constants ---
@@ -29,32 +101,78 @@ const MAX_GAS_MULTIPLIER = 5.0; // 5x max
 const MIN_GAS_MULTIPLIER = 1.0; // 1x min
 const MAX_SLIPPAGE = 50; // 50% max
 const MIN_SLIPPAGE = 0.01; // 0.01% min
+const MIN_QUOTE_TTL = 10; // 10 seconds min
+const MAX_QUOTE_TTL = 600; // 10 minutes max
+const MIN_PORT = 1;
+const MAX_PORT = 65535;
+const MIN_SESSION_IDLE_TIMEOUT = 60; // 1 minute min
+const MAX_SESSION_IDLE_TIMEOUT = 86400; // 1 day max
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "::1"];
+const WILDCARD_HOSTS = ["0.0.0.0", "::"];
+const TRANSPORT_TYPES: TransportType[] = ["stdio", "http"];
+const APPROVAL_MODES: ApprovalMode[] = ["exact", "unlimited", "capped"];
+const FEE_STRATEGIES: FeeStrategy[] = ["slow", "standard", "fast"];
+const STUCK_TX_ACTIONS: StuckTransactionAction[] = ["none", "speed-up", "cancel"];
+const MIN_FEE_BUMP = 10; // Nodes reject replacements priced less than 10% higher
+const MAX_FEE_BUMP = 500;
+const POLICY_NUMBER_KEYS = ["maxSwapUsd", "maxDailyUsd", "maxSlippage", "maxPriceImpact"] as const;
+const POLICY_LIST_KEYS = [
+	"enabledChains",
+	"allowedTokens",
+	"deniedTokens",
+	"allowedReceivers",
+] as const;
+const POLICY_AMOUNT_KEYS = ["maxSwapAmounts", "maxDailyAmounts"] as const;
 
 // --- Environment Variable Helpers ---
 
 function getEnvVar(key: string, required = true): string {
 	const value = process.env[key];
 	if (required && !value) {
-		throw new Error(`Environment variable ${key} is required but not set`);
+		throw new ToolError(
+			"CONFIG_INVALID",
+			`Environment variable ${key} is required but not set`
+		);
 	}
 	return value || "";
 }
 
+function getEnvBoolean(key: string, defaultValue: boolean): boolean {
+	const value = process.env[key];
+	if (!value) return defaultValue;
+	if (value !== "true" && value !== "false") {
+		throw new ToolError(
+			"CONFIG_INVALID",
+			`Environment variable ${key} must be true or false, got: ${value}`
+		);
+	}
+	return value === "true";
+}
+
 function getEnvNumber(key: string, defaultValue: number, min?: number, max?: number): number {
 	const value = process.env[key];
 	if (!value) return defaultValue;
 
 	const num = parseFloat(value);
 	if (isNaN(num)) {
-		throw new Error(`Environment variable ${key} must be a valid number, got: ${value}`);
+		throw new ToolError(
+			"CONFIG_INVALID",
+			`Environment variable ${key} must be a valid number, got: ${value}`
+		);
 	}
 
 	if (min !== undefined && num < min) {
-		throw new Error(`Environment variable ${key} must be >= ${min}, got: ${num}`);
+		throw new ToolError(
+			"CONFIG_INVALID",
+			`Environment variable ${key} must be >= ${min}, got: ${num}`
+		);
 	}
 
 	if (max !== undefined && num > max) {
-		throw new Error(`Environment variable ${key} must be <= ${max}, got: ${num}`);
+		throw new ToolError(
+			"CONFIG_INVALID",
+			`Environment variable ${key} must be <= ${max}, got: ${num}`
+		);
 	}
 
 	return num;
@@ -143,17 +261,360 @@ export function getWalletConfig(): WalletConfig {
 export function getServerConfig(): ServerConfig {
 	return {
 		defaultSlippage: getEnvNumber("DEFAULT_SLIPPAGE", 1.0, MIN_SLIPPAGE, MAX_SLIPPAGE),
+		slippageOverrides: getSlippageOverrides(),
 		gasPriceMultiplier: getEnvNumber(
 			"GAS_PRICE_MULTIPLIER",
 			1.2,
 			MIN_GAS_MULTIPLIER,
 			MAX_GAS_MULTIPLIER
 		),
+		feeStrategy: getFeeStrategy(),
 		transactionTimeout: getEnvNumber("TRANSACTION_TIMEOUT", 300, MIN_TIMEOUT, MAX_TIMEOUT),
+		strictGasEstimates: getEnvBoolean("STRICT_GAS_ESTIMATES", false),
 		fibrousApiKey: getEnvVar("FIBROUS_API_KEY", false),
+		approvalPolicy: getApprovalPolicy(),
+		stuckTransactionPolicy: getStuckTransactionPolicy(),
+		quoteTtl: getEnvNumber("QUOTE_TTL", 60, MIN_QUOTE_TTL, MAX_QUOTE_TTL),
+		quoteDriftTolerance: getEnvNumber("QUOTE_DRIFT_TOLERANCE", 0.5, 0, MAX_SLIPPAGE),
+		historyDir: getEnvVar("SWAP_HISTORY_DIR", false) || join(homedir(), ".fibrous-mcp"),
+	};
+}
+
+/**
+ * Read the router approval policy from APPROVAL_POLICY and APPROVAL_CAP
+ */
+function getApprovalPolicy(): ApprovalPolicy {
+	const mode = getEnvVar("APPROVAL_POLICY", false) || "exact";
+	if (!APPROVAL_MODES.includes(mode as ApprovalMode)) {
+		throw new ToolError(
+			"CONFIG_INVALID",
+			`APPROVAL_POLICY must be one of ${APPROVAL_MODES.join(", ")}, got: ${mode}`
+		);
+	}
+
+	if (mode !== "capped") {
+		return { mode: mode as ApprovalMode };
+	}
+
+	const caps = getEnvVar("APPROVAL_CAP", false)
+		.split(",")
+		.filter((item) => item.trim())
+		.map((item) => {
+			const separator = item.lastIndexOf(":");
+			const token = item.slice(0, separator).trim();
+			const amount = item.slice(separator + 1).trim();
+			if (separator < 0 || !token || !/^\d+(\.\d+)?$/.test(amount) || Number(amount) <= 0) {
+				throw new ToolError(
+					"CONFIG_INVALID",
+					`APPROVAL_CAP entries must look like "token:amount" with a positive token amount, got: ${item.trim()}`
+				);
+			}
+			return { token, amount };
+		});
+	if (caps.length === 0) {
+		throw new ToolError(
+			"CONFIG_INVALID",
+			"APPROVAL_CAP must list at least one token cap when APPROVAL_POLICY=capped"
+		);
+	}
+	return { mode: "capped", caps };
+}
+
+/**
+ * Parse a "key:percent" list of slippage overrides
+ */
+function parseSlippageList(key: string): [string, number][] {
+	return getEnvVar(key, false)
+		.split(",")
+		.filter((item) => item.trim())
+		.map((item) => {
+			const separator = item.lastIndexOf(":");
+			const name = item.slice(0, separator).trim();
+			const slippage = Number(item.slice(separator + 1));
+			if (
+				separator < 0 ||
+				!name ||
+				!Number.isFinite(slippage) ||
+				slippage < MIN_SLIPPAGE ||
+				slippage > MAX_SLIPPAGE
+			) {
+				throw new ToolError(
+					"CONFIG_INVALID",
+					`${key} entries must look like "name:percent" with ${MIN_SLIPPAGE}-${MAX_SLIPPAGE}% slippage, got: ${item.trim()}`
+				);
+			}
+			return [name, slippage];
+		});
+}
+
+/**
+ * Read per-chain (SLIPPAGE_BY_CHAIN) and per-pair (SLIPPAGE_BY_PAIR) slippage overrides
+ */
+function getSlippageOverrides(): SlippageOverrides {
+	const chains: SlippageOverrides["chains"] = {};
+	for (const [chain, slippage] of parseSlippageList("SLIPPAGE_BY_CHAIN")) {
+		if (!(chain in PUBLIC_RPC_URLS)) {
+			throw new ToolError(
+				"CONFIG_INVALID",
+				`SLIPPAGE_BY_CHAIN has an unsupported chain: ${chain}`
+			);
+		}
+		chains[chain as SupportedChain] = slippage;
+	}
+
+	const pairs = parseSlippageList("SLIPPAGE_BY_PAIR").map(([pair, slippage]) => {
+		const tokens = pair.split("/").map((token) => token.trim());
+		if (tokens.length !== 2 || !tokens[0] || !tokens[1]) {
+			throw new ToolError(
+				"CONFIG_INVALID",
+				`SLIPPAGE_BY_PAIR pairs must look like "TOKEN_A/TOKEN_B", got: ${pair}`
+			);
+		}
+		return { tokens: tokens as [string, string], slippage };
+	});
+
+	return { chains, pairs };
+}
+
+/**
+ * Read the EIP-1559 priority fee strategy from GAS_FEE_STRATEGY
+ */
+function getFeeStrategy(): FeeStrategy {
+	const strategy = getEnvVar("GAS_FEE_STRATEGY", false) || "standard";
+	if (!FEE_STRATEGIES.includes(strategy as FeeStrategy)) {
+		throw new ToolError(
+			"CONFIG_INVALID",
+			`GAS_FEE_STRATEGY must be one of ${FEE_STRATEGIES.join(", ")}, got: ${strategy}`
+		);
+	}
+	return strategy as FeeStrategy;
+}
+
+/**
+ * Read the stuck transaction policy from STUCK_TX_ACTION and STUCK_TX_FEE_BUMP
+ */
+function getStuckTransactionPolicy(): StuckTransactionPolicy {
+	const action = getEnvVar("STUCK_TX_ACTION", false) || "none";
+	if (!STUCK_TX_ACTIONS.includes(action as StuckTransactionAction)) {
+		throw new ToolError(
+			"CONFIG_INVALID",
+			`STUCK_TX_ACTION must be one of ${STUCK_TX_ACTIONS.join(", ")}, got: ${action}`
+		);
+	}
+
+	return {
+		action: action as StuckTransactionAction,
+		feeBump: getEnvNumber("STUCK_TX_FEE_BUMP", 20, MIN_FEE_BUMP, MAX_FEE_BUMP),
 	};
 }
 
+// --- Swap Policy ---
+
+/**
+ * Environment variable overriding a policy field, e.g. maxSwapUsd → POLICY_MAX_SWAP_USD
+ */
+function getPolicyEnvKey(key: keyof SwapPolicy): string {
+	return `POLICY_${key.replace(/[A-Z]/g, (letter) => `_${letter}`).toUpperCase()}`;
+}
+
+function readPolicyFile(path: string): Record<string, unknown> {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(readFileSync(path, "utf8"));
+	} catch (error) {
+		throw new ToolError(
+			"CONFIG_INVALID",
+			`SWAP_POLICY_FILE could not be read as JSON (${path}): ${error instanceof Error ? error.message : error}`
+		);
+	}
+	if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+		throw new ToolError(
+			"CONFIG_INVALID",
+			`SWAP_POLICY_FILE must contain a JSON object: ${path}`
+		);
+	}
+	return parsed as Record<string, unknown>;
+}
+
+/**
+ * Parse a "SYMBOL:amount" list (env) or an object (file) of token-unit caps
+ */
+function parsePolicyAmounts(key: string, value: unknown): Record<string, string> {
+	const entries =
+		typeof value === "string"
+			? value
+					.split(",")
+					.filter((item) => item.trim())
+					.map((item) => {
+						const separator = item.lastIndexOf(":");
+						return [item.slice(0, separator).trim(), item.slice(separator + 1).trim()];
+					})
+			: value && typeof value === "object" && !Array.isArray(value)
+				? Object.entries(value).map(([token, amount]) => [token, String(amount)])
+				: undefined;
+
+	if (!entries || entries.some(([token, amount]) => !token || !/^\d+(\.\d+)?$/.test(amount))) {
+		throw new ToolError(
+			"CONFIG_INVALID",
+			`Swap policy ${key} must map tokens to positive amounts, e.g. "USDC:1000,ETH:0.5"`
+		);
+	}
+	return Object.fromEntries(entries);
+}
+
+/**
+ * Read the swap policy from SWAP_POLICY_FILE (JSON), with POLICY_* variables taking precedence
+ *
+ * @returns Policy with only the configured fields set (an empty object enforces nothing)
+ * @throws ToolError CONFIG_INVALID when the file or a field is malformed
+ *
+ * @example
+ * ```typescript
+ * // POLICY_MAX_SWAP_USD=500 POLICY_DENIED_TOKENS=PEPE
+ * getSwapPolicy() // { maxSwapUsd: 500, deniedTokens: ["PEPE"] }
+ * ```
+ */
+export function getSwapPolicy(): SwapPolicy {
+	const policyFile = getEnvVar("SWAP_POLICY_FILE", false);
+	const fileValues = policyFile ? readPolicyFile(policyFile) : {};
+	const valueOf = (key: keyof SwapPolicy): unknown =>
+		process.env[getPolicyEnvKey(key)] || fileValues[key];
+
+	const policy: SwapPolicy = {};
+
+	for (const key of POLICY_NUMBER_KEYS) {
+		const value = valueOf(key);
+		if (value === undefined) continue;
+		const num = typeof value === "number" ? value : parseFloat(String(value));
+		if (isNaN(num) || num < 0) {
+			throw new ToolError(
+				"CONFIG_INVALID",
+				`Swap policy ${key} must be a non-negative number, got: ${value}`
+			);
+		}
+		policy[key] = num;
+	}
+
+	for (const key of POLICY_LIST_KEYS) {
+		const value = valueOf(key);
+		if (value === undefined) continue;
+		const list =
+			typeof value === "string"
+				? value
+						.split(",")
+						.map((item) => item.trim())
+						.filter(Boolean)
+				: value;
+		if (!Array.isArray(list) || list.some((item) => typeof item !== "string")) {
+			throw new ToolError("CONFIG_INVALID", `Swap policy ${key} must be a list of strings`);
+		}
+		if (key === "enabledChains") {
+			const unknown = list.filter((chain) => !(chain in PUBLIC_RPC_URLS));
+			if (unknown.length > 0) {
+				throw new ToolError(
+					"CONFIG_INVALID",
+					`Swap policy enabledChains has unsupported chains: ${unknown.join(", ")}`
+				);
+			}
+			policy.enabledChains = list as SupportedChain[];
+		} else {
+			policy[key] = list;
+		}
+	}
+
+	for (const key of POLICY_AMOUNT_KEYS) {
+		const value = valueOf(key);
+		if (value !== undefined) {
+			policy[key] = parsePolicyAmounts(key, value);
+		}
+	}
+
+	return policy;
+}
+
+/**
+ * Read a CLI flag given as `--name value` or `--name=value`
+ */
+function getCliFlag(argv: string[], name: string): string | undefined {
+	const flag = `--${name}`;
+	for (let i = 0; i < argv.length; i++) {
+		if (argv[i] === flag) return argv[i + 1];
+		if (argv[i].startsWith(`${flag}=`)) return argv[i].slice(flag.length + 1);
+	}
+	return undefined;
+}
+
+/**
+ * Resolve the MCP transport from CLI flags (--transport, --host, --port),
+ * falling back to MCP_TRANSPORT, MCP_HOST and MCP_PORT. HTTP on a
+ * non-loopback host requires MCP_AUTH_TOKEN.
+ */
+export function getTransportConfig(argv: string[] = process.argv.slice(2)): TransportConfig {
+	const transport = getCliFlag(argv, "transport") ?? process.env.MCP_TRANSPORT ?? "stdio";
+	if (!TRANSPORT_TYPES.includes(transport as TransportType)) {
+		throw new ToolError(
+			"CONFIG_INVALID",
+			`Transport must be one of ${TRANSPORT_TYPES.join(", ")}, got: ${transport}`
+		);
+	}
+
+	const portFlag = getCliFlag(argv, "port");
+	let port: number;
+	if (portFlag === undefined) {
+		port = getEnvNumber("MCP_PORT", 3000, MIN_PORT, MAX_PORT);
+	} else {
+		port = Number(portFlag);
+		if (!Number.isInteger(port) || port < MIN_PORT || port > MAX_PORT) {
+			throw new ToolError(
+				"CONFIG_INVALID",
+				`Port must be an integer between ${MIN_PORT} and ${MAX_PORT}, got: ${portFlag}`
+			);
+		}
+	}
+
+	const host = getCliFlag(argv, "host") ?? (getEnvVar("MCP_HOST", false) || "127.0.0.1");
+	const authToken = getEnvVar("MCP_AUTH_TOKEN", false) || undefined;
+	if (transport === "http" && !isLoopbackHost(host) && !authToken) {
+		throw new ToolError(
+			"CONFIG_INVALID",
+			`Refusing to serve HTTP on non-loopback host ${host} without MCP_AUTH_TOKEN`
+		);
+	}
+
+	// Host headers carry IPv6 addresses in brackets
+	const toHostname = (name: string) => {
+		const hostname = name.toLowerCase();
+		return hostname.includes(":") && !hostname.startsWith("[") ? `[${hostname}]` : hostname;
+	};
+	const allowedHosts = new Set(
+		[...LOOPBACK_HOSTS, host].filter((name) => !WILDCARD_HOSTS.includes(name)).map(toHostname)
+	);
+	for (const entry of (getEnvVar("MCP_ALLOWED_HOSTS", false) || "").split(",")) {
+		if (entry.trim()) allowedHosts.add(toHostname(entry.trim()));
+	}
+
+	return {
+		transport: transport as TransportType,
+		host,
+		port,
+		authToken,
+		allowedHosts: [...allowedHosts],
+		sessionIdleTimeout: getEnvNumber(
+			"MCP_SESSION_IDLE_TIMEOUT",
+			1800,
+			MIN_SESSION_IDLE_TIMEOUT,
+			MAX_SESSION_IDLE_TIMEOUT
+		),
+	};
+}
+
+/**
+ * Whether a bind address only accepts connections from this machine
+ */
+function isLoopbackHost(host: string): boolean {
+	return LOOPBACK_HOSTS.includes(host.toLowerCase()) || /^127(\.\d{1,3}){3}$/.test(host);
+}
+
 // --- Configuration Access ---
 
 export function getChainConfig(chainName: SupportedChain): ChainConfig {
@@ -161,6 +622,13 @@ export function getChainConfig(chainName: SupportedChain): ChainConfig {
 	return walletConfig[chainName];
 }
 
+/**
+ * Get the RPC URL for read-only queries, falling back to the chain's public endpoint
+ */
+export function getRpcUrl(chainName: SupportedChain): string {
+	return getEnvVar(`${chainName.toUpperCase()}_RPC_URL`, false) || PUBLIC_RPC_URLS[chainName];
+}
+
 export function validateChainConfig(chainName: SupportedChain): {
 	isValid: boolean;
 	errors: string[];
@@ -267,9 +735,40 @@ export function logConfigStatus(): void {
 
 	console.error("[INFO] Configuration Status:");
 	console.error(`  - Default Slippage: ${serverConfig.defaultSlippage}%`);
+	const { chains: chainSlippage, pairs: pairSlippage } = serverConfig.slippageOverrides;
+	const slippageOverrides = [
+		...Object.entries(chainSlippage).map(([chain, slippage]) => `${chain} ${slippage}%`),
+		...pairSlippage.map(({ tokens, slippage }) => `${tokens.join("/")} ${slippage}%`),
+	];
+	if (slippageOverrides.length > 0) {
+		console.error(`  - Slippage Overrides: ${slippageOverrides.join(", ")}`);
+	}
 	console.error(`  - Gas Price Multiplier: ${serverConfig.gasPriceMultiplier}x`);
+	console.error(`  - Gas Fee Strategy: ${serverConfig.feeStrategy}`);
 	console.error(`  - Transaction Timeout: ${serverConfig.transactionTimeout}s`);
+	console.error(
+		`  - Gas Estimates: ${serverConfig.strictGasEstimates ? "strict (no fallbacks)" : "fallback on failure"}`
+	);
+	const { action, feeBump } = serverConfig.stuckTransactionPolicy;
+	console.error(
+		`  - Stuck Transactions: ${action === "none" ? "wait only" : `${action} (+${feeBump}% fee)`}`
+	);
 	console.error(`  - API Key: ${serverConfig.fibrousApiKey ? "Set" : "Not set"}`);
+	console.error(
+		`  - Approval Policy: ${serverConfig.approvalPolicy.mode}${serverConfig.approvalPolicy.caps ? ` (caps ${serverConfig.approvalPolicy.caps.map(({ token, amount }) => `${amount} ${token}`).join(", ")})` : ""}`
+	);
+
+	console.error(
+		`  - Quotes: valid ${serverConfig.quoteTtl}s, max drift ${serverConfig.quoteDriftTolerance}%`
+	);
+
+	console.error(`  - Swap History: ${serverConfig.historyDir}`);
+
+	const swapPolicy = getSwapPolicy();
+	const policyRules = Object.keys(swapPolicy);
+	console.error(
+		`  - Swap Policy: ${policyRules.length > 0 ? policyRules.join(", ") : "none (swaps are unrestricted)"}`
+	);
 
 	console.error("[INFO] Chain Configurations:");
 	for (const chain of chains) {
@@ -12,6 +12,15 @@ export const API_ENDPOINTS = {
 	GRAPH_API: "https://graph.fibrous.finance",
 } as const;
 
+// --- Public RPC Endpoints ---
+
+// Used for read-only queries when no RPC URL is configured for a chain
+export const PUBLIC_RPC_URLS = {
+	base: "https://mainnet.base.org",
+	scroll: "https://rpc.scroll.io",
+	starknet: "https://starknet-mainnet.public.blastapi.io",
+} as const;
+
 // --- Explorer URLs ---
 
 export const EXPLORER_URLS = {
@@ -20,6 +29,18 @@ export const EXPLORER_URLS = {
 	starknet: "https://starkscan.co/tx",
 } as const;
 
+// --- Native Token ---
+
+export const NATIVE_TOKEN = {
+	EVM_ADDRESS: "0x0000000000000000000000000000000000000000", // Fibrous router sentinel
+	EVM_ALIASES: [
+		"0x0000000000000000000000000000000000000000",
+		"0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee",
+	],
+	STARKNET_ETH_ADDRESS: "0x049d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7",
+	STARKNET_STRK_ADDRESS: "0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d",
+} as const;
+
 // --- Validation Limits ---
 
 export const VALIDATION_LIMITS = {
@@ -48,12 +69,7 @@ export const GAS_FALLBACKS = {
 // --- Response Limits ---
 
 export const RESPONSE_LIMITS = {
-	MAX_SIZE: 1024 * 1024, // 1MB
-	MAX_ARRAY_LENGTH: 1000,
-	MAX_STRING_LENGTH: 10000,
-	MAX_OBJECT_PROPERTIES: 100,
-	MAX_DEPTH: 3,
-	TRUNCATION_INDICATOR: "... (truncated)",
+	MAX_SIZE: 1024 * 1024, // 1MB of serialized structuredContent
 } as const;
 
 // --- Default Values ---
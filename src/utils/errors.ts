@@ -0,0 +1,257 @@
+/**
+ * Stable error codes returned by every tool failure
+ */
+export const ERROR_CODES = [
+	"UNSUPPORTED_CHAIN",
+	"INVALID_ADDRESS",
+	"INVALID_AMOUNT",
+	"INVALID_PARAMS",
+	"TOKEN_NOT_FOUND",
+	"NO_ROUTE",
+	"INSUFFICIENT_ALLOWANCE",
+	"INSUFFICIENT_BALANCE",
+	"RPC_ERROR",
+	"SLIPPAGE_EXCEEDED",
+	"TRANSACTION_REVERTED",
+	"CONFIG_INVALID",
+	"QUOTE_EXPIRED",
+	"POLICY_VIOLATION",
+	"TRANSACTION_TIMEOUT",
+	"GAS_ESTIMATION_FAILED",
+	"RESPONSE_TOO_LARGE",
+	"UNKNOWN_ERROR",
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+/**
+ * Default retryability and recovery hint for each error code
+ */
+export const ERROR_HINTS: Record<ErrorCode, { retryable: boolean; hint: string }> = {
+	UNSUPPORTED_CHAIN: {
+		retryable: false,
+		hint: "Use one of the supported chains.",
+	},
+	INVALID_ADDRESS: {
+		retryable: false,
+		hint: "Check the address format for the selected chain.",
+	},
+	INVALID_AMOUNT: {
+		retryable: false,
+		hint: "Provide a positive amount in wei (amountWei) or human-readable units (amountHuman).",
+	},
+	INVALID_PARAMS: {
+		retryable: false,
+		hint: "Fix the listed parameters and try again.",
+	},
+	TOKEN_NOT_FOUND: {
+		retryable: false,
+		hint: "Use get-supported-tokens to find the token address or symbol.",
+	},
+	NO_ROUTE: {
+		retryable: true,
+		hint: "Liquidity may change; retry later, with a smaller amount or a different pair.",
+	},
+	INSUFFICIENT_ALLOWANCE: {
+		retryable: true,
+		hint: "Approve the router to spend the input token, then retry.",
+	},
+	INSUFFICIENT_BALANCE: {
+		retryable: false,
+		hint: "Fund the wallet with the input token and enough native token for gas.",
+	},
+	RPC_ERROR: {
+		retryable: true,
+		hint: "The RPC or Fibrous API is unavailable or rate limited; retry with backoff.",
+	},
+	SLIPPAGE_EXCEEDED: {
+		retryable: true,
+		hint: "The price moved; fetch a fresh quote or increase slippage.",
+	},
+	TRANSACTION_REVERTED: {
+		retryable: false,
+		hint: "Simulate the swap with dryRun to inspect the revert reason.",
+	},
+	CONFIG_INVALID: {
+		retryable: false,
+		hint: "Check the wallet and RPC environment variables for this chain.",
+	},
+	QUOTE_EXPIRED: {
+		retryable: true,
+		hint: "Quotes are single-use and short-lived; call prepare-swap for a fresh quote.",
+	},
+	POLICY_VIOLATION: {
+		retryable: false,
+		hint: "The swap breaks the configured spending policy; see error.details.violations.",
+	},
+	TRANSACTION_TIMEOUT: {
+		retryable: false,
+		hint: "The transaction may still be mined; check it with get-transaction-status before retrying.",
+	},
+	GAS_ESTIMATION_FAILED: {
+		retryable: true,
+		hint: "Gas could not be estimated (see error.details.reason); retry, or simulate the swap with dryRun.",
+	},
+	RESPONSE_TOO_LARGE: {
+		retryable: false,
+		hint: "The result is over the response size limit; narrow the request (e.g. by chain, token or limit).",
+	},
+	UNKNOWN_ERROR: {
+		retryable: false,
+		hint: 'Check your parameters and try again. For help, use the "help" prompt.',
+	},
+};
+
+/**
+ * Error carrying a stable code, used for all expected tool failures
+ */
+export class ToolError extends Error {
+	public readonly code: ErrorCode;
+	public readonly retryable: boolean;
+	public readonly details?: Record<string, unknown>;
+
+	constructor(
+		code: ErrorCode,
+		message: string,
+		options: { retryable?: boolean; details?: Record<string, unknown>; cause?: unknown } = {}
+	) {
+		super(message, { cause: options.cause });
+		this.name = "ToolError";
+		this.code = code;
+		this.retryable = options.retryable ?? ERROR_HINTS[code].retryable;
+		this.details = options.details;
+	}
+}
+
+/**
+ * Error classified into the stable taxonomy
+ */
+export interface ClassifiedError {
+	code: ErrorCode;
+	message: string;
+	retryable: boolean;
+	hint: string;
+	details?: Record<string, unknown>;
+}
+
+// Error class names raised by the router SDK and viem
+const ERROR_NAME_CODES: Record<string, ErrorCode> = {
+	ChainNotSupportedError: "UNSUPPORTED_CHAIN",
+	InvalidTokenAddressError: "INVALID_ADDRESS",
+	InvalidAddressError: "INVALID_ADDRESS",
+	InvalidParameterError: "INVALID_PARAMS",
+	InsufficientFundsError: "INSUFFICIENT_BALANCE",
+	NetworkError: "RPC_ERROR",
+	JSONParseError: "RPC_ERROR",
+	HttpRequestError: "RPC_ERROR",
+	RpcRequestError: "RPC_ERROR",
+	TimeoutError: "RPC_ERROR",
+	WebSocketRequestError: "RPC_ERROR",
+	WaitForTransactionReceiptTimeoutError: "TRANSACTION_TIMEOUT",
+};
+
+// Message patterns, checked in order, for errors without a known class
+const ERROR_MESSAGE_CODES: [RegExp, ErrorCode][] = [
+	[/allowance/i, "INSUFFICIENT_ALLOWANCE"],
+	[/insufficient (funds|balance)|exceeds balance/i, "INSUFFICIENT_BALANCE"],
+	[
+		/slippage|insufficient output|min(imum)?[ _]?(amount|return)|too little received/i,
+		"SLIPPAGE_EXCEEDED",
+	],
+	[/no route|route not found|no path/i, "NO_ROUTE"],
+	[/unsupported (evm )?chain|chain not supported/i, "UNSUPPORTED_CHAIN"],
+	[/invalid (token )?address/i, "INVALID_ADDRESS"],
+	[
+		/timed? ?out|econnrefused|econnreset|enotfound|fetch failed|network|rate limit|too many requests/i,
+		"RPC_ERROR",
+	],
+	[/revert/i, "TRANSACTION_REVERTED"],
+];
+
+/**
+ * Collect an error and its causes (viem and the SDK wrap the underlying error)
+ */
+function getErrorChain(error: unknown): Error[] {
+	const chain: Error[] = [];
+	let current = error;
+	while (current instanceof Error && chain.length < 5) {
+		chain.push(current);
+		current = current.cause;
+	}
+	return chain;
+}
+
+function getApiErrorCode(error: Error): ErrorCode | undefined {
+	const status = (error as Error & { status?: number }).status;
+	if (status === undefined) return undefined;
+	if (status === 429 || status >= 500) return "RPC_ERROR";
+	if (status === 404) return "NO_ROUTE";
+	return undefined;
+}
+
+/**
+ * Classify any thrown value into a stable error code with a retryability hint
+ *
+ * @param error - Error object, message or unknown value
+ * @returns Classified error
+ *
+ * @example
+ * ```typescript
+ * classifyError(new Error("execution reverted: insufficient allowance"))
+ * // { code: "INSUFFICIENT_ALLOWANCE", retryable: true, ... }
+ * ```
+ */
+export function classifyError(error: unknown): ClassifiedError {
+	const message =
+		error instanceof Error
+			? error.message
+			: typeof error === "string"
+				? error
+				: "Unknown error";
+
+	const toClassified = (
+		code: ErrorCode,
+		retryable = ERROR_HINTS[code].retryable,
+		details?: Record<string, unknown>
+	): ClassifiedError => ({
+		code,
+		message,
+		retryable,
+		hint: ERROR_HINTS[code].hint,
+		...(details && { details }),
+	});
+
+	if (error instanceof ToolError) {
+		return toClassified(error.code, error.retryable, error.details);
+	}
+
+	const chain = getErrorChain(error);
+	for (const item of chain) {
+		const code =
+			ERROR_NAME_CODES[item.name] ??
+			(item.name === "APIError" ? getApiErrorCode(item) : undefined);
+		if (code) return toClassified(code);
+	}
+
+	// viem errors carry the decoded reason in shortMessage/details
+	const texts = chain.length
+		? chain.flatMap((item) => {
+				const { shortMessage, details } = item as Error & {
+					shortMessage?: string;
+					details?: unknown;
+				};
+				return [
+					item.message,
+					shortMessage,
+					typeof details === "string" ? details : undefined,
+				];
+			})
+		: [message];
+	const text = texts.filter(Boolean).join("\n");
+
+	for (const [pattern, code] of ERROR_MESSAGE_CODES) {
+		if (pattern.test(text)) return toClassified(code);
+	}
+
+	return toClassified("UNKNOWN_ERROR");
+}
@@ -0,0 +1,97 @@
+import type { Address, Hex, PublicClient } from "viem";
+import { estimateL1Fee } from "viem/op-stack";
+import type { FeeStrategy } from "./config.js";
+import type { SupportedChain } from "./validation.js";
+
+/**
+ * Fee fields for an EVM transaction: type 2 (EIP-1559) or legacy
+ */
+export type EvmFeeParams =
+	| { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+	| { gasPrice: bigint };
+
+// Multiplier on the node's suggested priority fee for each strategy
+export const PRIORITY_FEE_MULTIPLIERS: Record<FeeStrategy, number> = {
+	slow: 0.5,
+	standard: 1,
+	fast: 2,
+};
+
+// Contracts that price a transaction's L1 data. Both expose getL1Fee(bytes), so
+// Scroll's oracle can be read with viem's OP Stack action.
+const L1_GAS_PRICE_ORACLES: Partial<Record<SupportedChain, Address>> = {
+	base: "0x420000000000000000000000000000000000000F", // OP Stack GasPriceOracle predeploy
+	scroll: "0x5300000000000000000000000000000000000002", // Scroll L1GasPriceOracle
+};
+
+function scaleFee(fee: bigint, multiplier: number): bigint {
+	return (fee * BigInt(Math.round(multiplier * 100))) / 100n;
+}
+
+/**
+ * Work out the fee fields for an EVM transaction
+ *
+ * Uses EIP-1559 fees from `estimateFeesPerGas`, with the priority fee scaled by
+ * the strategy; the max fee keeps the estimate's base fee headroom. Chains
+ * without EIP-1559 get a legacy gas price scaled by the gas price multiplier.
+ *
+ * @param publicClient - viem public client
+ * @param strategy - Priority fee strategy
+ * @param gasPriceMultiplier - Multiplier for legacy gas prices
+ * @returns Fee fields to spread into the transaction request
+ *
+ * @example
+ * ```typescript
+ * const fees = await getEvmFees(publicClient, "fast", 1.2)
+ * await walletClient.sendTransaction({ to, data, ...fees })
+ * ```
+ */
+export async function getEvmFees(
+	publicClient: PublicClient,
+	strategy: FeeStrategy,
+	gasPriceMultiplier: number
+): Promise<EvmFeeParams> {
+	try {
+		const { maxFeePerGas, maxPriorityFeePerGas } = await publicClient.estimateFeesPerGas();
+		const priorityFee = scaleFee(maxPriorityFeePerGas, PRIORITY_FEE_MULTIPLIERS[strategy]);
+		return {
+			maxFeePerGas: maxFeePerGas - maxPriorityFeePerGas + priorityFee,
+			maxPriorityFeePerGas: priorityFee,
+		};
+	} catch (error) {
+		if ((error as Error).name !== "Eip1559FeesNotSupportedError") throw error;
+	}
+
+	const gasPrice = await publicClient.getGasPrice();
+	return { gasPrice: scaleFee(gasPrice, gasPriceMultiplier) };
+}
+
+/**
+ * Highest price per gas the transaction may pay
+ */
+export function getMaxGasPrice(fees: EvmFeeParams): bigint {
+	return "gasPrice" in fees ? fees.gasPrice : fees.maxFeePerGas;
+}
+
+/**
+ * Estimate the L1 data fee a rollup charges on top of L2 execution
+ *
+ * @param publicClient - viem public client for the chain
+ * @param chainName - Chain the transaction is sent on
+ * @param transaction - Transaction to price
+ * @returns L1 data fee in wei, or undefined on chains without one
+ */
+export async function estimateL1DataFee(
+	publicClient: PublicClient,
+	chainName: SupportedChain,
+	transaction: { account: Hex; to: Hex; data: Hex; value?: bigint }
+): Promise<bigint | undefined> {
+	const gasPriceOracleAddress = L1_GAS_PRICE_ORACLES[chainName];
+	if (!gasPriceOracleAddress) return undefined;
+
+	return estimateL1Fee(publicClient, {
+		...transaction,
+		chain: publicClient.chain,
+		gasPriceOracleAddress,
+	});
+}
@@ -0,0 +1,119 @@
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { SupportedChain } from "./validation.js";
+import type { SwapParams } from "./swap.js";
+import type { ResolvedAmount } from "./tokens.js";
+import type { ErrorCode } from "./errors.js";
+import { isSameAddress } from "./tokens.js";
+
+export type SwapStatus = "executed" | "simulated" | "failed";
+
+/**
+ * One swap attempt, as stored in the history file
+ */
+export interface SwapRecord {
+	id: string;
+	chainName: SupportedChain;
+	status: SwapStatus;
+	params: SwapParams;
+	amount?: ResolvedAmount;
+	quote?: {
+		id: string;
+		expectedOutput: string;
+		currentOutput?: string;
+		drift?: number;
+	};
+	transactionHash?: string;
+	explorerUrl?: string;
+	gasUsed?: string;
+	outputAmount?: string;
+	expectedOutputAmount?: string; // Quoted output of the route
+	realisedSlippage?: number;
+	error?: string;
+	errorCode?: ErrorCode;
+	startedAt: string;
+	completedAt: string;
+}
+
+export interface SwapHistoryFilter {
+	chainName?: SupportedChain;
+	token?: string; // Matches the input or output token address
+	status?: SwapStatus;
+	from?: Date;
+	to?: Date;
+	limit?: number;
+}
+
+const HISTORY_FILE = "swaps.jsonl";
+const DEFAULT_HISTORY_LIMIT = 50;
+
+/**
+ * Append a swap attempt to the history file (one JSON object per line)
+ *
+ * @param record - Swap details, without the generated ID
+ * @param directory - Directory holding swaps.jsonl (created when missing)
+ * @returns Stored record
+ */
+export async function recordSwap(
+	record: Omit<SwapRecord, "id">,
+	directory: string
+): Promise<SwapRecord> {
+	const stored: SwapRecord = { id: randomUUID(), ...record };
+	await mkdir(directory, { recursive: true });
+	await appendFile(join(directory, HISTORY_FILE), `${JSON.stringify(stored)}\n`, "utf8");
+	return stored;
+}
+
+/**
+ * Read recorded swaps, newest first
+ *
+ * @param filter - Chain, token, status and date range filters, plus a result limit (default 50)
+ * @param directory - Directory holding swaps.jsonl
+ * @returns Matching records; empty when nothing has been recorded yet
+ *
+ * @example
+ * ```typescript
+ * await querySwapHistory({ chainName: "base", status: "failed" }, "/var/lib/fibrous-mcp")
+ * ```
+ */
+export async function querySwapHistory(
+	filter: SwapHistoryFilter,
+	directory: string
+): Promise<SwapRecord[]> {
+	let contents: string;
+	try {
+		contents = await readFile(join(directory, HISTORY_FILE), "utf8");
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+		throw error;
+	}
+
+	const records: SwapRecord[] = [];
+	for (const line of contents.split("\n")) {
+		if (!line.trim()) continue;
+		try {
+			records.push(JSON.parse(line));
+		} catch {
+			// A partially written line (e.g. after a crash) is skipped, not fatal
+			console.error("[WARN] Skipping malformed swap history line");
+		}
+	}
+
+	const { chainName, token, status, from, to, limit = DEFAULT_HISTORY_LIMIT } = filter;
+	return records
+		.filter((record) => {
+			const startedAt = new Date(record.startedAt);
+			return (
+				(!chainName || record.chainName === chainName) &&
+				(!status || record.status === status) &&
+				(!token ||
+					isSameAddress(record.params.tokenInAddress, token) ||
+					isSameAddress(record.params.tokenOutAddress, token)) &&
+				(!from || startedAt >= from) &&
+				(!to || startedAt <= to)
+			);
+		})
+		.reverse()
+		.slice(0, limit);
+}
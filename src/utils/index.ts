@@ -3,6 +3,8 @@ export {
 	SERVER_CONSTANTS,
 	API_ENDPOINTS,
 	EXPLORER_URLS,
+	PUBLIC_RPC_URLS,
+	NATIVE_TOKEN,
 	VALIDATION_LIMITS,
 	GAS_FALLBACKS,
 	RESPONSE_LIMITS,
@@ -16,10 +18,35 @@ export {
 	toBigNumber, // deprecated, for backward compatibility
 	createTestAmount,
 	formatAmountPretty,
+	toUsdValue,
 	bigintToString,
 	bigNumberToString, // deprecated, for backward compatibility
 } from "./amounts.js";
 
+// Error utilities
+export {
+	ERROR_CODES,
+	ERROR_HINTS,
+	ToolError,
+	classifyError,
+	type ErrorCode,
+	type ClassifiedError,
+} from "./errors.js";
+
+// Token utilities
+export {
+	isSameAddress,
+	isNativeToken,
+	isTokenAddress,
+	getTokenDecimals,
+	resolveAmount,
+	resolveTokenAddresses,
+	TokenResolutionError,
+	type AmountInput,
+	type ResolvedAmount,
+	type TokenCandidate,
+} from "./tokens.js";
+
 // Validation utilities
 export {
 	validateChain,
@@ -30,6 +57,7 @@ export {
 	isValidSlippage,
 	isValidDecimals,
 	mapProtocolIds,
+	getProtocolName,
 	SUPPORTED_CHAINS,
 	type SupportedChain,
 } from "./validation.js";
@@ -51,7 +79,10 @@ export {
 export {
 	getWalletConfig,
 	getServerConfig,
+	getTransportConfig,
 	getChainConfig,
+	getRpcUrl,
+	getSwapPolicy,
 	validateWalletConfig,
 	validateChainConfig,
 	getValidChains,
@@ -60,6 +91,16 @@ export {
 	type ChainConfig,
 	type WalletConfig,
 	type ServerConfig,
+	type ApprovalCap,
+	type ApprovalMode,
+	type ApprovalPolicy,
+	type FeeStrategy,
+	type SlippageOverrides,
+	type StuckTransactionAction,
+	type StuckTransactionPolicy,
+	type SwapPolicy,
+	type TransportConfig,
+	type TransportType,
 } from "./config.js";
 
 // Swap execution utilities
@@ -67,6 +108,137 @@ export {
 	executeSwap,
 	validateSwapParams,
 	estimateSwapGas,
+	runPreflightChecks,
 	type SwapParams,
 	type SwapResult,
+	type GasEstimate,
+	type BalanceCheck,
+	type PreflightResult,
 } from "./swap.js";
+
+// Wallet utilities
+export { getViemChain, getWalletAddress } from "./wallet.js";
+
+// Balance utilities
+export {
+	getWalletBalances,
+	getTokenBalance,
+	type TokenAmount,
+	type TokenBalance,
+	type FailedBalance,
+	type WalletBalances,
+	type WalletBalanceOptions,
+} from "./balances.js";
+
+// Approval utilities
+export {
+	getApprovalAmount,
+	isUnlimitedAllowance,
+	revokeApproval,
+	type RevokeResult,
+} from "./approvals.js";
+
+// Quote utilities
+export {
+	saveQuote,
+	getQuote,
+	consumeQuote,
+	getMinOutput,
+	getFloorSlippage,
+	getQuoteDrift,
+	estimatePriceImpact,
+	type SwapQuote,
+} from "./quotes.js";
+
+// Policy utilities
+export {
+	isPolicyActive,
+	checkSwapPolicy,
+	enforceSwapPolicy,
+	recordSwapSpend,
+	reserveSwapSpend,
+	type PolicySwap,
+	type PolicyViolation,
+} from "./policy.js";
+
+// Swap history utilities
+export {
+	recordSwap,
+	querySwapHistory,
+	type SwapRecord,
+	type SwapStatus,
+	type SwapHistoryFilter,
+} from "./history.js";
+
+// Transaction status utilities
+export {
+	getTransactionStatus,
+	type TransactionStatus,
+	type TransactionState,
+} from "./transactions.js";
+
+// Receipt decoding utilities
+export {
+	decodeEvmOutputAmount,
+	decodeStarknetOutputAmount,
+	getRealisedOutput,
+	type RealisedOutput,
+} from "./receipts.js";
+
+// Stuck transaction utilities
+export {
+	waitForEvmReceipt,
+	type TransactionReplacement,
+	type ReceiptWaitOptions,
+} from "./replacement.js";
+
+// Fee utilities
+export {
+	getEvmFees,
+	getMaxGasPrice,
+	estimateL1DataFee,
+	PRIORITY_FEE_MULTIPLIERS,
+	type EvmFeeParams,
+} from "./fees.js";
+
+// Pricing utilities
+export {
+	getTokenPriceUsd,
+	getGasCostUsd,
+	valueTrade,
+	formatUsd,
+	clearPriceCache,
+	PRICE_CACHE_TTL_MS,
+	type TradeValuation,
+} from "./pricing.js";
+
+// Slippage utilities
+export {
+	resolveSlippage,
+	getChainSlippage,
+	recommendSlippage,
+	type SlippageSource,
+	type ResolvedSlippage,
+	type SlippageRecommendation,
+	type SlippagePair,
+} from "./slippage.js";
+
+// Route analysis utilities
+export {
+	analyzeRoute,
+	getRouteRate,
+	getReferenceAmount,
+	getLadderAmounts,
+	buildPriceLadder,
+	MAX_LADDER_STEPS,
+	getChainQuote,
+	rankChainQuotes,
+	type RouteAnalysis,
+	type RiskGrade,
+	type LadderRange,
+	type PriceLadderStep,
+	type ChainQuote,
+} from "./analysis.js";
+
+// Route normalisation utilities
+export { normalizeRoute, type NormalizedRoute, type RouteHop, type RouteToken } from "./routes.js";
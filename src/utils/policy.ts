@@ -0,0 +1,263 @@
+import type { RouteSuccess, Token } from "fibrous-router-sdk";
+import type { SwapPolicy } from "./config.js";
+import type { SupportedChain } from "./validation.js";
+import { convertAmount, toUsdValue } from "./amounts.js";
+import { ToolError } from "./errors.js";
+import { isSameAddress } from "./tokens.js";
+import { estimatePriceImpact } from "./quotes.js";
+
+/**
+ * A single policy rule a swap breaks
+ */
+export interface PolicyViolation {
+	rule: keyof SwapPolicy;
+	message: string;
+}
+
+/**
+ * Swap as seen by the policy engine
+ */
+export interface PolicySwap {
+	chainName: SupportedChain;
+	route: RouteSuccess;
+	slippage: number;
+	receiverAddress: string;
+	walletAddress: string; // The configured wallet, always an allowed receiver
+}
+
+interface SpendRecord {
+	timestamp: number;
+	chainName: SupportedChain;
+	token: Pick<Token, "address" | "symbol">;
+	amount: bigint;
+	valueUsd?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rolling window of executed and in-flight swaps; daily caps reset when the server restarts
+let spendLog: SpendRecord[] = [];
+
+function pruneSpendLog(now: number): void {
+	spendLog = spendLog.filter((record) => record.timestamp > now - DAY_MS);
+}
+
+/**
+ * A policy entry names a token by symbol (case-insensitive) or address
+ */
+function matchesToken(entry: string, token: Pick<Token, "address" | "symbol">): boolean {
+	return (
+		entry.toLowerCase() === token.symbol.toLowerCase() || isSameAddress(entry, token.address)
+	);
+}
+
+function findTokenCap(
+	caps: Record<string, string> | undefined,
+	token: Pick<Token, "address" | "symbol">
+): [string, string] | undefined {
+	return Object.entries(caps ?? {}).find(([entry]) => matchesToken(entry, token));
+}
+
+/**
+ * Check whether a policy has any rule to enforce
+ */
+export function isPolicyActive(policy: SwapPolicy): boolean {
+	return Object.values(policy).some((value) => value !== undefined);
+}
+
+/**
+ * Check a swap against every configured policy rule
+ *
+ * Rules that need a USD price fail closed: an unpriced token breaks USD caps and
+ * the price impact limit rather than skipping them.
+ *
+ * @param policy - Configured swap policy
+ * @param swap - Swap to check, with its route
+ * @param now - Current time, for the rolling daily window
+ * @returns Every rule the swap breaks (empty when it is allowed)
+ */
+export function checkSwapPolicy(
+	policy: SwapPolicy,
+	swap: PolicySwap,
+	now = Date.now()
+): PolicyViolation[] {
+	const { chainName, route, slippage, receiverAddress, walletAddress } = swap;
+	const { inputToken, outputToken, inputAmount } = route;
+	const violations: PolicyViolation[] = [];
+
+	if (policy.enabledChains && !policy.enabledChains.includes(chainName)) {
+		violations.push({
+			rule: "enabledChains",
+			message: `Swaps are disabled on ${chainName}`,
+		});
+	}
+
+	// --- Tokens and receiver ---
+
+	for (const token of [inputToken, outputToken]) {
+		if (policy.deniedTokens?.some((entry) => matchesToken(entry, token))) {
+			violations.push({ rule: "deniedTokens", message: `${token.symbol} is denied` });
+		}
+		if (
+			policy.allowedTokens &&
+			!policy.allowedTokens.some((entry) => matchesToken(entry, token))
+		) {
+			violations.push({
+				rule: "allowedTokens",
+				message: `${token.symbol} is not in the allowed token list`,
+			});
+		}
+	}
+
+	if (
+		policy.allowedReceivers &&
+		!isSameAddress(receiverAddress, walletAddress) &&
+		!policy.allowedReceivers.some((entry) => isSameAddress(entry, receiverAddress))
+	) {
+		violations.push({
+			rule: "allowedReceivers",
+			message: `Receiver ${receiverAddress} is not in the allowed receiver list`,
+		});
+	}
+
+	// --- Price protection ---
+
+	if (policy.maxSlippage !== undefined && slippage > policy.maxSlippage) {
+		violations.push({
+			rule: "maxSlippage",
+			message: `Slippage ${slippage}% exceeds the ${policy.maxSlippage}% limit`,
+		});
+	}
+
+	if (policy.maxPriceImpact !== undefined) {
+		const priceImpact = estimatePriceImpact(route);
+		if (priceImpact === undefined) {
+			violations.push({
+				rule: "maxPriceImpact",
+				message: `Price impact cannot be checked: ${inputToken.symbol} or ${outputToken.symbol} has no USD price`,
+			});
+		} else if (Number(priceImpact) > policy.maxPriceImpact) {
+			violations.push({
+				rule: "maxPriceImpact",
+				message: `Price impact ${priceImpact}% exceeds the ${policy.maxPriceImpact}% limit`,
+			});
+		}
+	}
+
+	// --- Spending caps ---
+
+	pruneSpendLog(now);
+	const decimals = Number(inputToken.decimals);
+	const valueUsd = toUsdValue(inputAmount, decimals, inputToken.price);
+
+	if (policy.maxSwapUsd !== undefined || policy.maxDailyUsd !== undefined) {
+		if (valueUsd === undefined) {
+			violations.push({
+				rule: policy.maxSwapUsd !== undefined ? "maxSwapUsd" : "maxDailyUsd",
+				message: `USD caps cannot be checked: ${inputToken.symbol} has no USD price`,
+			});
+		} else {
+			if (policy.maxSwapUsd !== undefined && valueUsd > policy.maxSwapUsd) {
+				violations.push({
+					rule: "maxSwapUsd",
+					message: `Swap value $${valueUsd.toFixed(2)} exceeds the $${policy.maxSwapUsd} per-swap cap`,
+				});
+			}
+			const spentUsd = spendLog.reduce((sum, record) => sum + (record.valueUsd ?? 0), 0);
+			if (policy.maxDailyUsd !== undefined && spentUsd + valueUsd > policy.maxDailyUsd) {
+				violations.push({
+					rule: "maxDailyUsd",
+					message: `Swap value $${valueUsd.toFixed(2)} would take 24h spend to $${(spentUsd + valueUsd).toFixed(2)}, over the $${policy.maxDailyUsd} daily cap`,
+				});
+			}
+		}
+	}
+
+	const amount = BigInt(inputAmount);
+	const swapCap = findTokenCap(policy.maxSwapAmounts, inputToken);
+	if (swapCap && amount > BigInt(convertAmount(swapCap[1], decimals, "parse"))) {
+		violations.push({
+			rule: "maxSwapAmounts",
+			message: `Swap amount exceeds the ${swapCap[1]} ${inputToken.symbol} per-swap cap`,
+		});
+	}
+
+	const dailyCap = findTokenCap(policy.maxDailyAmounts, inputToken);
+	if (dailyCap) {
+		const spent = spendLog
+			.filter((record) => matchesToken(dailyCap[0], record.token))
+			.reduce((sum, record) => sum + record.amount, 0n);
+		if (spent + amount > BigInt(convertAmount(dailyCap[1], decimals, "parse"))) {
+			violations.push({
+				rule: "maxDailyAmounts",
+				message: `Swap would take 24h ${inputToken.symbol} spend over the ${dailyCap[1]} daily cap`,
+			});
+		}
+	}
+
+	return violations;
+}
+
+/**
+ * Reject a swap that breaks the policy
+ *
+ * @throws ToolError POLICY_VIOLATION listing every broken rule in details.violations
+ */
+export function enforceSwapPolicy(policy: SwapPolicy, swap: PolicySwap, now = Date.now()): void {
+	const violations = checkSwapPolicy(policy, swap, now);
+	if (violations.length > 0) {
+		throw new ToolError(
+			"POLICY_VIOLATION",
+			`Swap blocked by policy: ${violations.map((violation) => violation.message).join("; ")}`,
+			{ details: { violations } }
+		);
+	}
+}
+
+/**
+ * Count a swap towards the rolling daily caps
+ *
+ * @param chainName - Chain the swap runs on
+ * @param route - Route of the swap
+ * @param now - Execution time
+ * @returns Removes the swap from the daily totals again
+ */
+export function recordSwapSpend(
+	chainName: SupportedChain,
+	route: Pick<RouteSuccess, "inputToken" | "inputAmount">,
+	now = Date.now()
+): () => void {
+	const { inputToken, inputAmount } = route;
+	const record: SpendRecord = {
+		timestamp: now,
+		chainName,
+		token: { address: inputToken.address, symbol: inputToken.symbol },
+		amount: BigInt(inputAmount),
+		valueUsd: toUsdValue(inputAmount, inputToken.decimals, inputToken.price),
+	};
+	spendLog.push(record);
+	return () => {
+		spendLog = spendLog.filter((entry) => entry !== record);
+	};
+}
+
+/**
+ * Check a swap against the policy and reserve its spend before it executes
+ *
+ * The check and the reservation happen together, so concurrent swaps count
+ * each other's spend instead of all passing against the same daily totals.
+ *
+ * @param policy - Configured swap policy
+ * @param swap - Swap to check, with its route
+ * @param now - Current time, for the rolling daily window
+ * @returns Releases the reservation when the swap does not go through
+ * @throws ToolError POLICY_VIOLATION listing every broken rule in details.violations
+ */
+export function reserveSwapSpend(
+	policy: SwapPolicy,
+	swap: PolicySwap,
+	now = Date.now()
+): () => void {
+	enforceSwapPolicy(policy, swap, now);
+	return recordSwapSpend(swap.chainName, swap.route, now);
+}
@@ -0,0 +1,154 @@
+import type { Router as FibrousRouter, RouteSuccess, Token } from "fibrous-router-sdk";
+import type { SupportedChain } from "./validation.js";
+import type { GasEstimate } from "./swap.js";
+import { toUsdValue } from "./amounts.js";
+import { isSameAddress } from "./tokens.js";
+
+/**
+ * USD context for a route or quote; fields are missing when a token has no price
+ */
+export interface TradeValuation {
+	inputValueUsd?: string;
+	outputValueUsd?: string;
+	gasCostUsd?: string;
+	gasAsPercentOfTrade?: string; // Gas cost as a percent of the input value
+}
+
+// Fibrous token lists carry prices; one fetch per chain per minute is plenty
+export const PRICE_CACHE_TTL_MS = 60 * 1000;
+
+// ETH and STRK, the only fee tokens, both use 18 decimals
+const FEE_TOKEN_DECIMALS = 18;
+
+const tokenCache = new Map<SupportedChain, { tokens: Token[]; expiresAt: number }>();
+
+async function getCachedTokens(
+	chainName: SupportedChain,
+	fibrousRouter: FibrousRouter
+): Promise<Token[]> {
+	const now = Date.now();
+	const cached = tokenCache.get(chainName);
+	if (cached && cached.expiresAt > now) return cached.tokens;
+
+	const tokens = Array.from((await fibrousRouter.supportedTokens(chainName)).values());
+	tokenCache.set(chainName, { tokens, expiresAt: now + PRICE_CACHE_TTL_MS });
+	return tokens;
+}
+
+/**
+ * Drop all cached token prices
+ */
+export function clearPriceCache(): void {
+	tokenCache.clear();
+}
+
+/**
+ * Format a USD value: cents, or two significant digits below a cent
+ */
+export function formatUsd(value: number): string {
+	return value === 0 || value >= 0.01 ? value.toFixed(2) : value.toPrecision(2);
+}
+
+/**
+ * Look up a token's USD price in the cached Fibrous token list
+ *
+ * Tokens are matched by address, or by symbol when no address is given (used
+ * for the ETH and STRK fee tokens). Pricing is best effort: a failed token list
+ * fetch is logged and reported as no price.
+ *
+ * @param chainName - Chain the token is on
+ * @param token - Token address and/or symbol
+ * @param fibrousRouter - Fibrous router instance
+ * @returns USD price per whole token, or undefined when unknown
+ */
+export async function getTokenPriceUsd(
+	chainName: SupportedChain,
+	token: { address?: string; symbol?: string },
+	fibrousRouter: FibrousRouter
+): Promise<string | undefined> {
+	try {
+		const tokens = await getCachedTokens(chainName, fibrousRouter);
+		const symbol = token.symbol?.toUpperCase();
+		const match = token.address
+			? tokens.find((t) => isSameAddress(t.address, token.address!))
+			: (tokens.find((t) => t.symbol.toUpperCase() === symbol && (t.native || t.isNative)) ??
+				tokens.find((t) => t.symbol.toUpperCase() === symbol));
+		return match?.price ?? undefined;
+	} catch (error) {
+		console.error(
+			`[WARN] Token prices unavailable for ${chainName}: ${error instanceof Error ? error.message : error}`
+		);
+		return undefined;
+	}
+}
+
+/**
+ * USD cost of a gas estimate's total fee
+ *
+ * @param chainName - Chain the swap runs on
+ * @param gasEstimate - Gas estimate with its total fee and fee token
+ * @param fibrousRouter - Fibrous router instance
+ * @returns Formatted USD cost, or undefined when the fee token has no price
+ */
+export async function getGasCostUsd(
+	chainName: SupportedChain,
+	gasEstimate: Pick<GasEstimate, "totalFee" | "feeToken">,
+	fibrousRouter: FibrousRouter
+): Promise<string | undefined> {
+	const price = await getTokenPriceUsd(
+		chainName,
+		{ symbol: gasEstimate.feeToken },
+		fibrousRouter
+	);
+	const cost = toUsdValue(gasEstimate.totalFee, FEE_TOKEN_DECIMALS, price);
+	return cost === undefined ? undefined : formatUsd(cost);
+}
+
+/**
+ * Value a route's input and output, and its gas cost, in USD
+ *
+ * Uses the prices on the route's tokens, falling back to the cached token list.
+ * Fallback gas estimates are placeholder constants, so their cost is left unpriced.
+ *
+ * @param chainName - Chain the route is on
+ * @param route - Route returned by the Fibrous router
+ * @param gasEstimate - Gas estimate for the swap, if one was made
+ * @param fibrousRouter - Fibrous router instance
+ * @returns Valuation with the fields that could be priced
+ *
+ * @example
+ * ```typescript
+ * // 1 ETH at $3000 for 2990 USDC, with $1.50 of gas
+ * await valueTrade("base", route, gasEstimate, fibrousRouter)
+ * // { inputValueUsd: "3000.00", outputValueUsd: "2990.00",
+ * //   gasCostUsd: "1.50", gasAsPercentOfTrade: "0.05" }
+ * ```
+ */
+export async function valueTrade(
+	chainName: SupportedChain,
+	route: Pick<RouteSuccess, "inputToken" | "inputAmount" | "outputToken" | "outputAmount">,
+	gasEstimate: GasEstimate | undefined,
+	fibrousRouter: FibrousRouter
+): Promise<TradeValuation> {
+	const { inputToken, outputToken } = route;
+	const pricedGas = gasEstimate?.source === "fallback" ? undefined : gasEstimate;
+	const [inputPrice, outputPrice, gasCostUsd] = await Promise.all([
+		inputToken.price || getTokenPriceUsd(chainName, inputToken, fibrousRouter),
+		outputToken.price || getTokenPriceUsd(chainName, outputToken, fibrousRouter),
+		pricedGas && (pricedGas.costInUSD ?? getGasCostUsd(chainName, pricedGas, fibrousRouter)),
+	]);
+
+	const inputValue = toUsdValue(route.inputAmount, inputToken.decimals, inputPrice);
+	const outputValue = toUsdValue(route.outputAmount, outputToken.decimals, outputPrice);
+
+	const valuation: TradeValuation = {};
+	if (inputValue !== undefined) valuation.inputValueUsd = formatUsd(inputValue);
+	if (outputValue !== undefined) valuation.outputValueUsd = formatUsd(outputValue);
+	if (gasCostUsd !== undefined) {
+		valuation.gasCostUsd = gasCostUsd;
+		if (inputValue) {
+			valuation.gasAsPercentOfTrade = ((Number(gasCostUsd) / inputValue) * 100).toFixed(2);
+		}
+	}
+	return valuation;
+}
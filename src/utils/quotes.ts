@@ -0,0 +1,163 @@
+import { randomUUID } from "node:crypto";
+import type { RouteSuccess } from "fibrous-router-sdk";
+import type { SupportedChain } from "./validation.js";
+import type { GasEstimate, SwapParams } from "./swap.js";
+import type { ResolvedAmount } from "./tokens.js";
+import { toUsdValue } from "./amounts.js";
+import { ToolError } from "./errors.js";
+
+/**
+ * Swap quote held between prepare-swap and confirm-swap
+ */
+export interface SwapQuote {
+	id: string;
+	chainName: SupportedChain;
+	params: SwapParams; // Resolved amount, token addresses, slippage and receiver
+	amount: ResolvedAmount;
+	expectedOutput: string; // route.outputAmount when the quote was prepared
+	minOutput: string; // Expected output less slippage
+	priceImpact?: string; // Percent, when both tokens have a USD price
+	inputValueUsd?: string;
+	outputValueUsd?: string;
+	gasAsPercentOfTrade?: string; // Gas cost as a percent of the input value
+	gasEstimate: GasEstimate;
+	createdAt: number;
+	expiresAt: number;
+}
+
+// Quotes are single-use and short-lived, so an in-memory store is enough
+const quotes = new Map<string, SwapQuote>();
+
+function pruneExpiredQuotes(now = Date.now()): void {
+	for (const [id, quote] of quotes) {
+		if (quote.expiresAt <= now) {
+			quotes.delete(id);
+		}
+	}
+}
+
+/**
+ * Store a quote under a fresh ID
+ *
+ * @param quote - Quote details
+ * @param ttlSeconds - Seconds until the quote expires
+ * @returns Stored quote with its ID and expiry
+ */
+export function saveQuote(
+	quote: Omit<SwapQuote, "id" | "createdAt" | "expiresAt">,
+	ttlSeconds: number
+): SwapQuote {
+	const now = Date.now();
+	pruneExpiredQuotes(now);
+
+	const saved: SwapQuote = {
+		...quote,
+		id: randomUUID(),
+		createdAt: now,
+		expiresAt: now + ttlSeconds * 1000,
+	};
+	quotes.set(saved.id, saved);
+	return saved;
+}
+
+/**
+ * Look up a quote without using it up, so a failed check leaves it confirmable
+ *
+ * @param id - Quote ID returned by prepare-swap
+ * @returns The stored quote
+ * @throws ToolError QUOTE_EXPIRED when the quote is unknown, already used or expired
+ */
+export function getQuote(id: string): SwapQuote {
+	const quote = quotes.get(id);
+
+	if (!quote) {
+		throw new ToolError("QUOTE_EXPIRED", `Quote ${id} not found or already used`);
+	}
+	if (quote.expiresAt <= Date.now()) {
+		throw new ToolError(
+			"QUOTE_EXPIRED",
+			`Quote ${id} expired at ${new Date(quote.expiresAt).toISOString()}`
+		);
+	}
+	return quote;
+}
+
+/**
+ * Remove a quote from the store and return it; each quote can be confirmed once
+ *
+ * @param id - Quote ID returned by prepare-swap
+ * @returns The stored quote
+ * @throws ToolError QUOTE_EXPIRED when the quote is unknown, already used or expired
+ */
+export function consumeQuote(id: string): SwapQuote {
+	const quote = getQuote(id);
+	quotes.delete(id);
+	return quote;
+}
+
+/**
+ * Minimum output after slippage, rounded down
+ *
+ * @param outputAmount - Expected output in the token's smallest unit
+ * @param slippage - Slippage percentage
+ * @returns Minimum output in the token's smallest unit
+ *
+ * @example
+ * ```typescript
+ * getMinOutput("1000000", 0.5) // "995000"
+ * ```
+ */
+export function getMinOutput(outputAmount: string, slippage: number): string {
+	const slippageBps = BigInt(Math.round(slippage * 100));
+	return ((BigInt(outputAmount) * (10000n - slippageBps)) / 10000n).toString();
+}
+
+/**
+ * Largest slippage that keeps the minimum output of a route at or above a floor
+ *
+ * @param outputAmount - Expected output of the route
+ * @param minOutput - Lowest acceptable output
+ * @returns Slippage percentage, rounded down to a basis point (0 when the output is at or below the floor)
+ *
+ * @example
+ * ```typescript
+ * getFloorSlippage("2995000000", "2970000000") // 0.83
+ * ```
+ */
+export function getFloorSlippage(outputAmount: string, minOutput: string): number {
+	const output = BigInt(outputAmount);
+	const floor = BigInt(minOutput);
+	if (output <= floor) return 0;
+	return Number(((output - floor) * 10000n) / output) / 100;
+}
+
+/**
+ * Percentage by which the current output has fallen below the quoted output
+ * (negative when the price has improved)
+ *
+ * @param quotedOutput - Output when the quote was prepared
+ * @param currentOutput - Output of a fresh route
+ * @returns Drift percentage
+ */
+export function getQuoteDrift(quotedOutput: string, currentOutput: string): number {
+	const quoted = BigInt(quotedOutput);
+	if (quoted === 0n) return 0;
+	// Scaled by 1e6 so the percentage keeps four decimal places
+	const drift = ((quoted - BigInt(currentOutput)) * 1000000n) / quoted;
+	return Number(drift) / 10000;
+}
+
+/**
+ * Estimate price impact from the USD value of the route's input and output
+ *
+ * @param route - Route returned by the Fibrous router
+ * @returns Percentage of input value lost, or undefined when a token has no price
+ */
+export function estimatePriceImpact(route: RouteSuccess): string | undefined {
+	const { inputToken, outputToken } = route;
+	const inputValue = toUsdValue(route.inputAmount, inputToken.decimals, inputToken.price);
+	const outputValue = toUsdValue(route.outputAmount, outputToken.decimals, outputToken.price);
+	if (!inputValue || outputValue === undefined) return undefined;
+
+	return (((inputValue - outputValue) / inputValue) * 100).toFixed(2);
+}
@@ -0,0 +1,170 @@
+import type { RouteSuccess } from "fibrous-router-sdk";
+import { decodeEventLog, formatUnits, type Hex } from "viem";
+import { isSameAddress } from "./tokens.js";
+import { getQuoteDrift } from "./quotes.js";
+
+/**
+ * Output a swap actually delivered, compared with the route it was built from
+ */
+export interface RealisedOutput {
+	outputAmount: string;
+	expectedOutputAmount: string;
+	effectivePrice: string; // Output tokens received per input token
+	realisedSlippage: number; // Percent below the quoted output; negative when better
+}
+
+interface EvmLog {
+	address: string;
+	data: Hex;
+	topics: [Hex, ...Hex[]] | [];
+}
+
+interface StarknetEvent {
+	from_address: string;
+	keys: string[];
+	data: string[];
+}
+
+// ERC20 Transfer and the Fibrous router's Swap event (all Swap fields are unindexed)
+const SWAP_EVENTS_ABI = [
+	{
+		type: "event",
+		name: "Transfer",
+		inputs: [
+			{ name: "from", type: "address", indexed: true },
+			{ name: "to", type: "address", indexed: true },
+			{ name: "value", type: "uint256", indexed: false },
+		],
+	},
+	{
+		type: "event",
+		name: "Swap",
+		inputs: [
+			{ name: "sender", type: "address", indexed: false },
+			{ name: "amount_in", type: "uint256", indexed: false },
+			{ name: "amount_out", type: "uint256", indexed: false },
+			{ name: "token_in", type: "address", indexed: false },
+			{ name: "token_out", type: "address", indexed: false },
+			{ name: "destination", type: "address", indexed: false },
+		],
+	},
+] as const;
+
+// sn_keccak("Transfer")
+const STARKNET_TRANSFER_SELECTOR =
+	"0x99cd8bde557814842a3121e8ddfd433a539b8c9f14bf31ebf108d12e6196e9";
+
+/**
+ * Read the output amount of an EVM swap from its receipt logs
+ *
+ * Sums the output token's Transfer events to the receiver. Native ETH output
+ * emits no Transfer, so the router's Swap event is used instead.
+ *
+ * @param logs - Receipt logs
+ * @param tokenOutAddress - Output token address
+ * @param receiverAddress - Address the swap paid out to
+ * @param routerAddress - Fibrous router address
+ * @returns Output amount in wei, or undefined when no matching event was found
+ */
+export function decodeEvmOutputAmount(
+	logs: readonly EvmLog[],
+	tokenOutAddress: string,
+	receiverAddress: string,
+	routerAddress: string
+): bigint | undefined {
+	let transferred: bigint | undefined;
+	let swapped: bigint | undefined;
+
+	for (const log of logs) {
+		let event;
+		try {
+			event = decodeEventLog({ abi: SWAP_EVENTS_ABI, data: log.data, topics: log.topics });
+		} catch {
+			continue; // Events from pools and other contracts
+		}
+
+		if (
+			event.eventName === "Transfer" &&
+			isSameAddress(log.address, tokenOutAddress) &&
+			isSameAddress(event.args.to, receiverAddress)
+		) {
+			transferred = (transferred ?? 0n) + event.args.value;
+		} else if (
+			event.eventName === "Swap" &&
+			isSameAddress(log.address, routerAddress) &&
+			isSameAddress(event.args.destination, receiverAddress)
+		) {
+			swapped = (swapped ?? 0n) + event.args.amount_out;
+		}
+	}
+
+	return transferred ?? swapped;
+}
+
+/**
+ * Read the output amount of a Starknet swap from its receipt events
+ *
+ * Sums the output token's Transfer events to the receiver, for both Cairo 1
+ * tokens (from/to in keys) and Cairo 0 tokens (from/to in data).
+ *
+ * @param events - Receipt events
+ * @param tokenOutAddress - Output token address
+ * @param receiverAddress - Address the swap paid out to
+ * @returns Output amount, or undefined when no matching Transfer was found
+ */
+export function decodeStarknetOutputAmount(
+	events: readonly StarknetEvent[],
+	tokenOutAddress: string,
+	receiverAddress: string
+): bigint | undefined {
+	let transferred: bigint | undefined;
+
+	for (const { from_address, keys, data } of events) {
+		if (
+			!isSameAddress(from_address, tokenOutAddress) ||
+			!keys[0] ||
+			!isSameAddress(keys[0], STARKNET_TRANSFER_SELECTOR)
+		) {
+			continue;
+		}
+
+		const [to, low, high] = keys.length === 3 ? [keys[2], data[0], data[1]] : data.slice(1);
+		if (!to || !low || !isSameAddress(to, receiverAddress)) continue;
+
+		// u256 is split into low and high 128-bit felts
+		const value = BigInt(low) + (BigInt(high ?? 0) << 128n);
+		transferred = (transferred ?? 0n) + value;
+	}
+
+	return transferred;
+}
+
+/**
+ * Compare the output a swap delivered with its route's quoted output
+ *
+ * @param outputAmount - Output decoded from the receipt
+ * @param route - Route the swap calldata was built from
+ * @returns Realised output, effective price and realised slippage
+ *
+ * @example
+ * ```typescript
+ * // 1 ETH quoted at 3000 USDC, received 2985 USDC
+ * getRealisedOutput(2985000000n, route)
+ * // { outputAmount: "2985000000", expectedOutputAmount: "3000000000",
+ * //   effectivePrice: "2985", realisedSlippage: 0.5 }
+ * ```
+ */
+export function getRealisedOutput(
+	outputAmount: bigint,
+	route: Pick<RouteSuccess, "inputAmount" | "inputToken" | "outputAmount" | "outputToken">
+): RealisedOutput {
+	const input = Number(formatUnits(BigInt(route.inputAmount), Number(route.inputToken.decimals)));
+	const output = Number(formatUnits(outputAmount, Number(route.outputToken.decimals)));
+
+	return {
+		outputAmount: outputAmount.toString(),
+		expectedOutputAmount: route.outputAmount,
+		effectivePrice: input > 0 ? String(Number((output / input).toPrecision(8))) : "0",
+		realisedSlippage: getQuoteDrift(route.outputAmount, outputAmount.toString()),
+	};
+}
@@ -0,0 +1,213 @@
+import type {
+	Account,
+	Chain,
+	Hex,
+	PublicClient,
+	TransactionReceipt,
+	Transport,
+	WalletClient,
+} from "viem";
+import type { GetTransactionReceiptResponse, RpcProvider } from "starknet";
+import type { StuckTransactionPolicy } from "./config.js";
+import { ToolError } from "./errors.js";
+
+/**
+ * Same-nonce replacement sent for a transaction that outlived the timeout
+ */
+export interface TransactionReplacement {
+	stage: "approval" | "swap";
+	action: "speed-up" | "cancel";
+	originalHash: string;
+	replacementHash: string;
+	outcome: "replaced" | "original_mined"; // Which of the two transactions was mined
+}
+
+export interface ReceiptWaitOptions {
+	stage: TransactionReplacement["stage"];
+	timeoutSeconds: number;
+	policy: StuckTransactionPolicy;
+	pollIntervalMs?: number;
+}
+
+const RECEIPT_POLL_INTERVAL_MS = 4000;
+
+function bumpFee(fee: bigint, percent: number): bigint {
+	return (fee * BigInt(100 + Math.ceil(percent))) / 100n;
+}
+
+/**
+ * Send a same-nonce transaction that replaces a pending one: a speed-up repeats
+ * the original call, a cancel sends nothing to the sender's own address
+ */
+async function sendReplacement(
+	publicClient: PublicClient,
+	walletClient: WalletClient<Transport, Chain, Account>,
+	hash: Hex,
+	policy: StuckTransactionPolicy
+): Promise<Hex> {
+	const original = await publicClient.getTransaction({ hash });
+
+	// EIP-1559 transactions are replaced by bumping both fee caps
+	let fees: Record<string, bigint>;
+	if (original.maxFeePerGas !== undefined && original.maxFeePerGas !== null) {
+		fees = {
+			maxFeePerGas: bumpFee(original.maxFeePerGas, policy.feeBump),
+			maxPriorityFeePerGas: bumpFee(original.maxPriorityFeePerGas ?? 0n, policy.feeBump),
+		};
+	} else {
+		// The network price may have risen past the bumped one
+		const bumped = bumpFee(original.gasPrice, policy.feeBump);
+		const current: bigint = await publicClient.getGasPrice();
+		fees = { gasPrice: bumped > current ? bumped : current };
+	}
+
+	const call =
+		policy.action === "cancel"
+			? { to: original.from, value: 0n }
+			: { to: original.to, data: original.input, value: original.value };
+
+	return walletClient.sendTransaction({ ...call, nonce: original.nonce, ...fees });
+}
+
+/**
+ * Poll for whichever of several same-nonce transactions is mined first
+ */
+async function waitForFirstReceipt(
+	publicClient: PublicClient,
+	hashes: Hex[],
+	timeoutMs: number,
+	pollIntervalMs: number
+): Promise<TransactionReceipt | undefined> {
+	const deadline = Date.now() + timeoutMs;
+	for (;;) {
+		for (const hash of hashes) {
+			try {
+				return await publicClient.getTransactionReceipt({ hash });
+			} catch (error) {
+				if ((error as Error).name !== "TransactionReceiptNotFoundError") throw error;
+			}
+		}
+		if (Date.now() >= deadline) return undefined;
+		await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+	}
+}
+
+/**
+ * Wait for an EVM transaction receipt, replacing the transaction when it is stuck
+ *
+ * The original is given `timeoutSeconds` to be mined. After that the policy
+ * decides: `none` fails with TRANSACTION_TIMEOUT, while `speed-up` and `cancel`
+ * send a same-nonce replacement with a bumped fee and wait the same time again
+ * for either transaction.
+ *
+ * @param publicClient - viem public client
+ * @param walletClient - viem wallet client that sent the transaction
+ * @param hash - Hash of the pending transaction
+ * @param options - Stage (for reporting), timeout and stuck transaction policy
+ * @returns Receipt of the mined transaction, and the replacement if one was sent
+ * @throws ToolError TRANSACTION_TIMEOUT when nothing was mined in time
+ */
+export async function waitForEvmReceipt(
+	publicClient: PublicClient,
+	walletClient: WalletClient<Transport, Chain, Account>,
+	hash: Hex,
+	options: ReceiptWaitOptions
+): Promise<{ receipt: TransactionReceipt; replacement?: TransactionReplacement }> {
+	const { stage, timeoutSeconds, policy, pollIntervalMs = RECEIPT_POLL_INTERVAL_MS } = options;
+	const timeoutMs = timeoutSeconds * 1000;
+
+	try {
+		return {
+			receipt: await publicClient.waitForTransactionReceipt({ hash, timeout: timeoutMs }),
+		};
+	} catch (error) {
+		if ((error as Error).name !== "WaitForTransactionReceiptTimeoutError") throw error;
+	}
+
+	if (policy.action === "none") {
+		throw new ToolError(
+			"TRANSACTION_TIMEOUT",
+			`${stage === "swap" ? "Swap" : "Approval"} transaction ${hash} was not mined within ${timeoutSeconds}s`,
+			{ details: { stage, transactionHash: hash } }
+		);
+	}
+
+	console.error(
+		`[WARN] ${stage} transaction ${hash} not mined after ${timeoutSeconds}s, sending ${policy.action} (+${policy.feeBump}% fee)`
+	);
+
+	let replacementHash: Hex;
+	try {
+		replacementHash = await sendReplacement(publicClient, walletClient, hash, policy);
+	} catch (error) {
+		// The original may have been mined while the replacement was prepared
+		const receipt = await waitForFirstReceipt(publicClient, [hash], 0, pollIntervalMs);
+		if (receipt) return { receipt };
+		throw error;
+	}
+	console.error(`[INFO] Replacement transaction: ${replacementHash}`);
+
+	const receipt = await waitForFirstReceipt(
+		publicClient,
+		[replacementHash, hash],
+		timeoutMs,
+		pollIntervalMs
+	);
+	if (!receipt) {
+		throw new ToolError(
+			"TRANSACTION_TIMEOUT",
+			`Neither ${stage} transaction ${hash} nor its ${policy.action} ${replacementHash} was mined within ${timeoutSeconds}s`,
+			{ details: { stage, transactionHash: hash, replacementHash } }
+		);
+	}
+
+	return {
+		receipt,
+		replacement: {
+			stage,
+			action: policy.action,
+			originalHash: hash,
+			replacementHash,
+			outcome: receipt.transactionHash === hash ? "original_mined" : "replaced",
+		},
+	};
+}
+
+/**
+ * Wait for a Starknet transaction receipt for at most `timeoutSeconds`
+ *
+ * Starknet transactions cannot be replaced, so a transaction still pending
+ * after the timeout only fails the wait; it may still be accepted later.
+ *
+ * @param provider - Starknet RPC provider
+ * @param hash - Hash of the pending transaction
+ * @param timeoutSeconds - How long to wait
+ * @returns Receipt of the accepted (or reverted) transaction
+ * @throws ToolError TRANSACTION_TIMEOUT when the transaction was not accepted in time
+ */
+export async function waitForStarknetReceipt(
+	provider: RpcProvider,
+	hash: string,
+	timeoutSeconds: number
+): Promise<GetTransactionReceiptResponse> {
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(
+			() =>
+				reject(
+					new ToolError(
+						"TRANSACTION_TIMEOUT",
+						`Starknet transaction ${hash} was not accepted within ${timeoutSeconds}s`,
+						{ details: { transactionHash: hash } }
+					)
+				),
+			timeoutSeconds * 1000
+		);
+	});
+
+	try {
+		return await Promise.race([provider.waitForTransaction(hash), timeout]);
+	} finally {
+		clearTimeout(timer);
+	}
+}
@@ -1,4 +1,5 @@
 import { SUPPORTED_CHAINS } from "./validation.js";
+import { classifyError, ToolError } from "./errors.js";
 import { RESPONSE_LIMITS } from "./constants.js";
 
 /**
@@ -16,6 +17,7 @@ export interface McpResponseContent {
 export interface McpSuccessResponse {
 	[x: string]: unknown;
 	content: McpResponseContent[];
+	structuredContent?: Record<string, unknown>;
 }
 
 /**
@@ -24,12 +26,16 @@ export interface McpSuccessResponse {
 export interface McpErrorResponse {
 	[x: string]: unknown;
 	content: McpResponseContent[];
+	structuredContent?: Record<string, unknown>;
 	isError: true;
 }
 
 /**
  * Create a standardized error response for MCP tools
  *
+ * The error is classified into a stable code (see `classifyError`) and returned
+ * as `structuredContent` together with a retryability hint.
+ *
  * @param error - Error object or message
  * @param context - Context where error occurred
  * @param chainName - Optional chain name for context
@@ -49,130 +55,88 @@ export function createErrorResponse(
 	context: string,
 	chainName?: string
 ): McpErrorResponse {
-	const errorMessage = error instanceof Error ? error.message : "Unknown error";
+	const { code, message, retryable, hint, details } = classifyError(error);
 	const timestamp = new Date().toISOString();
 
+	// Errors may carry small structured details (e.g. token candidates for an unknown symbol)
+	const detailsText = details ? `\nDetails:\n${JSON.stringify(details, null, 2)}\n` : "";
+
 	return {
 		content: [
 			{
 				type: "text",
-				text: `Error in ${context}: ${errorMessage}
+				text: `Error in ${context}: ${message}
 		
+Code: ${code} (retryable: ${retryable ? "yes" : "no"})
 Timestamp: ${timestamp}
 Supported chains: ${SUPPORTED_CHAINS.join(", ")}
 ${chainName ? `Chain: ${chainName}` : ""}
-		
-Tip: Check your parameters and try again. For help, use the "help" prompt.`,
+${detailsText}		
+Tip: ${hint}`,
 			},
 		],
+		structuredContent: toStructuredContent({
+			error: { code, message, retryable, hint, context, chainName, details },
+		}),
 		isError: true,
 	};
 }
 
 /**
- * Sanitize and truncate large objects to prevent memory issues
+ * Serialize data for structuredContent (bigints become strings)
  */
-function sanitizeObject(obj: unknown, maxDepth = 3, currentDepth = 0): unknown {
-	if (currentDepth >= maxDepth) {
-		return "[Max depth reached]";
-	}
-
-	if (obj === null || obj === undefined) {
-		return obj;
-	}
-
-	if (typeof obj === "string") {
-		return obj.length > RESPONSE_LIMITS.MAX_STRING_LENGTH
-			? obj.substring(0, RESPONSE_LIMITS.MAX_STRING_LENGTH) +
-					RESPONSE_LIMITS.TRUNCATION_INDICATOR
-			: obj;
-	}
-
-	if (typeof obj === "number" || typeof obj === "boolean") {
-		return obj;
-	}
-
-	if (Array.isArray(obj)) {
-		if (obj.length > RESPONSE_LIMITS.MAX_ARRAY_LENGTH) {
-			const truncated = obj
-				.slice(0, RESPONSE_LIMITS.MAX_ARRAY_LENGTH)
-				.map((item) => sanitizeObject(item, maxDepth, currentDepth + 1));
-			truncated.push(`[... ${obj.length - RESPONSE_LIMITS.MAX_ARRAY_LENGTH} more items]`);
-			return truncated;
-		}
-		return obj.map((item) => sanitizeObject(item, maxDepth, currentDepth + 1));
-	}
-
-	if (typeof obj === "object") {
-		const sanitized: Record<string, unknown> = {};
-		const entries = Object.entries(obj as Record<string, unknown>);
-
-		for (const [key, value] of entries.slice(0, RESPONSE_LIMITS.MAX_OBJECT_PROPERTIES)) {
-			// Limit object properties
-			sanitized[key] = sanitizeObject(value, maxDepth, currentDepth + 1);
-		}
-
-		if (entries.length > RESPONSE_LIMITS.MAX_OBJECT_PROPERTIES) {
-			sanitized["[truncated]"] =
-				`${entries.length - RESPONSE_LIMITS.MAX_OBJECT_PROPERTIES} more properties`;
-		}
-
-		return sanitized;
-	}
-
-	return String(obj);
+function serialize(data: object): string {
+	return JSON.stringify(data, (_key, value) =>
+		typeof value === "bigint" ? value.toString() : value
+	);
 }
 
 /**
- * Format JSON with size limits
+ * Convert data into a JSON-safe object for structuredContent
  */
-function formatJsonSafely(data: unknown): string {
-	try {
-		const sanitized = sanitizeObject(data);
-		const jsonString = JSON.stringify(sanitized, null, 2);
-
-		if (jsonString.length > RESPONSE_LIMITS.MAX_SIZE) {
-			const truncated = jsonString.substring(0, RESPONSE_LIMITS.MAX_SIZE - 100);
-			return truncated + "\n... (Response truncated due to size limit)";
-		}
-
-		return jsonString;
-	} catch (error) {
-		return `[Error formatting response: ${error instanceof Error ? error.message : "Unknown error"}]`;
-	}
+function toStructuredContent(data: object): Record<string, unknown> {
+	return JSON.parse(serialize(data)) as Record<string, unknown>;
 }
 
 /**
  * Create a standardized success response for MCP tools
  *
- * @param data - Data to include in response
- * @param context - Context description
+ * The data is returned as `structuredContent`, matching the tool's output schema;
+ * the text content only carries a short human-readable summary. Data over
+ * `RESPONSE_LIMITS.MAX_SIZE` is refused rather than cut, which would break the schema.
+ *
+ * @param data - Structured data to include in response
+ * @param summary - Human-readable summary of the result
  * @returns Formatted success response
+ * @throws ToolError (RESPONSE_TOO_LARGE) when the data is over the size limit
  *
  * @example
  * ```typescript
  * const successResponse = createSuccessResponse(
- *   { tokens: [...] },
+ *   { chainName: "base", tokens: {...} },
  *   "Supported tokens for base"
  * )
  * ```
  */
-export function createSuccessResponse(data: unknown, context: string): McpSuccessResponse {
-	const timestamp = new Date().toISOString();
-	const formattedData = formatJsonSafely(data);
+export function createSuccessResponse(data: object, summary: string): McpSuccessResponse {
+	const json = serialize(data);
+	const size = Buffer.byteLength(json, "utf8");
+	if (size > RESPONSE_LIMITS.MAX_SIZE) {
+		throw new ToolError(
+			"RESPONSE_TOO_LARGE",
+			`Result is ${size} bytes, over the ${RESPONSE_LIMITS.MAX_SIZE}-byte response limit`,
+			{ details: { size, limit: RESPONSE_LIMITS.MAX_SIZE } }
+		);
+	}
 
 	return {
 		content: [
 			{
 				type: "text",
-				text: `${context}
-		
-Timestamp: ${timestamp}
-		
-Data:
-${formattedData}`,
+				text: summary,
 			},
 		],
+		structuredContent: JSON.parse(json) as Record<string, unknown>,
 	};
 }
 
@@ -180,6 +144,7 @@ ${formattedData}`,
  * Create a formatted info response without data
  *
  * @param message - Information message
+ * @param data - Optional structured data for tools that declare an output schema
  * @returns Formatted info response
  *
  * @example
@@ -187,7 +152,10 @@ ${formattedData}`,
  * const infoResponse = createInfoResponse("No tokens found for this chain")
  * ```
  */
-export function createInfoResponse(message: string): McpSuccessResponse {
+export function createInfoResponse(
+	message: string,
+	data?: Record<string, unknown>
+): McpSuccessResponse {
 	const timestamp = new Date().toISOString();
 
 	return {
@@ -199,6 +167,7 @@ export function createInfoResponse(message: string): McpSuccessResponse {
 Timestamp: ${timestamp}`,
 			},
 		],
+		...(data && { structuredContent: toStructuredContent(data) }),
 	};
 }
 
@@ -207,6 +176,7 @@ Timestamp: ${timestamp}`,
  *
  * @param resourceType - Type of resource that was empty
  * @param chainName - Chain name for context
+ * @param data - Optional structured data for tools that declare an output schema
  * @returns Formatted empty response
  *
  * @example
@@ -214,14 +184,19 @@ Timestamp: ${timestamp}`,
  * const emptyResponse = createEmptyResponse("tokens", "base")
  * ```
  */
-export function createEmptyResponse(resourceType: string, chainName: string): McpSuccessResponse {
+export function createEmptyResponse(
+	resourceType: string,
+	chainName: string,
+	data?: Record<string, unknown>
+): McpSuccessResponse {
 	return createInfoResponse(
 		`No ${resourceType} found for ${chainName}. This could indicate:
 • Network connectivity issues
 • API service temporarily unavailable
 • Chain configuration problems
 
-Try again in a moment or check your network connection.`
+Try again in a moment or check your network connection.`,
+		data
 	);
 }
 
@@ -0,0 +1,147 @@
+import type { Route, RouteSuccess, Swap, Token } from "fibrous-router-sdk";
+import { isSameAddress } from "./tokens.js";
+import { getProtocolName } from "./validation.js";
+
+/**
+ * Token at either end of a route or hop; symbols are only known for the route's own tokens
+ */
+export interface RouteToken {
+	address: string;
+	symbol?: string;
+	decimals?: number;
+}
+
+/**
+ * One pool swap in a route
+ */
+export interface RouteHop {
+	path: number; // Split path the hop belongs to, from 0
+	step: number; // Position of the hop within its path, from 0
+	protocol: string;
+	protocolId: number;
+	pool: { id: string; address: string; name: string };
+	tokenIn: RouteToken;
+	tokenOut: RouteToken;
+	pathPercent: number; // Share of the route's input sent down this path
+	percent: number; // Share of the step's input swapped in this pool
+}
+
+/**
+ * Amounts of one split path; the router does not report amounts per hop
+ */
+export interface RoutePathAmount {
+	path: number;
+	percent: number; // Share of the route's input sent down this path
+	amountIn: string; // Route input sent down this path, in the input token
+	steps: number; // Hops the input goes through, one after the other
+}
+
+/**
+ * Router route flattened into a list of hops
+ *
+ * Amounts are path-level: the router gives each path's share of the input but
+ * no rates or outputs per pool, so only the route's total output is known.
+ */
+export interface NormalizedRoute {
+	inputToken: RouteToken;
+	outputToken: RouteToken;
+	inputAmount: string;
+	outputAmount: string;
+	estimatedGasUsed?: string;
+	estimatedGasUsedInUsd?: string;
+	paths: number; // Paths the input is split across
+	pathAmounts: RoutePathAmount[];
+	hops: RouteHop[];
+}
+
+function toRouteToken(token: Token): RouteToken {
+	return { address: token.address, symbol: token.symbol, decimals: Number(token.decimals) };
+}
+
+// Router percentages are strings such as "60%"
+function parsePercent(percent: string | number): number {
+	return Number.parseFloat(String(percent)) || 0;
+}
+
+// Share of an amount, with percentages kept to two decimals
+function applyPercent(amount: string, ...percents: number[]): string {
+	return percents
+		.reduce(
+			(value, percent) => (value * BigInt(Math.round(percent * 100))) / 10000n,
+			BigInt(amount)
+		)
+		.toString();
+}
+
+/**
+ * Flatten a router route into typed hops
+ *
+ * Each hop names its protocol (the reverse of `mapProtocolIds`), pool and
+ * tokens, with the share of the input it handles. Only the route's input and
+ * output tokens have symbols; intermediate tokens are given by address. Input
+ * amounts are given per path, since the router reports no amounts per hop.
+ *
+ * @param route - Route returned by the Fibrous router
+ * @returns Route with its path amounts, and its hops in path and step order
+ *
+ * @example
+ * ```typescript
+ * const { pathAmounts, hops } = normalizeRoute(route)
+ * // pathAmounts: [{ path: 0, percent: 100, amountIn: "1000000000000000000", steps: 1 }]
+ * // hops: [{ path: 0, step: 0, protocol: "Ekubo", protocolId: 5,
+ * //    pool: { id: "1", address: "0xpool", name: "ETH/USDC" },
+ * //    tokenIn: { address: "0x049d...", symbol: "ETH", decimals: 18 },
+ * //    tokenOut: { address: "0x053c...", symbol: "USDC", decimals: 6 },
+ * //    pathPercent: 100, percent: 100 }]
+ * ```
+ */
+export function normalizeRoute(route: RouteSuccess): NormalizedRoute {
+	const inputToken = toRouteToken(route.inputToken);
+	const outputToken = toRouteToken(route.outputToken);
+	const knownTokens = [inputToken, outputToken];
+	const tokenAt = (address: string): RouteToken =>
+		knownTokens.find((token) => isSameAddress(token.address, address)) ?? { address };
+
+	const paths: Route[] = route.route ?? [];
+	const hops = paths.flatMap((path, pathIndex) => {
+		const pathPercent = parsePercent(path.percent);
+		return path.swaps.flatMap((step: Swap[], stepIndex: number) =>
+			step.map((swap): RouteHop => {
+				const percent = parsePercent(swap.percent);
+				return {
+					path: pathIndex,
+					step: stepIndex,
+					protocol: getProtocolName(swap.protocol),
+					protocolId: Number(swap.protocol),
+					pool: { id: swap.poolId, address: swap.poolAddress, name: swap.poolName },
+					tokenIn: tokenAt(swap.fromTokenAddress),
+					tokenOut: tokenAt(swap.toTokenAddress),
+					pathPercent,
+					percent,
+				};
+			})
+		);
+	});
+	const pathAmounts = paths.map(
+		(path, pathIndex): RoutePathAmount => ({
+			path: pathIndex,
+			percent: parsePercent(path.percent),
+			amountIn: applyPercent(route.inputAmount, parsePercent(path.percent)),
+			steps: path.swaps.length,
+		})
+	);
+
+	return {
+		inputToken,
+		outputToken,
+		inputAmount: route.inputAmount,
+		outputAmount: route.outputAmount,
+		...(route.estimatedGasUsed !== undefined && { estimatedGasUsed: route.estimatedGasUsed }),
+		...(route.estimatedGasUsedInUsd !== undefined && {
+			estimatedGasUsedInUsd: route.estimatedGasUsedInUsd,
+		}),
+		paths: paths.length,
+		pathAmounts,
+		hops,
+	};
+}
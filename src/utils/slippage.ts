@@ -0,0 +1,161 @@
+import type { Router as FibrousRouter, Route, RouteSuccess, Token } from "fibrous-router-sdk";
+import type { SupportedChain } from "./validation.js";
+import type { ServerConfig } from "./config.js";
+import { estimatePriceImpact } from "./quotes.js";
+import { isSameAddress, matchesToken } from "./tokens.js";
+
+/**
+ * Where a swap's slippage came from, in order of precedence
+ */
+export type SlippageSource = "explicit" | "auto" | "pair" | "chain" | "default";
+
+export interface ResolvedSlippage {
+	slippage: number;
+	source: SlippageSource;
+}
+
+/**
+ * Slippage suggested for a route, with the factors behind it
+ */
+export interface SlippageRecommendation {
+	slippage: number;
+	volatility: "stable" | "major" | "long-tail"; // Most volatile of the two tokens
+	priceImpact?: number; // Percent, when both tokens are priced
+	hops: number;
+}
+
+/**
+ * Tokens of a swap, as given by the caller and as resolved
+ */
+export interface SlippagePair {
+	chainName: SupportedChain;
+	tokenIn: { address: string; symbol?: string };
+	tokenOut: { address: string; symbol?: string };
+}
+
+const STABLE_SYMBOLS = new Set(["USDC", "USDC.E", "USDBC", "USDT", "DAI", "LUSD", "FRAX", "USDS"]);
+const MAJOR_SYMBOLS = new Set(["ETH", "WETH", "WSTETH", "CBETH", "RETH", "WBTC", "CBBTC", "STRK"]);
+
+// Base tolerance for price movement between quote and execution, by volatility
+const VOLATILITY_SLIPPAGE = { stable: 0.1, major: 0.5, "long-tail": 1 } as const;
+const VOLATILITY_RANK = ["stable", "major", "long-tail"] as const;
+const MAX_AUTO_SLIPPAGE = 5;
+
+function getVolatility(token: Pick<Token, "symbol">): SlippageRecommendation["volatility"] {
+	const symbol = token.symbol.toUpperCase();
+	if (STABLE_SYMBOLS.has(symbol)) return "stable";
+	if (MAJOR_SYMBOLS.has(symbol)) return "major";
+	return "long-tail";
+}
+
+/**
+ * Recommend a slippage for a route from token volatility and route depth
+ *
+ * Starts from a tolerance for the more volatile token (0.1% for stablecoins,
+ * 0.5% for majors such as ETH, 1% otherwise), then adds half the price impact
+ * (thin pools move more between quote and execution) and 0.1% per hop beyond
+ * the first. Capped at 5%.
+ *
+ * @param route - Route returned by the Fibrous router
+ * @returns Recommended slippage percentage and the factors used
+ *
+ * @example
+ * ```typescript
+ * // ETH → USDC, one hop, 0.2% price impact
+ * recommendSlippage(route) // { slippage: 0.6, volatility: "major", priceImpact: 0.2, hops: 1 }
+ * ```
+ */
+export function recommendSlippage(route: RouteSuccess): SlippageRecommendation {
+	const volatility = [getVolatility(route.inputToken), getVolatility(route.outputToken)].sort(
+		(a, b) => VOLATILITY_RANK.indexOf(b) - VOLATILITY_RANK.indexOf(a)
+	)[0];
+	const impact = estimatePriceImpact(route);
+	const priceImpact = impact === undefined ? undefined : Number(impact);
+	const hops = Math.max(1, ...(route.route ?? []).map((split: Route) => split.swaps.length));
+
+	const slippage =
+		VOLATILITY_SLIPPAGE[volatility] + Math.max(0, priceImpact ?? 0) / 2 + (hops - 1) * 0.1;
+
+	return {
+		slippage: Math.min(MAX_AUTO_SLIPPAGE, Math.round(slippage * 100) / 100),
+		volatility,
+		...(priceImpact !== undefined && { priceImpact }),
+		hops,
+	};
+}
+
+/**
+ * Fill in missing token symbols from the chain's token list, for symbol-keyed pair overrides
+ */
+async function withSymbols(
+	pair: SlippagePair,
+	fibrousRouter: FibrousRouter
+): Promise<SlippagePair> {
+	if (pair.tokenIn.symbol && pair.tokenOut.symbol) return pair;
+
+	const tokens: Token[] = Array.from(
+		(await fibrousRouter.supportedTokens(pair.chainName)).values()
+	);
+	const symbolOf = (token: SlippagePair["tokenIn"]) =>
+		token.symbol ?? tokens.find((t) => isSameAddress(t.address, token.address))?.symbol;
+	return {
+		...pair,
+		tokenIn: { ...pair.tokenIn, symbol: symbolOf(pair.tokenIn) },
+		tokenOut: { ...pair.tokenOut, symbol: symbolOf(pair.tokenOut) },
+	};
+}
+
+/**
+ * Slippage for a chain when the caller gives none: SLIPPAGE_BY_CHAIN, then DEFAULT_SLIPPAGE
+ */
+export function getChainSlippage(
+	chainName: SupportedChain,
+	serverConfig: Pick<ServerConfig, "defaultSlippage" | "slippageOverrides">
+): ResolvedSlippage {
+	const chainSlippage = serverConfig.slippageOverrides.chains[chainName];
+	return chainSlippage === undefined
+		? { slippage: serverConfig.defaultSlippage, source: "default" }
+		: { slippage: chainSlippage, source: "chain" };
+}
+
+/**
+ * Resolve the slippage for a swap
+ *
+ * Precedence: the tool argument (a number, or "auto" to use the route
+ * recommendation), then a SLIPPAGE_BY_PAIR override for the token pair (either
+ * order), then a SLIPPAGE_BY_CHAIN override, then DEFAULT_SLIPPAGE.
+ *
+ * @param requested - Slippage argument of the tool call
+ * @param pair - Chain and tokens of the swap
+ * @param serverConfig - Server configuration with the default and overrides
+ * @param fibrousRouter - Fibrous router, for token symbols of pair overrides
+ * @param getRoute - Fetches the route; only called for "auto"
+ * @returns Slippage percentage and its source
+ */
+export async function resolveSlippage(
+	requested: number | "auto" | undefined,
+	pair: SlippagePair,
+	serverConfig: Pick<ServerConfig, "defaultSlippage" | "slippageOverrides">,
+	fibrousRouter: FibrousRouter,
+	getRoute: () => Promise<RouteSuccess>
+): Promise<ResolvedSlippage> {
+	if (typeof requested === "number") {
+		return { slippage: requested, source: "explicit" };
+	}
+	if (requested === "auto") {
+		return { slippage: recommendSlippage(await getRoute()).slippage, source: "auto" };
+	}
+
+	const { pairs } = serverConfig.slippageOverrides;
+	if (pairs.length > 0) {
+		const { tokenIn, tokenOut } = await withSymbols(pair, fibrousRouter);
+		const override = pairs.find(
+			({ tokens: [a, b] }) =>
+				(matchesToken(a, tokenIn) && matchesToken(b, tokenOut)) ||
+				(matchesToken(a, tokenOut) && matchesToken(b, tokenIn))
+		);
+		if (override) return { slippage: override.slippage, source: "pair" };
+	}
+
+	return getChainSlippage(pair.chainName, serverConfig);
+}
@@ -1,14 +1,51 @@
 import type { Router as FibrousRouter } from "fibrous-router-sdk";
-import type { buildRouteAndCalldataParams } from "fibrous-router-sdk";
-import { createPublicClient, createWalletClient, http, type Hex, erc20Abi, type Chain } from "viem";
+import type {
+	buildRouteAndCalldataParams,
+	EvmRouteAndCalldata,
+	EvmTransactionData,
+	RouteSuccess,
+	StarknetRouteAndCalldata,
+} from "fibrous-router-sdk";
+import {
+	createPublicClient,
+	createWalletClient,
+	http,
+	concat,
+	encodeFunctionData,
+	type Account,
+	type Chain,
+	type Hex,
+	type PublicClient,
+	type Transport,
+	type WalletClient,
+	erc20Abi,
+} from "viem";
 import { privateKeyToAccount } from "viem/accounts";
-import { base, scroll } from "viem/chains";
-import { Account as StarknetAccount, RpcProvider, type Call } from "starknet";
+import { Account as StarknetAccount, RpcProvider, TransactionType, type Call } from "starknet";
 import type { SupportedChain, ChainConfig } from "./index.js";
 import { getServerConfig } from "./config.js";
 import { toBigInt } from "./amounts.js";
-import { EXPLORER_URLS, GAS_FALLBACKS, DEFAULTS } from "./constants.js";
+import { EXPLORER_URLS, GAS_FALLBACKS, DEFAULTS, NATIVE_TOKEN } from "./constants.js";
+import { ToolError, classifyError, type ErrorCode } from "./errors.js";
+import { isNativeToken, isSameAddress } from "./tokens.js";
+import { getTokenBalance } from "./balances.js";
+import { getApprovalAmount } from "./approvals.js";
+import { getViemChain, getWalletAddress } from "./wallet.js";
 import { mapProtocolIds } from "./index.js";
+import {
+	decodeEvmOutputAmount,
+	decodeStarknetOutputAmount,
+	getRealisedOutput,
+	type RealisedOutput,
+} from "./receipts.js";
+import {
+	waitForEvmReceipt,
+	waitForStarknetReceipt,
+	type TransactionReplacement,
+} from "./replacement.js";
+import { estimateL1DataFee, getEvmFees, getMaxGasPrice, type EvmFeeParams } from "./fees.js";
+import { getGasCostUsd } from "./pricing.js";
+import { getMinOutput } from "./quotes.js";
 
 export interface SwapParams {
 	amount: string;
@@ -21,6 +58,8 @@ export interface SwapParams {
 		direct?: boolean;
 		excludeProtocols?: string[];
 	};
+	dryRun?: boolean; // Simulate only, never broadcast
+	minOutput?: string; // Refuse routes whose slippage-adjusted output falls below this
 }
 
 export interface SwapResult {
@@ -29,26 +68,156 @@ export interface SwapResult {
 	error?: string;
 	explorerUrl?: string;
 	gasUsed?: string;
-	outputAmount?: string;
+	outputAmount?: string; // Decoded from the receipt
+	expectedOutputAmount?: string; // Quoted output of the route
+	effectivePrice?: string; // Output tokens received per input token
+	realisedSlippage?: number; // Percent below the quoted output; negative when better
+	errorCode?: ErrorCode;
+	preflight?: PreflightResult;
+	replacements?: TransactionReplacement[]; // Speed-ups or cancels sent for stuck transactions
+	// Dry-run (simulation) fields
+	simulated?: boolean;
+	approvalRequired?: boolean;
+	gasEstimate?: string;
+	revertReason?: string;
+}
+
+/**
+ * Outcome of one pre-flight balance check (amounts in the token's smallest unit)
+ */
+export interface BalanceCheck {
+	token: string;
+	required: string;
+	available: string;
+	sufficient: boolean;
+}
+
+/**
+ * Wallet state checked before a swap is signed
+ */
+export interface PreflightResult {
+	passed: boolean;
+	tokenBalance: BalanceCheck;
+	gasBalance: BalanceCheck & { estimatedCost: string; fallbackEstimate: boolean };
+	allowance?: { spender: string; current: string; sufficient: boolean };
+	approvalRequired: boolean;
+	errors: string[];
 }
 
 export interface GasEstimate {
 	gasEstimate: string;
-	gasPrice: string;
-	estimatedCost: string;
-	costInUSD?: string;
+	gasPrice: string; // Max price per gas (the EIP-1559 max fee, or the legacy gas price)
+	l2ExecutionFee: string; // Execution cost on the chain itself
+	l1DataFee: string; // Cost of posting the transaction data to Ethereum
+	totalFee: string; // l2ExecutionFee + l1DataFee
+	estimatedCost: string; // Same as totalFee
+	feeToken: "ETH" | "STRK"; // Token the fees are paid in
+	costInUSD?: string; // totalFee in USD, when the fee token has a price
+	source: "rpc" | "fallback"; // fallback: GAS_FALLBACKS constants, not a real estimate
+	fallbackReason?: string; // Why the RPC estimate failed
+	maxFee?: string; // EIP-1559 max fee per gas
+	priorityFee?: string; // EIP-1559 priority fee per gas
 }
 
-// --- Helper for Viem Chains ---
-function getViemChain(chainName: string): Chain {
-	switch (chainName) {
-		case "base":
-			return base;
-		case "scroll":
-			return scroll;
-		default:
-			throw new Error(`Unsupported EVM chain: ${chainName}`);
+// --- Native Token Helpers ---
+
+/**
+ * Map any native token alias to the sentinel address the router expects
+ */
+function resolveNativeAddress(
+	address: string,
+	chainName: SupportedChain,
+	fibrousRouter: FibrousRouter
+): string {
+	if (chainName === "starknet" || !isNativeToken(address, fibrousRouter.NATIVE_TOKEN_ADDRESS)) {
+		return address;
 	}
+	return fibrousRouter.NATIVE_TOKEN_ADDRESS ?? NATIVE_TOKEN.EVM_ADDRESS;
+}
+
+// --- Router Calldata ---
+
+// swap(route, swap_parameters) of the Fibrous EVM router
+const EVM_ROUTER_SWAP_ABI = [
+	{
+		type: "function",
+		name: "swap",
+		stateMutability: "payable",
+		inputs: [
+			{
+				name: "route",
+				type: "tuple",
+				components: [
+					{ name: "token_in", type: "address" },
+					{ name: "token_out", type: "address" },
+					{ name: "amount_in", type: "uint256" },
+					{ name: "amount_out", type: "uint256" },
+					{ name: "min_received", type: "uint256" },
+					{ name: "destination", type: "address" },
+					{ name: "swap_type", type: "uint8" },
+				],
+			},
+			{
+				name: "swap_parameters",
+				type: "tuple[]",
+				components: [
+					{ name: "token_in", type: "address" },
+					{ name: "token_out", type: "address" },
+					{ name: "rate", type: "uint32" },
+					{ name: "protocol_id", type: "int24" },
+					{ name: "pool_address", type: "address" },
+					{ name: "swap_type", type: "uint8" },
+					{ name: "extra_data", type: "bytes" },
+				],
+			},
+		],
+		outputs: [{ name: "", type: "uint256" }],
+	},
+] as const;
+
+/**
+ * Encode the router arguments returned for an EVM chain as swap() calldata
+ */
+export function encodeEvmSwap({ route, swap_parameters }: EvmTransactionData): Hex {
+	return encodeFunctionData({
+		abi: EVM_ROUTER_SWAP_ABI,
+		functionName: "swap",
+		args: [
+			{
+				token_in: route.token_in as Hex,
+				token_out: route.token_out as Hex,
+				amount_in: BigInt(route.amount_in),
+				amount_out: BigInt(route.amount_out),
+				min_received: BigInt(route.min_received),
+				destination: route.destination as Hex,
+				swap_type: route.swap_type,
+			},
+			swap_parameters.map((swap: EvmTransactionData["swap_parameters"][number]) => ({
+				token_in: swap.token_in as Hex,
+				token_out: swap.token_out as Hex,
+				rate: swap.rate,
+				protocol_id: swap.protocol_id,
+				pool_address: swap.pool_address as Hex,
+				swap_type: swap.swap_type,
+				extra_data: Array.isArray(swap.extra_data)
+					? concat(swap.extra_data as Hex[])
+					: (swap.extra_data as Hex),
+			})),
+		],
+	});
+}
+
+/**
+ * Route options in the form the router expects, with protocol names mapped to ids
+ */
+function toRouteOptions(options?: SwapParams["options"]): buildRouteAndCalldataParams["options"] {
+	if (!options) return undefined;
+	return {
+		...options,
+		excludeProtocols: options.excludeProtocols
+			? mapProtocolIds(options.excludeProtocols)
+			: undefined,
+	};
 }
 
 // --- Core Swap Execution ---
@@ -66,14 +235,19 @@ export async function executeSwap(
 	fibrousRouter: FibrousRouter
 ): Promise<SwapResult> {
 	try {
-		const {
-			amount,
-			tokenInAddress,
-			tokenOutAddress,
-			slippage = DEFAULTS.SLIPPAGE,
-			receiverAddress,
+		const { amount, slippage = DEFAULTS.SLIPPAGE, receiverAddress, chainName } = params;
+
+		// Native ETH may be passed as any known alias; the router expects its own sentinel
+		const tokenInAddress = resolveNativeAddress(
+			params.tokenInAddress,
 			chainName,
-		} = params;
+			fibrousRouter
+		);
+		const tokenOutAddress = resolveNativeAddress(
+			params.tokenOutAddress,
+			chainName,
+			fibrousRouter
+		);
 
 		// Convert amount to bigint
 		const amountBI = toBigInt(amount);
@@ -87,9 +261,31 @@ export async function executeSwap(
 		console.error(`[INFO] To: ${tokenOutAddress}`);
 		console.error(`[INFO] Receiver: ${finalReceiverAddress}`);
 		console.error(`[INFO] Slippage: ${slippage}%`);
+		if (params.dryRun) {
+			console.error("[INFO] Dry run: transactions will be simulated, not broadcast");
+		}
 
+		// Stop before anything is signed when the wallet cannot cover the swap
+		const preflight = await runPreflightChecks(
+			params,
+			amountBI,
+			tokenInAddress,
+			chainConfig,
+			fibrousRouter
+		);
+		if (!preflight.passed) {
+			console.error(`[WARN] Pre-flight check failed: ${preflight.errors.join("; ")}`);
+			return {
+				success: false,
+				error: preflight.errors.join("; "),
+				errorCode: "INSUFFICIENT_BALANCE",
+				preflight,
+			};
+		}
+
+		let result: SwapResult;
 		if (chainName === "starknet") {
-			return executeStarknetSwap(
+			result = await executeStarknetSwap(
 				amountBI,
 				tokenInAddress,
 				tokenOutAddress,
@@ -97,10 +293,12 @@ export async function executeSwap(
 				finalReceiverAddress,
 				chainConfig,
 				fibrousRouter,
-				params.options
+				params.options,
+				params.minOutput,
+				params.dryRun
 			);
 		} else {
-			return executeEvmSwap(
+			result = await executeEvmSwap(
 				amountBI,
 				tokenInAddress,
 				tokenOutAddress,
@@ -109,9 +307,12 @@ export async function executeSwap(
 				chainName,
 				chainConfig,
 				fibrousRouter,
-				params.options
+				params.options,
+				params.minOutput,
+				params.dryRun
 			);
 		}
+		return { ...result, preflight };
 	} catch (error) {
 		const errorMessage =
 			error instanceof Error ? error.message : "Unknown error during swap execution";
@@ -119,10 +320,112 @@ export async function executeSwap(
 		return {
 			success: false,
 			error: errorMessage,
+			errorCode: classifyError(error).code,
 		};
 	}
 }
 
+// --- Pre-flight Checks ---
+
+/**
+ * Check the wallet's input token balance, native gas balance and router allowance
+ *
+ * @param params - Swap parameters (passed on to estimateSwapGas)
+ * @param amount - Input amount in wei
+ * @param tokenInAddress - Input token address, with native aliases already resolved
+ * @param chainConfig - Chain configuration
+ * @param fibrousRouter - Fibrous router instance
+ * @returns Result of every check; `passed` is false when a balance is insufficient
+ */
+export async function runPreflightChecks(
+	params: SwapParams,
+	amount: bigint,
+	tokenInAddress: string,
+	chainConfig: ChainConfig,
+	fibrousRouter: FibrousRouter
+): Promise<PreflightResult> {
+	const { chainName } = params;
+	const owner = await getWalletAddress(chainConfig, chainName);
+	const routerAddress = fibrousRouter.supportedChains.find(
+		(c) => c.chain_name === chainName
+	)?.router_address;
+
+	// The estimate decides the gas token: Starknet fees are paid in STRK when it reports FRI
+	const gasEstimate = await estimateSwapGas(params, chainConfig, fibrousRouter);
+	const gasToken =
+		chainName !== "starknet"
+			? NATIVE_TOKEN.EVM_ADDRESS
+			: gasEstimate.feeToken === "STRK"
+				? NATIVE_TOKEN.STARKNET_STRK_ADDRESS
+				: NATIVE_TOKEN.STARKNET_ETH_ADDRESS;
+	const payingGasToken =
+		chainName === "starknet"
+			? isSameAddress(tokenInAddress, gasToken)
+			: isNativeToken(tokenInAddress, fibrousRouter.NATIVE_TOKEN_ADDRESS);
+
+	// Native EVM ETH has no allowance; Starknet fee tokens are ERC20s and still need one
+	const readOptions = { rpcUrl: chainConfig.rpcUrl, routerAddress };
+	const readTokenIn = chainName === "starknet" || !payingGasToken;
+	const [tokenState, gasState] = await Promise.all([
+		readTokenIn ? getTokenBalance(owner, chainName, tokenInAddress, readOptions) : undefined,
+		getTokenBalance(owner, chainName, gasToken, { rpcUrl: chainConfig.rpcUrl }),
+	]);
+
+	// A fallback estimate is a rough guess and must not block the swap on its own
+	const fallbackEstimate = gasEstimate.source === "fallback";
+	const gasCost = fallbackEstimate ? 0n : BigInt(gasEstimate.estimatedCost);
+
+	const tokenBalance = tokenState?.balance ?? gasState.balance;
+	const tokenCheck: BalanceCheck = {
+		token: tokenInAddress,
+		required: amount.toString(),
+		available: tokenBalance.toString(),
+		sufficient: tokenBalance >= amount,
+	};
+
+	// Swapping the gas token itself needs the amount and the fee from one balance
+	const gasRequired = payingGasToken ? amount + gasCost : gasCost;
+	const gasCheck = {
+		token: gasToken,
+		required: gasRequired.toString(),
+		available: gasState.balance.toString(),
+		sufficient: gasState.balance >= gasRequired,
+		estimatedCost: gasEstimate.estimatedCost,
+		fallbackEstimate,
+	};
+
+	const allowance =
+		tokenState?.allowance !== undefined && routerAddress
+			? {
+					spender: routerAddress,
+					current: tokenState.allowance.toString(),
+					sufficient: tokenState.allowance >= amount,
+				}
+			: undefined;
+
+	const errors: string[] = [];
+	if (!tokenCheck.sufficient) {
+		errors.push(
+			`Insufficient token balance: need ${tokenCheck.required}, have ${tokenCheck.available}`
+		);
+	}
+	// The gas token shortfall is already reported when it is also the input token
+	if (!gasCheck.sufficient && !(payingGasToken && !tokenCheck.sufficient)) {
+		errors.push(
+			`Insufficient native balance for gas: need ${gasCheck.required}, have ${gasCheck.available}`
+		);
+	}
+
+	return {
+		passed: errors.length === 0,
+		tokenBalance: tokenCheck,
+		gasBalance: gasCheck,
+		allowance,
+		approvalRequired: allowance?.sufficient === false,
+		errors,
+	};
+}
+
 // --- Starknet Swap Execution ---
 
 async function executeStarknetSwap(
@@ -133,11 +436,13 @@ async function executeStarknetSwap(
 	receiverAddress: string,
 	chainConfig: ChainConfig,
 	fibrousRouter: FibrousRouter,
-	options?: { direct?: boolean; excludeProtocols?: string[] }
+	options?: { direct?: boolean; excludeProtocols?: string[] },
+	minOutput?: string,
+	dryRun = false
 ): Promise<SwapResult> {
 	try {
 		if (!chainConfig.publicKey) {
-			throw new Error("Starknet public key is required");
+			throw new ToolError("CONFIG_INVALID", "Starknet public key is required");
 		}
 
 		// Create Starknet account
@@ -148,12 +453,14 @@ async function executeStarknetSwap(
 			chainConfig.privateKey
 		);
 
-		// Build approve call
-		const approveCall: Call = await fibrousRouter.buildApproveStarknet(amount, tokenInAddress);
-
-		// Resolve chainId
+		// Resolve chainId and router
 		const supportedChains = fibrousRouter.supportedChains;
-		const chainId = supportedChains.find((c) => c.chain_name === "starknet")?.chain_id;
+		const chainData = supportedChains.find((c) => c.chain_name === "starknet");
+		const chainId = chainData?.chain_id;
+		const routerAddress = chainData?.router_address;
+		if (!routerAddress) {
+			throw new ToolError("UNSUPPORTED_CHAIN", "Starknet router address not found");
+		}
 
 		const params: buildRouteAndCalldataParams = {
 			inputAmount: amount,
@@ -162,37 +469,88 @@ async function executeStarknetSwap(
 			slippage,
 			destination: receiverAddress,
 			chainId: chainId!,
-			options: options
-				? { ...options, excludeProtocols: options.excludeProtocols as any }
-				: undefined,
+			options: toRouteOptions(options),
 		};
 
-		// Build swap call using V2 API
-		const { calldata } = await fibrousRouter.buildRouteAndCalldata(params);
+		// On Starknet the router returns the swap call itself
+		const { route, calldata } = (await fibrousRouter.buildRouteAndCalldata(
+			params
+		)) as StarknetRouteAndCalldata;
+		assertMinOutput(route, slippage, minOutput);
 
-		const routerAddress = supportedChains.find(
-			(c) => c.chain_name === "starknet"
-		)?.router_address;
-		if (!routerAddress) throw new Error("Starknet router address not found");
+		// Bundle an approve call only when the router allowance is too low
+		const { allowance = 0n } = await getTokenBalance(
+			chainConfig.publicKey,
+			"starknet",
+			tokenInAddress,
+			{ rpcUrl: chainConfig.rpcUrl, routerAddress }
+		);
+		const approvalRequired = allowance < amount;
+		const calls: Call[] = [];
+		if (approvalRequired) {
+			const approvalAmount = getApprovalAmount(
+				amount,
+				getServerConfig().approvalPolicy,
+				route?.inputToken
+			);
+			calls.push(await fibrousRouter.buildApproveStarknet(approvalAmount, tokenInAddress));
+		}
 
-		const swapCall: Call = {
+		calls.push({
 			contractAddress: routerAddress,
-			entrypoint: "swap",
-			calldata: calldata as any,
-		};
+			entrypoint: calldata.entrypoint,
+			calldata: calldata.calldata,
+		});
+
+		if (dryRun) {
+			return simulateStarknetSwap(account, calls, approvalRequired, route?.outputAmount);
+		}
 
 		// Execute transaction
-		const result = await account.execute([approveCall, swapCall]);
+		const result = await account.execute(calls);
+		const explorerUrl = `https://starkscan.co/tx/${result.transaction_hash}`;
+
+		// Wait for the receipt to read the delivered output
+		const receipt = await waitForStarknetReceipt(
+			provider,
+			result.transaction_hash,
+			getServerConfig().transactionTimeout
+		);
+		if ("execution_status" in receipt && receipt.execution_status === "REVERTED") {
+			return {
+				success: false,
+				transactionHash: result.transaction_hash,
+				explorerUrl,
+				error:
+					("revert_reason" in receipt && receipt.revert_reason) ||
+					"Starknet swap reverted",
+				errorCode: "TRANSACTION_REVERTED",
+			};
+		}
 
 		return {
 			success: true,
 			transactionHash: result.transaction_hash,
-			explorerUrl: `https://starkscan.co/tx/${result.transaction_hash}`,
+			explorerUrl,
+			...getSwapOutput(
+				decodeStarknetOutputAmount(
+					"events" in receipt ? receipt.events : [],
+					tokenOutAddress,
+					receiverAddress
+				),
+				route
+			),
 		};
 	} catch (error) {
+		const pendingHash = getPendingSwapHash(error);
 		return {
 			success: false,
+			...(pendingHash && {
+				transactionHash: pendingHash,
+				explorerUrl: `https://starkscan.co/tx/${pendingHash}`,
+			}),
 			error: error instanceof Error ? error.message : "Starknet swap failed",
+			errorCode: classifyError(error).code,
 		};
 	}
 }
@@ -208,7 +566,9 @@ async function executeEvmSwap(
 	chainName: SupportedChain,
 	chainConfig: ChainConfig,
 	fibrousRouter: FibrousRouter,
-	options?: { direct?: boolean; excludeProtocols?: string[] }
+	options?: { direct?: boolean; excludeProtocols?: string[] },
+	minOutput?: string,
+	dryRun = false
 ): Promise<SwapResult> {
 	try {
 		const chain = getViemChain(chainName);
@@ -229,20 +589,14 @@ async function executeEvmSwap(
 		const supportedChains = fibrousRouter.supportedChains;
 		const chainData = supportedChains.find((c) => c.chain_name === chainName);
 		if (!chainData?.router_address) {
-			throw new Error("Router address not found");
+			throw new ToolError("UNSUPPORTED_CHAIN", "Router address not found");
 		}
 		const routerAddress = chainData.router_address as Hex;
 		const chainId = chainData.chain_id;
 
-		// Handle Approval
-		await approveTokenIfNeeded(
-			publicClient,
-			walletClient,
-			tokenInAddress as Hex,
-			routerAddress,
-			amount,
-			account.address
-		);
+		// Native ETH input is sent as transaction value and needs no approval
+		const nativeIn = isNativeToken(tokenInAddress, fibrousRouter.NATIVE_TOKEN_ADDRESS);
+		const value = nativeIn ? amount : undefined;
 
 		const params: buildRouteAndCalldataParams = {
 			inputAmount: amount,
@@ -251,107 +605,412 @@ async function executeEvmSwap(
 			slippage,
 			destination: receiverAddress,
 			chainId: chainId!,
-			options: options
-				? { ...options, excludeProtocols: options.excludeProtocols as any }
-				: undefined,
+			options: toRouteOptions(options),
 		};
 
-		// Build swap transaction
-		const { calldata } = await fibrousRouter.buildRouteAndCalldata(params);
+		// On EVM chains the router returns the swap() arguments
+		const { route, calldata } = (await fibrousRouter.buildRouteAndCalldata(
+			params
+		)) as EvmRouteAndCalldata;
+		assertMinOutput(route, slippage, minOutput);
+		const data = encodeEvmSwap(calldata);
 
-		// Get gas price with multiplier from server config
+		// Type 2 fees from the configured strategy (legacy gas price where unsupported)
 		const serverConfig = getServerConfig();
-		const gasPrice = await publicClient.getGasPrice();
+		const fees = await getEvmFees(
+			publicClient,
+			serverConfig.feeStrategy,
+			serverConfig.gasPriceMultiplier
+		);
 
-		// Calculate gas price with multiplier using bigint
-		const multiplierBI = BigInt(Math.round(serverConfig.gasPriceMultiplier * 100));
-		const finalGasPrice = (gasPrice * multiplierBI) / 100n;
+		// Handle Approval (a dry run only checks whether one is needed)
+		const approvalAmount = getApprovalAmount(
+			amount,
+			serverConfig.approvalPolicy,
+			route?.inputToken
+		);
+		const replacements: TransactionReplacement[] = [];
+		if (!dryRun && !nativeIn) {
+			const approvalReplacement = await approveTokenIfNeeded(
+				publicClient,
+				walletClient,
+				tokenInAddress as Hex,
+				routerAddress,
+				amount,
+				approvalAmount,
+				account.address,
+				fees
+			);
+			if (approvalReplacement) {
+				replacements.push(approvalReplacement);
+			}
+		}
+
+		if (dryRun) {
+			return simulateEvmSwap(
+				publicClient,
+				account.address,
+				tokenInAddress as Hex,
+				routerAddress,
+				amount,
+				approvalAmount,
+				data,
+				nativeIn,
+				route?.outputAmount
+			);
+		}
 
 		// Execute swap
 		const hash = await walletClient.sendTransaction({
 			to: routerAddress,
-			data: calldata as any as Hex,
-			gasPrice: finalGasPrice,
-			// value: ... (if native) - TODO: Handle native token wrapping if needed, assume mapped handling by router-sdk
+			data,
+			value,
+			...fees,
 		});
 
-		// Wait for confirmation
-		const receipt = await publicClient.waitForTransactionReceipt({ hash });
+		// Wait for confirmation, replacing the swap if it is stuck
+		const { receipt, replacement } = await waitForEvmReceipt(publicClient, walletClient, hash, {
+			stage: "swap",
+			timeoutSeconds: serverConfig.transactionTimeout,
+			policy: serverConfig.stuckTransactionPolicy,
+		});
+		if (replacement) {
+			replacements.push(replacement);
+		}
 
-		const explorerUrl = getEvmExplorerUrl(hash, chainName as SupportedChain);
+		const minedHash = replacement?.outcome === "replaced" ? replacement.replacementHash : hash;
+		const explorerUrl = getEvmExplorerUrl(minedHash, chainName as SupportedChain);
+		const replacementInfo = replacements.length > 0 ? { replacements } : {};
+
+		if (replacement?.action === "cancel" && replacement.outcome === "replaced") {
+			return {
+				success: false,
+				transactionHash: minedHash,
+				explorerUrl,
+				error: `Swap transaction ${hash} was not mined in time and has been cancelled`,
+				errorCode: "TRANSACTION_TIMEOUT",
+				...replacementInfo,
+			};
+		}
+
+		if (receipt.status === "reverted") {
+			return {
+				success: false,
+				transactionHash: minedHash,
+				explorerUrl,
+				gasUsed: receipt.gasUsed.toString(),
+				error: "Swap transaction reverted",
+				errorCode: "TRANSACTION_REVERTED",
+				...replacementInfo,
+			};
+		}
 
 		return {
 			success: true,
-			transactionHash: hash,
+			transactionHash: minedHash,
 			explorerUrl,
 			gasUsed: receipt.gasUsed.toString(),
+			...replacementInfo,
+			...getSwapOutput(
+				decodeEvmOutputAmount(
+					receipt.logs ?? [],
+					tokenOutAddress,
+					receiverAddress,
+					routerAddress
+				),
+				route
+			),
 		};
 	} catch (error) {
 		const errorMessage = error instanceof Error ? error.message : "EVM swap failed";
 		console.error(`EVM Swap Error: ${errorMessage}`);
+		const pendingHash = getPendingSwapHash(error);
 		return {
 			success: false,
+			...(pendingHash && {
+				transactionHash: pendingHash,
+				explorerUrl: getEvmExplorerUrl(pendingHash, chainName),
+			}),
 			error: errorMessage,
+			errorCode: classifyError(error).code,
 		};
 	}
 }
 
-// --- Helper Functions ---
+/**
+ * Hash of a swap that was sent but not confirmed in time, so the caller can keep checking it
+ */
+function getPendingSwapHash(error: unknown): string | undefined {
+	if (!(error instanceof ToolError) || error.code !== "TRANSACTION_TIMEOUT") return undefined;
+
+	// A stuck approval means the swap itself was never sent
+	const { stage, transactionHash } = error.details ?? {};
+	return stage !== "approval" && typeof transactionHash === "string"
+		? transactionHash
+		: undefined;
+}
 
-async function getWalletAddress(
-	chainConfig: ChainConfig,
-	chainName: SupportedChain
-): Promise<string> {
-	if (chainName === "starknet") {
-		if (!chainConfig.publicKey) {
-			throw new Error("Starknet public key is required");
+/**
+ * Refuse a route whose slippage-adjusted output is below the minimum the caller agreed to
+ */
+function assertMinOutput(route: RouteSuccess | undefined, slippage: number, minOutput?: string) {
+	if (minOutput === undefined || !route) return;
+
+	const routeMinOutput = getMinOutput(route.outputAmount, slippage);
+	if (BigInt(routeMinOutput) < BigInt(minOutput)) {
+		throw new ToolError(
+			"SLIPPAGE_EXCEEDED",
+			`Route minimum output ${routeMinOutput} is below the quoted minimum ${minOutput}`,
+			{ details: { minOutput, routeMinOutput } }
+		);
+	}
+}
+
+// --- Dry-run Simulation ---
+
+/**
+ * Simulate the approve + swap call set on Starknet without broadcasting
+ */
+async function simulateStarknetSwap(
+	account: StarknetAccount,
+	calls: Call[],
+	approvalRequired: boolean,
+	expectedOutputAmount?: string
+): Promise<SwapResult> {
+	try {
+		const [simulation] = await account.simulateTransaction([
+			{ type: TransactionType.INVOKE, payload: calls },
+		]);
+
+		// Invoke traces hold the revert reason on execute_invocation
+		const { execute_invocation: invocation } = simulation.transaction_trace as {
+			execute_invocation?: { revert_reason?: string };
+		};
+		const revertReason = invocation?.revert_reason;
+
+		return {
+			success: !revertReason,
+			simulated: true,
+			approvalRequired,
+			expectedOutputAmount,
+			gasEstimate: simulation.fee_estimation?.gas_consumed?.toString(),
+			revertReason,
+			error: revertReason,
+			errorCode: revertReason ? getRevertCode(revertReason) : undefined,
+		};
+	} catch (error) {
+		const revertReason = getRevertReason(error, "Starknet simulation failed");
+		return {
+			success: false,
+			simulated: true,
+			approvalRequired,
+			expectedOutputAmount,
+			revertReason,
+			error: revertReason,
+			errorCode: getRevertCode(error),
+		};
+	}
+}
+
+/**
+ * Simulate the approve + swap call set on an EVM chain without broadcasting.
+ * When an approval is still required the calls are simulated in sequence so
+ * the swap observes the new allowance; otherwise a plain eth_call is used.
+ */
+async function simulateEvmSwap(
+	publicClient: PublicClient,
+	owner: Hex,
+	tokenAddress: Hex,
+	routerAddress: Hex,
+	amount: bigint,
+	approvalAmount: bigint,
+	data: Hex,
+	nativeIn: boolean,
+	expectedOutputAmount?: string
+): Promise<SwapResult> {
+	const approvalRequired =
+		!nativeIn &&
+		(await needsApproval(publicClient, tokenAddress, routerAddress, amount, owner));
+	const swapCall = { to: routerAddress, data, value: nativeIn ? amount : undefined };
+
+	try {
+		let gasEstimate: bigint;
+
+		if (approvalRequired) {
+			gasEstimate = await simulateApproveAndSwap(
+				publicClient,
+				owner,
+				tokenAddress,
+				routerAddress,
+				approvalAmount,
+				swapCall
+			);
+		} else {
+			await publicClient.call({ account: owner, ...swapCall });
+			gasEstimate = await publicClient.estimateGas({ account: owner, ...swapCall });
 		}
-		return chainConfig.publicKey;
-	} else {
-		// Derive address from private key for EVM chains
-		const account = privateKeyToAccount(chainConfig.privateKey as Hex);
-		return account.address;
+
+		return {
+			success: true,
+			simulated: true,
+			approvalRequired,
+			expectedOutputAmount,
+			gasEstimate: gasEstimate.toString(),
+		};
+	} catch (error) {
+		const revertReason = getRevertReason(error, "EVM simulation reverted");
+		return {
+			success: false,
+			simulated: true,
+			approvalRequired,
+			expectedOutputAmount,
+			revertReason,
+			error: revertReason,
+			errorCode: getRevertCode(error),
+		};
+	}
+}
+
+/**
+ * Simulate the approval and the swap in one bundle, as the swap alone reverts
+ * without an allowance
+ *
+ * @returns The gas used by both calls
+ */
+async function simulateApproveAndSwap(
+	publicClient: PublicClient,
+	owner: Hex,
+	tokenAddress: Hex,
+	routerAddress: Hex,
+	approvalAmount: bigint,
+	swapCall: { to: Hex; data: Hex; value?: bigint }
+): Promise<bigint> {
+	const approveCall = {
+		to: tokenAddress,
+		data: encodeFunctionData({
+			abi: erc20Abi,
+			functionName: "approve",
+			args: [routerAddress, approvalAmount],
+		}),
+	};
+
+	const { results } = await publicClient.simulateCalls({
+		account: owner,
+		calls: [approveCall, swapCall],
+	});
+
+	const failed = results.find((result) => result.status === "failure");
+	if (failed) {
+		throw failed.error ?? new ToolError("TRANSACTION_REVERTED", "Simulated call reverted");
+	}
+
+	return results.reduce((total, result) => total + result.gasUsed, 0n);
+}
+
+// A simulation failure that matches no specific code is a plain revert
+function getRevertCode(error: unknown): ErrorCode {
+	const { code } = classifyError(error);
+	return code === "UNKNOWN_ERROR" ? "TRANSACTION_REVERTED" : code;
+}
+
+function getRevertReason(error: unknown, fallback: string): string {
+	if (error instanceof Error) {
+		// viem errors carry a concise reason in shortMessage
+		return (error as Error & { shortMessage?: string }).shortMessage || error.message;
+	}
+	return fallback;
+}
+
+// --- Helper Functions ---
+
+/**
+ * Report the delivered output against the route's quote. The swap has already
+ * landed, so an undecodable receipt only drops these fields.
+ */
+function getSwapOutput(
+	outputAmount: bigint | undefined,
+	route?: RouteSuccess
+): Partial<RealisedOutput> {
+	if (outputAmount === undefined) {
+		console.error("[WARN] Could not decode the swap output from the receipt");
+		return {};
 	}
+	if (!route?.outputAmount) {
+		return { outputAmount: outputAmount.toString() };
+	}
+	return getRealisedOutput(outputAmount, route);
 }
 
 function getEvmExplorerUrl(txHash: string, chainName: SupportedChain): string {
 	return `${EXPLORER_URLS[chainName]}/${txHash}`;
 }
 
-async function approveTokenIfNeeded(
-	publicClient: any,
-	walletClient: any,
+async function needsApproval(
+	publicClient: PublicClient,
 	tokenAddress: Hex,
 	spender: Hex,
 	amount: bigint,
 	owner: Hex
-) {
-	// 0x0...0 is native token in some contexts, but usually handled by router-sdk.
-	// If tokenAddress is native token address, we skip approval.
-	// Fibrous SDK usually uses specific address for native.
-	if (tokenAddress === "0x0000000000000000000000000000000000000000") {
-		return;
+): Promise<boolean> {
+	// Native ETH is never approved
+	if (isNativeToken(tokenAddress)) {
+		return false;
 	}
 
-	const allowance = (await publicClient.readContract({
+	const allowance = await publicClient.readContract({
 		address: tokenAddress,
 		abi: erc20Abi,
 		functionName: "allowance",
 		args: [owner, spender],
-	})) as bigint;
+	});
 
-	if (allowance >= amount) {
-		return;
+	return allowance < amount;
+}
+
+/**
+ * Approve the router when the allowance is too low
+ *
+ * @returns The replacement sent if the approval got stuck
+ * @throws ToolError TRANSACTION_TIMEOUT when the approval was not mined or was cancelled
+ */
+async function approveTokenIfNeeded(
+	publicClient: PublicClient,
+	walletClient: WalletClient<Transport, Chain, Account>,
+	tokenAddress: Hex,
+	spender: Hex,
+	amount: bigint,
+	approvalAmount: bigint,
+	owner: Hex,
+	fees: EvmFeeParams
+): Promise<TransactionReplacement | undefined> {
+	if (!(await needsApproval(publicClient, tokenAddress, spender, amount, owner))) {
+		return undefined;
 	}
 
 	const hash = await walletClient.writeContract({
 		address: tokenAddress,
 		abi: erc20Abi,
 		functionName: "approve",
-		args: [spender, amount],
+		args: [spender, approvalAmount],
+		...fees,
 	});
 
-	await publicClient.waitForTransactionReceipt({ hash });
+	const { transactionTimeout, stuckTransactionPolicy } = getServerConfig();
+	const { replacement } = await waitForEvmReceipt(publicClient, walletClient, hash, {
+		stage: "approval",
+		timeoutSeconds: transactionTimeout,
+		policy: stuckTransactionPolicy,
+	});
+
+	// Without the approval the swap would revert, so it is not sent
+	if (replacement?.action === "cancel" && replacement.outcome === "replaced") {
+		throw new ToolError(
+			"TRANSACTION_TIMEOUT",
+			`Approval transaction ${hash} was not mined in time and has been cancelled; the swap was not sent`,
+			{ details: { replacement } }
+		);
+	}
+	return replacement;
 }
 
 // --- Validation Helpers ---
@@ -393,6 +1052,34 @@ export function validateSwapParams(params: SwapParams): { isValid: boolean; erro
 	};
 }
 
+/**
+ * Fee breakdown fields of a gas estimate
+ */
+function splitFees(
+	l2ExecutionFee: bigint,
+	l1DataFee: bigint
+): Pick<GasEstimate, "l2ExecutionFee" | "l1DataFee" | "totalFee" | "estimatedCost"> {
+	const totalFee = (l2ExecutionFee + l1DataFee).toString();
+	return {
+		l2ExecutionFee: l2ExecutionFee.toString(),
+		l1DataFee: l1DataFee.toString(),
+		totalFee,
+		estimatedCost: totalFee,
+	};
+}
+
+/**
+ * Add the USD cost to a gas estimate when the fee token is priced
+ */
+async function withGasCostUsd(
+	estimate: GasEstimate,
+	chainName: SupportedChain,
+	fibrousRouter: FibrousRouter
+): Promise<GasEstimate> {
+	const costInUSD = await getGasCostUsd(chainName, estimate, fibrousRouter);
+	return costInUSD === undefined ? estimate : { ...estimate, costInUSD };
+}
+
 /**
  * Estimate gas cost for a token swap
  * @param params - Swap parameters
@@ -405,8 +1092,10 @@ export async function estimateSwapGas(
 	chainConfig: ChainConfig,
 	fibrousRouter: FibrousRouter
 ): Promise<GasEstimate> {
-	const { amount, tokenInAddress, tokenOutAddress, slippage = 1, chainName } = params;
+	const { amount, slippage = 1, chainName } = params;
 	const amountBI = toBigInt(amount);
+	const tokenInAddress = resolveNativeAddress(params.tokenInAddress, chainName, fibrousRouter);
+	const tokenOutAddress = resolveNativeAddress(params.tokenOutAddress, chainName, fibrousRouter);
 
 	try {
 		const receiverAddress = await getWalletAddress(chainConfig, chainName);
@@ -425,20 +1114,13 @@ export async function estimateSwapGas(
 			slippage,
 			destination: receiverAddress,
 			chainId: chainId!,
-			options: params.options
-				? {
-						...params.options,
-						excludeProtocols: params.options.excludeProtocols
-							? mapProtocolIds(params.options.excludeProtocols)
-							: undefined,
-					}
-				: undefined,
+			options: toRouteOptions(params.options),
 		};
 
 		if (chainName === "starknet") {
 			// Starknet gas estimation
 			if (!chainConfig.publicKey) {
-				throw new Error("Starknet public key is required");
+				throw new ToolError("CONFIG_INVALID", "Starknet public key is required");
 			}
 
 			const provider = new RpcProvider({ nodeUrl: chainConfig.rpcUrl });
@@ -448,39 +1130,66 @@ export async function estimateSwapGas(
 				chainConfig.privateKey
 			);
 
-			const approveCallRaw = await fibrousRouter.buildApproveStarknet(
-				amountBI,
-				tokenInAddress
-			);
-			// Normalize generic call object to Starknet Call type (handling SDK versions)
-			const approveCall: Call = {
-				contractAddress: approveCallRaw.contractAddress,
-				entrypoint: approveCallRaw.entrypoint,
-				calldata: approveCallRaw.calldata,
-			};
-
-			const { calldata } = await fibrousRouter.buildRouteAndCalldata(buildParams);
+			const { route, calldata } = (await fibrousRouter.buildRouteAndCalldata(
+				buildParams
+			)) as StarknetRouteAndCalldata;
 			const routerAddress = supportedChains.find(
 				(c) => c.chain_name === "starknet"
 			)?.router_address;
 
-			const swapCall: Call = {
+			// Include the approve call only when the swap itself would send one
+			const { allowance = 0n } = await getTokenBalance(
+				chainConfig.publicKey,
+				"starknet",
+				tokenInAddress,
+				{ rpcUrl: chainConfig.rpcUrl, routerAddress }
+			);
+			const calls: Call[] = [];
+			if (allowance < amountBI) {
+				const approveCallRaw = await fibrousRouter.buildApproveStarknet(
+					getApprovalAmount(
+						amountBI,
+						getServerConfig().approvalPolicy,
+						route?.inputToken
+					),
+					tokenInAddress
+				);
+				// Normalize generic call object to Starknet Call type (handling SDK versions)
+				calls.push({
+					contractAddress: approveCallRaw.contractAddress,
+					entrypoint: approveCallRaw.entrypoint,
+					calldata: approveCallRaw.calldata,
+				});
+			}
+
+			calls.push({
 				contractAddress: routerAddress!,
-				entrypoint: "swap",
-				calldata: calldata as any,
-			};
+				entrypoint: calldata.entrypoint,
+				calldata: calldata.calldata,
+			});
+
+			const estimate = await account.estimateFee(calls);
 
-			const estimate = await account.estimateFee([approveCall, swapCall]);
+			// The overall fee already includes the data availability (blob) gas
+			const totalFee = BigInt(estimate.overall_fee ?? 0);
+			const l1DataFee =
+				BigInt(estimate.data_gas_consumed ?? 0) * BigInt(estimate.data_gas_price ?? 0);
 
 			console.error(
-				`[INFO] Starknet gas estimate - Consumed: ${estimate.gas_consumed}, Fee: ${estimate.overall_fee}`
+				`[INFO] Starknet gas estimate - Consumed: ${estimate.gas_consumed}, Data fee: ${l1DataFee}, Fee: ${totalFee}`
 			);
 
-			return {
-				gasEstimate: estimate.gas_consumed?.toString() ?? "0",
-				gasPrice: estimate.gas_price?.toString() ?? "0",
-				estimatedCost: estimate.overall_fee?.toString() ?? "0",
-			};
+			return withGasCostUsd(
+				{
+					gasEstimate: estimate.gas_consumed?.toString() ?? "0",
+					gasPrice: estimate.gas_price?.toString() ?? "0",
+					...splitFees(totalFee - l1DataFee, l1DataFee),
+					feeToken: estimate.unit === "FRI" ? "STRK" : "ETH",
+					source: "rpc",
+				},
+				chainName,
+				fibrousRouter
+			);
 		} else {
 			// EVM gas estimation
 			const chain = getViemChain(chainName);
@@ -490,44 +1199,99 @@ export async function estimateSwapGas(
 			});
 			const account = privateKeyToAccount(chainConfig.privateKey as Hex);
 
-			const { calldata } = await fibrousRouter.buildRouteAndCalldata(buildParams);
+			const { route, calldata } = (await fibrousRouter.buildRouteAndCalldata(
+				buildParams
+			)) as EvmRouteAndCalldata;
 			const routerAddress = chainData?.router_address as Hex;
 
-			// Estimate gas
-			const gasEstimateBI = await publicClient.estimateGas({
-				account,
+			// Estimate gas (native ETH input travels as transaction value)
+			const nativeIn = isNativeToken(tokenInAddress, fibrousRouter.NATIVE_TOKEN_ADDRESS);
+			const transaction = {
+				account: account.address,
 				to: routerAddress,
-				data: calldata as any as Hex,
-			});
-
-			const gasPrice = await publicClient.getGasPrice();
+				data: encodeEvmSwap(calldata),
+				value: nativeIn ? amountBI : undefined,
+			};
 			const serverConfig = getServerConfig();
 
-			const multiplier = BigInt(Math.round(serverConfig.gasPriceMultiplier * 100));
-			const finalGasPrice = (gasPrice * multiplier) / 100n;
-			const estimatedCost = gasEstimateBI * finalGasPrice;
+			// Before the first approval the swap alone reverts, so estimate it with the approval
+			const approvalRequired =
+				!nativeIn &&
+				(await needsApproval(
+					publicClient,
+					tokenInAddress as Hex,
+					routerAddress,
+					amountBI,
+					account.address
+				));
+			const [gasEstimateBI, fees, l1DataFee] = await Promise.all([
+				approvalRequired
+					? simulateApproveAndSwap(
+							publicClient,
+							account.address,
+							tokenInAddress as Hex,
+							routerAddress,
+							getApprovalAmount(
+								amountBI,
+								serverConfig.approvalPolicy,
+								route?.inputToken
+							),
+							transaction
+						)
+					: publicClient.estimateGas({ ...transaction, account }),
+				getEvmFees(publicClient, serverConfig.feeStrategy, serverConfig.gasPriceMultiplier),
+				estimateL1DataFee(publicClient, chainName, transaction),
+			]);
+
+			const maxGasPrice = getMaxGasPrice(fees);
+			const l2ExecutionFee = gasEstimateBI * maxGasPrice;
 
 			console.error(
-				`[INFO] EVM gas estimate - Gas: ${gasEstimateBI}, Price: ${finalGasPrice}, Cost: ${estimatedCost}`
+				`[INFO] EVM gas estimate - Gas: ${gasEstimateBI}, Price: ${maxGasPrice}, L2 fee: ${l2ExecutionFee}, L1 fee: ${l1DataFee ?? 0n}`
 			);
 
-			return {
-				gasEstimate: gasEstimateBI.toString(),
-				gasPrice: finalGasPrice.toString(),
-				estimatedCost: estimatedCost.toString(),
-			};
+			return withGasCostUsd(
+				{
+					gasEstimate: gasEstimateBI.toString(),
+					gasPrice: maxGasPrice.toString(),
+					...splitFees(l2ExecutionFee, l1DataFee ?? 0n),
+					feeToken: "ETH",
+					source: "rpc",
+					...("maxFeePerGas" in fees && {
+						maxFee: fees.maxFeePerGas.toString(),
+						priorityFee: fees.maxPriorityFeePerGas.toString(),
+					}),
+				},
+				chainName,
+				fibrousRouter
+			);
 		}
 	} catch (error) {
-		console.error(`[WARN] Gas estimation failed for ${chainName}:`, error);
+		const reason = getRevertReason(error, "Unknown error");
+		if (getServerConfig().strictGasEstimates) {
+			throw new ToolError(
+				"GAS_ESTIMATION_FAILED",
+				`Gas estimation failed on ${chainName}: ${reason}`,
+				{ details: { chainName, reason }, cause: error }
+			);
+		}
+		console.error(
+			`[WARN] Gas estimation failed for ${chainName}, using fallback values:`,
+			error
+		);
 
-		// Return fallback estimates
+		// Rough constants, flagged so callers do not mistake them for an estimate
 		const fallback = chainName === "starknet" ? GAS_FALLBACKS.STARKNET : GAS_FALLBACKS.EVM;
 		const fallbackCostBI = BigInt(fallback.GAS_ESTIMATE) * BigInt(fallback.GAS_PRICE);
 
 		return {
 			gasEstimate: fallback.GAS_ESTIMATE,
 			gasPrice: fallback.GAS_PRICE,
-			estimatedCost: fallbackCostBI.toString(),
+			...splitFees(fallbackCostBI, 0n),
+			// Swaps are sent with the account's default transaction version, which pays in ETH
+			feeToken: "ETH",
+			source: "fallback",
+			fallbackReason: reason,
 		};
 	}
 }
@@ -0,0 +1,286 @@
+import type { Router as FibrousRouter, Token } from "fibrous-router-sdk";
+import type { SupportedChain } from "./validation.js";
+import { convertAmount } from "./amounts.js";
+import { DEFAULTS, NATIVE_TOKEN } from "./constants.js";
+import { ToolError } from "./errors.js";
+
+/**
+ * Amount input accepted by route and swap tools
+ */
+export interface AmountInput {
+	amount?: string; // Legacy alias for amountWei
+	amountWei?: string;
+	amountHuman?: string;
+}
+
+/**
+ * Amount resolved into both representations
+ */
+export interface ResolvedAmount {
+	wei: string;
+	human?: string;
+	decimals?: number;
+}
+
+/**
+ * Token candidate reported when a symbol cannot be resolved
+ */
+export interface TokenCandidate {
+	symbol: string;
+	name: string;
+	address: string;
+}
+
+/**
+ * Error thrown when a token symbol is unknown or matches several tokens
+ */
+export class TokenResolutionError extends ToolError {
+	constructor(
+		public readonly symbol: string,
+		public readonly chainName: SupportedChain,
+		public readonly reason: "unknown" | "ambiguous",
+		public readonly candidates: TokenCandidate[]
+	) {
+		super(
+			reason === "ambiguous" ? "INVALID_PARAMS" : "TOKEN_NOT_FOUND",
+			reason === "ambiguous"
+				? `Token symbol "${symbol}" is ambiguous on ${chainName}: ${candidates.map((c) => `${c.symbol} (${c.address})`).join(", ")}`
+				: `Unknown token symbol "${symbol}" on ${chainName}` +
+						(candidates.length > 0
+							? `. Did you mean: ${candidates.map((c) => c.symbol).join(", ")}?`
+							: ""),
+			{ details: { symbol, chainName, reason, candidates } }
+		);
+		this.name = "TokenResolutionError";
+	}
+}
+
+const MAX_SYMBOL_CANDIDATES = 10;
+
+/**
+ * Compare two token addresses, ignoring case and leading zero padding
+ *
+ * @param a - First address
+ * @param b - Second address
+ * @returns boolean indicating if both addresses point to the same token
+ *
+ * @example
+ * ```typescript
+ * isSameAddress("0x049d36...", "0x49D36...") // true
+ * ```
+ */
+export function isSameAddress(a: string, b: string): boolean {
+	try {
+		return BigInt(a) === BigInt(b);
+	} catch {
+		return a.toLowerCase() === b.toLowerCase();
+	}
+}
+
+/**
+ * Check whether an address is the native gas token sentinel on EVM chains
+ * @param address - Token address to check
+ * @param routerSentinel - Native token address used by the Fibrous router
+ */
+export function isNativeToken(address: string, routerSentinel?: string): boolean {
+	const normalized = address.toLowerCase();
+	return (
+		(NATIVE_TOKEN.EVM_ALIASES as readonly string[]).includes(normalized) ||
+		routerSentinel?.toLowerCase() === normalized
+	);
+}
+
+/**
+ * Check whether a token reference is an address rather than a symbol
+ */
+export function isTokenAddress(value: string): boolean {
+	return /^0x[a-fA-F0-9]+$/.test(value);
+}
+
+/**
+ * Match a configured token reference (symbol or address) against a token
+ */
+export function matchesToken(
+	reference: string,
+	token: { address: string; symbol?: string }
+): boolean {
+	return isTokenAddress(reference)
+		? isSameAddress(reference, token.address)
+		: reference.toUpperCase() === token.symbol?.toUpperCase();
+}
+
+function toCandidate(token: Token): TokenCandidate {
+	return { symbol: token.symbol, name: token.name, address: token.address };
+}
+
+function resolveSymbol(symbol: string, tokens: Token[], chainName: SupportedChain): string {
+	const needle = symbol.toLowerCase();
+
+	// Distinct addresses whose symbol matches exactly
+	const matches = tokens
+		.filter((token) => token.symbol?.toLowerCase() === needle)
+		.filter(
+			(token, index, all) =>
+				all.findIndex((other) => isSameAddress(other.address, token.address)) === index
+		);
+
+	if (matches.length === 1) {
+		return matches[0].address;
+	}
+
+	if (matches.length > 1) {
+		throw new TokenResolutionError(symbol, chainName, "ambiguous", matches.map(toCandidate));
+	}
+
+	const similar = tokens
+		.filter((token) => token.symbol?.toLowerCase().includes(needle))
+		.slice(0, MAX_SYMBOL_CANDIDATES)
+		.map(toCandidate);
+	throw new TokenResolutionError(symbol, chainName, "unknown", similar);
+}
+
+/**
+ * Resolve token references that may be symbols (e.g. "USDC") into addresses
+ *
+ * @param references - Token addresses or symbols
+ * @param chainName - Chain to resolve symbols on
+ * @param fibrousRouter - Fibrous router instance
+ * @returns Token addresses in the same order; addresses are passed through unchanged
+ * @throws TokenResolutionError if a symbol is unknown or ambiguous
+ *
+ * @example
+ * ```typescript
+ * await resolveTokenAddresses(["ETH", "0x8335..."], "base", router)
+ * // ["0x0000000000000000000000000000000000000000", "0x8335..."]
+ * ```
+ */
+export async function resolveTokenAddresses(
+	references: string[],
+	chainName: SupportedChain,
+	fibrousRouter: FibrousRouter
+): Promise<string[]> {
+	if (references.every(isTokenAddress)) {
+		return references;
+	}
+
+	const supportedTokens = await fibrousRouter.supportedTokens(chainName);
+	const tokens: Token[] = Array.from(supportedTokens.values());
+
+	return references.map((reference) =>
+		isTokenAddress(reference) ? reference : resolveSymbol(reference, tokens, chainName)
+	);
+}
+
+/**
+ * Resolve the decimals of a token from the Fibrous token data
+ *
+ * @param tokenAddress - Token contract address
+ * @param chainName - Chain the token lives on
+ * @param fibrousRouter - Fibrous router instance
+ * @returns Token decimals
+ * @throws Will throw if the token cannot be found
+ */
+export async function getTokenDecimals(
+	tokenAddress: string,
+	chainName: SupportedChain,
+	fibrousRouter: FibrousRouter
+): Promise<number> {
+	const isEvmNative =
+		chainName !== "starknet" &&
+		(NATIVE_TOKEN.EVM_ALIASES as readonly string[]).includes(tokenAddress.toLowerCase());
+	if (isEvmNative) {
+		return DEFAULTS.DECIMALS;
+	}
+
+	let token: Token | undefined;
+	try {
+		token = await fibrousRouter.getToken(tokenAddress, chainName);
+	} catch {
+		// Fall back to the supported token list below
+	}
+
+	if (!token) {
+		const supportedTokens = await fibrousRouter.supportedTokens(chainName);
+		const tokens: Token[] = Array.from(supportedTokens.values());
+		token = tokens.find((t) => isSameAddress(t.address, tokenAddress));
+	}
+
+	const decimals = token ? Number(token.decimals) : NaN;
+	if (!Number.isInteger(decimals)) {
+		throw new ToolError(
+			"TOKEN_NOT_FOUND",
+			`Unable to resolve decimals for token ${tokenAddress} on ${chainName}`
+		);
+	}
+
+	return decimals;
+}
+
+/**
+ * Resolve an amount given in wei or human-readable form into both representations
+ *
+ * @param input - Amount input (exactly one of amountWei/amount or amountHuman)
+ * @param tokenAddress - Token the amount is denominated in
+ * @param chainName - Chain the token lives on
+ * @param fibrousRouter - Fibrous router instance
+ * @returns Amount in wei, plus the human-readable form when decimals are known
+ * @throws Will throw if no amount, or conflicting amounts, are given
+ *
+ * @example
+ * ```typescript
+ * await resolveAmount({ amountHuman: "1.5" }, usdcAddress, "base", router)
+ * // { wei: "1500000", human: "1.5", decimals: 6 }
+ * ```
+ */
+export async function resolveAmount(
+	input: AmountInput,
+	tokenAddress: string,
+	chainName: SupportedChain,
+	fibrousRouter: FibrousRouter
+): Promise<ResolvedAmount> {
+	const { amount, amountWei, amountHuman } = input;
+
+	if (amount !== undefined && amountWei !== undefined && amount !== amountWei) {
+		throw new ToolError("INVALID_AMOUNT", "Conflicting amounts: amount and amountWei differ");
+	}
+
+	const wei = amountWei ?? amount;
+	if (wei !== undefined && amountHuman !== undefined) {
+		throw new ToolError("INVALID_AMOUNT", "Provide either amountWei or amountHuman, not both");
+	}
+
+	if (amountHuman !== undefined) {
+		const decimals = await getTokenDecimals(tokenAddress, chainName, fibrousRouter);
+
+		// parseUnits rounds extra fractional digits, which would swap a different amount
+		const fraction = amountHuman.trim().split(".")[1] ?? "";
+		if (/[1-9]/.test(fraction.slice(decimals))) {
+			throw new ToolError(
+				"INVALID_AMOUNT",
+				`Amount ${amountHuman} has more than ${decimals} decimal places, the most the token supports`,
+				{ details: { amountHuman, decimals } }
+			);
+		}
+
+		return {
+			wei: convertAmount(amountHuman, decimals, "parse"),
+			human: amountHuman,
+			decimals,
+		};
+	}
+
+	if (wei === undefined) {
+		throw new ToolError(
+			"INVALID_AMOUNT",
+			"An amount is required: provide amountWei or amountHuman"
+		);
+	}
+
+	// The human form is informational for wei input, so a failed lookup is not fatal
+	try {
+		const decimals = await getTokenDecimals(tokenAddress, chainName, fibrousRouter);
+		return { wei, human: convertAmount(wei, decimals, "format"), decimals };
+	} catch {
+		return { wei };
+	}
+}
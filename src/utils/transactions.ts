@@ -0,0 +1,209 @@
+import { createPublicClient, http, type Hex, type PublicClient } from "viem";
+import { RpcProvider } from "starknet";
+import type { SupportedChain } from "./validation.js";
+import type { TokenAmount } from "./balances.js";
+import { formatAmountPretty } from "./amounts.js";
+import { DEFAULTS, EXPLORER_URLS } from "./constants.js";
+import { getViemChain } from "./wallet.js";
+
+export type TransactionState = "pending" | "confirmed" | "reverted" | "not_found";
+
+/**
+ * On-chain status of a transaction
+ */
+export interface TransactionStatus {
+	chainName: SupportedChain;
+	transactionHash: string;
+	status: TransactionState;
+	blockNumber?: string;
+	confirmations?: number;
+	gasUsed?: string; // EVM only; Starknet reports execution resources, not gas
+	effectiveGasPrice?: string; // EVM only, in wei
+	fee?: TokenAmount & { token: "ETH" | "STRK" }; // Total fee paid, including any L1 data fee
+	revertReason?: string;
+	explorerUrl: string;
+}
+
+function getShortMessage(error: unknown): string | undefined {
+	if (!(error instanceof Error)) return undefined;
+	return (error as Error & { shortMessage?: string }).shortMessage || error.message;
+}
+
+function toFee(amount: bigint, token: "ETH" | "STRK"): TransactionStatus["fee"] {
+	return {
+		raw: amount.toString(),
+		formatted: formatAmountPretty(amount.toString(), DEFAULTS.DECIMALS, 8),
+		token,
+	};
+}
+
+// --- EVM ---
+
+async function getEvmTransactionStatus(
+	hash: Hex,
+	chainName: SupportedChain,
+	rpcUrl: string
+): Promise<Omit<TransactionStatus, "chainName" | "transactionHash" | "explorerUrl">> {
+	const publicClient = createPublicClient({
+		chain: getViemChain(chainName),
+		transport: http(rpcUrl),
+	});
+
+	let receipt;
+	try {
+		receipt = await publicClient.getTransactionReceipt({ hash });
+	} catch (error) {
+		if ((error as Error).name !== "TransactionReceiptNotFoundError") throw error;
+
+		// No receipt yet: the transaction is either in the mempool or unknown
+		try {
+			await publicClient.getTransaction({ hash });
+			return { status: "pending" };
+		} catch (lookupError) {
+			if ((lookupError as Error).name === "TransactionNotFoundError") {
+				return { status: "not_found" };
+			}
+			throw lookupError;
+		}
+	}
+
+	const latestBlock = await publicClient.getBlockNumber();
+
+	// OP Stack chains (Base) also charge an L1 data fee, reported on the receipt
+	const l1Fee = (receipt as { l1Fee?: bigint | null }).l1Fee ?? 0n;
+	const fee = receipt.gasUsed * receipt.effectiveGasPrice + l1Fee;
+
+	const result = {
+		blockNumber: receipt.blockNumber.toString(),
+		confirmations: Number(latestBlock - receipt.blockNumber) + 1,
+		gasUsed: receipt.gasUsed.toString(),
+		effectiveGasPrice: receipt.effectiveGasPrice.toString(),
+		fee: toFee(fee, "ETH"),
+	};
+
+	if (receipt.status === "success") {
+		return { status: "confirmed", ...result };
+	}
+
+	return {
+		status: "reverted",
+		...result,
+		revertReason: await getEvmRevertReason(publicClient, hash, receipt.blockNumber),
+	};
+}
+
+/**
+ * Replay a reverted transaction as an eth_call at its block to recover the revert reason
+ */
+async function getEvmRevertReason(
+	publicClient: PublicClient,
+	hash: Hex,
+	blockNumber: bigint
+): Promise<string | undefined> {
+	try {
+		const transaction = await publicClient.getTransaction({ hash });
+		await publicClient.call({
+			account: transaction.from,
+			to: transaction.to,
+			data: transaction.input,
+			value: transaction.value,
+			blockNumber,
+		});
+		// The replay can pass when state has moved on within the block
+		return undefined;
+	} catch (error) {
+		return getShortMessage(error);
+	}
+}
+
+// --- Starknet ---
+
+async function getStarknetTransactionStatus(
+	hash: string,
+	rpcUrl: string
+): Promise<Omit<TransactionStatus, "chainName" | "transactionHash" | "explorerUrl">> {
+	const provider = new RpcProvider({ nodeUrl: rpcUrl });
+
+	let txStatus: { finality_status: string; execution_status?: string; failure_reason?: string };
+	try {
+		txStatus = (await provider.getTransactionStatus(hash)) as typeof txStatus;
+	} catch (error) {
+		if (/not found/i.test(getShortMessage(error) ?? "")) {
+			return { status: "not_found" };
+		}
+		throw error;
+	}
+
+	if (txStatus.finality_status === "RECEIVED") {
+		return { status: "pending" };
+	}
+	if (txStatus.finality_status === "REJECTED") {
+		return { status: "reverted", revertReason: txStatus.failure_reason };
+	}
+
+	const receipt = await provider.getTransactionReceipt(hash);
+	const reverted = txStatus.execution_status === "REVERTED";
+
+	// Receipts in the pending block have no block number yet
+	const blockNumber = "block_number" in receipt ? receipt.block_number : undefined;
+	let blockInfo: Pick<TransactionStatus, "blockNumber" | "confirmations"> = {};
+	if (typeof blockNumber === "number") {
+		const latestBlock = await provider.getBlockNumber();
+		blockInfo = {
+			blockNumber: blockNumber.toString(),
+			confirmations: latestBlock - blockNumber + 1,
+		};
+	}
+
+	// Pre-0.6 RPC nodes report the fee as a bare amount with no unit
+	const actualFee =
+		"actual_fee" in receipt && typeof receipt.actual_fee === "object"
+			? receipt.actual_fee
+			: undefined;
+	return {
+		status: reverted ? "reverted" : "confirmed",
+		...blockInfo,
+		...(actualFee && {
+			fee: toFee(BigInt(actualFee.amount), actualFee.unit === "FRI" ? "STRK" : "ETH"),
+		}),
+		...(reverted && {
+			revertReason:
+				("revert_reason" in receipt && receipt.revert_reason) || txStatus.failure_reason,
+		}),
+	};
+}
+
+// --- Public API ---
+
+/**
+ * Look up a transaction's status, confirmations, fee and revert reason
+ *
+ * @param transactionHash - Transaction hash
+ * @param chainName - Chain the transaction was sent on
+ * @param rpcUrl - RPC endpoint to query
+ * @returns Transaction status; `not_found` when the node has never seen the hash
+ *
+ * @example
+ * ```typescript
+ * const status = await getTransactionStatus("0xabc...", "base", "https://mainnet.base.org")
+ * status.status // "confirmed"
+ * status.fee?.formatted // "0.00000412"
+ * ```
+ */
+export async function getTransactionStatus(
+	transactionHash: string,
+	chainName: SupportedChain,
+	rpcUrl: string
+): Promise<TransactionStatus> {
+	const status =
+		chainName === "starknet"
+			? await getStarknetTransactionStatus(transactionHash, rpcUrl)
+			: await getEvmTransactionStatus(transactionHash as Hex, chainName, rpcUrl);
+
+	return {
+		chainName,
+		transactionHash,
+		...status,
+		explorerUrl: `${EXPLORER_URLS[chainName]}/${transactionHash}`,
+	};
+}
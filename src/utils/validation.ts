@@ -1,4 +1,5 @@
 import { VALIDATION_LIMITS } from "./constants.js";
+import { ToolError } from "./errors.js";
 
 /**
  * Supported blockchain networks
@@ -24,7 +25,8 @@ export type SupportedChain = (typeof SUPPORTED_CHAINS)[number];
  */
 export function validateChain(chainName: string): asserts chainName is SupportedChain {
 	if (!SUPPORTED_CHAINS.includes(chainName as SupportedChain)) {
-		throw new Error(
+		throw new ToolError(
+			"UNSUPPORTED_CHAIN",
 			`Unsupported chain: ${chainName}. Supported chains: ${SUPPORTED_CHAINS.join(", ")}`
 		);
 	}
@@ -170,3 +172,19 @@ export function mapProtocolIds(protocols: string[]): ProtocolId[] {
 
 	return mappedProtocols;
 }
+
+/**
+ * Map a ProtocolId back to its protocol name
+ *
+ * @param protocol - Protocol ID from a route's swaps
+ * @returns Protocol name, or "Protocol <id>" for IDs the SDK does not name
+ *
+ * @example
+ * ```typescript
+ * getProtocolName(5) // "Ekubo"
+ * ```
+ */
+export function getProtocolName(protocol: ProtocolId | number): string {
+	const entry = Object.entries(Protocols).find(([, id]) => id === Number(protocol));
+	return entry ? entry[0] : `Protocol ${protocol}`;
+}
@@ -0,0 +1,47 @@
+import type { Chain, Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { base, scroll } from "viem/chains";
+import type { ChainConfig } from "./config.js";
+import type { SupportedChain } from "./validation.js";
+import { ToolError } from "./errors.js";
+
+/**
+ * Get the viem chain definition for an EVM chain
+ *
+ * @param chainName - EVM chain name
+ * @returns viem chain
+ * @throws ToolError (UNSUPPORTED_CHAIN) for non-EVM chains
+ */
+export function getViemChain(chainName: string): Chain {
+	switch (chainName) {
+		case "base":
+			return base;
+		case "scroll":
+			return scroll;
+		default:
+			throw new ToolError("UNSUPPORTED_CHAIN", `Unsupported EVM chain: ${chainName}`);
+	}
+}
+
+/**
+ * Get the address of the configured wallet on a chain
+ *
+ * @param chainConfig - Chain configuration
+ * @param chainName - Chain name
+ * @returns Starknet account address, or the EVM address derived from the private key
+ */
+export async function getWalletAddress(
+	chainConfig: ChainConfig,
+	chainName: SupportedChain
+): Promise<string> {
+	if (chainName === "starknet") {
+		if (!chainConfig.publicKey) {
+			throw new ToolError("CONFIG_INVALID", "Starknet public key is required");
+		}
+		return chainConfig.publicKey;
+	} else {
+		// Derive address from private key for EVM chains
+		const account = privateKeyToAccount(chainConfig.privateKey as Hex);
+		return account.address;
+	}
+}
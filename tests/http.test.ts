@@ -0,0 +1,294 @@
+import { request } from "node:http";
+import type { AddressInfo } from "node:net";
+
+// Each session gets a real MCP server with a single test tool
+jest.mock("../src/server.js", () => {
+	const { McpServer } = jest.requireActual("@modelcontextprotocol/sdk/server/mcp.js");
+	return {
+		createServer: () => {
+			const server = new McpServer({ name: "test", version: "1.0.0" });
+			server.registerTool("ping", { description: "Ping" }, async () => ({
+				content: [{ type: "text", text: "pong" }],
+			}));
+			return server;
+		},
+	};
+});
+
+jest.mock("../src/utils/index.js", () => ({
+	SERVER_CONSTANTS: { NAME: "fibrous-mcp", VERSION: "1.0.0" },
+}));
+
+import { startHttpServer, type HttpServerHandle } from "../src/http.js";
+
+interface HttpResult {
+	status: number;
+	headers: Record<string, string | string[] | undefined>;
+	body: string;
+}
+
+function send(
+	port: number,
+	method: string,
+	path: string,
+	body?: unknown,
+	headers: Record<string, string> = {}
+): Promise<HttpResult> {
+	return new Promise((resolve, reject) => {
+		const req = request(
+			{
+				host: "127.0.0.1",
+				port,
+				method,
+				path,
+				headers: {
+					"Content-Type": "application/json",
+					Accept: "application/json, text/event-stream",
+					...headers,
+				},
+			},
+			(res) => {
+				let data = "";
+				res.on("data", (chunk) => (data += chunk));
+				res.on("end", () =>
+					resolve({ status: res.statusCode ?? 0, headers: res.headers, body: data })
+				);
+			}
+		);
+		req.on("error", reject);
+		if (body !== undefined) req.write(JSON.stringify(body));
+		req.end();
+	});
+}
+
+const initializeRequest = {
+	jsonrpc: "2.0",
+	id: 1,
+	method: "initialize",
+	params: {
+		protocolVersion: "2025-03-26",
+		capabilities: {},
+		clientInfo: { name: "test-client", version: "1.0.0" },
+	},
+};
+
+describe("HTTP Transport", () => {
+	let handle: HttpServerHandle;
+	let port: number;
+
+	beforeEach(async () => {
+		handle = await startHttpServer({
+			host: "127.0.0.1",
+			port: 0,
+			allowedHosts: ["localhost", "127.0.0.1"],
+			sessionIdleTimeout: 1800,
+		});
+		port = (handle.httpServer.address() as AddressInfo).port;
+	});
+
+	afterEach(async () => {
+		await handle.close();
+	});
+
+	it("should report health with session counts", async () => {
+		const result = await send(port, "GET", "/health");
+
+		expect(result.status).toBe(200);
+		expect(JSON.parse(result.body)).toEqual(
+			expect.objectContaining({
+				status: "ok",
+				name: "fibrous-mcp",
+				sessions: { streamableHttp: 0, sse: 0 },
+			})
+		);
+	});
+
+	it("should start independent sessions on initialize", async () => {
+		const first = await send(port, "POST", "/mcp", initializeRequest);
+		const second = await send(port, "POST", "/mcp", initializeRequest);
+
+		expect(first.status).toBe(200);
+		expect(first.headers["mcp-session-id"]).toBeDefined();
+		expect(second.headers["mcp-session-id"]).toBeDefined();
+		expect(first.headers["mcp-session-id"]).not.toEqual(second.headers["mcp-session-id"]);
+
+		const health = JSON.parse((await send(port, "GET", "/health")).body);
+		expect(health.sessions.streamableHttp).toBe(2);
+	});
+
+	it("should route requests to the session's server", async () => {
+		const init = await send(port, "POST", "/mcp", initializeRequest);
+		const sessionId = init.headers["mcp-session-id"] as string;
+		const sessionHeaders = {
+			"mcp-session-id": sessionId,
+			"mcp-protocol-version": "2025-03-26",
+		};
+
+		await send(
+			port,
+			"POST",
+			"/mcp",
+			{ jsonrpc: "2.0", method: "notifications/initialized" },
+			sessionHeaders
+		);
+		const result = await send(
+			port,
+			"POST",
+			"/mcp",
+			{ jsonrpc: "2.0", id: 2, method: "tools/list" },
+			sessionHeaders
+		);
+
+		expect(result.status).toBe(200);
+		expect(result.body).toContain('"name":"ping"');
+	});
+
+	it("should reject non-initialize requests without a session", async () => {
+		const result = await send(port, "POST", "/mcp", {
+			jsonrpc: "2.0",
+			id: 1,
+			method: "tools/list",
+		});
+
+		expect(result.status).toBe(400);
+		expect(JSON.parse(result.body).error.message).toContain("no valid session ID");
+	});
+
+	it("should reject invalid JSON bodies", async () => {
+		const result = await new Promise<HttpResult>((resolve, reject) => {
+			const req = request(
+				{ host: "127.0.0.1", port, method: "POST", path: "/mcp" },
+				(res) => {
+					let data = "";
+					res.on("data", (chunk) => (data += chunk));
+					res.on("end", () =>
+						resolve({ status: res.statusCode ?? 0, headers: res.headers, body: data })
+					);
+				}
+			);
+			req.on("error", reject);
+			req.end("{not json");
+		});
+
+		expect(result.status).toBe(400);
+		expect(JSON.parse(result.body).error.code).toBe(-32700);
+	});
+
+	it("should reject messages for unknown SSE sessions", async () => {
+		const result = await send(port, "POST", "/messages?sessionId=missing", {
+			jsonrpc: "2.0",
+			id: 1,
+			method: "tools/list",
+		});
+
+		expect(result.status).toBe(400);
+	});
+
+	it("should return 404 for unknown paths", async () => {
+		const result = await send(port, "GET", "/unknown");
+
+		expect(result.status).toBe(404);
+	});
+
+	it("should reject requests for hosts that are not allowed", async () => {
+		const result = await send(port, "POST", "/mcp", initializeRequest, {
+			Host: "attacker.example",
+		});
+
+		expect(result.status).toBe(403);
+		expect(JSON.parse(result.body).error.message).toContain("host not allowed");
+	});
+
+	it("should reject requests from origins that are not allowed", async () => {
+		const rejected = await send(port, "POST", "/mcp", initializeRequest, {
+			Origin: "http://attacker.example",
+		});
+		const allowed = await send(port, "POST", "/mcp", initializeRequest, {
+			Origin: `http://localhost:${port}`,
+		});
+
+		expect(rejected.status).toBe(403);
+		expect(JSON.parse(rejected.body).error.message).toContain("origin not allowed");
+		expect(allowed.status).toBe(200);
+	});
+
+	it("should close the session's server when the client ends it", async () => {
+		const init = await send(port, "POST", "/mcp", initializeRequest);
+		const sessionId = init.headers["mcp-session-id"] as string;
+
+		const result = await send(port, "DELETE", "/mcp", undefined, {
+			"mcp-session-id": sessionId,
+			"mcp-protocol-version": "2025-03-26",
+		});
+
+		expect(result.status).toBe(200);
+		const health = JSON.parse((await send(port, "GET", "/health")).body);
+		expect(health.sessions.streamableHttp).toBe(0);
+	});
+});
+
+describe("HTTP Transport access control", () => {
+	let handle: HttpServerHandle;
+	let port: number;
+
+	beforeEach(async () => {
+		handle = await startHttpServer({
+			host: "127.0.0.1",
+			port: 0,
+			authToken: "secret-token",
+			allowedHosts: ["127.0.0.1"],
+			sessionIdleTimeout: 0.05,
+		});
+		port = (handle.httpServer.address() as AddressInfo).port;
+	});
+
+	afterEach(async () => {
+		await handle.close();
+	});
+
+	it("should require the bearer token", async () => {
+		const missing = await send(port, "POST", "/mcp", initializeRequest);
+		const wrong = await send(port, "POST", "/mcp", initializeRequest, {
+			Authorization: "Bearer wrong-token",
+		});
+		const valid = await send(port, "POST", "/mcp", initializeRequest, {
+			Authorization: "Bearer secret-token",
+		});
+
+		expect(missing.status).toBe(401);
+		expect(missing.headers["www-authenticate"]).toBe("Bearer");
+		expect(wrong.status).toBe(401);
+		expect(valid.status).toBe(200);
+	});
+
+	it("should leave the health check open", async () => {
+		const result = await send(port, "GET", "/health");
+
+		expect(result.status).toBe(200);
+	});
+
+	it("should close sessions once they are idle", async () => {
+		const init = await send(port, "POST", "/mcp", initializeRequest, {
+			Authorization: "Bearer secret-token",
+		});
+		expect(init.status).toBe(200);
+
+		await new Promise((resolve) => setTimeout(resolve, 200));
+
+		const result = await send(
+			port,
+			"POST",
+			"/mcp",
+			{ jsonrpc: "2.0", id: 2, method: "tools/list" },
+			{
+				Authorization: "Bearer secret-token",
+				"mcp-session-id": init.headers["mcp-session-id"] as string,
+				"mcp-protocol-version": "2025-03-26",
+			}
+		);
+
+		expect(result.status).toBe(400);
+		const health = JSON.parse((await send(port, "GET", "/health")).body);
+		expect(health.sessions.streamableHttp).toBe(0);
+	});
+});
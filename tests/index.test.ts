@@ -4,15 +4,24 @@ const mockServer = {
 	connect: jest.fn().mockResolvedValue(undefined),
 	close: jest.fn().mockResolvedValue(undefined),
 };
+const mockGetTransportConfig = jest.fn();
+const mockHttpHandle = { close: jest.fn() };
+const mockStartHttpServer = jest.fn();
 
 jest.mock("../src/utils/config.js", () => ({
 	logConfigStatus: mockLogConfigStatus,
+	getTransportConfig: mockGetTransportConfig,
 }));
 
 jest.mock("../src/server.js", () => ({
 	server: mockServer,
 }));
 
+jest.mock("../src/http.js", () => ({
+	startHttpServer: mockStartHttpServer,
+	HTTP_PATHS: { MCP: "/mcp", SSE: "/sse", MESSAGES: "/messages", HEALTH: "/health" },
+}));
+
 describe("Index Module", () => {
 	let originalProcess: any;
 	let mockExit: jest.SpyInstance;
@@ -29,6 +38,15 @@ describe("Index Module", () => {
 			throw new Error("process.exit called");
 		});
 		mockOn = jest.spyOn(process, "on").mockImplementation(() => process);
+
+		mockServer.connect.mockResolvedValue(undefined);
+		mockGetTransportConfig.mockReturnValue({
+			transport: "stdio",
+			host: "127.0.0.1",
+			port: 3000,
+		});
+		mockHttpHandle.close.mockResolvedValue(undefined);
+		mockStartHttpServer.mockResolvedValue(mockHttpHandle);
 	});
 
 	afterEach(() => {
@@ -50,6 +68,32 @@ describe("Index Module", () => {
 			);
 		});
 
+		it("should start the HTTP transport when selected", async () => {
+			const transportConfig = {
+				transport: "http",
+				host: "0.0.0.0",
+				port: 8080,
+				authToken: "secret-token",
+				allowedHosts: ["localhost", "127.0.0.1", "[::1]"],
+				sessionIdleTimeout: 1800,
+			};
+			mockGetTransportConfig.mockReturnValue(transportConfig);
+
+			const { startServer, gracefulShutdown } = await import("../src/index.js");
+
+			await startServer();
+
+			expect(mockStartHttpServer).toHaveBeenCalledWith(transportConfig);
+			expect(mockServer.connect).not.toHaveBeenCalled();
+			expect(console.error).toHaveBeenCalledWith(
+				"[SUCCESS] Fibrous MCP Server started successfully"
+			);
+
+			// Shutdown closes the HTTP server and its sessions
+			await expect(gracefulShutdown("SIGTERM")).rejects.toThrow("process.exit called");
+			expect(mockHttpHandle.close).toHaveBeenCalled();
+		});
+
 		it("should handle server startup errors", async () => {
 			mockServer.connect.mockRejectedValueOnce(new Error("Connection failed"));
 
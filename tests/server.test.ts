@@ -7,7 +7,7 @@ const mockRouter = {
 };
 
 const mockMcpServer = {
-	tool: jest.fn(),
+	registerTool: jest.fn(),
 	resource: jest.fn(),
 	prompt: jest.fn(),
 };
@@ -100,13 +100,16 @@ describe("Server Module", () => {
 				"get-supported-tokens",
 				"get-supported-protocols",
 				"get-best-route",
+				"analyze-route",
+				"get-price-ladder",
+				"compare-chains",
 				"build-transaction",
 				"format-token-amount",
 				"get-token",
 			];
 
 			expectedTools.forEach((toolName) => {
-				expect(mockMcpServer.tool).toHaveBeenCalledWith(
+				expect(mockMcpServer.registerTool).toHaveBeenCalledWith(
 					toolName,
 					expect.any(Object),
 					expect.any(Function)
@@ -114,6 +117,17 @@ describe("Server Module", () => {
 			});
 		});
 
+		it("should declare an output schema for every tool", async () => {
+			await import("../src/server.js");
+
+			const registrations = mockMcpServer.registerTool.mock.calls;
+			expect(registrations.length).toBeGreaterThan(0);
+			registrations.forEach(([, config]) => {
+				expect(config.outputSchema).toBeDefined();
+				expect(config.inputSchema).toBeDefined();
+			});
+		});
+
 		it("should register additional tools when valid chains are available", async () => {
 			mockGetValidChains.mockReturnValue(["base", "starknet"]);
 
@@ -122,12 +136,12 @@ describe("Server Module", () => {
 			await import("../src/server.js");
 
 			// Should also register swap tools
-			expect(mockMcpServer.tool).toHaveBeenCalledWith(
+			expect(mockMcpServer.registerTool).toHaveBeenCalledWith(
 				"execute-swap",
 				expect.any(Object),
 				expect.any(Function)
 			);
-			expect(mockMcpServer.tool).toHaveBeenCalledWith(
+			expect(mockMcpServer.registerTool).toHaveBeenCalledWith(
 				"estimate-swap",
 				expect.any(Object),
 				expect.any(Function)
@@ -141,7 +155,7 @@ describe("Server Module", () => {
 			await import("../src/server.js");
 
 			// Should not register swap tools
-			const swapCalls = mockMcpServer.tool.mock.calls.filter(
+			const swapCalls = mockMcpServer.registerTool.mock.calls.filter(
 				(call) => call[0] === "execute-swap" || call[0] === "estimate-swap"
 			);
 			expect(swapCalls).toHaveLength(0);
@@ -4,6 +4,22 @@ const mockToBigInt = jest.fn();
 const mockCreateSuccessResponse = jest.fn();
 const mockCreateErrorResponse = jest.fn();
 const mockCreateEmptyResponse = jest.fn();
+const mockResolveAmount = jest.fn();
+const mockResolveTokenAddresses = jest.fn();
+const mockValidateChainConfig = jest.fn();
+const mockIsValidAddressForChain = jest.fn();
+const mockGetWalletAddress = jest.fn();
+const mockGetWalletBalances = jest.fn();
+const mockRevokeApproval = jest.fn();
+const mockExecuteSwap = jest.fn();
+const mockEstimateSwapGas = jest.fn();
+const mockValidateSwapParams = jest.fn();
+const mockGetChainConfig = jest.fn();
+const mockGetSwapPolicy = jest.fn();
+const mockRecordSwap = jest.fn();
+const mockQuerySwapHistory = jest.fn();
+const mockGetTransactionStatus = jest.fn();
+const mockGetTokenDecimals = jest.fn();
 
 jest.mock("../../src/utils/index.js", () => ({
 	validateChain: mockValidateChain,
@@ -12,22 +28,65 @@ jest.mock("../../src/utils/index.js", () => ({
 	createErrorResponse: mockCreateErrorResponse,
 	createEmptyResponse: mockCreateEmptyResponse,
 	convertAmount: jest.fn(),
-	executeSwap: jest.fn(),
-	validateSwapParams: jest.fn(),
-	estimateSwapGas: jest.fn(),
-	getChainConfig: jest.fn(),
-	validateChainConfig: jest.fn(),
-	DEFAULTS: { SLIPPAGE: 1 },
+	executeSwap: mockExecuteSwap,
+	validateSwapParams: mockValidateSwapParams,
+	estimateSwapGas: mockEstimateSwapGas,
+	getChainConfig: mockGetChainConfig,
+	getServerConfig: () => ({
+		quoteTtl: 60,
+		quoteDriftTolerance: 0.5,
+		historyDir: "/tmp/fibrous-history",
+		defaultSlippage: 1,
+		slippageOverrides: { chains: {}, pairs: [] },
+	}),
+	classifyError: jest.requireActual("../../src/utils/errors.js").classifyError,
+	isTokenAddress: jest.requireActual("../../src/utils/tokens.js").isTokenAddress,
+	recordSwap: mockRecordSwap,
+	querySwapHistory: mockQuerySwapHistory,
+	getTransactionStatus: mockGetTransactionStatus,
+	formatAmountPretty: jest.requireActual("../../src/utils/amounts.js").formatAmountPretty,
+	...jest.requireActual("../../src/utils/quotes.js"),
+	...jest.requireActual("../../src/utils/policy.js"),
+	...jest.requireActual("../../src/utils/pricing.js"),
+	...jest.requireActual("../../src/utils/slippage.js"),
+	...jest.requireActual("../../src/utils/analysis.js"),
+	...jest.requireActual("../../src/utils/routes.js"),
+	getSwapPolicy: mockGetSwapPolicy,
+	validateChainConfig: mockValidateChainConfig,
+	resolveAmount: mockResolveAmount,
+	resolveTokenAddresses: mockResolveTokenAddresses,
+	getTokenDecimals: mockGetTokenDecimals,
+	SUPPORTED_CHAINS: ["base", "starknet", "scroll"],
+	ToolError: jest.requireActual("../../src/utils/errors.js").ToolError,
+	isSameAddress: (a: string, b: string) => a.toLowerCase() === b.toLowerCase(),
+	isValidAddressForChain: mockIsValidAddressForChain,
+	getRpcUrl: () => "https://rpc.example",
+	getWalletAddress: mockGetWalletAddress,
+	getWalletBalances: mockGetWalletBalances,
+	isUnlimitedAllowance: (allowance: bigint) => allowance >= 2n ** 255n,
+	revokeApproval: mockRevokeApproval,
 }));
 
 import {
 	getSupportedTokensHandler,
 	getSupportedProtocolsHandler,
 	getBestRouteHandler,
+	analyzeRouteHandler,
+	getPriceLadderHandler,
+	compareChainsHandler,
 	buildTransactionHandler,
 	formatTokenAmountHandler,
 	getTokenHandler,
+	getWalletBalancesHandler,
+	getAllowancesHandler,
+	revokeApprovalHandler,
+	prepareSwapHandler,
+	confirmSwapHandler,
+	executeSwapHandler,
+	getSwapHistoryHandler,
+	getTransactionStatusHandler,
 } from "../../src/tools/handlers.js";
+import { clearPriceCache } from "../../src/utils/pricing.js";
 
 describe("Tool Handlers", () => {
 	const mockRouter = {
@@ -36,7 +95,7 @@ describe("Tool Handlers", () => {
 		getBestRoute: jest.fn(),
 		buildRouteAndCalldata: jest.fn(),
 		getToken: jest.fn(),
-		supportedChains: [{ chain_name: "base", chain_id: 8453 }],
+		supportedChains: [{ chain_name: "base", chain_id: 8453, router_address: "0xrouter" }],
 		refreshSupportedChains: jest
 			.fn()
 			.mockResolvedValue([{ chain_name: "base", chain_id: 8453 }]),
@@ -44,6 +103,7 @@ describe("Tool Handlers", () => {
 
 	beforeEach(() => {
 		jest.clearAllMocks();
+		clearPriceCache();
 
 		// Setup default mocks
 		mockValidateChain.mockImplementation(() => true);
@@ -54,6 +114,13 @@ describe("Tool Handlers", () => {
 			isError: true,
 		});
 		mockCreateEmptyResponse.mockReturnValue({ content: [{ type: "text", text: "Empty" }] });
+		mockResolveTokenAddresses.mockImplementation(async (references: string[]) => references);
+		mockGetSwapPolicy.mockReturnValue({});
+		mockResolveAmount.mockImplementation(async ({ amount, amountWei }) => ({
+			wei: amountWei ?? amount,
+			human: "1",
+			decimals: 18,
+		}));
 	});
 
 	describe("getSupportedTokensHandler", () => {
@@ -72,8 +139,15 @@ describe("Tool Handlers", () => {
 			expect(mockValidateChain).toHaveBeenCalledWith("base");
 			expect(mockRouter.supportedTokens).toHaveBeenCalledWith("base");
 			expect(mockCreateSuccessResponse).toHaveBeenCalledWith(
-				expect.any(Object),
-				"Supported tokens for base"
+				{
+					chainName: "base",
+					count: 2,
+					tokens: {
+						eth: { symbol: "ETH", address: "0x123" },
+						usdc: { symbol: "USDC", address: "0x456" },
+					},
+				},
+				"Supported tokens for base: 2 tokens"
 			);
 			expect(result).toEqual({ content: [{ type: "text", text: "Success" }] });
 		});
@@ -86,7 +160,11 @@ describe("Tool Handlers", () => {
 				mockRouter as any
 			);
 
-			expect(mockCreateEmptyResponse).toHaveBeenCalledWith("tokens", "base");
+			expect(mockCreateEmptyResponse).toHaveBeenCalledWith("tokens", "base", {
+				chainName: "base",
+				count: 0,
+				tokens: {},
+			});
 			expect(result).toEqual({ content: [{ type: "text", text: "Empty" }] });
 		});
 
@@ -121,8 +199,8 @@ describe("Tool Handlers", () => {
 			expect(mockValidateChain).toHaveBeenCalledWith("base");
 			expect(mockRouter.supportedProtocols).toHaveBeenCalledWith("base");
 			expect(mockCreateSuccessResponse).toHaveBeenCalledWith(
-				mockProtocols,
-				"Supported protocols for base"
+				{ chainName: "base", protocols: mockProtocols },
+				"Supported protocols for base: uniswap, sushiswap"
 			);
 			expect(result).toEqual({ content: [{ type: "text", text: "Success" }] });
 		});
@@ -146,7 +224,34 @@ describe("Tool Handlers", () => {
 
 	describe("getBestRouteHandler", () => {
 		it("should find best route successfully", async () => {
-			const mockRoute = { success: true, outputAmount: "950000000000000000" };
+			const mockRoute = {
+				success: true,
+				inputToken: { address: "0x123", symbol: "ETH", decimals: "18", price: "3000" },
+				inputAmount: "1000000000000000000",
+				outputToken: { address: "0x456", symbol: "WETH", decimals: "18", price: null },
+				outputAmount: "950000000000000000",
+				route: [
+					{
+						percent: "100%",
+						swaps: [
+							[
+								{
+									protocol: 901,
+									poolId: "7",
+									poolAddress: "0xpool",
+									poolName: "Pool",
+									fromTokenAddress: "0x123",
+									toTokenAddress: "0x456",
+									percent: "100%",
+								},
+							],
+						],
+					},
+				],
+			};
+			mockRouter.supportedTokens.mockResolvedValue(
+				new Map([["weth", { address: "0x456", symbol: "WETH", price: "2900" }]])
+			);
 			mockRouter.getBestRoute.mockResolvedValue(mockRoute);
 
 			const result = await getBestRouteHandler(
@@ -169,12 +274,93 @@ describe("Tool Handlers", () => {
 				})
 			);
 			expect(mockCreateSuccessResponse).toHaveBeenCalledWith(
-				mockRoute,
+				{
+					amount: { wei: "1000000000000000000", human: "1", decimals: 18 },
+					route: {
+						inputToken: { address: "0x123", symbol: "ETH", decimals: 18 },
+						outputToken: { address: "0x456", symbol: "WETH", decimals: 18 },
+						inputAmount: "1000000000000000000",
+						outputAmount: "950000000000000000",
+						paths: 1,
+						pathAmounts: [
+							{ path: 0, percent: 100, amountIn: "1000000000000000000", steps: 1 },
+						],
+						hops: [
+							{
+								path: 0,
+								step: 0,
+								protocol: "Protocol 901",
+								protocolId: 901,
+								pool: { id: "7", address: "0xpool", name: "Pool" },
+								tokenIn: { address: "0x123", symbol: "ETH", decimals: 18 },
+								tokenOut: { address: "0x456", symbol: "WETH", decimals: 18 },
+								pathPercent: 100,
+								percent: 100,
+							},
+						],
+					},
+					inputValueUsd: "3000.00",
+					outputValueUsd: "2755.00", // Priced from the token list
+					recommendedSlippage: { slippage: 0.5, volatility: "major", hops: 1 },
+				},
 				"Best route for base swap"
 			);
 			expect(result).toEqual({ content: [{ type: "text", text: "Success" }] });
 		});
 
+		it("should resolve human-readable amounts before routing", async () => {
+			mockResolveAmount.mockResolvedValue({
+				wei: "1500000",
+				human: "1.5",
+				decimals: 6,
+			});
+			mockRouter.getBestRoute.mockResolvedValue({ success: true });
+
+			await getBestRouteHandler(
+				{
+					amountHuman: "1.5",
+					tokenInAddress: "0x123",
+					tokenOutAddress: "0x456",
+					chainName: "base",
+				},
+				mockRouter as any
+			);
+
+			expect(mockResolveAmount).toHaveBeenCalledWith(
+				{ amount: undefined, amountWei: undefined, amountHuman: "1.5" },
+				"0x123",
+				"base",
+				mockRouter
+			);
+			expect(mockRouter.getBestRoute).toHaveBeenCalledWith(
+				expect.objectContaining({ amount: BigInt("1500000") })
+			);
+		});
+
+		it("should resolve token symbols before routing", async () => {
+			mockResolveTokenAddresses.mockResolvedValue(["0xeth", "0xusdc"]);
+			mockRouter.getBestRoute.mockResolvedValue({ success: true });
+
+			await getBestRouteHandler(
+				{
+					amountWei: "1000000000000000000",
+					tokenInAddress: "ETH",
+					tokenOutAddress: "USDC",
+					chainName: "base",
+				},
+				mockRouter as any
+			);
+
+			expect(mockResolveTokenAddresses).toHaveBeenCalledWith(
+				["ETH", "USDC"],
+				"base",
+				mockRouter
+			);
+			expect(mockRouter.getBestRoute).toHaveBeenCalledWith(
+				expect.objectContaining({ tokenInAddress: "0xeth", tokenOutAddress: "0xusdc" })
+			);
+		});
+
 		it("should handle route finding errors", async () => {
 			const error = new Error("No route found");
 			mockRouter.getBestRoute.mockRejectedValue(error);
@@ -191,12 +377,386 @@ describe("Tool Handlers", () => {
 
 			expect(mockCreateErrorResponse).toHaveBeenCalledWith(error, "get-best-route", "base");
 		});
+
+		it("should report a NO_ROUTE error when the router finds no route", async () => {
+			mockRouter.getBestRoute.mockResolvedValue({
+				success: false,
+				errorMessage: "Insufficient liquidity",
+			});
+
+			await getBestRouteHandler(
+				{
+					amountWei: "1000000000000000000",
+					tokenInAddress: "0x123",
+					tokenOutAddress: "0x456",
+					chainName: "base",
+				},
+				mockRouter as any
+			);
+
+			const [error] = mockCreateErrorResponse.mock.calls[0];
+			expect(error).toMatchObject({
+				code: "NO_ROUTE",
+				retryable: true,
+				message: "Insufficient liquidity",
+			});
+		});
+	});
+
+	describe("analyzeRouteHandler", () => {
+		const route = {
+			success: true,
+			inputToken: { address: "0x123", symbol: "ETH", decimals: "18", price: "3000" },
+			inputAmount: "10000000000000000000",
+			outputToken: { address: "0x456", symbol: "USDC", decimals: "6", price: "1" },
+			outputAmount: "29700000000",
+			estimatedGasUsedInUsd: "0.12",
+			route: [
+				{
+					percent: "100%",
+					swaps: [
+						[
+							{
+								protocol: 901,
+								poolId: "7",
+								poolAddress: "0xpool",
+								poolName: "Pool",
+								fromTokenAddress: "0x123",
+								toTokenAddress: "0x456",
+								percent: "100%",
+							},
+						],
+					],
+				},
+			],
+		};
+		const args = {
+			amountWei: "10000000000000000000",
+			tokenInAddress: "0x123",
+			tokenOutAddress: "0x456",
+			chainName: "base",
+		};
+
+		it("should compare the route with a small reference quote", async () => {
+			mockRouter.getBestRoute.mockResolvedValueOnce(route).mockResolvedValueOnce({
+				...route,
+				inputAmount: "3333000000000000",
+				outputAmount: "9995667",
+			});
+
+			await analyzeRouteHandler(args, mockRouter as any);
+
+			// About $10 of ETH
+			expect(mockRouter.getBestRoute).toHaveBeenLastCalledWith(
+				expect.objectContaining({ amount: 3333000000000000n, tokenInAddress: "0x123" })
+			);
+			const [result, summary] = mockCreateSuccessResponse.mock.calls[0];
+			expect(result).toMatchObject({
+				tokenIn: "ETH",
+				tokenOut: "USDC",
+				inputValueUsd: "30000.00",
+				analysis: {
+					effectiveRate: "2970",
+					referenceRate: "2999",
+					priceImpact: "0.97",
+					hops: 1,
+					gasAsPercentOfTrade: "0.00",
+					riskGrade: "B",
+				},
+			});
+			expect(summary).toBe("Route analysis for base swap: risk grade B (Price impact 0.97%)");
+		});
+
+		it("should still analyze the route when the reference quote fails", async () => {
+			mockRouter.getBestRoute
+				.mockResolvedValueOnce(route)
+				.mockRejectedValueOnce(new Error("fetch failed"));
+
+			await analyzeRouteHandler(args, mockRouter as any);
+
+			expect(mockCreateSuccessResponse.mock.calls[0][0].analysis).toMatchObject({
+				riskGrade: "B",
+				riskFactors: ["Price impact unknown: no reference quote"],
+			});
+		});
+
+		it("should report a missing route", async () => {
+			mockRouter.getBestRoute.mockResolvedValue({ success: false, errorMessage: "No pools" });
+
+			await analyzeRouteHandler(args, mockRouter as any);
+
+			expect(mockCreateErrorResponse).toHaveBeenCalledWith(
+				expect.objectContaining({ code: "NO_ROUTE" }),
+				"analyze-route",
+				"base"
+			);
+		});
+	});
+
+	describe("getPriceLadderHandler", () => {
+		const quote = (amount: bigint, output: bigint) => ({
+			success: true,
+			inputToken: { address: "0x123", symbol: "ETH", decimals: "18", price: "3000" },
+			inputAmount: amount.toString(),
+			outputToken: { address: "0x456", symbol: "USDC", decimals: "6", price: "1" },
+			outputAmount: output.toString(),
+		});
+
+		beforeEach(() => {
+			mockGetTokenDecimals.mockResolvedValue(18);
+			mockRouter.supportedTokens.mockResolvedValue(
+				new Map([["eth", { address: "0x123", symbol: "ETH", price: "3000" }]])
+			);
+			// 3000 USDC per ETH, less 1% per whole ETH
+			mockRouter.getBestRoute.mockImplementation(async ({ amount }: { amount: bigint }) => {
+				const eth = Number(amount) / 1e18;
+				return quote(amount, BigInt(Math.round(eth * 3000 * (1 - eth / 100) * 1e6)));
+			});
+		});
+
+		it("should quote each step against a small reference quote", async () => {
+			await getPriceLadderHandler(
+				{
+					tokenInAddress: "0x123",
+					tokenOutAddress: "0x456",
+					chainName: "base",
+					range: { start: "0", end: "10", steps: 3 },
+				},
+				mockRouter as any
+			);
+
+			// $10 of ETH for the reference, then the 5 and 10 ETH steps
+			expect(mockRouter.getBestRoute).toHaveBeenCalledTimes(3);
+			expect(mockRouter.getBestRoute.mock.calls[0][0].amount).toBe(3333000000000000n);
+			const [result, summary] = mockCreateSuccessResponse.mock.calls[0];
+			expect(result.steps).toMatchObject([
+				{ amount: { human: "5" }, rate: "2850", marginalRate: "2850", priceImpact: "5.00" },
+				{
+					amount: { human: "10" },
+					rate: "2700",
+					marginalRate: "2550",
+					priceImpact: "10.00",
+				},
+			]);
+			expect(summary).toBe("Price ladder for base: 2 of 2 amounts routed");
+		});
+
+		it("should fail with NO_ROUTE when no amount can be routed", async () => {
+			mockRouter.getBestRoute.mockResolvedValue({ success: false, errorMessage: "No pools" });
+
+			await getPriceLadderHandler(
+				{
+					tokenInAddress: "ETH",
+					tokenOutAddress: "USDC",
+					chainName: "base",
+					amounts: ["1"],
+				},
+				mockRouter as any
+			);
+
+			expect(mockCreateErrorResponse).toHaveBeenCalledWith(
+				expect.objectContaining({ code: "NO_ROUTE" }),
+				"get-price-ladder",
+				"base"
+			);
+		});
+	});
+
+	describe("compareChainsHandler", () => {
+		const routes: Record<number, { outputAmount: string; estimatedGasUsedInUsd: string }> = {
+			8453: { outputAmount: "333000000000000000", estimatedGasUsedInUsd: "0.01" },
+			534352: { outputAmount: "333100000000000000", estimatedGasUsedInUsd: "0.01" },
+		};
+		const gasCosts: Record<string, string> = { base: "0.05", scroll: "0.50" };
+
+		beforeEach(() => {
+			mockRouter.supportedChains = [
+				{ chain_name: "base", chain_id: 8453, router_address: "0xrouter" },
+				{ chain_name: "scroll", chain_id: 534352, router_address: "0xrouter" },
+				{ chain_name: "starknet", chain_id: 1, router_address: "0xrouter" },
+			];
+			mockResolveAmount.mockResolvedValue({ wei: "1000000000", human: "1000", decimals: 6 });
+			mockValidateChainConfig.mockReturnValue({ isValid: true, errors: [] });
+			mockGetChainConfig.mockReturnValue({
+				rpcUrl: "https://rpc.example",
+				privateKey: "0xkey",
+			});
+			mockEstimateSwapGas.mockImplementation(
+				async ({ chainName }: { chainName: string }) => ({
+					costInUSD: gasCosts[chainName],
+				})
+			);
+			mockRouter.getBestRoute.mockImplementation(async ({ chainId }: { chainId: number }) =>
+				routes[chainId]
+					? {
+							success: true,
+							inputToken: { symbol: "USDC", decimals: "6", price: "1" },
+							inputAmount: "1000000000",
+							outputToken: { symbol: "ETH", decimals: "18", price: "3000" },
+							...routes[chainId],
+						}
+					: { success: false, errorMessage: "No pools" }
+			);
+		});
+
+		afterEach(() => {
+			mockRouter.supportedChains = [
+				{ chain_name: "base", chain_id: 8453, router_address: "0xrouter" },
+			];
+		});
+
+		it("should rank chains by net output after gas", async () => {
+			await compareChainsHandler(
+				{ tokenIn: "USDC", tokenOut: "ETH", amountHuman: "1000" },
+				mockRouter as any
+			);
+
+			expect(mockResolveTokenAddresses).toHaveBeenCalledWith(
+				["USDC", "ETH"],
+				"scroll",
+				mockRouter
+			);
+			const [result, summary] = mockCreateSuccessResponse.mock.calls[0];
+			// Scroll quotes more ETH, but its gas costs more than the difference
+			expect(result.bestChain).toBe("base");
+			expect(
+				result.ranking.map(({ rank, chainName, netOutput }: any) => [
+					rank,
+					chainName,
+					netOutput,
+				])
+			).toEqual([
+				[1, "base", "0.33298333"],
+				[2, "scroll", "0.33293333"],
+			]);
+			expect(result.failed).toEqual([
+				{ chainName: "starknet", error: "No pools", errorCode: "NO_ROUTE" },
+			]);
+			expect(summary).toBe(
+				"Best execution for 1000 USDC → ETH: base (0.33298333 ETH after gas)"
+			);
+			expect(mockEstimateSwapGas).toHaveBeenCalledWith(
+				expect.objectContaining({ chainName: "scroll", amount: "1000000000" }),
+				expect.anything(),
+				mockRouter
+			);
+		});
+
+		it("should rank chains whose gas cannot be estimated last", async () => {
+			// Base has no wallet to estimate with, and quotes more ETH before gas
+			mockValidateChainConfig.mockImplementation((chainName: string) =>
+				chainName === "base"
+					? { isValid: false, errors: ["Missing private key for base"] }
+					: { isValid: true, errors: [] }
+			);
+
+			await compareChainsHandler(
+				{
+					tokenIn: "USDC",
+					tokenOut: "ETH",
+					amountHuman: "1000",
+					chains: ["base", "scroll"],
+				},
+				mockRouter as any
+			);
+
+			const [result] = mockCreateSuccessResponse.mock.calls[0];
+			expect(mockEstimateSwapGas).toHaveBeenCalledTimes(1);
+			expect(
+				result.ranking.map(({ chainName, netOutput, gasIncluded }: any) => [
+					chainName,
+					netOutput,
+					gasIncluded,
+				])
+			).toEqual([
+				["scroll", "0.33293333", true],
+				["base", "0.333", false],
+			]);
+		});
+
+		it("should leave gas out when only a fallback estimate is available", async () => {
+			mockEstimateSwapGas.mockImplementation(async ({ chainName }: { chainName: string }) =>
+				chainName === "base"
+					? {
+							gasEstimate: "200000",
+							gasPrice: "20000000000",
+							totalFee: "4000000000000000",
+							feeToken: "ETH",
+							source: "fallback",
+							fallbackReason: "Insufficient balance",
+						}
+					: { costInUSD: gasCosts[chainName], source: "rpc" }
+			);
+			routes[8453].outputAmount = "333200000000000000";
+
+			try {
+				await compareChainsHandler(
+					{
+						tokenIn: "USDC",
+						tokenOut: "ETH",
+						amountHuman: "1000",
+						chains: ["base", "scroll"],
+					},
+					mockRouter as any
+				);
+			} finally {
+				routes[8453].outputAmount = "333000000000000000";
+			}
+
+			const [result] = mockCreateSuccessResponse.mock.calls[0];
+			expect(result.ranking).toEqual([
+				expect.objectContaining({ chainName: "scroll", gasIncluded: true }),
+				expect.not.objectContaining({ gasCostUsd: expect.anything() }),
+			]);
+			expect(result.ranking[1]).toMatchObject({
+				chainName: "base",
+				netOutput: "0.3332",
+				gasIncluded: false,
+			});
+		});
+
+		it("should leave gas out when its estimate fails", async () => {
+			mockEstimateSwapGas.mockRejectedValue(new Error("Simulation failed"));
+
+			await compareChainsHandler(
+				{ tokenIn: "USDC", tokenOut: "ETH", amountHuman: "1000", chains: ["scroll"] },
+				mockRouter as any
+			);
+
+			const [result, summary] = mockCreateSuccessResponse.mock.calls[0];
+			expect(result.ranking[0]).toMatchObject({ chainName: "scroll", gasIncluded: false });
+			expect(summary).toBe("Best execution for 1000 USDC → ETH: scroll (0.3331 ETH)");
+		});
+
+		it("should reject token addresses", async () => {
+			await compareChainsHandler(
+				{
+					tokenIn: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+					tokenOut: "ETH",
+					amountHuman: "1000",
+				},
+				mockRouter as any
+			);
+
+			expect(mockCreateErrorResponse).toHaveBeenCalledWith(
+				expect.objectContaining({ code: "INVALID_PARAMS" }),
+				"compare-chains"
+			);
+			expect(mockRouter.getBestRoute).not.toHaveBeenCalled();
+		});
 	});
 
 	describe("buildTransactionHandler", () => {
 		it("should build transaction successfully", async () => {
-			const mockResponse = { route: {}, calldata: ["0x1", "0x2"] };
-			mockRouter.buildRouteAndCalldata.mockResolvedValue(mockResponse);
+			const route = {
+				success: true,
+				inputToken: { address: "0x123", symbol: "ETH", decimals: "18" },
+				inputAmount: "1000000000000000000",
+				outputToken: { address: "0x456", symbol: "USDC", decimals: "6" },
+				outputAmount: "3000000000",
+				route: [],
+			};
+			mockRouter.buildRouteAndCalldata.mockResolvedValue({ route, calldata: ["0x1", "0x2"] });
 
 			const result = await buildTransactionHandler(
 				{
@@ -221,7 +781,21 @@ describe("Tool Handlers", () => {
 				})
 			);
 			expect(mockCreateSuccessResponse).toHaveBeenCalledWith(
-				mockResponse,
+				{
+					amount: { wei: "1000000000000000000", human: "1", decimals: 18 },
+					route: {
+						inputToken: { address: "0x123", symbol: "ETH", decimals: 18 },
+						outputToken: { address: "0x456", symbol: "USDC", decimals: 6 },
+						inputAmount: "1000000000000000000",
+						outputAmount: "3000000000",
+						paths: 0,
+						pathAmounts: [],
+						hops: [],
+					},
+					calldata: ["0x1", "0x2"],
+					slippage: 1,
+					slippageSource: "explicit",
+				},
 				"Transaction data for base swap"
 			);
 			expect(result).toEqual({ content: [{ type: "text", text: "Success" }] });
@@ -268,7 +842,7 @@ describe("Tool Handlers", () => {
 
 			expect(mockRouter.getToken).toHaveBeenCalledWith("0x123", "base");
 			expect(mockCreateSuccessResponse).toHaveBeenCalledWith(
-				mockToken,
+				{ found: true, chainName: "base", token: mockToken },
 				"Token information for ETH"
 			);
 			expect(result).toEqual({ content: [{ type: "text", text: "Success" }] });
@@ -282,14 +856,11 @@ describe("Tool Handlers", () => {
 				mockRouter as any
 			);
 
-			expect(result).toEqual({
-				content: [
-					{
-						type: "text",
-						text: "Token not found: 0x123 on base",
-					},
-				],
-			});
+			expect(mockCreateSuccessResponse).toHaveBeenCalledWith(
+				{ found: false, chainName: "base" },
+				"Token not found: 0x123 on base"
+			);
+			expect(result).toEqual({ content: [{ type: "text", text: "Success" }] });
 		});
 
 		it("should handle token fetch errors", async () => {
@@ -317,14 +888,11 @@ describe("Tool Handlers", () => {
 			});
 
 			expect(convertAmount).toHaveBeenCalledWith("1500000000000000000", 18, "format");
-			expect(result).toEqual({
-				content: [
-					{
-						type: "text",
-						text: "Amount conversion: 1500000000000000000 → 1.5 (format, 18 decimals)",
-					},
-				],
-			});
+			expect(mockCreateSuccessResponse).toHaveBeenCalledWith(
+				{ amount: "1500000000000000000", result: "1.5", operation: "format", decimals: 18 },
+				"Amount conversion: 1500000000000000000 → 1.5 (format, 18 decimals)"
+			);
+			expect(result).toEqual({ content: [{ type: "text", text: "Success" }] });
 		});
 
 		it("should handle amount conversion errors", async () => {
@@ -345,4 +913,852 @@ describe("Tool Handlers", () => {
 			);
 		});
 	});
+
+	describe("getWalletBalancesHandler", () => {
+		const usdc = { symbol: "USDC", name: "USD Coin", address: "0xUSDC", decimals: "6" };
+		const weth = { symbol: "WETH", name: "Wrapped Ether", address: "0xWETH", decimals: "18" };
+		const balances = {
+			chainName: "base",
+			address: "0xowner",
+			native: { symbol: "ETH", balance: { raw: "1", formatted: "0.000000000000000001" } },
+			tokens: [],
+			failed: [],
+		};
+
+		beforeEach(() => {
+			mockIsValidAddressForChain.mockReturnValue(true);
+			mockRouter.supportedTokens.mockResolvedValue({ usdc, weth });
+			mockGetWalletBalances.mockImplementation(async () => ({ ...balances, failed: [] }));
+		});
+
+		it("should scan supported tokens for a given address", async () => {
+			await getWalletBalancesHandler(
+				{ chainName: "base", address: "0xowner" },
+				mockRouter as any
+			);
+
+			expect(mockGetWalletAddress).not.toHaveBeenCalled();
+			expect(mockGetWalletBalances).toHaveBeenCalledWith("0xowner", "base", [usdc, weth], {
+				rpcUrl: "https://rpc.example",
+				routerAddress: "0xrouter",
+				includeZeroBalances: false,
+			});
+			expect(mockCreateSuccessResponse).toHaveBeenCalledWith(
+				expect.objectContaining({ address: "0xowner" }),
+				expect.stringContaining("Balances for 0xowner on base")
+			);
+		});
+
+		it("should default to the configured wallet", async () => {
+			mockValidateChainConfig.mockReturnValue({ isValid: true, errors: [] });
+			mockGetWalletAddress.mockResolvedValue("0xwallet");
+
+			await getWalletBalancesHandler({ chainName: "base" }, mockRouter as any);
+
+			expect(mockGetWalletBalances).toHaveBeenCalledWith(
+				"0xwallet",
+				"base",
+				expect.any(Array),
+				expect.any(Object)
+			);
+		});
+
+		it("should fail with CONFIG_INVALID when no address or wallet is available", async () => {
+			mockValidateChainConfig.mockReturnValue({
+				isValid: false,
+				errors: ["BASE_PRIVATE_KEY is required"],
+			});
+
+			await getWalletBalancesHandler({ chainName: "base" }, mockRouter as any);
+
+			expect(mockCreateErrorResponse).toHaveBeenCalledWith(
+				expect.objectContaining({ code: "CONFIG_INVALID" }),
+				"get-wallet-balances",
+				"base"
+			);
+		});
+
+		it("should reject invalid addresses", async () => {
+			mockIsValidAddressForChain.mockReturnValue(false);
+
+			await getWalletBalancesHandler(
+				{ chainName: "base", address: "not-an-address" },
+				mockRouter as any
+			);
+
+			expect(mockCreateErrorResponse).toHaveBeenCalledWith(
+				expect.objectContaining({ code: "INVALID_ADDRESS" }),
+				"get-wallet-balances",
+				"base"
+			);
+		});
+
+		it("should read explicit tokens, including zero balances", async () => {
+			mockResolveTokenAddresses.mockResolvedValue(["0xusdc", "0xFOO"]);
+			mockRouter.getToken.mockResolvedValue({ ...usdc, symbol: "FOO", address: "0xFOO" });
+
+			await getWalletBalancesHandler(
+				{ chainName: "base", address: "0xowner", tokens: ["USDC", "0xFOO"] },
+				mockRouter as any
+			);
+
+			expect(mockResolveTokenAddresses).toHaveBeenCalledWith(
+				["USDC", "0xFOO"],
+				"base",
+				mockRouter
+			);
+			expect(mockGetWalletBalances).toHaveBeenCalledWith(
+				"0xowner",
+				"base",
+				[
+					expect.objectContaining({ symbol: "USDC" }),
+					expect.objectContaining({ symbol: "FOO" }),
+				],
+				expect.objectContaining({ includeZeroBalances: true })
+			);
+		});
+
+		it("should skip unsupported tokens when supportedOnly is set", async () => {
+			mockResolveTokenAddresses.mockResolvedValue(["0xusdc", "0xFOO"]);
+
+			await getWalletBalancesHandler(
+				{
+					chainName: "base",
+					address: "0xowner",
+					tokens: ["USDC", "0xFOO"],
+					supportedOnly: true,
+				},
+				mockRouter as any
+			);
+
+			expect(mockRouter.getToken).not.toHaveBeenCalled();
+			expect(mockGetWalletBalances).toHaveBeenCalledWith(
+				"0xowner",
+				"base",
+				[usdc],
+				expect.any(Object)
+			);
+			expect(mockCreateSuccessResponse).toHaveBeenCalledWith(
+				expect.objectContaining({
+					failed: [{ address: "0xFOO", error: "Not a supported token" }],
+				}),
+				expect.any(String)
+			);
+		});
+	});
+
+	describe("getAllowancesHandler", () => {
+		const usdc = { symbol: "USDC", name: "USD Coin", address: "0xUSDC", decimals: "6" };
+		const weth = { symbol: "WETH", name: "Wrapped Ether", address: "0xWETH", decimals: "18" };
+		const toBalance = (token: typeof usdc, allowance: string) => ({
+			symbol: token.symbol,
+			name: token.name,
+			address: token.address,
+			decimals: Number(token.decimals),
+			balance: { raw: "0", formatted: "0" },
+			allowance: { raw: allowance, formatted: allowance },
+		});
+
+		beforeEach(() => {
+			mockIsValidAddressForChain.mockReturnValue(true);
+			mockRouter.supportedTokens.mockResolvedValue({ usdc, weth });
+			mockGetWalletBalances.mockResolvedValue({
+				chainName: "base",
+				address: "0xowner",
+				native: {},
+				tokens: [toBalance(usdc, "0"), toBalance(weth, (2n ** 256n - 1n).toString())],
+				failed: [],
+			});
+		});
+
+		it("should list open router allowances", async () => {
+			await getAllowancesHandler(
+				{ chainName: "base", address: "0xowner" },
+				mockRouter as any
+			);
+
+			expect(mockGetWalletBalances).toHaveBeenCalledWith("0xowner", "base", [usdc, weth], {
+				rpcUrl: "https://rpc.example",
+				routerAddress: "0xrouter",
+				includeZeroBalances: true,
+			});
+			expect(mockCreateSuccessResponse).toHaveBeenCalledWith(
+				expect.objectContaining({
+					spender: "0xrouter",
+					allowances: [expect.objectContaining({ symbol: "WETH", unlimited: true })],
+				}),
+				expect.stringContaining("1 allowances")
+			);
+		});
+
+		it("should check a custom spender", async () => {
+			await getAllowancesHandler(
+				{ chainName: "base", address: "0xowner", spender: "0xspender" },
+				mockRouter as any
+			);
+
+			expect(mockGetWalletBalances).toHaveBeenCalledWith(
+				"0xowner",
+				"base",
+				expect.any(Array),
+				expect.objectContaining({ routerAddress: "0xspender" })
+			);
+		});
+	});
+
+	describe("revokeApprovalHandler", () => {
+		beforeEach(() => {
+			mockIsValidAddressForChain.mockReturnValue(true);
+			mockValidateChainConfig.mockReturnValue({ isValid: true, errors: [] });
+			mockResolveTokenAddresses.mockResolvedValue(["0xUSDC"]);
+		});
+
+		it("should revoke the router allowance", async () => {
+			mockRevokeApproval.mockResolvedValue({
+				chainName: "base",
+				tokenAddress: "0xUSDC",
+				spender: "0xrouter",
+				previousAllowance: "100",
+				revoked: true,
+				transactionHash: "0xhash",
+			});
+
+			await revokeApprovalHandler(
+				{ chainName: "base", tokenAddress: "USDC" },
+				mockRouter as any
+			);
+
+			expect(mockRevokeApproval).toHaveBeenCalledWith(
+				"0xUSDC",
+				"0xrouter",
+				"base",
+				undefined
+			);
+			expect(mockCreateSuccessResponse).toHaveBeenCalledWith(
+				expect.objectContaining({ revoked: true }),
+				expect.stringContaining("Revoked allowance of 0xUSDC")
+			);
+		});
+
+		it("should require wallet configuration", async () => {
+			mockValidateChainConfig.mockReturnValue({
+				isValid: false,
+				errors: ["BASE_PRIVATE_KEY is required"],
+			});
+
+			await revokeApprovalHandler(
+				{ chainName: "base", tokenAddress: "USDC" },
+				mockRouter as any
+			);
+
+			expect(mockRevokeApproval).not.toHaveBeenCalled();
+			expect(mockCreateErrorResponse).toHaveBeenCalledWith(
+				expect.objectContaining({ code: "CONFIG_INVALID" }),
+				"revoke-approval",
+				"base"
+			);
+		});
+	});
+
+	describe("prepareSwapHandler / confirmSwapHandler", () => {
+		const route = {
+			success: true,
+			inputToken: { symbol: "ETH", decimals: "18", price: "3000" },
+			inputAmount: "1000000000000000000",
+			outputToken: { symbol: "USDC", decimals: "6", price: "1" },
+			outputAmount: "3000000000",
+		};
+		const gasEstimate = {
+			gasEstimate: "200000",
+			gasPrice: "1000",
+			totalFee: "200000000",
+			estimatedCost: "200000000",
+			feeToken: "ETH",
+			costInUSD: "1.50",
+			source: "rpc",
+		};
+
+		const prepare = async () => {
+			await prepareSwapHandler(
+				{
+					amountWei: "1000000000000000000",
+					tokenInAddress: "ETH",
+					tokenOutAddress: "USDC",
+					slippage: 1,
+					chainName: "base",
+				},
+				mockRouter as any
+			);
+			return mockCreateSuccessResponse.mock.calls.at(-1)![0];
+		};
+
+		beforeEach(() => {
+			mockValidateChainConfig.mockReturnValue({ isValid: true, errors: [] });
+			mockValidateSwapParams.mockReturnValue({ isValid: true, errors: [] });
+			mockGetWalletAddress.mockResolvedValue("0xwallet");
+			mockGetChainConfig.mockReturnValue({
+				rpcUrl: "https://rpc.example",
+				privateKey: "0x1",
+			});
+			mockEstimateSwapGas.mockResolvedValue(gasEstimate);
+			mockRouter.getBestRoute.mockResolvedValue(route);
+		});
+
+		it("should return a quote summary without executing", async () => {
+			const quote = await prepare();
+
+			expect(quote).toMatchObject({
+				quoteId: expect.any(String),
+				chainName: "base",
+				expectedOutput: { raw: "3000000000", formatted: "3000" },
+				minOutput: { raw: "2970000000", formatted: "2970" },
+				priceImpact: "0.00",
+				inputValueUsd: "3000.00",
+				outputValueUsd: "3000.00",
+				gasAsPercentOfTrade: "0.05",
+				slippage: 1,
+				slippageSource: "explicit",
+				recommendedSlippage: { slippage: 0.5, volatility: "major", priceImpact: 0 },
+				receiverAddress: "0xwallet",
+				gasEstimate,
+			});
+			expect(mockExecuteSwap).not.toHaveBeenCalled();
+		});
+
+		it("should quote with the recommended slippage for auto, fetching the route once", async () => {
+			await prepareSwapHandler(
+				{
+					amountWei: "1000000000000000000",
+					tokenInAddress: "ETH",
+					tokenOutAddress: "USDC",
+					slippage: "auto",
+					chainName: "base",
+				},
+				mockRouter as any
+			);
+
+			expect(mockCreateSuccessResponse.mock.calls.at(-1)![0]).toMatchObject({
+				slippage: 0.5,
+				slippageSource: "auto",
+				minOutput: { raw: "2985000000", formatted: "2985" },
+			});
+			expect(mockRouter.getBestRoute).toHaveBeenCalledTimes(1);
+		});
+
+		it("should fall back to the default slippage", async () => {
+			await prepareSwapHandler(
+				{
+					amountWei: "1000000000000000000",
+					tokenInAddress: "ETH",
+					tokenOutAddress: "USDC",
+					chainName: "base",
+				},
+				mockRouter as any
+			);
+
+			expect(mockCreateSuccessResponse.mock.calls.at(-1)![0]).toMatchObject({
+				slippage: 1,
+				slippageSource: "default",
+			});
+		});
+
+		it("should execute exactly the prepared swap", async () => {
+			const { quoteId } = await prepare();
+			mockRouter.getBestRoute.mockResolvedValue({ ...route, outputAmount: "2995000000" });
+			mockExecuteSwap.mockResolvedValue({ success: true, transactionHash: "0xswap" });
+
+			await confirmSwapHandler({ quoteId }, mockRouter as any);
+
+			// 0.83% of the fresh 2995 USDC output still leaves the quoted 2970 USDC minimum
+			expect(mockExecuteSwap).toHaveBeenCalledWith(
+				expect.objectContaining({
+					amount: "1000000000000000000",
+					tokenInAddress: "ETH",
+					tokenOutAddress: "USDC",
+					slippage: 0.83,
+					minOutput: "2970000000",
+					receiverAddress: "0xwallet",
+				}),
+				expect.anything(),
+				mockRouter
+			);
+			expect(mockCreateSuccessResponse).toHaveBeenLastCalledWith(
+				expect.objectContaining({
+					success: true,
+					transactionHash: "0xswap",
+					quote: expect.objectContaining({ id: quoteId, drift: expect.closeTo(0.1667) }),
+				}),
+				"Swap executed successfully on base"
+			);
+		});
+
+		it("should refuse a quote whose output drifted past the tolerance", async () => {
+			const { quoteId } = await prepare();
+			mockRouter.getBestRoute.mockResolvedValue({ ...route, outputAmount: "2900000000" });
+
+			await confirmSwapHandler({ quoteId }, mockRouter as any);
+
+			expect(mockExecuteSwap).not.toHaveBeenCalled();
+			expect(mockCreateErrorResponse).toHaveBeenCalledWith(
+				expect.objectContaining({ code: "SLIPPAGE_EXCEEDED" }),
+				"confirm-swap",
+				"base"
+			);
+		});
+
+		it("should keep the quoted slippage when the output has improved", async () => {
+			const { quoteId } = await prepare();
+			mockRouter.getBestRoute.mockResolvedValue({ ...route, outputAmount: "3100000000" });
+			mockExecuteSwap.mockResolvedValue({ success: true, transactionHash: "0xswap" });
+
+			await confirmSwapHandler({ quoteId }, mockRouter as any);
+
+			expect(mockExecuteSwap).toHaveBeenCalledWith(
+				expect.objectContaining({ slippage: 1, minOutput: "2970000000" }),
+				expect.anything(),
+				mockRouter
+			);
+		});
+
+		it("should still report an executed swap whose result is over the size limit", async () => {
+			const { quoteId } = await prepare();
+			mockExecuteSwap.mockResolvedValue({
+				success: true,
+				transactionHash: "0xswap",
+				explorerUrl: "https://basescan.org/tx/0xswap",
+				outputAmount: "2995000000",
+			});
+			mockCreateSuccessResponse.mockImplementationOnce(() => {
+				throw new Error("Result is 2000000 bytes, over the 1048576-byte response limit");
+			});
+
+			await confirmSwapHandler({ quoteId }, mockRouter as any);
+
+			expect(mockCreateErrorResponse).not.toHaveBeenCalled();
+			expect(mockCreateSuccessResponse).toHaveBeenLastCalledWith(
+				{
+					success: true,
+					amount: expect.anything(),
+					transactionHash: "0xswap",
+					explorerUrl: "https://basescan.org/tx/0xswap",
+					outputAmount: "2995000000",
+				},
+				"Swap executed successfully on base"
+			);
+		});
+
+		it("should refuse a route that no longer covers the quoted minimum", async () => {
+			await prepareSwapHandler(
+				{
+					amountWei: "1000000000000000000",
+					tokenInAddress: "ETH",
+					tokenOutAddress: "USDC",
+					slippage: 0.1,
+					chainName: "base",
+				},
+				mockRouter as any
+			);
+			const { quoteId } = mockCreateSuccessResponse.mock.calls.at(-1)![0];
+			// Within the 0.5% drift tolerance, but below the 2997 USDC minimum
+			mockRouter.getBestRoute.mockResolvedValue({ ...route, outputAmount: "2990000000" });
+
+			await confirmSwapHandler({ quoteId }, mockRouter as any);
+
+			expect(mockExecuteSwap).not.toHaveBeenCalled();
+			expect(mockCreateErrorResponse).toHaveBeenCalledWith(
+				expect.objectContaining({
+					code: "SLIPPAGE_EXCEEDED",
+					message: expect.stringContaining("quoted minimum 2997000000"),
+				}),
+				"confirm-swap",
+				"base"
+			);
+		});
+
+		it("should keep the quote when a check fails", async () => {
+			const { quoteId } = await prepare();
+			mockRouter.getBestRoute.mockRejectedValueOnce(new Error("Router unavailable"));
+			mockExecuteSwap.mockResolvedValue({ success: true, transactionHash: "0xswap" });
+
+			await confirmSwapHandler({ quoteId }, mockRouter as any);
+			await confirmSwapHandler({ quoteId }, mockRouter as any);
+
+			expect(mockExecuteSwap).toHaveBeenCalledTimes(1);
+		});
+
+		it("should keep the quote when the policy refuses the swap", async () => {
+			const { quoteId } = await prepare();
+			mockExecuteSwap.mockResolvedValue({ success: true, transactionHash: "0xswap" });
+			mockGetSwapPolicy.mockReturnValueOnce({ maxSlippage: 0.5 });
+
+			await confirmSwapHandler({ quoteId }, mockRouter as any);
+			expect(mockCreateErrorResponse).toHaveBeenCalledWith(
+				expect.objectContaining({ code: "POLICY_VIOLATION" }),
+				"confirm-swap",
+				"base"
+			);
+			expect(mockExecuteSwap).not.toHaveBeenCalled();
+
+			// Once the policy allows it, the same quote still executes
+			await confirmSwapHandler({ quoteId }, mockRouter as any);
+			expect(mockExecuteSwap).toHaveBeenCalledTimes(1);
+		});
+
+		it("should only confirm a quote once", async () => {
+			const { quoteId } = await prepare();
+			mockExecuteSwap.mockResolvedValue({ success: true, transactionHash: "0xswap" });
+
+			await confirmSwapHandler({ quoteId }, mockRouter as any);
+			await confirmSwapHandler({ quoteId }, mockRouter as any);
+
+			expect(mockExecuteSwap).toHaveBeenCalledTimes(1);
+			expect(mockCreateErrorResponse).toHaveBeenCalledWith(
+				expect.objectContaining({ code: "QUOTE_EXPIRED" }),
+				"confirm-swap",
+				undefined
+			);
+		});
+	});
+
+	describe("swap policy", () => {
+		const route = {
+			success: true,
+			inputToken: { symbol: "ETH", address: "0xeth", decimals: "18", price: "3000" },
+			inputAmount: "1000000000000000000",
+			outputToken: { symbol: "USDC", address: "0xusdc", decimals: "6", price: "1" },
+			outputAmount: "3000000000",
+		};
+		const swapArgs = {
+			amountWei: "1000000000000000000",
+			tokenInAddress: "ETH",
+			tokenOutAddress: "USDC",
+			chainName: "base",
+		};
+
+		beforeEach(() => {
+			mockValidateChainConfig.mockReturnValue({ isValid: true, errors: [] });
+			mockValidateSwapParams.mockReturnValue({ isValid: true, errors: [] });
+			mockGetWalletAddress.mockResolvedValue("0xwallet");
+			mockGetChainConfig.mockReturnValue({
+				rpcUrl: "https://rpc.example",
+				privateKey: "0x1",
+			});
+			mockRouter.getBestRoute.mockResolvedValue(route);
+			mockExecuteSwap.mockResolvedValue({ success: true, transactionHash: "0xswap" });
+		});
+
+		afterEach(() => {
+			jest.useRealTimers();
+		});
+
+		it("should block swaps that break the policy before executing", async () => {
+			mockGetSwapPolicy.mockReturnValue({ maxSwapUsd: 1000 });
+
+			await executeSwapHandler(swapArgs, mockRouter as any);
+
+			expect(mockExecuteSwap).not.toHaveBeenCalled();
+			expect(mockCreateErrorResponse).toHaveBeenCalledWith(
+				expect.objectContaining({
+					code: "POLICY_VIOLATION",
+					details: {
+						violations: [expect.objectContaining({ rule: "maxSwapUsd" })],
+					},
+				}),
+				"execute-swap",
+				"base"
+			);
+		});
+
+		it("should execute swaps within the policy", async () => {
+			mockGetSwapPolicy.mockReturnValue({ allowedTokens: ["ETH", "USDC"] });
+
+			await executeSwapHandler(swapArgs, mockRouter as any);
+
+			expect(mockExecuteSwap).toHaveBeenCalled();
+		});
+
+		it("should count a swap in flight towards the daily cap", async () => {
+			// A day no earlier test has spent on
+			jest.useFakeTimers({ now: Date.UTC(2035, 0, 1), doNotFake: ["setImmediate"] });
+			mockGetSwapPolicy.mockReturnValue({ maxDailyUsd: 4000 });
+			const reverted = {
+				success: false,
+				error: "Swap transaction reverted",
+				errorCode: "TRANSACTION_REVERTED",
+			};
+			// The second $3000 swap starts while the first is still executing
+			mockExecuteSwap.mockImplementationOnce(async () => {
+				await executeSwapHandler(swapArgs, mockRouter as any);
+				return reverted;
+			});
+			mockExecuteSwap.mockResolvedValue(reverted);
+
+			await executeSwapHandler(swapArgs, mockRouter as any);
+
+			expect(mockExecuteSwap).toHaveBeenCalledTimes(1);
+			expect(mockCreateErrorResponse).toHaveBeenCalledWith(
+				expect.objectContaining({
+					code: "POLICY_VIOLATION",
+					details: { violations: [expect.objectContaining({ rule: "maxDailyUsd" })] },
+				}),
+				"execute-swap",
+				"base"
+			);
+
+			// The reverted swap released its reservation
+			await executeSwapHandler(swapArgs, mockRouter as any);
+			expect(mockExecuteSwap).toHaveBeenCalledTimes(2);
+		});
+
+		it("should only keep the spend of timed-out swaps that may still be mined", async () => {
+			// A day no earlier test has spent on
+			jest.useFakeTimers({ now: Date.UTC(2036, 0, 1), doNotFake: ["setImmediate"] });
+			mockGetSwapPolicy.mockReturnValue({ maxDailyUsd: 4000 });
+			const timedOut = {
+				success: false,
+				error: "Timed out",
+				errorCode: "TRANSACTION_TIMEOUT",
+			};
+			mockExecuteSwap
+				// The approval got stuck, so the swap was never sent
+				.mockResolvedValueOnce(timedOut)
+				// The stuck swap was replaced by a cancel
+				.mockResolvedValueOnce({
+					...timedOut,
+					transactionHash: "0xcancel",
+					replacements: [
+						{
+							stage: "swap",
+							action: "cancel",
+							originalHash: "0xswap",
+							replacementHash: "0xcancel",
+							outcome: "replaced",
+						},
+					],
+				})
+				// The swap is still pending
+				.mockResolvedValueOnce({ ...timedOut, transactionHash: "0xswap" });
+
+			for (let i = 0; i < 4; i++) {
+				await executeSwapHandler(swapArgs, mockRouter as any);
+			}
+
+			expect(mockExecuteSwap).toHaveBeenCalledTimes(3);
+			expect(mockCreateErrorResponse).toHaveBeenLastCalledWith(
+				expect.objectContaining({ code: "POLICY_VIOLATION" }),
+				"execute-swap",
+				"base"
+			);
+		});
+
+		it("should not fetch a route when no policy is configured", async () => {
+			await executeSwapHandler(swapArgs, mockRouter as any);
+
+			expect(mockRouter.getBestRoute).not.toHaveBeenCalled();
+			expect(mockExecuteSwap).toHaveBeenCalled();
+		});
+
+		it("should record policy rejections as failed swaps", async () => {
+			mockGetSwapPolicy.mockReturnValue({ deniedTokens: ["USDC"] });
+
+			await executeSwapHandler(swapArgs, mockRouter as any);
+
+			expect(mockRecordSwap).toHaveBeenCalledWith(
+				expect.objectContaining({ status: "failed", errorCode: "POLICY_VIOLATION" }),
+				"/tmp/fibrous-history"
+			);
+		});
+
+		it("should refuse to prepare a quote the policy would block", async () => {
+			mockEstimateSwapGas.mockResolvedValue({});
+			mockGetSwapPolicy.mockReturnValue({ deniedTokens: ["USDC"] });
+
+			await prepareSwapHandler(swapArgs, mockRouter as any);
+
+			expect(mockCreateErrorResponse).toHaveBeenCalledWith(
+				expect.objectContaining({ code: "POLICY_VIOLATION" }),
+				"prepare-swap",
+				"base"
+			);
+		});
+	});
+
+	describe("swap history", () => {
+		const swapArgs = {
+			amountWei: "1000000",
+			tokenInAddress: "0xusdc",
+			tokenOutAddress: "0xweth",
+			chainName: "base",
+		};
+
+		beforeEach(() => {
+			mockValidateChainConfig.mockReturnValue({ isValid: true, errors: [] });
+			mockValidateSwapParams.mockReturnValue({ isValid: true, errors: [] });
+			mockGetChainConfig.mockReturnValue({
+				rpcUrl: "https://rpc.example",
+				privateKey: "0x1",
+			});
+		});
+
+		it("should record executed swaps", async () => {
+			mockExecuteSwap.mockResolvedValue({
+				success: true,
+				transactionHash: "0xswap",
+				explorerUrl: "https://basescan.org/tx/0xswap",
+				gasUsed: "150000",
+			});
+
+			await executeSwapHandler(swapArgs, mockRouter as any);
+
+			expect(mockRecordSwap).toHaveBeenCalledWith(
+				expect.objectContaining({
+					chainName: "base",
+					status: "executed",
+					params: expect.objectContaining({
+						amount: "1000000",
+						tokenInAddress: "0xusdc",
+					}),
+					amount: { wei: "1000000", human: "1", decimals: 18 },
+					transactionHash: "0xswap",
+					explorerUrl: "https://basescan.org/tx/0xswap",
+					gasUsed: "150000",
+					startedAt: expect.any(String),
+					completedAt: expect.any(String),
+				}),
+				"/tmp/fibrous-history"
+			);
+		});
+
+		it("should record dry runs as simulated", async () => {
+			mockExecuteSwap.mockResolvedValue({ success: true, simulated: true });
+
+			await executeSwapHandler({ ...swapArgs, dryRun: true }, mockRouter as any);
+
+			expect(mockRecordSwap).toHaveBeenCalledWith(
+				expect.objectContaining({ status: "simulated" }),
+				expect.any(String)
+			);
+		});
+
+		it("should not fail the swap when the history cannot be written", async () => {
+			mockExecuteSwap.mockResolvedValue({ success: true, transactionHash: "0xswap" });
+			mockRecordSwap.mockRejectedValue(new Error("EACCES: permission denied"));
+
+			await executeSwapHandler(swapArgs, mockRouter as any);
+
+			expect(mockCreateSuccessResponse).toHaveBeenCalledWith(
+				expect.objectContaining({ success: true, transactionHash: "0xswap" }),
+				"Swap executed successfully on base"
+			);
+		});
+
+		it("should query the history with resolved filters", async () => {
+			mockResolveTokenAddresses.mockResolvedValue(["0xusdc"]);
+			mockQuerySwapHistory.mockResolvedValue([{ id: "1" }]);
+
+			await getSwapHistoryHandler(
+				{ chainName: "base", token: "USDC", status: "failed", from: "2026-01-01" },
+				mockRouter as any
+			);
+
+			expect(mockQuerySwapHistory).toHaveBeenCalledWith(
+				{
+					chainName: "base",
+					token: "0xusdc",
+					status: "failed",
+					from: new Date("2026-01-01"),
+					to: undefined,
+					limit: undefined,
+				},
+				"/tmp/fibrous-history"
+			);
+			expect(mockCreateSuccessResponse).toHaveBeenCalledWith(
+				{ count: 1, swaps: [{ id: "1" }] },
+				"Swap history: 1 swaps"
+			);
+		});
+
+		it("should require a chain to filter by token symbol", async () => {
+			await getSwapHistoryHandler({ token: "USDC" }, mockRouter as any);
+
+			expect(mockQuerySwapHistory).not.toHaveBeenCalled();
+			expect(mockCreateErrorResponse).toHaveBeenCalledWith(
+				expect.objectContaining({ code: "INVALID_PARAMS" }),
+				"get-swap-history",
+				undefined
+			);
+		});
+
+		it("should reject invalid dates", async () => {
+			await getSwapHistoryHandler({ from: "yesterday" }, mockRouter as any);
+
+			expect(mockCreateErrorResponse).toHaveBeenCalledWith(
+				expect.objectContaining({ message: "from must be an ISO date, got: yesterday" }),
+				"get-swap-history",
+				undefined
+			);
+		});
+	});
+
+	describe("transaction status", () => {
+		const hash = "0x" + "ab".repeat(32);
+
+		it("should report the transaction status with its confirmations", async () => {
+			const status = {
+				chainName: "base",
+				transactionHash: hash,
+				status: "confirmed",
+				blockNumber: "100",
+				confirmations: 3,
+				explorerUrl: `https://basescan.org/tx/${hash}`,
+			};
+			mockGetTransactionStatus.mockResolvedValue(status);
+
+			await getTransactionStatusHandler({ chainName: "base", transactionHash: hash });
+
+			expect(mockGetTransactionStatus).toHaveBeenCalledWith(
+				hash,
+				"base",
+				"https://rpc.example"
+			);
+			expect(mockCreateSuccessResponse).toHaveBeenCalledWith(
+				status,
+				`Transaction ${hash} on base: confirmed (3 confirmations)`
+			);
+		});
+
+		it("should reject malformed hashes", async () => {
+			await getTransactionStatusHandler({ chainName: "base", transactionHash: "abc" });
+
+			expect(mockGetTransactionStatus).not.toHaveBeenCalled();
+			expect(mockCreateErrorResponse).toHaveBeenCalledWith(
+				expect.objectContaining({ code: "INVALID_PARAMS" }),
+				"get-transaction-status",
+				"base"
+			);
+		});
+
+		it("should require full-length EVM hashes", async () => {
+			await getTransactionStatusHandler({ chainName: "base", transactionHash: "0xabc" });
+
+			expect(mockGetTransactionStatus).not.toHaveBeenCalled();
+			expect(mockCreateErrorResponse).toHaveBeenCalledWith(
+				expect.objectContaining({ code: "INVALID_PARAMS" }),
+				"get-transaction-status",
+				"base"
+			);
+		});
+
+		it("should accept Starknet hashes without leading zeros", async () => {
+			mockGetTransactionStatus.mockResolvedValue({ status: "pending" });
+
+			await getTransactionStatusHandler({ chainName: "starknet", transactionHash: "0xabc" });
+
+			expect(mockGetTransactionStatus).toHaveBeenCalledWith(
+				"0xabc",
+				"starknet",
+				"https://rpc.example"
+			);
+		});
+	});
 });
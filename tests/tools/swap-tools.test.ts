@@ -233,7 +233,12 @@ describe("Swap Tools", () => {
 			mockEstimateSwapGas.mockResolvedValue({
 				gasEstimate: "150000",
 				gasPrice: "1000000000",
+				l2ExecutionFee: "150000000000000",
+				l1DataFee: "0",
+				totalFee: "150000000000000",
 				estimatedCost: "150000000000000",
+				feeToken: "ETH",
+				source: "rpc",
 			});
 
 			const result = await estimateSwapHandler(validEstimateArgs);
@@ -286,7 +291,12 @@ describe("Swap Tools", () => {
 			mockEstimateSwapGas.mockResolvedValue({
 				gasEstimate: "150000",
 				gasPrice: "1000000000",
+				l2ExecutionFee: "150000000000000",
+				l1DataFee: "0",
+				totalFee: "150000000000000",
 				estimatedCost: "150000000000000",
+				feeToken: "ETH",
+				source: "rpc",
 			});
 
 			await estimateSwapHandler(argsWithoutSlippage);
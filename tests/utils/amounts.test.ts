@@ -3,6 +3,7 @@ import {
 	toBigInt,
 	createTestAmount,
 	formatAmountPretty,
+	toUsdValue,
 	bigintToString,
 } from "../../src/utils/amounts.js";
 
@@ -127,6 +128,19 @@ describe("Amount Utilities", () => {
 		});
 	});
 
+	describe("toUsdValue", () => {
+		test("should value an amount at the token price", () => {
+			expect(toUsdValue("1500000000000000000", 18, "3000")).toBe(4500);
+			expect(toUsdValue("2500000", "6", "1")).toBe(2.5);
+		});
+
+		test("should return undefined without a usable price", () => {
+			expect(toUsdValue("1000000", 6, null)).toBeUndefined();
+			expect(toUsdValue("1000000", 6, "0")).toBeUndefined();
+			expect(toUsdValue("1000000", 6, "n/a")).toBeUndefined();
+		});
+	});
+
 	describe("bigintToString", () => {
 		test("should convert bigint to string", () => {
 			const bi = 1234567890n;
@@ -0,0 +1,318 @@
+import {
+	analyzeRoute,
+	buildPriceLadder,
+	getChainQuote,
+	getLadderAmounts,
+	getReferenceAmount,
+	getRouteRate,
+	rankChainQuotes,
+} from "../../src/utils/analysis";
+
+describe("Route Analysis Utilities", () => {
+	const swap = (protocol: number, fromTokenAddress: string, toTokenAddress: string) => ({
+		protocol,
+		poolId: "1",
+		poolAddress: "0xpool",
+		poolName: "Pool",
+		fromTokenAddress,
+		toTokenAddress,
+		percent: "100%",
+	});
+	const route = (overrides: Record<string, unknown> = {}) =>
+		({
+			inputToken: { address: "0xeth", symbol: "ETH", decimals: "18", price: "3000" },
+			inputAmount: "10000000000000000000",
+			outputToken: { address: "0xusdc", symbol: "USDC", decimals: "6", price: "1" },
+			outputAmount: "29700000000",
+			estimatedGasUsedInUsd: "0.12",
+			route: [
+				{
+					percent: "100%",
+					swaps: [[swap(901, "0xeth", "0xusdc")]],
+				},
+			],
+			...overrides,
+		}) as any;
+
+	// A small quote at 2999 USDC per ETH
+	const referenceRoute = route({
+		inputAmount: "4000000000000000",
+		outputAmount: "11996000",
+	});
+
+	describe("getRouteRate", () => {
+		it("should return output tokens per input token", () => {
+			expect(getRouteRate(route())).toBe(2970);
+		});
+	});
+
+	describe("getReferenceAmount", () => {
+		it("should reference about $10 of a priced input token", () => {
+			expect(getReferenceAmount(10n ** 19n, { decimals: "18", price: "3000" } as any)).toBe(
+				3333000000000000n
+			);
+		});
+
+		it("should cap the reference at a tenth of the trade", () => {
+			expect(getReferenceAmount(10000000n, { decimals: "6", price: "1" } as any)).toBe(
+				1000000n
+			);
+		});
+
+		it("should use a thousandth of the trade for unpriced tokens", () => {
+			expect(getReferenceAmount(10n ** 18n, { decimals: "18", price: null } as any)).toBe(
+				10n ** 15n
+			);
+			expect(getReferenceAmount(999n, { decimals: "18", price: null } as any)).toBe(
+				undefined
+			);
+		});
+	});
+
+	describe("analyzeRoute", () => {
+		it("should measure the route against the reference quote", () => {
+			expect(analyzeRoute(route(), referenceRoute, { inputValueUsd: "30000.00" })).toEqual({
+				effectiveRate: "2970",
+				inverseRate: "0.00033670034",
+				referenceRate: "2999",
+				priceImpact: "0.97",
+				hops: 1,
+				splits: 1,
+				protocols: ["Protocol 901"],
+				gasCostUsd: "0.12",
+				gasAsPercentOfTrade: "0.00",
+				riskGrade: "B",
+				riskFactors: ["Price impact 0.97%"],
+			});
+		});
+
+		it("should grade by the worst risk factor", () => {
+			const analysis = analyzeRoute(
+				route({
+					outputToken: {
+						address: "0xpepe",
+						symbol: "PEPE",
+						decimals: "18",
+						price: null,
+						verified: false,
+					},
+					outputAmount: "1000000000000000000000",
+					estimatedGasUsedInUsd: "4",
+				}),
+				undefined,
+				{ inputValueUsd: "100.00" }
+			);
+
+			expect(analysis.priceImpact).toBeUndefined();
+			expect(analysis.riskGrade).toBe("C");
+			expect(analysis.riskFactors).toEqual([
+				"Price impact unknown: no reference quote",
+				"Gas is 4.00% of the trade",
+				"PEPE is not a verified token",
+			]);
+		});
+
+		it("should grade high price impact as D and count hops and protocols", () => {
+			const analysis = analyzeRoute(
+				route({
+					outputAmount: "27000000000",
+					route: [
+						{
+							percent: "50%",
+							swaps: [
+								[swap(901, "0xeth", "0xa")],
+								[swap(902, "0xa", "0xb")],
+								[swap(901, "0xb", "0xc")],
+								[swap(903, "0xc", "0xusdc")],
+							],
+						},
+						{ percent: "50%", swaps: [[swap(902, "0xeth", "0xusdc")]] },
+					],
+				}),
+				referenceRoute,
+				{ inputValueUsd: "30000.00" }
+			);
+
+			expect(analysis).toMatchObject({
+				priceImpact: "9.97",
+				hops: 4,
+				splits: 2,
+				protocols: ["Protocol 901", "Protocol 902", "Protocol 903"],
+				riskGrade: "D",
+				riskFactors: ["Price impact 9.97%", "4 hops"],
+			});
+		});
+	});
+
+	describe("getLadderAmounts", () => {
+		it("should sort and deduplicate listed amounts", () => {
+			expect(getLadderAmounts({ amounts: ["10", "1", "5", "1"] }, 6)).toEqual([
+				"1000000",
+				"5000000",
+				"10000000",
+			]);
+		});
+
+		it("should space a range evenly and skip a zero start", () => {
+			expect(getLadderAmounts({ range: { start: "0", end: "3", steps: 4 } }, 6)).toEqual([
+				"1000000",
+				"2000000",
+				"3000000",
+			]);
+		});
+
+		it("should reject malformed ladders", () => {
+			expect(() => getLadderAmounts({}, 6)).toThrow("Provide either amounts or");
+			expect(() =>
+				getLadderAmounts({ amounts: ["1"], range: { start: "1", end: "2", steps: 2 } }, 6)
+			).toThrow("Provide either amounts or");
+			expect(() =>
+				getLadderAmounts({ range: { start: "2", end: "1", steps: 3 } }, 6)
+			).toThrow("greater than its start");
+			expect(() =>
+				getLadderAmounts({ range: { start: "1", end: "100", steps: 21 } }, 6)
+			).toThrow("at most 20 steps");
+		});
+	});
+
+	describe("buildPriceLadder", () => {
+		const fetchRoute = jest.fn();
+
+		beforeEach(() => {
+			// 3000 USDC per ETH for the first ETH, then 2900 per extra ETH
+			fetchRoute.mockImplementation(async (amount: string) => {
+				const eth = Number(BigInt(amount) / 10n ** 15n) / 1000;
+				if (eth > 5) throw new Error("Insufficient liquidity");
+				const usdc = Math.min(eth, 1) * 3000 + Math.max(eth - 1, 0) * 2900;
+				return route({ inputAmount: amount, outputAmount: String(usdc * 1e6) });
+			});
+		});
+
+		it("should report output, marginal rate and price impact per step", async () => {
+			const steps = await buildPriceLadder(
+				["1000000000000000000", "2000000000000000000"],
+				18,
+				fetchRoute,
+				3000
+			);
+
+			expect(steps).toEqual([
+				{
+					amount: { wei: "1000000000000000000", human: "1" },
+					outputAmount: { raw: "3000000000", formatted: "3000" },
+					rate: "3000",
+					marginalRate: "3000",
+					priceImpact: "0.00",
+				},
+				{
+					amount: { wei: "2000000000000000000", human: "2" },
+					outputAmount: { raw: "5900000000", formatted: "5900" },
+					rate: "2950",
+					marginalRate: "2900",
+					priceImpact: "1.67",
+				},
+			]);
+		});
+
+		it("should fetch a few routes at a time and keep failed steps", async () => {
+			let active = 0;
+			let maxActive = 0;
+			const tracked = async (amount: string) => {
+				maxActive = Math.max(maxActive, ++active);
+				await new Promise((resolve) => setTimeout(resolve, 1));
+				active--;
+				return fetchRoute(amount);
+			};
+			const amounts = [1, 2, 3, 4, 5, 6].map((eth) => (BigInt(eth) * 10n ** 18n).toString());
+
+			const steps = await buildPriceLadder(amounts, 18, tracked);
+
+			expect(maxActive).toBe(4);
+			expect(steps).toHaveLength(6);
+			expect(steps[4]).not.toHaveProperty("priceImpact");
+			expect(steps[5]).toEqual({
+				amount: { wei: "6000000000000000000", human: "6" },
+				error: "Insufficient liquidity",
+				errorCode: "UNKNOWN_ERROR",
+			});
+		});
+	});
+
+	describe("getChainQuote / rankChainQuotes", () => {
+		const amount = { wei: "10000000000000000000", human: "10" };
+
+		it("should take the gas cost off the output", () => {
+			expect(
+				getChainQuote("base", amount, route(), {
+					outputValueUsd: "29700.00",
+					gasCostUsd: "0.12",
+				})
+			).toEqual({
+				chainName: "base",
+				amount,
+				outputAmount: { raw: "29700000000", formatted: "29700" },
+				outputValueUsd: "29700.00",
+				gasCostUsd: "0.12",
+				netOutput: "29699.88",
+				gasIncluded: true,
+			});
+		});
+
+		it("should fall back to the gross output when the output is unpriced", () => {
+			expect(getChainQuote("scroll", amount, route(), { gasCostUsd: "0.12" })).toMatchObject({
+				gasCostUsd: "0.12",
+				netOutput: "29700",
+				gasIncluded: false,
+			});
+		});
+
+		it("should ignore the router's own gas estimate", () => {
+			expect(
+				getChainQuote("base", amount, route(), { outputValueUsd: "29700.00" })
+			).toMatchObject({ netOutput: "29700", gasIncluded: false });
+		});
+
+		it("should rank chains by net output", () => {
+			const base = getChainQuote("base", amount, route(), {
+				outputValueUsd: "29700.00",
+				gasCostUsd: "30",
+			});
+			const starknet = getChainQuote("starknet", amount, route(), {
+				outputValueUsd: "29700.00",
+				gasCostUsd: "0.12",
+			});
+
+			expect(
+				rankChainQuotes([base, starknet]).map(({ rank, chainName }) => [rank, chainName])
+			).toEqual([
+				[1, "starknet"],
+				[2, "base"],
+			]);
+		});
+
+		it("should rank quotes without gas after those net of gas", () => {
+			const base = getChainQuote("base", amount, route(), {
+				outputValueUsd: "29700.00",
+				gasCostUsd: "30",
+			});
+			const scroll = getChainQuote("scroll", amount, route(), { outputValueUsd: "29700.00" });
+			const starknet = getChainQuote(
+				"starknet",
+				amount,
+				route({ outputAmount: "29600000000" }),
+				{}
+			);
+
+			expect(
+				rankChainQuotes([scroll, starknet, base]).map(({ rank, chainName }) => [
+					rank,
+					chainName,
+				])
+			).toEqual([
+				[1, "base"],
+				[2, "scroll"],
+				[3, "starknet"],
+			]);
+		});
+	});
+});
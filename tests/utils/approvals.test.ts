@@ -0,0 +1,246 @@
+// Mock external dependencies
+const mockGetServerConfig = jest.fn();
+
+jest.mock("../../src/utils/config", () => ({
+	getServerConfig: mockGetServerConfig,
+}));
+
+jest.mock("viem", () => ({
+	createPublicClient: jest.fn(),
+	createWalletClient: jest.fn(),
+	http: jest.fn(),
+	parseUnits: jest.requireActual("viem").parseUnits,
+	erc20Abi: [],
+}));
+
+jest.mock("viem/accounts", () => ({
+	privateKeyToAccount: jest.fn(),
+}));
+
+jest.mock("viem/chains", () => ({
+	base: { id: 8453 },
+	scroll: { id: 534352 },
+}));
+
+const mockRpcProvider = jest.fn();
+const mockAccount = jest.fn();
+
+jest.mock("starknet", () => ({
+	RpcProvider: mockRpcProvider,
+	Account: mockAccount,
+}));
+
+import { getApprovalAmount, isUnlimitedAllowance, revokeApproval } from "../../src/utils/approvals";
+import { createPublicClient, createWalletClient } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+describe("Approval Utilities", () => {
+	describe("getApprovalAmount", () => {
+		it("should approve the exact amount by default", () => {
+			expect(getApprovalAmount(100n)).toBe(100n);
+			expect(getApprovalAmount(100n, { mode: "exact" })).toBe(100n);
+		});
+
+		it("should approve the max uint256 when unlimited", () => {
+			expect(getApprovalAmount(100n, { mode: "unlimited" })).toBe(MAX_UINT256);
+		});
+
+		it("should approve the token's cap, but never less than the amount", () => {
+			const policy = {
+				mode: "capped" as const,
+				caps: [
+					{ token: "USDC", amount: "1000" },
+					{ token: "0x4200000000000000000000000000000000000006", amount: "0.5" },
+				],
+			};
+			const usdc = {
+				address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+				symbol: "usdc",
+				decimals: "6",
+			};
+			const weth = { address: "0x4200000000000000000000000000000000000006", decimals: 18 };
+
+			expect(getApprovalAmount(100n, policy, usdc)).toBe(1000000000n);
+			expect(getApprovalAmount(5000000000n, policy, usdc)).toBe(5000000000n);
+			expect(getApprovalAmount(100n, policy, weth)).toBe(500000000000000000n);
+		});
+
+		it("should approve the exact amount for tokens without a cap", () => {
+			const policy = { mode: "capped" as const, caps: [{ token: "USDC", amount: "1000" }] };
+
+			expect(
+				getApprovalAmount(100n, policy, { address: "0xdai", symbol: "DAI", decimals: 18 })
+			).toBe(100n);
+			expect(getApprovalAmount(100n, policy)).toBe(100n);
+		});
+	});
+
+	describe("isUnlimitedAllowance", () => {
+		it("should treat near-max allowances as unlimited", () => {
+			expect(isUnlimitedAllowance(MAX_UINT256)).toBe(true);
+			expect(isUnlimitedAllowance(MAX_UINT256 - 10n ** 24n)).toBe(true);
+			expect(isUnlimitedAllowance(10n ** 30n)).toBe(false);
+		});
+	});
+
+	describe("revokeApproval", () => {
+		const token = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+		const spender = "0x274602a953847d807231d2370072F5f4E4594B44";
+		const evmConfig = {
+			rpcUrl: "https://mainnet.base.org",
+			privateKey: "0x1234567890123456789012345678901234567890123456789012345678901234",
+		};
+
+		const mockPublicClient = {
+			readContract: jest.fn(),
+			estimateFeesPerGas: jest.fn(),
+			waitForTransactionReceipt: jest.fn(),
+		};
+		const mockWalletClient = {
+			writeContract: jest.fn(),
+		};
+
+		beforeEach(() => {
+			(createPublicClient as jest.Mock).mockReturnValue(mockPublicClient);
+			(createWalletClient as jest.Mock).mockReturnValue(mockWalletClient);
+			(privateKeyToAccount as jest.Mock).mockReturnValue({
+				address: "0x1234567890123456789012345678901234567890",
+			});
+			mockGetServerConfig.mockReturnValue({
+				feeStrategy: "standard",
+				gasPriceMultiplier: 1.2,
+				transactionTimeout: 300,
+				stuckTransactionPolicy: { action: "none", feeBump: 20 },
+			});
+			mockWalletClient.writeContract.mockResolvedValue("0xrevokehash");
+			mockPublicClient.estimateFeesPerGas.mockResolvedValue({
+				maxFeePerGas: BigInt("30000000000"),
+				maxPriorityFeePerGas: BigInt("1000000000"),
+			});
+			mockPublicClient.waitForTransactionReceipt.mockResolvedValue({ status: "success" });
+		});
+
+		it("should approve zero on EVM chains", async () => {
+			mockPublicClient.readContract.mockResolvedValue(BigInt(500));
+
+			const result = await revokeApproval(token, spender, "base", evmConfig);
+
+			expect(mockWalletClient.writeContract).toHaveBeenCalledWith(
+				expect.objectContaining({
+					address: token,
+					functionName: "approve",
+					args: [spender, 0n],
+					maxFeePerGas: BigInt("30000000000"),
+					maxPriorityFeePerGas: BigInt("1000000000"),
+				})
+			);
+			expect(result).toEqual({
+				chainName: "base",
+				tokenAddress: token,
+				spender,
+				previousAllowance: "500",
+				revoked: true,
+				transactionHash: "0xrevokehash",
+				explorerUrl: "https://basescan.org/tx/0xrevokehash",
+			});
+			expect(mockPublicClient.waitForTransactionReceipt).toHaveBeenCalledWith({
+				hash: "0xrevokehash",
+				timeout: 300000,
+			});
+		});
+
+		it("should not send a transaction when there is no allowance", async () => {
+			mockPublicClient.readContract.mockResolvedValue(BigInt(0));
+
+			const result = await revokeApproval(token, spender, "base", evmConfig);
+
+			expect(result.revoked).toBe(false);
+			expect(mockWalletClient.writeContract).not.toHaveBeenCalled();
+		});
+
+		it("should fail when the revoke transaction reverts", async () => {
+			mockPublicClient.readContract.mockResolvedValue(BigInt(500));
+			mockPublicClient.waitForTransactionReceipt.mockResolvedValue({ status: "reverted" });
+
+			await expect(revokeApproval(token, spender, "base", evmConfig)).rejects.toMatchObject({
+				code: "TRANSACTION_REVERTED",
+			});
+		});
+
+		it("should reject native ETH", async () => {
+			await expect(
+				revokeApproval(
+					"0x0000000000000000000000000000000000000000",
+					spender,
+					"base",
+					evmConfig
+				)
+			).rejects.toMatchObject({ code: "INVALID_PARAMS" });
+		});
+
+		it("should approve zero on Starknet", async () => {
+			const execute = jest.fn().mockResolvedValue({ transaction_hash: "0xstarkhash" });
+			const waitForTransaction = jest
+				.fn()
+				.mockResolvedValue({ execution_status: "SUCCEEDED" });
+			mockRpcProvider.mockImplementation(() => ({
+				callContract: jest.fn().mockResolvedValue(["0x10", "0x0"]),
+				waitForTransaction,
+			}));
+			mockAccount.mockImplementation(() => ({ execute }));
+
+			const result = await revokeApproval(
+				"0x053c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8",
+				"0x00f6f4cf62e3c010e0ac2451cc7807b5eec19a40b0faacd00cca3914280fdf5a",
+				"starknet",
+				{
+					rpcUrl: "https://starknet-mainnet.public.blastapi.io",
+					privateKey: "0x1234",
+					publicKey: "0x4567",
+				}
+			);
+
+			expect(execute).toHaveBeenCalledWith([
+				expect.objectContaining({
+					entrypoint: "approve",
+					calldata: [
+						"0x00f6f4cf62e3c010e0ac2451cc7807b5eec19a40b0faacd00cca3914280fdf5a",
+						"0",
+						"0",
+					],
+				}),
+			]);
+			expect(waitForTransaction).toHaveBeenCalledWith("0xstarkhash");
+			expect(result).toMatchObject({
+				previousAllowance: "16",
+				revoked: true,
+				explorerUrl: "https://starkscan.co/tx/0xstarkhash",
+			});
+		});
+
+		it("should fail when the Starknet revoke reverts", async () => {
+			mockRpcProvider.mockImplementation(() => ({
+				callContract: jest.fn().mockResolvedValue(["0x10", "0x0"]),
+				waitForTransaction: jest.fn().mockResolvedValue({ execution_status: "REVERTED" }),
+			}));
+			mockAccount.mockImplementation(() => ({
+				execute: jest.fn().mockResolvedValue({ transaction_hash: "0xstarkhash" }),
+			}));
+
+			await expect(
+				revokeApproval(
+					"0x053c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8",
+					"0x00f6f4cf62e3c010e0ac2451cc7807b5eec19a40b0faacd00cca3914280fdf5a",
+					"starknet",
+					{
+						rpcUrl: "https://starknet-mainnet.public.blastapi.io",
+						privateKey: "0x1234",
+						publicKey: "0x4567",
+					}
+				)
+			).rejects.toMatchObject({ code: "TRANSACTION_REVERTED" });
+		});
+	});
+});
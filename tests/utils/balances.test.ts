@@ -0,0 +1,234 @@
+// Mock external dependencies
+jest.mock("viem", () => ({
+	...jest.requireActual("viem"),
+	createPublicClient: jest.fn(),
+	http: jest.fn(),
+	erc20Abi: [],
+}));
+
+jest.mock("viem/chains", () => ({
+	base: { id: 8453 },
+	scroll: { id: 534352 },
+}));
+
+const mockRpcProvider = jest.fn();
+
+jest.mock("starknet", () => ({
+	RpcProvider: mockRpcProvider,
+}));
+
+import { getWalletBalances } from "../../src/utils/balances";
+import { NATIVE_TOKEN } from "../../src/utils/constants";
+import { createPublicClient } from "viem";
+
+const usdc = {
+	address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+	name: "USD Coin",
+	symbol: "USDC",
+	decimals: "6",
+	price: "1",
+	imageUrl: "",
+	verified: true,
+	category: null,
+} as any;
+
+const dai = {
+	...usdc,
+	address: "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb",
+	name: "Dai",
+	symbol: "DAI",
+	decimals: "18",
+};
+
+const owner = "0x1234567890123456789012345678901234567890";
+const router = "0x274602a953847d807231d2370072F5f4E4594B44";
+
+describe("Balance Utilities", () => {
+	describe("EVM chains", () => {
+		const mockPublicClient = {
+			getBalance: jest.fn(),
+			multicall: jest.fn(),
+		};
+
+		beforeEach(() => {
+			(createPublicClient as jest.Mock).mockReturnValue(mockPublicClient);
+			mockPublicClient.getBalance.mockResolvedValue(1500000000000000000n);
+		});
+
+		it("should read native balance, token balances and router allowances", async () => {
+			mockPublicClient.multicall.mockResolvedValue([
+				{ status: "success", result: 2500000n },
+				{ status: "success", result: 1000000n },
+			]);
+
+			const result = await getWalletBalances(owner, "base", [usdc], {
+				rpcUrl: "https://mainnet.base.org",
+				routerAddress: router,
+			});
+
+			expect(result.native).toEqual({
+				symbol: "ETH",
+				name: "Ether",
+				address: NATIVE_TOKEN.EVM_ADDRESS,
+				decimals: 18,
+				balance: { raw: "1500000000000000000", formatted: "1.5" },
+			});
+			expect(result.tokens).toEqual([
+				expect.objectContaining({
+					symbol: "USDC",
+					decimals: 6,
+					balance: { raw: "2500000", formatted: "2.5" },
+					allowance: { raw: "1000000", formatted: "1" },
+				}),
+			]);
+			expect(mockPublicClient.multicall).toHaveBeenCalledWith(
+				expect.objectContaining({
+					contracts: [
+						expect.objectContaining({ functionName: "balanceOf", args: [owner] }),
+						expect.objectContaining({
+							functionName: "allowance",
+							args: [owner, router],
+						}),
+					],
+				})
+			);
+		});
+
+		it("should hide zero balances unless requested", async () => {
+			const results = [
+				{ status: "success", result: 0n },
+				{ status: "success", result: 0n },
+				{ status: "success", result: 5n },
+				{ status: "success", result: 0n },
+			];
+			mockPublicClient.multicall.mockResolvedValue(results);
+
+			const filtered = await getWalletBalances(owner, "base", [usdc, dai], {
+				rpcUrl: "https://mainnet.base.org",
+				routerAddress: router,
+			});
+			expect(filtered.tokens.map((token) => token.symbol)).toEqual(["DAI"]);
+
+			const all = await getWalletBalances(owner, "base", [usdc, dai], {
+				rpcUrl: "https://mainnet.base.org",
+				routerAddress: router,
+				includeZeroBalances: true,
+			});
+			expect(all.tokens).toHaveLength(2);
+		});
+
+		it("should keep tokens with a zero balance but an open allowance", async () => {
+			mockPublicClient.multicall.mockResolvedValue([
+				{ status: "success", result: 0n },
+				{ status: "success", result: 100n },
+			]);
+
+			const result = await getWalletBalances(owner, "base", [usdc], {
+				rpcUrl: "https://mainnet.base.org",
+				routerAddress: router,
+			});
+
+			expect(result.tokens).toHaveLength(1);
+		});
+
+		it("should report tokens whose balance call failed", async () => {
+			mockPublicClient.multicall.mockResolvedValue([
+				{ status: "failure", error: new Error("execution reverted") },
+			]);
+
+			const result = await getWalletBalances(owner, "scroll", [usdc], {
+				rpcUrl: "https://rpc.scroll.io",
+			});
+
+			expect(result.tokens).toEqual([]);
+			expect(result.failed).toEqual([
+				{ symbol: "USDC", address: usdc.address, error: "execution reverted" },
+			]);
+		});
+
+		it("should skip the native token sentinel when reading ERC20 balances", async () => {
+			const eth = { ...usdc, address: NATIVE_TOKEN.EVM_ADDRESS, symbol: "ETH" };
+
+			const result = await getWalletBalances(owner, "base", [eth], {
+				rpcUrl: "https://mainnet.base.org",
+			});
+
+			expect(mockPublicClient.multicall).not.toHaveBeenCalled();
+			expect(result.tokens).toEqual([]);
+		});
+	});
+
+	describe("Starknet", () => {
+		const starknetOwner = "0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef";
+		const strk = {
+			...usdc,
+			address: "0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d",
+			name: "Starknet Token",
+			symbol: "STRK",
+			decimals: "18",
+		};
+		const mockCallContract = jest.fn();
+
+		beforeEach(() => {
+			mockRpcProvider.mockImplementation(() => ({ callContract: mockCallContract }));
+		});
+
+		it("should read u256 balances and allowances", async () => {
+			mockCallContract.mockImplementation(async ({ contractAddress, entrypoint }) => {
+				if (contractAddress === NATIVE_TOKEN.STARKNET_ETH_ADDRESS) {
+					return ["0xde0b6b3a7640000", "0x0"]; // 1 ETH
+				}
+				return entrypoint === "allowance" ? ["0x0", "0x0"] : ["0x1bc16d674ec80000", "0x0"];
+			});
+
+			const result = await getWalletBalances(starknetOwner, "starknet", [strk], {
+				rpcUrl: "https://starknet-mainnet.public.blastapi.io",
+				routerAddress: "0x00f6f4cf62e3c010e0ac2451cc7807b5eec19a40b0faacd00cca3914280fdf5a",
+			});
+
+			expect(result.native.balance).toEqual({ raw: "1000000000000000000", formatted: "1" });
+			expect(result.tokens).toEqual([
+				expect.objectContaining({
+					symbol: "STRK",
+					balance: { raw: "2000000000000000000", formatted: "2" },
+					allowance: { raw: "0", formatted: "0" },
+				}),
+			]);
+		});
+
+		it("should fall back to the snake_case balance entrypoint", async () => {
+			mockCallContract.mockImplementation(async ({ entrypoint }) => {
+				if (entrypoint === "balanceOf") {
+					throw new Error("Entry point not found");
+				}
+				return ["0x1", "0x0"];
+			});
+
+			const result = await getWalletBalances(starknetOwner, "starknet", [strk], {
+				rpcUrl: "https://starknet-mainnet.public.blastapi.io",
+			});
+
+			expect(result.tokens[0].balance.raw).toBe("1");
+			expect(mockCallContract).toHaveBeenCalledWith(
+				expect.objectContaining({ entrypoint: "balance_of" })
+			);
+		});
+
+		it("should report tokens whose balance could not be read", async () => {
+			mockCallContract.mockImplementation(async ({ contractAddress }) => {
+				if (contractAddress === NATIVE_TOKEN.STARKNET_ETH_ADDRESS) {
+					return ["0x0", "0x0"];
+				}
+				throw new Error("Contract not found");
+			});
+
+			const result = await getWalletBalances(starknetOwner, "starknet", [strk], {
+				rpcUrl: "https://starknet-mainnet.public.blastapi.io",
+			});
+
+			expect(result.failed).toEqual([
+				{ symbol: "STRK", address: strk.address, error: "Contract not found" },
+			]);
+		});
+	});
+});
@@ -1,3 +1,7 @@
+import { rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
 // Mock process.env for testing
 const originalEnv = process.env;
 
@@ -100,6 +104,300 @@ describe("Configuration Utilities", () => {
 				"Environment variable DEFAULT_SLIPPAGE must be a valid number"
 			);
 		});
+
+		it("should default to exact approvals", async () => {
+			delete process.env.APPROVAL_POLICY;
+
+			const { getServerConfig } = await import("../../src/utils/config");
+
+			expect(getServerConfig().approvalPolicy).toEqual({ mode: "exact" });
+		});
+
+		it("should read a capped approval policy", async () => {
+			process.env.APPROVAL_POLICY = "capped";
+			process.env.APPROVAL_CAP = "USDC:1000, 0x4200000000000000000000000000000000000006:0.5";
+
+			const { getServerConfig } = await import("../../src/utils/config");
+
+			expect(getServerConfig().approvalPolicy).toEqual({
+				mode: "capped",
+				caps: [
+					{ token: "USDC", amount: "1000" },
+					{ token: "0x4200000000000000000000000000000000000006", amount: "0.5" },
+				],
+			});
+		});
+
+		it("should reject invalid approval policies", async () => {
+			const { getServerConfig } = await import("../../src/utils/config");
+
+			process.env.APPROVAL_POLICY = "infinite";
+			expect(() => getServerConfig()).toThrow("APPROVAL_POLICY must be one of");
+
+			process.env.APPROVAL_POLICY = "capped";
+			delete process.env.APPROVAL_CAP;
+			expect(() => getServerConfig()).toThrow(
+				"APPROVAL_CAP must list at least one token cap"
+			);
+
+			process.env.APPROVAL_CAP = "1000000000";
+			expect(() => getServerConfig()).toThrow(
+				'APPROVAL_CAP entries must look like "token:amount"'
+			);
+
+			process.env.APPROVAL_CAP = "USDC:0";
+			expect(() => getServerConfig()).toThrow(
+				'APPROVAL_CAP entries must look like "token:amount"'
+			);
+		});
+
+		it("should read quote lifetime and drift tolerance", async () => {
+			delete process.env.QUOTE_TTL;
+			delete process.env.QUOTE_DRIFT_TOLERANCE;
+
+			const { getServerConfig } = await import("../../src/utils/config");
+			expect(getServerConfig()).toMatchObject({ quoteTtl: 60, quoteDriftTolerance: 0.5 });
+
+			process.env.QUOTE_TTL = "120";
+			process.env.QUOTE_DRIFT_TOLERANCE = "1";
+			expect(getServerConfig()).toMatchObject({ quoteTtl: 120, quoteDriftTolerance: 1 });
+
+			process.env.QUOTE_TTL = "3600";
+			expect(() => getServerConfig()).toThrow("QUOTE_TTL must be <= 600");
+		});
+
+		it("should read the stuck transaction policy", async () => {
+			delete process.env.STUCK_TX_ACTION;
+			delete process.env.STUCK_TX_FEE_BUMP;
+
+			const { getServerConfig } = await import("../../src/utils/config");
+			expect(getServerConfig().stuckTransactionPolicy).toEqual({
+				action: "none",
+				feeBump: 20,
+			});
+
+			process.env.STUCK_TX_ACTION = "speed-up";
+			process.env.STUCK_TX_FEE_BUMP = "50";
+			expect(getServerConfig().stuckTransactionPolicy).toEqual({
+				action: "speed-up",
+				feeBump: 50,
+			});
+
+			process.env.STUCK_TX_FEE_BUMP = "5";
+			expect(() => getServerConfig()).toThrow("STUCK_TX_FEE_BUMP must be >= 10");
+
+			process.env.STUCK_TX_ACTION = "drop";
+			expect(() => getServerConfig()).toThrow("STUCK_TX_ACTION must be one of");
+		});
+
+		it("should read the strict gas estimate flag", async () => {
+			delete process.env.STRICT_GAS_ESTIMATES;
+
+			const { getServerConfig } = await import("../../src/utils/config");
+			expect(getServerConfig().strictGasEstimates).toBe(false);
+
+			process.env.STRICT_GAS_ESTIMATES = "true";
+			expect(getServerConfig().strictGasEstimates).toBe(true);
+
+			process.env.STRICT_GAS_ESTIMATES = "yes";
+			expect(() => getServerConfig()).toThrow("STRICT_GAS_ESTIMATES must be true or false");
+		});
+
+		it("should read the EVM fee strategy", async () => {
+			delete process.env.GAS_FEE_STRATEGY;
+
+			const { getServerConfig } = await import("../../src/utils/config");
+			expect(getServerConfig().feeStrategy).toBe("standard");
+
+			process.env.GAS_FEE_STRATEGY = "fast";
+			expect(getServerConfig().feeStrategy).toBe("fast");
+
+			process.env.GAS_FEE_STRATEGY = "instant";
+			expect(() => getServerConfig()).toThrow("GAS_FEE_STRATEGY must be one of");
+		});
+
+		it("should read slippage overrides by chain and token pair", async () => {
+			delete process.env.SLIPPAGE_BY_CHAIN;
+			delete process.env.SLIPPAGE_BY_PAIR;
+
+			const { getServerConfig } = await import("../../src/utils/config");
+			expect(getServerConfig().slippageOverrides).toEqual({ chains: {}, pairs: [] });
+
+			process.env.SLIPPAGE_BY_CHAIN = "base:0.5, starknet:1";
+			process.env.SLIPPAGE_BY_PAIR = "ETH/USDC:0.3";
+			expect(getServerConfig().slippageOverrides).toEqual({
+				chains: { base: 0.5, starknet: 1 },
+				pairs: [{ tokens: ["ETH", "USDC"], slippage: 0.3 }],
+			});
+
+			process.env.SLIPPAGE_BY_CHAIN = "solana:1";
+			expect(() => getServerConfig()).toThrow("SLIPPAGE_BY_CHAIN has an unsupported chain");
+
+			process.env.SLIPPAGE_BY_CHAIN = "base:90";
+			expect(() => getServerConfig()).toThrow('entries must look like "name:percent"');
+		});
+	});
+
+	describe("getSwapPolicy", () => {
+		const policyFile = join(tmpdir(), `swap-policy-${process.pid}.json`);
+
+		afterEach(() => {
+			rmSync(policyFile, { force: true });
+		});
+
+		it("should enforce nothing by default", async () => {
+			const { getSwapPolicy } = await import("../../src/utils/config");
+
+			expect(getSwapPolicy()).toEqual({});
+		});
+
+		it("should read policy fields from environment variables", async () => {
+			process.env.POLICY_ENABLED_CHAINS = "base, starknet";
+			process.env.POLICY_MAX_SWAP_USD = "500";
+			process.env.POLICY_MAX_DAILY_AMOUNTS = "USDC:5000,ETH:1.5";
+			process.env.POLICY_DENIED_TOKENS = "PEPE";
+
+			const { getSwapPolicy } = await import("../../src/utils/config");
+
+			expect(getSwapPolicy()).toEqual({
+				enabledChains: ["base", "starknet"],
+				maxSwapUsd: 500,
+				maxDailyAmounts: { USDC: "5000", ETH: "1.5" },
+				deniedTokens: ["PEPE"],
+			});
+		});
+
+		it("should read a JSON policy file, with environment variables taking precedence", async () => {
+			writeFileSync(
+				policyFile,
+				JSON.stringify({ maxSwapUsd: 100, maxSlippage: 2, maxSwapAmounts: { ETH: 0.5 } })
+			);
+			process.env.SWAP_POLICY_FILE = policyFile;
+			process.env.POLICY_MAX_SWAP_USD = "250";
+
+			const { getSwapPolicy } = await import("../../src/utils/config");
+
+			expect(getSwapPolicy()).toEqual({
+				maxSwapUsd: 250,
+				maxSlippage: 2,
+				maxSwapAmounts: { ETH: "0.5" },
+			});
+		});
+
+		it("should reject malformed policies", async () => {
+			const { getSwapPolicy } = await import("../../src/utils/config");
+
+			process.env.POLICY_MAX_DAILY_USD = "-1";
+			expect(() => getSwapPolicy()).toThrow("maxDailyUsd must be a non-negative number");
+			delete process.env.POLICY_MAX_DAILY_USD;
+
+			process.env.POLICY_ENABLED_CHAINS = "base,solana";
+			expect(() => getSwapPolicy()).toThrow("unsupported chains: solana");
+			delete process.env.POLICY_ENABLED_CHAINS;
+
+			process.env.POLICY_MAX_SWAP_AMOUNTS = "USDC";
+			expect(() => getSwapPolicy()).toThrow(
+				"maxSwapAmounts must map tokens to positive amounts"
+			);
+			delete process.env.POLICY_MAX_SWAP_AMOUNTS;
+
+			writeFileSync(policyFile, "[1, 2]");
+			process.env.SWAP_POLICY_FILE = policyFile;
+			expect(() => getSwapPolicy()).toThrow("must contain a JSON object");
+		});
+	});
+
+	describe("getTransportConfig", () => {
+		beforeEach(() => {
+			delete process.env.MCP_TRANSPORT;
+			delete process.env.MCP_HOST;
+			delete process.env.MCP_PORT;
+			delete process.env.MCP_AUTH_TOKEN;
+			delete process.env.MCP_ALLOWED_HOSTS;
+			delete process.env.MCP_SESSION_IDLE_TIMEOUT;
+		});
+
+		it("should default to stdio on localhost", async () => {
+			const { getTransportConfig } = await import("../../src/utils/config");
+
+			expect(getTransportConfig([])).toEqual({
+				transport: "stdio",
+				host: "127.0.0.1",
+				port: 3000,
+				authToken: undefined,
+				allowedHosts: ["localhost", "127.0.0.1", "[::1]"],
+				sessionIdleTimeout: 1800,
+			});
+		});
+
+		it("should read the transport from environment variables", async () => {
+			process.env.MCP_TRANSPORT = "http";
+			process.env.MCP_HOST = "0.0.0.0";
+			process.env.MCP_PORT = "8080";
+			process.env.MCP_AUTH_TOKEN = "secret-token";
+			process.env.MCP_ALLOWED_HOSTS = "mcp.example.com, 10.0.0.5";
+			process.env.MCP_SESSION_IDLE_TIMEOUT = "300";
+
+			const { getTransportConfig } = await import("../../src/utils/config");
+
+			expect(getTransportConfig([])).toEqual({
+				transport: "http",
+				host: "0.0.0.0",
+				port: 8080,
+				authToken: "secret-token",
+				allowedHosts: ["localhost", "127.0.0.1", "[::1]", "mcp.example.com", "10.0.0.5"],
+				sessionIdleTimeout: 300,
+			});
+		});
+
+		it("should prefer CLI flags over environment variables", async () => {
+			process.env.MCP_TRANSPORT = "stdio";
+			process.env.MCP_PORT = "8080";
+			process.env.MCP_AUTH_TOKEN = "secret-token";
+
+			const { getTransportConfig } = await import("../../src/utils/config");
+
+			expect(
+				getTransportConfig(["--transport", "http", "--port=9000", "--host", "::"])
+			).toMatchObject({
+				transport: "http",
+				host: "::",
+				port: 9000,
+			});
+		});
+
+		it("should allow the bind host when it is a specific address", async () => {
+			process.env.MCP_AUTH_TOKEN = "secret-token";
+
+			const { getTransportConfig } = await import("../../src/utils/config");
+
+			expect(
+				getTransportConfig(["--transport", "http", "--host", "192.168.1.20"]).allowedHosts
+			).toEqual(["localhost", "127.0.0.1", "[::1]", "192.168.1.20"]);
+		});
+
+		it("should refuse HTTP on a non-loopback host without a token", async () => {
+			const { getTransportConfig } = await import("../../src/utils/config");
+
+			expect(() => getTransportConfig(["--transport", "http", "--host", "0.0.0.0"])).toThrow(
+				"without MCP_AUTH_TOKEN"
+			);
+			expect(getTransportConfig(["--transport", "http", "--host", "127.0.0.2"]).host).toBe(
+				"127.0.0.2"
+			);
+			expect(getTransportConfig(["--host", "0.0.0.0"]).transport).toBe("stdio");
+		});
+
+		it("should reject unknown transports and invalid ports", async () => {
+			const { getTransportConfig } = await import("../../src/utils/config");
+
+			expect(() => getTransportConfig(["--transport", "websocket"])).toThrow(
+				"Transport must be one of stdio, http"
+			);
+			expect(() => getTransportConfig(["--port", "70000"])).toThrow(
+				"Port must be an integer between 1 and 65535"
+			);
+		});
 	});
 
 	describe("getChainConfig", () => {
@@ -143,6 +441,22 @@ describe("Configuration Utilities", () => {
 		});
 	});
 
+	describe("getRpcUrl", () => {
+		it("should prefer the configured RPC URL", async () => {
+			process.env.SCROLL_RPC_URL = "https://scroll.example.com";
+			const { getRpcUrl } = await import("../../src/utils/config");
+
+			expect(getRpcUrl("scroll")).toBe("https://scroll.example.com");
+		});
+
+		it("should fall back to the public RPC URL without wallet configuration", async () => {
+			delete process.env.BASE_RPC_URL;
+			const { getRpcUrl } = await import("../../src/utils/config");
+
+			expect(getRpcUrl("base")).toBe("https://mainnet.base.org");
+		});
+	});
+
 	describe("validateWalletConfig", () => {
 		it("should return valid for complete configuration", async () => {
 			// Set up complete environment
@@ -0,0 +1,99 @@
+import { ERROR_CODES, ERROR_HINTS, ToolError, classifyError } from "../../src/utils/errors";
+
+describe("Error Utilities", () => {
+	describe("ToolError", () => {
+		it("should take retryability from the code by default", () => {
+			expect(new ToolError("RPC_ERROR", "RPC down").retryable).toBe(true);
+			expect(new ToolError("INVALID_ADDRESS", "Bad address").retryable).toBe(false);
+		});
+
+		it("should allow overriding retryability", () => {
+			const error = new ToolError("RPC_ERROR", "Bad request", { retryable: false });
+			expect(error.retryable).toBe(false);
+		});
+	});
+
+	describe("ERROR_HINTS", () => {
+		it("should define a hint for every code", () => {
+			ERROR_CODES.forEach((code) => {
+				expect(ERROR_HINTS[code].hint).toBeTruthy();
+			});
+		});
+	});
+
+	describe("classifyError", () => {
+		it("should keep the code and details of a ToolError", () => {
+			const error = new ToolError("TOKEN_NOT_FOUND", "Unknown token", {
+				details: { symbol: "FOO" },
+			});
+
+			expect(classifyError(error)).toEqual({
+				code: "TOKEN_NOT_FOUND",
+				message: "Unknown token",
+				retryable: false,
+				hint: ERROR_HINTS.TOKEN_NOT_FOUND.hint,
+				details: { symbol: "FOO" },
+			});
+		});
+
+		it("should map router SDK and viem error classes by name", () => {
+			const named = (name: string, message = "failed") =>
+				Object.assign(new Error(message), { name });
+
+			expect(classifyError(named("ChainNotSupportedError")).code).toBe("UNSUPPORTED_CHAIN");
+			expect(classifyError(named("InvalidTokenAddressError")).code).toBe("INVALID_ADDRESS");
+			expect(classifyError(named("NetworkError")).code).toBe("RPC_ERROR");
+			expect(classifyError(named("InsufficientFundsError")).code).toBe(
+				"INSUFFICIENT_BALANCE"
+			);
+		});
+
+		it("should map API errors by status", () => {
+			const apiError = (status: number) =>
+				Object.assign(new Error("API request failed"), { name: "APIError", status });
+
+			expect(classifyError(apiError(503)).code).toBe("RPC_ERROR");
+			expect(classifyError(apiError(429)).code).toBe("RPC_ERROR");
+			expect(classifyError(apiError(404)).code).toBe("NO_ROUTE");
+		});
+
+		it("should follow the cause chain of wrapped errors", () => {
+			const cause = Object.assign(new Error("request timed out"), { name: "TimeoutError" });
+			const error = new Error("Contract call failed", { cause });
+
+			expect(classifyError(error).code).toBe("RPC_ERROR");
+		});
+
+		it("should classify revert reasons by message", () => {
+			expect(classifyError("ERC20: transfer amount exceeds allowance").code).toBe(
+				"INSUFFICIENT_ALLOWANCE"
+			);
+			expect(classifyError("ERC20: transfer amount exceeds balance").code).toBe(
+				"INSUFFICIENT_BALANCE"
+			);
+			expect(
+				classifyError(new Error("execution reverted: Insufficient output amount")).code
+			).toBe("SLIPPAGE_EXCEEDED");
+			expect(classifyError(new Error("execution reverted")).code).toBe(
+				"TRANSACTION_REVERTED"
+			);
+		});
+
+		it("should use viem's shortMessage when classifying", () => {
+			const error = Object.assign(new Error("Execution failed"), {
+				shortMessage:
+					"The total cost exceeds the balance of the account (insufficient funds)",
+			});
+
+			expect(classifyError(error).code).toBe("INSUFFICIENT_BALANCE");
+		});
+
+		it("should fall back to UNKNOWN_ERROR", () => {
+			expect(classifyError(new Error("Something odd"))).toMatchObject({
+				code: "UNKNOWN_ERROR",
+				retryable: false,
+			});
+			expect(classifyError(null).message).toBe("Unknown error");
+		});
+	});
+});
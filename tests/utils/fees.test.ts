@@ -0,0 +1,103 @@
+const mockEstimateL1Fee = jest.fn();
+
+jest.mock("viem/op-stack", () => ({
+	estimateL1Fee: mockEstimateL1Fee,
+}));
+
+import type { PublicClient } from "viem";
+import { estimateL1DataFee, getEvmFees, getMaxGasPrice } from "../../src/utils/fees";
+
+describe("EVM Fees", () => {
+	const publicClient = {
+		estimateFeesPerGas: jest.fn(),
+		getGasPrice: jest.fn(),
+	};
+	const client = publicClient as unknown as PublicClient;
+
+	beforeEach(() => {
+		publicClient.estimateFeesPerGas.mockResolvedValue({
+			maxFeePerGas: 30000000000n, // 29 Gwei base fee headroom + 1 Gwei tip
+			maxPriorityFeePerGas: 1000000000n,
+		});
+		publicClient.getGasPrice.mockResolvedValue(20000000000n);
+	});
+
+	describe("getEvmFees", () => {
+		it("should use the suggested priority fee for the standard strategy", async () => {
+			expect(await getEvmFees(client, "standard", 1.2)).toEqual({
+				maxFeePerGas: 30000000000n,
+				maxPriorityFeePerGas: 1000000000n,
+			});
+		});
+
+		it("should scale the priority fee and keep the base fee headroom", async () => {
+			expect(await getEvmFees(client, "slow", 1.2)).toEqual({
+				maxFeePerGas: 29500000000n,
+				maxPriorityFeePerGas: 500000000n,
+			});
+			expect(await getEvmFees(client, "fast", 1.2)).toEqual({
+				maxFeePerGas: 31000000000n,
+				maxPriorityFeePerGas: 2000000000n,
+			});
+		});
+
+		it("should fall back to a legacy gas price on chains without EIP-1559", async () => {
+			publicClient.estimateFeesPerGas.mockRejectedValue(
+				Object.assign(new Error("not supported"), { name: "Eip1559FeesNotSupportedError" })
+			);
+
+			expect(await getEvmFees(client, "fast", 1.2)).toEqual({ gasPrice: 24000000000n });
+		});
+
+		it("should rethrow RPC errors", async () => {
+			publicClient.estimateFeesPerGas.mockRejectedValue(new Error("fetch failed"));
+
+			await expect(getEvmFees(client, "standard", 1.2)).rejects.toThrow("fetch failed");
+			expect(publicClient.getGasPrice).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("getMaxGasPrice", () => {
+		it("should return the max fee or the legacy gas price", () => {
+			expect(getMaxGasPrice({ maxFeePerGas: 3n, maxPriorityFeePerGas: 1n })).toBe(3n);
+			expect(getMaxGasPrice({ gasPrice: 2n })).toBe(2n);
+		});
+	});
+
+	describe("estimateL1DataFee", () => {
+		const transaction = {
+			account: "0x1234567890123456789012345678901234567890",
+			to: "0x274602a953847d807231d2370072F5f4E4594B44",
+			data: "0xcalldata",
+		} as const;
+
+		beforeEach(() => {
+			mockEstimateL1Fee.mockResolvedValue(50000000000000n);
+		});
+
+		it("should read Base's GasPriceOracle predeploy", async () => {
+			expect(await estimateL1DataFee(client, "base", transaction)).toBe(50000000000000n);
+			expect(mockEstimateL1Fee).toHaveBeenCalledWith(publicClient, {
+				...transaction,
+				chain: undefined,
+				gasPriceOracleAddress: "0x420000000000000000000000000000000000000F",
+			});
+		});
+
+		it("should read Scroll's L1GasPriceOracle", async () => {
+			await estimateL1DataFee(client, "scroll", transaction);
+
+			expect(mockEstimateL1Fee).toHaveBeenCalledWith(
+				publicClient,
+				expect.objectContaining({
+					gasPriceOracleAddress: "0x5300000000000000000000000000000000000002",
+				})
+			);
+		});
+
+		it("should return undefined on chains without an L1 fee oracle", async () => {
+			expect(await estimateL1DataFee(client, "starknet", transaction)).toBeUndefined();
+			expect(mockEstimateL1Fee).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,78 @@
+import { mkdtempSync, rmSync, appendFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { querySwapHistory, recordSwap } from "../../src/utils/history";
+
+const usdc = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const weth = "0x4200000000000000000000000000000000000006";
+
+const swap = (overrides: Record<string, unknown> = {}) => ({
+	chainName: "base" as const,
+	status: "executed" as const,
+	params: {
+		amount: "1000000",
+		tokenInAddress: usdc,
+		tokenOutAddress: weth,
+		slippage: 1,
+		chainName: "base" as const,
+	},
+	transactionHash: "0xhash",
+	startedAt: "2026-01-01T10:00:00.000Z",
+	completedAt: "2026-01-01T10:00:05.000Z",
+	...overrides,
+});
+
+describe("Swap History", () => {
+	let directory: string;
+
+	beforeEach(() => {
+		directory = join(mkdtempSync(join(tmpdir(), "fibrous-history-")), "nested");
+	});
+
+	afterEach(() => {
+		rmSync(join(directory, ".."), { recursive: true, force: true });
+	});
+
+	it("should return no records before anything is recorded", async () => {
+		expect(await querySwapHistory({}, directory)).toEqual([]);
+	});
+
+	it("should append records and return them newest first", async () => {
+		const first = await recordSwap(swap(), directory);
+		const second = await recordSwap(swap({ status: "failed", error: "reverted" }), directory);
+
+		expect(first.id).toEqual(expect.any(String));
+		expect(await querySwapHistory({}, directory)).toEqual([second, first]);
+	});
+
+	it("should filter by chain, token, status and date range", async () => {
+		await recordSwap(swap(), directory);
+		await recordSwap(
+			swap({
+				chainName: "scroll",
+				status: "simulated",
+				params: { ...swap().params, tokenInAddress: weth, tokenOutAddress: "0xdai" },
+				startedAt: "2026-02-01T10:00:00.000Z",
+			}),
+			directory
+		);
+
+		const statuses = async (filter: object) =>
+			(await querySwapHistory(filter, directory)).map((record) => record.status);
+
+		expect(await statuses({ chainName: "scroll" })).toEqual(["simulated"]);
+		expect(await statuses({ token: usdc.toLowerCase() })).toEqual(["executed"]);
+		expect(await statuses({ token: weth })).toEqual(["simulated", "executed"]);
+		expect(await statuses({ status: "executed" })).toEqual(["executed"]);
+		expect(await statuses({ from: new Date("2026-01-15") })).toEqual(["simulated"]);
+		expect(await statuses({ to: new Date("2026-01-15") })).toEqual(["executed"]);
+		expect(await statuses({ limit: 1 })).toEqual(["simulated"]);
+	});
+
+	it("should skip malformed lines", async () => {
+		await recordSwap(swap(), directory);
+		appendFileSync(join(directory, "swaps.jsonl"), '{"id": "trunc');
+
+		expect(await querySwapHistory({}, directory)).toHaveLength(1);
+	});
+});
@@ -0,0 +1,152 @@
+import {
+	checkSwapPolicy,
+	enforceSwapPolicy,
+	recordSwapSpend,
+	reserveSwapSpend,
+} from "../../src/utils/policy";
+
+const eth = {
+	address: "0x0000000000000000000000000000000000000000",
+	name: "Ether",
+	symbol: "ETH",
+	decimals: "18",
+	price: "3000",
+};
+
+const usdc = {
+	address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+	name: "USD Coin",
+	symbol: "USDC",
+	decimals: "6",
+	price: "1",
+};
+
+const wallet = "0x1234567890123456789012345678901234567890";
+
+// 0.1 ETH ($300) for 297 USDC (1% price impact)
+const swap = {
+	chainName: "base" as const,
+	route: {
+		success: true,
+		inputToken: eth,
+		inputAmount: "100000000000000000",
+		outputToken: usdc,
+		outputAmount: "297000000",
+	} as any,
+	slippage: 1,
+	receiverAddress: wallet,
+	walletAddress: wallet,
+};
+
+const rules = (policy: object, overrides: object = {}, now?: number) =>
+	checkSwapPolicy(policy, { ...swap, ...overrides }, now).map((violation) => violation.rule);
+
+describe("Swap Policy", () => {
+	describe("checkSwapPolicy", () => {
+		it("should allow any swap under an empty policy", () => {
+			expect(checkSwapPolicy({}, swap)).toEqual([]);
+		});
+
+		it("should enforce per-chain enablement", () => {
+			expect(rules({ enabledChains: ["starknet"] })).toEqual(["enabledChains"]);
+			expect(rules({ enabledChains: ["base"] })).toEqual([]);
+		});
+
+		it("should match token lists by symbol or address", () => {
+			expect(rules({ deniedTokens: ["usdc"] })).toEqual(["deniedTokens"]);
+			expect(rules({ deniedTokens: [usdc.address.toLowerCase()] })).toEqual(["deniedTokens"]);
+			expect(rules({ allowedTokens: ["ETH", "USDC"] })).toEqual([]);
+			expect(rules({ allowedTokens: ["ETH"] })).toEqual(["allowedTokens"]);
+		});
+
+		it("should only allow listed receivers besides the wallet", () => {
+			const other = "0x9999999999999999999999999999999999999999";
+
+			expect(rules({ allowedReceivers: [] })).toEqual([]);
+			expect(rules({ allowedReceivers: [] }, { receiverAddress: other })).toEqual([
+				"allowedReceivers",
+			]);
+			expect(rules({ allowedReceivers: [other] }, { receiverAddress: other })).toEqual([]);
+		});
+
+		it("should limit slippage and price impact", () => {
+			expect(rules({ maxSlippage: 0.5 })).toEqual(["maxSlippage"]);
+			expect(rules({ maxPriceImpact: 0.5 })).toEqual(["maxPriceImpact"]);
+			expect(rules({ maxSlippage: 1, maxPriceImpact: 1 })).toEqual([]);
+		});
+
+		it("should cap the USD value of a swap", () => {
+			expect(rules({ maxSwapUsd: 299 })).toEqual(["maxSwapUsd"]);
+			expect(rules({ maxSwapUsd: 300 })).toEqual([]);
+		});
+
+		it("should block USD-capped swaps of unpriced tokens", () => {
+			const route = { ...swap.route, inputToken: { ...eth, price: null } };
+
+			expect(rules({ maxSwapUsd: 1000 }, { route })).toEqual(["maxSwapUsd"]);
+		});
+
+		it("should cap swap amounts in token units", () => {
+			expect(rules({ maxSwapAmounts: { ETH: "0.05" } })).toEqual(["maxSwapAmounts"]);
+			expect(rules({ maxSwapAmounts: { ETH: "0.1", USDC: "1" } })).toEqual([]);
+		});
+
+		it("should count executed swaps towards rolling daily caps", () => {
+			const start = Date.UTC(2030, 0, 1);
+			const policy = { maxDailyUsd: 700, maxDailyAmounts: { ETH: "0.25" } };
+
+			recordSwapSpend("base", swap.route, start);
+			recordSwapSpend("base", swap.route, start + 1000);
+
+			expect(rules(policy, {}, start + 2000)).toEqual(["maxDailyUsd", "maxDailyAmounts"]);
+			// Both swaps leave the 24 hour window
+			expect(rules(policy, {}, start + 24 * 60 * 60 * 1000 + 2000)).toEqual([]);
+		});
+	});
+
+	describe("enforceSwapPolicy", () => {
+		it("should throw a policy error listing every violation", () => {
+			expect(() =>
+				enforceSwapPolicy({ maxSlippage: 0.5, deniedTokens: ["ETH"] }, swap)
+			).toThrow(
+				expect.objectContaining({
+					code: "POLICY_VIOLATION",
+					retryable: false,
+					details: {
+						violations: [
+							{ rule: "deniedTokens", message: "ETH is denied" },
+							{ rule: "maxSlippage", message: "Slippage 1% exceeds the 0.5% limit" },
+						],
+					},
+				})
+			);
+		});
+	});
+
+	describe("reserveSwapSpend", () => {
+		it("should count a reserved swap until it is released", () => {
+			const start = Date.UTC(2031, 0, 1);
+			const policy = { maxDailyUsd: 500 };
+
+			const release = reserveSwapSpend(policy, swap, start);
+
+			expect(() => reserveSwapSpend(policy, swap, start + 1000)).toThrow(
+				expect.objectContaining({ code: "POLICY_VIOLATION" })
+			);
+
+			release();
+			const releaseNext = reserveSwapSpend(policy, swap, start + 2000);
+			releaseNext();
+			expect(rules(policy, {}, start + 3000)).toEqual([]);
+		});
+
+		it("should not reserve a swap that breaks the policy", () => {
+			const start = Date.UTC(2032, 0, 1);
+
+			expect(() => reserveSwapSpend({ maxSwapUsd: 100 }, swap, start)).toThrow(
+				expect.objectContaining({ code: "POLICY_VIOLATION" })
+			);
+			expect(rules({ maxDailyUsd: 300 }, {}, start + 1000)).toEqual([]);
+		});
+	});
+});
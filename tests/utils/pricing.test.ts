@@ -0,0 +1,164 @@
+import {
+	clearPriceCache,
+	formatUsd,
+	getGasCostUsd,
+	getTokenPriceUsd,
+	valueTrade,
+} from "../../src/utils/pricing";
+
+describe("Pricing Utilities", () => {
+	const usdc = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+	const tokens = new Map([
+		[
+			"weth",
+			{
+				address: "0x4200000000000000000000000000000000000006",
+				symbol: "WETH",
+				price: "3000",
+			},
+		],
+		[
+			"eth",
+			{
+				address: "0x0000000000000000000000000000000000000000",
+				symbol: "ETH",
+				price: "3000",
+				native: true,
+			},
+		],
+		["usdc", { address: usdc, symbol: "USDC", price: "1" }],
+		["strk", { address: "0x04718f", symbol: "STRK", price: "0.5" }],
+	]);
+	const fibrousRouter = { supportedTokens: jest.fn() } as any;
+
+	const route = {
+		inputToken: {
+			address: "0x0000000000000000000000000000000000000000",
+			decimals: "18",
+			price: "3000",
+		},
+		inputAmount: "1000000000000000000",
+		outputToken: { address: usdc, decimals: "6", price: null },
+		outputAmount: "2990000000",
+	} as any;
+
+	beforeEach(() => {
+		clearPriceCache();
+		fibrousRouter.supportedTokens.mockResolvedValue(tokens);
+	});
+
+	describe("getTokenPriceUsd", () => {
+		it("should find prices by address, ignoring case", async () => {
+			expect(
+				await getTokenPriceUsd("base", { address: usdc.toLowerCase() }, fibrousRouter)
+			).toBe("1");
+		});
+
+		it("should prefer the native token when matching by symbol", async () => {
+			fibrousRouter.supportedTokens.mockResolvedValue(
+				new Map([
+					["eth-bridged", { address: "0x1", symbol: "ETH", price: "2990" }],
+					...tokens,
+				])
+			);
+
+			expect(await getTokenPriceUsd("base", { symbol: "eth" }, fibrousRouter)).toBe("3000");
+		});
+
+		it("should cache the token list per chain", async () => {
+			await getTokenPriceUsd("base", { symbol: "ETH" }, fibrousRouter);
+			await getTokenPriceUsd("base", { symbol: "USDC" }, fibrousRouter);
+			await getTokenPriceUsd("scroll", { symbol: "ETH" }, fibrousRouter);
+
+			expect(fibrousRouter.supportedTokens).toHaveBeenCalledTimes(2);
+		});
+
+		it("should refetch once the cache expires", async () => {
+			const now = jest.spyOn(Date, "now").mockReturnValue(1000000);
+			await getTokenPriceUsd("base", { symbol: "ETH" }, fibrousRouter);
+
+			now.mockReturnValue(1000000 + 61000);
+			await getTokenPriceUsd("base", { symbol: "ETH" }, fibrousRouter);
+
+			expect(fibrousRouter.supportedTokens).toHaveBeenCalledTimes(2);
+		});
+
+		it("should report no price when the token list cannot be fetched", async () => {
+			fibrousRouter.supportedTokens.mockRejectedValue(new Error("API down"));
+
+			expect(
+				await getTokenPriceUsd("base", { symbol: "ETH" }, fibrousRouter)
+			).toBeUndefined();
+		});
+	});
+
+	describe("getGasCostUsd", () => {
+		it("should value the total fee in the fee token", async () => {
+			expect(
+				await getGasCostUsd(
+					"base",
+					{ totalFee: "500000000000000", feeToken: "ETH" },
+					fibrousRouter
+				)
+			).toBe("1.50");
+			expect(
+				await getGasCostUsd(
+					"starknet",
+					{ totalFee: "10000000000000", feeToken: "STRK" },
+					fibrousRouter
+				)
+			).toBe("0.0000050");
+		});
+	});
+
+	describe("valueTrade", () => {
+		const gasEstimate = { totalFee: "500000000000000", feeToken: "ETH" } as any;
+
+		it("should value both sides and the gas share of the trade", async () => {
+			expect(await valueTrade("base", route, gasEstimate, fibrousRouter)).toEqual({
+				inputValueUsd: "3000.00",
+				outputValueUsd: "2990.00",
+				gasCostUsd: "1.50",
+				gasAsPercentOfTrade: "0.05",
+			});
+		});
+
+		it("should reuse the gas estimate's USD cost", async () => {
+			const result = await valueTrade(
+				"base",
+				route,
+				{ ...gasEstimate, costInUSD: "3.00" },
+				fibrousRouter
+			);
+
+			expect(result.gasAsPercentOfTrade).toBe("0.10");
+		});
+
+		it("should not price fallback gas estimates", async () => {
+			const result = await valueTrade(
+				"base",
+				route,
+				{ ...gasEstimate, source: "fallback", fallbackReason: "execution reverted" },
+				fibrousRouter
+			);
+
+			expect(result).toEqual({ inputValueUsd: "3000.00", outputValueUsd: "2990.00" });
+		});
+
+		it("should leave out values that cannot be priced", async () => {
+			fibrousRouter.supportedTokens.mockResolvedValue(new Map());
+
+			expect(await valueTrade("base", route, undefined, fibrousRouter)).toEqual({
+				inputValueUsd: "3000.00",
+			});
+		});
+	});
+
+	describe("formatUsd", () => {
+		it("should keep two significant digits below a cent", () => {
+			expect(formatUsd(0)).toBe("0.00");
+			expect(formatUsd(12.345)).toBe("12.35");
+			expect(formatUsd(0.00123)).toBe("0.0012");
+		});
+	});
+});
@@ -0,0 +1,122 @@
+import {
+	consumeQuote,
+	estimatePriceImpact,
+	getFloorSlippage,
+	getMinOutput,
+	getQuote,
+	getQuoteDrift,
+	saveQuote,
+} from "../../src/utils/quotes";
+
+const quoteDetails = {
+	chainName: "base" as const,
+	params: {
+		amount: "1000000000000000000",
+		tokenInAddress: "0x0000000000000000000000000000000000000000",
+		tokenOutAddress: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+		slippage: 1,
+		receiverAddress: "0x1234567890123456789012345678901234567890",
+		chainName: "base" as const,
+	},
+	amount: { wei: "1000000000000000000", human: "1", decimals: 18 },
+	expectedOutput: "3000000000",
+	minOutput: "2970000000",
+	gasEstimate: {
+		gasEstimate: "200000",
+		gasPrice: "1000000",
+		l2ExecutionFee: "200000000000",
+		l1DataFee: "0",
+		totalFee: "200000000000",
+		estimatedCost: "200000000000",
+		feeToken: "ETH" as const,
+		source: "rpc" as const,
+	},
+};
+
+describe("Quote Utilities", () => {
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	describe("saveQuote / consumeQuote", () => {
+		it("should return a stored quote once", () => {
+			const quote = saveQuote(quoteDetails, 60);
+
+			expect(quote.expiresAt - quote.createdAt).toBe(60000);
+			expect(consumeQuote(quote.id)).toEqual(quote);
+			expect(() => consumeQuote(quote.id)).toThrow("not found or already used");
+		});
+
+		it("should look a quote up without using it", () => {
+			const quote = saveQuote(quoteDetails, 60);
+
+			expect(getQuote(quote.id)).toEqual(quote);
+			expect(consumeQuote(quote.id)).toEqual(quote);
+			expect(() => getQuote(quote.id)).toThrow("not found or already used");
+		});
+
+		it("should reject unknown quote IDs", () => {
+			expect(() => consumeQuote("missing")).toThrow(
+				expect.objectContaining({ code: "QUOTE_EXPIRED", retryable: true })
+			);
+		});
+
+		it("should reject expired quotes", () => {
+			jest.useFakeTimers();
+			const quote = saveQuote(quoteDetails, 30);
+
+			jest.advanceTimersByTime(30000);
+
+			expect(() => consumeQuote(quote.id)).toThrow(`Quote ${quote.id} expired at`);
+		});
+	});
+
+	describe("getFloorSlippage", () => {
+		it("should keep the minimum output at or above the floor", () => {
+			expect(getFloorSlippage("2995000000", "2970000000")).toBe(0.83);
+			expect(BigInt(getMinOutput("2995000000", 0.83))).toBeGreaterThanOrEqual(2970000000n);
+		});
+
+		it("should give no slippage when the output is at or below the floor", () => {
+			expect(getFloorSlippage("2970000000", "2970000000")).toBe(0);
+			expect(getFloorSlippage("2900000000", "2970000000")).toBe(0);
+		});
+	});
+
+	describe("getMinOutput", () => {
+		it("should subtract slippage and round down", () => {
+			expect(getMinOutput("1000000", 0.5)).toBe("995000");
+			expect(getMinOutput("999", 1)).toBe("989");
+		});
+	});
+
+	describe("getQuoteDrift", () => {
+		it("should report how far the output fell", () => {
+			expect(getQuoteDrift("1000000", "990000")).toBe(1);
+			expect(getQuoteDrift("1000000", "999950")).toBe(0.005);
+		});
+
+		it("should be negative when the price improved", () => {
+			expect(getQuoteDrift("1000000", "1020000")).toBe(-2);
+		});
+	});
+
+	describe("estimatePriceImpact", () => {
+		const route = {
+			inputAmount: "1000000000000000000",
+			inputToken: { decimals: "18", price: "3000" },
+			outputAmount: "2970000000",
+			outputToken: { decimals: "6", price: "1" },
+		} as any;
+
+		it("should compare the USD value of input and output", () => {
+			expect(estimatePriceImpact(route)).toBe("1.00");
+		});
+
+		it("should return undefined when a token has no price", () => {
+			expect(
+				estimatePriceImpact({ ...route, outputToken: { decimals: "6", price: null } })
+			).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,122 @@
+import { encodeAbiParameters, encodeEventTopics, parseAbi } from "viem";
+import {
+	decodeEvmOutputAmount,
+	decodeStarknetOutputAmount,
+	getRealisedOutput,
+} from "../../src/utils/receipts";
+
+const abi = parseAbi([
+	"event Transfer(address indexed from, address indexed to, uint256 value)",
+	"event Swap(address sender, uint256 amount_in, uint256 amount_out, address token_in, address token_out, address destination)",
+]);
+
+const usdc = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" as const;
+const router = "0x274602a953847d807231d2370072F5f4E4594B44";
+const pool = "0x9999999999999999999999999999999999999999" as const;
+const receiver = "0x1234567890123456789012345678901234567890" as const;
+const other = "0x1111111111111111111111111111111111111111" as const;
+
+const transferLog = (token: string, to: `0x${string}`, value: bigint) => ({
+	address: token,
+	topics: encodeEventTopics({ abi, eventName: "Transfer", args: { from: pool, to } }) as any,
+	data: encodeAbiParameters([{ type: "uint256" }], [value]),
+});
+
+const swapLog = (destination: `0x${string}`, amountOut: bigint) => ({
+	address: router,
+	topics: encodeEventTopics({ abi, eventName: "Swap" }) as any,
+	data: encodeAbiParameters(
+		[
+			{ type: "address" },
+			{ type: "uint256" },
+			{ type: "uint256" },
+			{ type: "address" },
+			{ type: "address" },
+			{ type: "address" },
+		],
+		[receiver, 10n ** 18n, amountOut, usdc, usdc, destination]
+	),
+});
+
+describe("Receipt Decoding", () => {
+	describe("decodeEvmOutputAmount", () => {
+		it("should sum the output token's transfers to the receiver", () => {
+			const logs = [
+				transferLog(usdc, receiver, 2000000000n),
+				transferLog(usdc, other, 5n), // Fee or intermediate hop
+				transferLog(pool, receiver, 7n), // A different token
+				transferLog(usdc, receiver, 985000000n),
+			];
+
+			expect(decodeEvmOutputAmount(logs, usdc, receiver, router)).toBe(2985000000n);
+		});
+
+		it("should fall back to the router's Swap event for native output", () => {
+			const logs = [swapLog(other, 1n), swapLog(receiver, 10n ** 18n)];
+
+			expect(
+				decodeEvmOutputAmount(
+					logs,
+					"0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee",
+					receiver,
+					router
+				)
+			).toBe(10n ** 18n);
+		});
+
+		it("should ignore logs it cannot decode", () => {
+			const logs = [{ address: pool, topics: ["0x1234"] as any, data: "0x" as const }];
+
+			expect(decodeEvmOutputAmount(logs, usdc, receiver, router)).toBeUndefined();
+		});
+	});
+
+	describe("decodeStarknetOutputAmount", () => {
+		const token = "0x053c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8";
+		const wallet = "0x04567890123456789012345678901234567890123456789012345678901234";
+		const selector = "0x99cd8bde557814842a3121e8ddfd433a539b8c9f14bf31ebf108d12e6196e9";
+
+		it("should read Cairo 1 transfers with from/to in keys", () => {
+			const events = [
+				{ from_address: token, keys: [selector, "0x1", wallet], data: ["0x64", "0x0"] },
+				{ from_address: token, keys: [selector, "0x1", "0x2"], data: ["0x5", "0x0"] },
+			];
+
+			expect(decodeStarknetOutputAmount(events, token, wallet)).toBe(100n);
+		});
+
+		it("should read Cairo 0 transfers with from/to in data, including the high word", () => {
+			const events = [
+				{ from_address: token, keys: [selector], data: ["0x1", wallet, "0x0", "0x1"] },
+			];
+
+			expect(decodeStarknetOutputAmount(events, token, wallet)).toBe(1n << 128n);
+		});
+
+		it("should return undefined when nothing reached the receiver", () => {
+			expect(decodeStarknetOutputAmount([], token, wallet)).toBeUndefined();
+		});
+	});
+
+	describe("getRealisedOutput", () => {
+		const route = {
+			inputAmount: "1000000000000000000",
+			inputToken: { decimals: "18" },
+			outputAmount: "3000000000",
+			outputToken: { decimals: "6" },
+		} as any;
+
+		it("should report the effective price and realised slippage", () => {
+			expect(getRealisedOutput(2985000000n, route)).toEqual({
+				outputAmount: "2985000000",
+				expectedOutputAmount: "3000000000",
+				effectivePrice: "2985",
+				realisedSlippage: 0.5,
+			});
+		});
+
+		it("should report negative slippage when the swap beat its quote", () => {
+			expect(getRealisedOutput(3030000000n, route).realisedSlippage).toBe(-1);
+		});
+	});
+});
@@ -0,0 +1,150 @@
+import type { Account, Chain, PublicClient, Transport, WalletClient } from "viem";
+import type { RpcProvider } from "starknet";
+import { waitForEvmReceipt, waitForStarknetReceipt } from "../../src/utils/replacement";
+
+const namedError = (name: string) => Object.assign(new Error(name), { name });
+
+describe("Stuck Transaction Replacement", () => {
+	const publicClient = {
+		waitForTransactionReceipt: jest.fn(),
+		getTransactionReceipt: jest.fn(),
+		getTransaction: jest.fn(),
+		getGasPrice: jest.fn(),
+	};
+	const walletClient = { sendTransaction: jest.fn() };
+
+	const original = {
+		from: "0xwallet",
+		to: "0xrouter",
+		input: "0xcalldata",
+		value: 0n,
+		nonce: 7,
+		gasPrice: 1000n,
+	};
+
+	const wait = (action: "none" | "speed-up" | "cancel") =>
+		waitForEvmReceipt(
+			publicClient as unknown as PublicClient,
+			walletClient as unknown as WalletClient<Transport, Chain, Account>,
+			"0xoriginal",
+			{
+				stage: "swap",
+				timeoutSeconds: 60,
+				policy: { action, feeBump: 20 },
+				pollIntervalMs: 1,
+			}
+		);
+
+	beforeEach(() => {
+		publicClient.waitForTransactionReceipt.mockRejectedValue(
+			namedError("WaitForTransactionReceiptTimeoutError")
+		);
+		publicClient.getTransaction.mockResolvedValue(original);
+		publicClient.getGasPrice.mockResolvedValue(1100n);
+		walletClient.sendTransaction.mockResolvedValue("0xreplacement");
+	});
+
+	it("should return the receipt when the transaction is mined in time", async () => {
+		publicClient.waitForTransactionReceipt.mockResolvedValue({ status: "success" });
+
+		expect(await wait("speed-up")).toEqual({ receipt: { status: "success" } });
+		expect(publicClient.waitForTransactionReceipt).toHaveBeenCalledWith({
+			hash: "0xoriginal",
+			timeout: 60000,
+		});
+	});
+
+	it("should fail with a timeout error when no action is configured", async () => {
+		await expect(wait("none")).rejects.toMatchObject({
+			code: "TRANSACTION_TIMEOUT",
+			details: { transactionHash: "0xoriginal" },
+		});
+		expect(walletClient.sendTransaction).not.toHaveBeenCalled();
+	});
+
+	it("should speed up a stuck transaction with the same nonce and a bumped fee", async () => {
+		publicClient.getTransactionReceipt.mockImplementation(async ({ hash }) => {
+			if (hash === "0xreplacement") return { transactionHash: hash, status: "success" };
+			throw namedError("TransactionReceiptNotFoundError");
+		});
+
+		const result = await wait("speed-up");
+
+		expect(walletClient.sendTransaction).toHaveBeenCalledWith({
+			to: "0xrouter",
+			data: "0xcalldata",
+			value: 0n,
+			nonce: 7,
+			gasPrice: 1200n,
+		});
+		expect(result.replacement).toEqual({
+			stage: "swap",
+			action: "speed-up",
+			originalHash: "0xoriginal",
+			replacementHash: "0xreplacement",
+			outcome: "replaced",
+		});
+	});
+
+	it("should cancel with an empty self-transfer, bumping EIP-1559 fee caps", async () => {
+		publicClient.getTransaction.mockResolvedValue({
+			...original,
+			gasPrice: undefined,
+			maxFeePerGas: 2000n,
+			maxPriorityFeePerGas: 100n,
+		});
+		publicClient.getTransactionReceipt.mockResolvedValue({ transactionHash: "0xreplacement" });
+
+		await wait("cancel");
+
+		expect(walletClient.sendTransaction).toHaveBeenCalledWith({
+			to: "0xwallet",
+			value: 0n,
+			nonce: 7,
+			maxFeePerGas: 2400n,
+			maxPriorityFeePerGas: 120n,
+		});
+	});
+
+	it("should report when the original transaction is mined after all", async () => {
+		publicClient.getTransactionReceipt.mockImplementation(async ({ hash }) => {
+			if (hash === "0xoriginal") return { transactionHash: hash, status: "success" };
+			throw namedError("TransactionReceiptNotFoundError");
+		});
+
+		const result = await wait("speed-up");
+
+		expect(result.receipt.transactionHash).toBe("0xoriginal");
+		expect(result.replacement?.outcome).toBe("original_mined");
+	});
+
+	it("should use the original receipt when the replacement is rejected as already mined", async () => {
+		walletClient.sendTransaction.mockRejectedValue(new Error("nonce too low"));
+		publicClient.getTransactionReceipt.mockResolvedValue({ transactionHash: "0xoriginal" });
+
+		expect(await wait("speed-up")).toEqual({ receipt: { transactionHash: "0xoriginal" } });
+	});
+});
+
+describe("Starknet Receipt Wait", () => {
+	const provider = { waitForTransaction: jest.fn() };
+	const wait = (timeoutSeconds: number) =>
+		waitForStarknetReceipt(provider as unknown as RpcProvider, "0xabc", timeoutSeconds);
+
+	it("should return the receipt when the transaction is accepted in time", async () => {
+		provider.waitForTransaction.mockResolvedValue({ execution_status: "SUCCEEDED" });
+
+		expect(await wait(60)).toEqual({ execution_status: "SUCCEEDED" });
+		expect(provider.waitForTransaction).toHaveBeenCalledWith("0xabc");
+	});
+
+	it("should fail with a timeout error when the transaction stays pending", async () => {
+		// Never settles, like a transaction stuck in the mempool
+		provider.waitForTransaction.mockReturnValue(new Promise(jest.fn()));
+
+		await expect(wait(0.01)).rejects.toMatchObject({
+			code: "TRANSACTION_TIMEOUT",
+			details: { transactionHash: "0xabc" },
+		});
+	});
+});
@@ -6,6 +6,7 @@ import {
 	createHelpResponse,
 	formatLargeNumber,
 } from "../../src/utils/responses";
+import { ToolError } from "../../src/utils/errors";
 
 describe("Response Utilities", () => {
 	describe("createSuccessResponse", () => {
@@ -16,58 +17,66 @@ describe("Response Utilities", () => {
 			expect(result.content).toBeDefined();
 			expect(result.content).toHaveLength(1);
 			expect(result.content[0].type).toBe("text");
-			expect(result.content[0].text).toContain("Test operation completed");
-			expect(result.content[0].text).toContain('"count": 5');
-			expect(result.content[0].text).toContain('"status": "active"');
+			expect(result.content[0].text).toBe("Test operation completed");
+			expect(result.structuredContent).toEqual({ count: 5, status: "active" });
 			expect(result.isError).toBeUndefined();
 		});
 
-		it("should create success response with complex nested data", () => {
+		it("should keep complex nested data intact in structured content", () => {
 			const complexData = {
 				tokens: {
 					eth: { address: "0x123", decimals: 18 },
 					usdc: { address: "0x456", decimals: 6 },
 				},
 				protocols: ["uniswap", "sushiswap"],
+				route: { swaps: [[{ pool: { address: "0x789" } }]] },
 			};
 
 			const result = createSuccessResponse(complexData, "Token data fetched");
 
-			expect(result.content[0].type).toBe("text");
-			expect(result.content[0].text).toContain("Token data fetched");
-			expect(result.content[0].text).toContain("uniswap");
-			// Complex nested data shows Max depth reached due to sanitization
-			expect(result.content[0].text).toContain("Max depth reached");
+			expect(result.content[0].text).toBe("Token data fetched");
+			expect(result.structuredContent).toEqual(complexData);
+			expect(JSON.stringify(result.structuredContent)).not.toContain("Max depth reached");
 		});
 
-		it("should handle null and undefined data", () => {
-			const nullResult = createSuccessResponse(null, "Null data");
-			const undefinedResult = createSuccessResponse(undefined, "Undefined data");
+		it("should refuse data over the response size limit", () => {
+			const data = { blob: "x".repeat(1024 * 1024) };
 
-			expect(nullResult.content[0].text).toContain("null");
-			expect(undefinedResult.content[0].text).toContain("Undefined data");
+			expect(() => createSuccessResponse(data, "Too large")).toThrow(ToolError);
+			expect(() => createSuccessResponse(data, "Too large")).toThrow(
+				expect.objectContaining({
+					code: "RESPONSE_TOO_LARGE",
+					message: expect.stringContaining("over the 1048576-byte response limit"),
+				})
+			);
 		});
 
-		it("should handle arrays", () => {
-			const arrayData = ["token1", "token2", "token3"];
-			const result = createSuccessResponse(arrayData, "Token list");
+		it("should serialize bigint values as strings", () => {
+			const result = createSuccessResponse(
+				{ amount: 1500000000000000000n, nested: { gas: 21000n } },
+				"Amounts"
+			);
 
-			expect(result.content[0].text).toContain("Token list");
-			expect(result.content[0].text).toContain("token1");
-			expect(result.content[0].text).toContain("token2");
+			expect(result.structuredContent).toEqual({
+				amount: "1500000000000000000",
+				nested: { gas: "21000" },
+			});
 		});
 
-		it("should format large numbers in response", () => {
-			const dataWithLargeNumbers = {
-				balance: "1500000000000000000",
-				price: 2500.75,
-				volume: 1234567890,
-			};
+		it("should drop undefined fields from structured content", () => {
+			const result = createSuccessResponse({ hash: "0xabc", error: undefined }, "Swap");
 
-			const result = createSuccessResponse(dataWithLargeNumbers, "Balance info");
+			expect(result.structuredContent).toEqual({ hash: "0xabc" });
+		});
 
-			expect(result.content[0].text).toContain("1500000000000000000");
-			expect(result.content[0].text).toContain("2500.75");
+		it("should not put the data or a timestamp in the text summary", () => {
+			const result = createSuccessResponse(
+				{ balance: "1500000000000000000" },
+				"Balance info"
+			);
+
+			expect(result.content[0].text).not.toContain("1500000000000000000");
+			expect(result.content[0].text).not.toContain("Timestamp:");
 		});
 	});
 
@@ -83,11 +92,52 @@ describe("Response Utilities", () => {
 			expect(result.content[0].text).toContain("Chain: base");
 		});
 
+		it("should include structured error details when present", () => {
+			const error = new ToolError("TOKEN_NOT_FOUND", "Unknown token symbol", {
+				details: { candidates: [{ symbol: "USDC" }] },
+			});
+			const result = createErrorResponse(error, "get-best-route", "base");
+
+			expect(result.content[0].text).toContain("Details:");
+			expect(result.content[0].text).toContain('"symbol": "USDC"');
+			expect(result.structuredContent).toEqual({
+				error: expect.objectContaining({
+					code: "TOKEN_NOT_FOUND",
+					details: { candidates: [{ symbol: "USDC" }] },
+				}),
+			});
+		});
+
+		it("should return the error code and retryability as structured content", () => {
+			const error = new ToolError("NO_ROUTE", "No route found");
+			const result = createErrorResponse(error, "get-best-route", "base");
+
+			expect(result.content[0].text).toContain("Code: NO_ROUTE (retryable: yes)");
+			expect(result.structuredContent).toEqual({
+				error: {
+					code: "NO_ROUTE",
+					message: "No route found",
+					retryable: true,
+					hint: expect.any(String),
+					context: "get-best-route",
+					chainName: "base",
+				},
+			});
+		});
+
+		it("should classify untyped errors", () => {
+			const result = createErrorResponse(new Error("fetch failed"), "get-best-route");
+
+			expect(result.structuredContent?.error).toEqual(
+				expect.objectContaining({ code: "RPC_ERROR", retryable: true })
+			);
+		});
+
 		it("should handle string errors", () => {
 			const result = createErrorResponse("Network timeout", "fetch-routes");
 
 			expect(result.isError).toBe(true);
-			expect(result.content[0].text).toContain("Error in fetch-routes: Unknown error");
+			expect(result.content[0].text).toContain("Error in fetch-routes: Network timeout");
 		});
 
 		it("should handle unknown error types", () => {
@@ -95,6 +145,7 @@ describe("Response Utilities", () => {
 
 			expect(result.isError).toBe(true);
 			expect(result.content[0].text).toContain("Error in test-operation: Unknown error");
+			expect(result.content[0].text).toContain("Code: UNKNOWN_ERROR (retryable: no)");
 		});
 
 		it("should handle errors without operation", () => {
@@ -153,6 +204,13 @@ describe("Response Utilities", () => {
 			expect(nullResult.content[0].text).not.toContain("ℹ️");
 			expect(nullResult.content[0].text).toContain("null");
 		});
+
+		it("should only include structured content when data is given", () => {
+			expect(createInfoResponse("Nothing here").structuredContent).toBeUndefined();
+			expect(createInfoResponse("Not found", { found: false }).structuredContent).toEqual({
+				found: false,
+			});
+		});
 	});
 
 	describe("createEmptyResponse", () => {
@@ -186,6 +244,12 @@ describe("Response Utilities", () => {
 
 			expect(result.content[0].text).toContain("No tokens found for ");
 		});
+
+		it("should pass structured data through", () => {
+			const result = createEmptyResponse("tokens", "base", { count: 0, tokens: {} });
+
+			expect(result.structuredContent).toEqual({ count: 0, tokens: {} });
+		});
 	});
 
 	describe("createHelpResponse", () => {
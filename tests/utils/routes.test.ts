@@ -0,0 +1,133 @@
+import { normalizeRoute } from "../../src/utils/routes";
+
+describe("Route Normalisation Utilities", () => {
+	const eth = "0x049d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7";
+	const usdc = "0x053c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8";
+	const strk = "0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d";
+
+	const swap = (
+		protocol: number,
+		poolId: string,
+		fromTokenAddress: string,
+		toTokenAddress: string,
+		percent = "100%"
+	) => ({
+		protocol,
+		poolId,
+		poolAddress: `0xpool${poolId}`,
+		poolName: `Pool ${poolId}`,
+		fromTokenAddress,
+		toTokenAddress,
+		percent,
+	});
+
+	const route = (overrides: Record<string, unknown> = {}) =>
+		({
+			success: true,
+			inputToken: { address: eth, symbol: "ETH", decimals: "18", price: "3000" },
+			inputAmount: "1000000000000000000",
+			outputToken: { address: usdc, symbol: "USDC", decimals: "6", price: "1" },
+			outputAmount: "2990000000",
+			estimatedGasUsed: "250000",
+			estimatedGasUsedInUsd: "0.05",
+			route: [
+				{
+					percent: "60%",
+					swaps: [[swap(901, "1", eth, usdc, "75%"), swap(902, "2", eth, usdc, "25%")]],
+				},
+				{
+					percent: "40%",
+					swaps: [[swap(902, "3", eth, strk)], [swap(903, "4", strk, usdc)]],
+				},
+			],
+			...overrides,
+		}) as any;
+
+	describe("normalizeRoute", () => {
+		it("should keep the route totals and token details", () => {
+			expect(normalizeRoute(route())).toMatchObject({
+				inputToken: { address: eth, symbol: "ETH", decimals: 18 },
+				outputToken: { address: usdc, symbol: "USDC", decimals: 6 },
+				inputAmount: "1000000000000000000",
+				outputAmount: "2990000000",
+				estimatedGasUsed: "250000",
+				estimatedGasUsedInUsd: "0.05",
+				paths: 2,
+			});
+		});
+
+		it("should flatten split paths into hops in path and step order", () => {
+			const { hops } = normalizeRoute(route());
+
+			expect(hops.map(({ path, step, pool }) => [path, step, pool.id])).toEqual([
+				[0, 0, "1"],
+				[0, 0, "2"],
+				[1, 0, "3"],
+				[1, 1, "4"],
+			]);
+			expect(hops[0]).toEqual({
+				path: 0,
+				step: 0,
+				protocol: "Protocol 901",
+				protocolId: 901,
+				pool: { id: "1", address: "0xpool1", name: "Pool 1" },
+				tokenIn: { address: eth, symbol: "ETH", decimals: 18 },
+				tokenOut: { address: usdc, symbol: "USDC", decimals: 6 },
+				pathPercent: 60,
+				percent: 75,
+			});
+		});
+
+		it("should give input amounts per path, including multi-hop paths", () => {
+			const { pathAmounts, hops } = normalizeRoute(route());
+
+			expect(pathAmounts).toEqual([
+				{ path: 0, percent: 60, amountIn: "600000000000000000", steps: 1 },
+				{ path: 1, percent: 40, amountIn: "400000000000000000", steps: 2 },
+			]);
+			// The router reports no amounts per pool
+			hops.forEach((hop) => {
+				expect(hop).not.toHaveProperty("amountIn");
+				expect(hop).not.toHaveProperty("amountOut");
+			});
+		});
+
+		it("should give intermediate tokens by address", () => {
+			const { hops } = normalizeRoute(route());
+
+			expect(hops[2].tokenOut).toEqual({ address: strk });
+			expect(hops[3].tokenIn).toEqual({ address: strk });
+			expect(hops[3].tokenOut).toMatchObject({ symbol: "USDC" });
+		});
+
+		it("should match route tokens regardless of address padding", () => {
+			const { hops } = normalizeRoute(
+				route({
+					route: [
+						{
+							percent: "100%",
+							swaps: [[swap(901, "1", eth.replace("0x0", "0x"), usdc)]],
+						},
+					],
+				})
+			);
+
+			expect(hops[0].tokenIn).toMatchObject({ symbol: "ETH" });
+		});
+
+		it("should handle routes without paths", () => {
+			expect(
+				normalizeRoute(route({ route: undefined, estimatedGasUsedInUsd: undefined }))
+			).toEqual({
+				inputToken: { address: eth, symbol: "ETH", decimals: 18 },
+				outputToken: { address: usdc, symbol: "USDC", decimals: 6 },
+				inputAmount: "1000000000000000000",
+				outputAmount: "2990000000",
+				estimatedGasUsed: "250000",
+				paths: 0,
+				pathAmounts: [],
+				hops: [],
+			});
+		});
+	});
+});
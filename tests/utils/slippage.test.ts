@@ -0,0 +1,150 @@
+import { getChainSlippage, recommendSlippage, resolveSlippage } from "../../src/utils/slippage";
+
+describe("Slippage Utilities", () => {
+	const eth = "0x0000000000000000000000000000000000000000";
+	const usdc = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+	const tokens = new Map([
+		["eth", { address: eth, symbol: "ETH" }],
+		["usdc", { address: usdc, symbol: "USDC" }],
+	]);
+	const fibrousRouter = { supportedTokens: jest.fn() } as any;
+
+	const route = (overrides: Record<string, unknown> = {}) =>
+		({
+			inputToken: { address: eth, symbol: "ETH", decimals: "18", price: "3000" },
+			inputAmount: "1000000000000000000",
+			outputToken: { address: usdc, symbol: "USDC", decimals: "6", price: "1" },
+			outputAmount: "2970000000",
+			route: [{ percent: "100%", swaps: [[{ protocol: 2 }]] }],
+			...overrides,
+		}) as any;
+
+	const serverConfig = {
+		defaultSlippage: 1,
+		slippageOverrides: {
+			chains: { base: 0.5 },
+			pairs: [{ tokens: ["USDC", "ETH"] as [string, string], slippage: 0.3 }],
+		},
+	};
+	const pair = {
+		chainName: "base" as const,
+		tokenIn: { address: eth },
+		tokenOut: { address: usdc },
+	};
+
+	beforeEach(() => {
+		fibrousRouter.supportedTokens.mockResolvedValue(tokens);
+	});
+
+	describe("recommendSlippage", () => {
+		it("should add half the price impact to the volatility base", () => {
+			// 0.5% for ETH plus half of the 1% price impact
+			expect(recommendSlippage(route())).toEqual({
+				slippage: 1,
+				volatility: "major",
+				priceImpact: 1,
+				hops: 1,
+			});
+		});
+
+		it("should use the most volatile token and count hops", () => {
+			const recommendation = recommendSlippage(
+				route({
+					inputToken: { address: "0xpepe", symbol: "PEPE", decimals: "18", price: null },
+					route: [
+						{ percent: "60%", swaps: [[{}], [{}], [{}]] },
+						{ percent: "40%", swaps: [[{}]] },
+					],
+				})
+			);
+
+			expect(recommendation).toEqual({ slippage: 1.2, volatility: "long-tail", hops: 3 });
+		});
+
+		it("should keep stablecoin pairs tight and cap the recommendation", () => {
+			const stable = route({
+				inputToken: { address: "0xusdt", symbol: "USDT", decimals: "6", price: "1" },
+				inputAmount: "1000000",
+				outputAmount: "1000000",
+			});
+			expect(recommendSlippage(stable).slippage).toBe(0.1);
+
+			expect(recommendSlippage(route({ outputAmount: "1500000000" })).slippage).toBe(5);
+		});
+	});
+
+	describe("resolveSlippage", () => {
+		const getRoute = jest.fn();
+
+		beforeEach(() => {
+			getRoute.mockResolvedValue(route());
+		});
+
+		it("should prefer an explicit slippage", async () => {
+			expect(await resolveSlippage(2, pair, serverConfig, fibrousRouter, getRoute)).toEqual({
+				slippage: 2,
+				source: "explicit",
+			});
+			expect(getRoute).not.toHaveBeenCalled();
+		});
+
+		it("should recommend a slippage from the route for auto", async () => {
+			expect(
+				await resolveSlippage("auto", pair, serverConfig, fibrousRouter, getRoute)
+			).toEqual({ slippage: 1, source: "auto" });
+		});
+
+		it("should match pair overrides in either order, by looked-up symbol", async () => {
+			expect(
+				await resolveSlippage(undefined, pair, serverConfig, fibrousRouter, getRoute)
+			).toEqual({ slippage: 0.3, source: "pair" });
+			expect(fibrousRouter.supportedTokens).toHaveBeenCalledWith("base");
+		});
+
+		it("should match pair overrides by address", async () => {
+			const config = {
+				...serverConfig,
+				slippageOverrides: {
+					chains: {},
+					pairs: [
+						{ tokens: [eth, usdc.toLowerCase()] as [string, string], slippage: 0.2 },
+					],
+				},
+			};
+
+			expect(await resolveSlippage(undefined, pair, config, fibrousRouter, getRoute)).toEqual(
+				{ slippage: 0.2, source: "pair" }
+			);
+		});
+
+		it("should fall back to the chain override, then the default", async () => {
+			const otherPair = { ...pair, tokenOut: { address: "0xdai", symbol: "DAI" } };
+
+			expect(
+				await resolveSlippage(undefined, otherPair, serverConfig, fibrousRouter, getRoute)
+			).toEqual({ slippage: 0.5, source: "chain" });
+			expect(
+				await resolveSlippage(
+					undefined,
+					{ ...otherPair, chainName: "scroll" },
+					serverConfig,
+					fibrousRouter,
+					getRoute
+				)
+			).toEqual({ slippage: 1, source: "default" });
+		});
+	});
+
+	describe("getChainSlippage", () => {
+		it("should use the chain override or the default", () => {
+			expect(getChainSlippage("base", serverConfig)).toEqual({
+				slippage: 0.5,
+				source: "chain",
+			});
+			expect(getChainSlippage("starknet", serverConfig)).toEqual({
+				slippage: 1,
+				source: "default",
+			});
+		});
+	});
+});
@@ -10,15 +10,30 @@ jest.mock("../../src/utils/amounts", () => ({
 	toBigInt: mockToBigInt,
 }));
 
+const mockGetGasCostUsd = jest.fn();
+
+jest.mock("../../src/utils/pricing", () => ({
+	getGasCostUsd: mockGetGasCostUsd,
+}));
+
 // Mock external dependencies
 jest.mock("viem", () => ({
 	createPublicClient: jest.fn(),
 	createWalletClient: jest.fn(),
 	http: jest.fn(),
-	parseUnits: jest.fn(),
+	parseUnits: jest.requireActual("viem").parseUnits,
+	encodeFunctionData: jest.fn(),
+	decodeEventLog: jest.requireActual("viem").decodeEventLog,
+	formatUnits: jest.requireActual("viem").formatUnits,
 	erc20Abi: [],
 }));
 
+const mockEstimateL1Fee = jest.fn();
+
+jest.mock("viem/op-stack", () => ({
+	estimateL1Fee: mockEstimateL1Fee,
+}));
+
 jest.mock("viem/accounts", () => ({
 	privateKeyToAccount: jest.fn(),
 }));
@@ -35,25 +50,34 @@ const mockAccount = jest.fn();
 jest.mock("starknet", () => ({
 	RpcProvider: mockRpcProvider,
 	Account: mockAccount,
+	TransactionType: { INVOKE: "INVOKE_FUNCTION" },
 }));
 
 import {
 	validateSwapParams,
 	estimateSwapGas,
 	executeSwap,
+	encodeEvmSwap,
 	type SwapParams,
 } from "../../src/utils/swap";
+import { isNativeToken } from "../../src/utils/tokens";
 
-import { createPublicClient, createWalletClient } from "viem";
+import { createPublicClient, createWalletClient, encodeFunctionData } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
 
 describe("Swap Utilities", () => {
 	// Mock objects
 	const mockPublicClient = {
 		getGasPrice: jest.fn(),
+		estimateFeesPerGas: jest.fn(),
 		estimateGas: jest.fn(),
 		waitForTransactionReceipt: jest.fn(),
+		getTransactionReceipt: jest.fn(),
+		getTransaction: jest.fn(),
 		readContract: jest.fn(),
+		getBalance: jest.fn(),
+		call: jest.fn(),
+		simulateCalls: jest.fn(),
 	};
 
 	const mockWalletClient = {
@@ -65,12 +89,50 @@ describe("Swap Utilities", () => {
 		address: "0x1234567890123456789012345678901234567890",
 	};
 
+	// Router calldata as the SDK returns it: the swap call on Starknet, swap() arguments on EVM chains
+	const starknetCalldata = {
+		contractAddress: "0xRouterStarknet",
+		entrypoint: "swap",
+		calldata: ["0x4", "0x5", "0x6"],
+	};
+	const evmCalldata = {
+		route: {
+			token_in: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+			token_out: "0x4200000000000000000000000000000000000006",
+			amount_in: "1000000",
+			amount_out: "2500000000",
+			min_received: "2475000000",
+			destination: "0x1234567890123456789012345678901234567890",
+			swap_type: 0,
+		},
+		swap_parameters: [
+			{
+				token_in: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+				token_out: "0x4200000000000000000000000000000000000006",
+				rate: 1000000,
+				protocol_id: 2,
+				pool_address: "0xd0b53D9277642d899DF5C87A3966A349A798F224",
+				swap_type: 0,
+				extra_data: "0x",
+			},
+		],
+	};
+	const routeAndCalldata =
+		(route: object) =>
+		async ({ chainId }: { chainId: number }) => ({
+			route,
+			calldata: chainId === 1 ? starknetCalldata : evmCalldata,
+		});
+
 	beforeEach(() => {
 		jest.clearAllMocks();
 
 		// Setup default utils mocks
 		mockGetServerConfig.mockReturnValue({
 			gasPriceMultiplier: 1.2,
+			feeStrategy: "standard",
+			transactionTimeout: 300,
+			stuckTransactionPolicy: { action: "none", feeBump: 20 },
 		});
 
 		mockToBigInt.mockImplementation((value: string) => BigInt(value));
@@ -79,19 +141,41 @@ describe("Swap Utilities", () => {
 		(createPublicClient as jest.Mock).mockReturnValue(mockPublicClient);
 		(createWalletClient as jest.Mock).mockReturnValue(mockWalletClient);
 		(privateKeyToAccount as jest.Mock).mockReturnValue(mockAccountFromKey);
+		(encodeFunctionData as jest.Mock).mockImplementation(({ functionName }) =>
+			functionName === "swap" ? "0xswapcalldata" : "0xapprovecalldata"
+		);
 
 		mockPublicClient.getGasPrice.mockResolvedValue(BigInt("20000000000")); // 20 Gwei
+		mockPublicClient.estimateFeesPerGas.mockResolvedValue({
+			maxFeePerGas: BigInt("30000000000"), // 30 Gwei
+			maxPriorityFeePerGas: BigInt("1000000000"), // 1 Gwei
+		});
+		mockEstimateL1Fee.mockResolvedValue(BigInt("50000000000000"));
 		mockPublicClient.estimateGas.mockResolvedValue(BigInt("200000"));
 		mockPublicClient.waitForTransactionReceipt.mockResolvedValue({
 			gasUsed: BigInt("180000"),
 		});
-		mockPublicClient.readContract.mockResolvedValue(BigInt("99999999999999999999999999")); // High allowance
+		mockPublicClient.readContract.mockResolvedValue(BigInt("99999999999999999999999999")); // High balance and allowance
+		mockPublicClient.getBalance.mockResolvedValue(BigInt("99999999999999999999999999"));
+		mockPublicClient.call.mockResolvedValue({ data: "0x" });
+		mockPublicClient.simulateCalls.mockResolvedValue({
+			results: [
+				{ status: "success", gasUsed: BigInt("46000") },
+				{ status: "success", gasUsed: BigInt("150000") },
+			],
+		});
 
 		mockWalletClient.sendTransaction.mockResolvedValue("0xevmtxhash");
 		mockWalletClient.writeContract.mockResolvedValue("0xapprovaltxhash");
 
 		// Setup starknet mocks
-		mockRpcProvider.mockImplementation(() => ({}));
+		// Funded wallet with no router allowance yet
+		mockRpcProvider.mockImplementation(() => ({
+			callContract: jest.fn(async ({ entrypoint }) =>
+				entrypoint === "allowance" ? ["0x0", "0x0"] : ["0xffffffffffffffffffffffff", "0x0"]
+			),
+			waitForTransaction: jest.fn().mockResolvedValue({ execution_status: "SUCCEEDED" }),
+		}));
 		mockAccount.mockImplementation(() => ({
 			execute: jest.fn().mockResolvedValue({
 				transaction_hash: "0xabc123def456",
@@ -100,7 +184,16 @@ describe("Swap Utilities", () => {
 				gas_consumed: BigInt("150000"),
 				gas_price: BigInt("1000000000"),
 				overall_fee: BigInt("150000000000000"),
+				data_gas_consumed: BigInt("128"),
+				data_gas_price: BigInt("100000000000"),
+				unit: "FRI",
 			}),
+			simulateTransaction: jest.fn().mockResolvedValue([
+				{
+					transaction_trace: { execute_invocation: { result: [] } },
+					fee_estimation: { gas_consumed: BigInt("160000") },
+				},
+			]),
 		}));
 	});
 
@@ -194,6 +287,25 @@ describe("Swap Utilities", () => {
 		});
 	});
 
+	describe("encodeEvmSwap", () => {
+		it("should encode the router arguments as a swap() call", () => {
+			expect(encodeEvmSwap(evmCalldata as any)).toBe("0xswapcalldata");
+			expect(encodeFunctionData).toHaveBeenCalledWith(
+				expect.objectContaining({
+					functionName: "swap",
+					args: [
+						expect.objectContaining({
+							amount_in: BigInt(1000000),
+							min_received: BigInt(2475000000),
+							swap_type: 0,
+						}),
+						[expect.objectContaining({ protocol_id: 2, extra_data: "0x" })],
+					],
+				})
+			);
+		});
+	});
+
 	describe("estimateSwapGas", () => {
 		const validParams: SwapParams = {
 			amount: "1000000000000000000",
@@ -232,7 +344,7 @@ describe("Swap Utilities", () => {
 				}),
 				buildRouteAndCalldata: jest.fn().mockResolvedValue({
 					route: { path: ["token1", "token2"] },
-					calldata: ["0x4", "0x5", "0x6"], // For Starknet
+					calldata: starknetCalldata,
 				}),
 			};
 		});
@@ -240,9 +352,46 @@ describe("Swap Utilities", () => {
 		it("should estimate gas for Starknet swap", async () => {
 			const result = await estimateSwapGas(validParams, mockChainConfig, mockFibrousRouter);
 
-			expect(result.gasEstimate).toBe("150000");
-			expect(result.gasPrice).toBe("1000000000");
-			expect(result.estimatedCost).toBe("150000000000000");
+			expect(result).toEqual({
+				gasEstimate: "150000",
+				gasPrice: "1000000000",
+				l2ExecutionFee: "137200000000000",
+				l1DataFee: "12800000000000", // 128 data gas * 100 Gwei
+				totalFee: "150000000000000",
+				estimatedCost: "150000000000000",
+				feeToken: "STRK",
+				source: "rpc",
+			});
+		});
+
+		it("should estimate the Starknet approve call for the approval policy amount", async () => {
+			mockGetServerConfig.mockReturnValue({ approvalPolicy: { mode: "unlimited" } });
+
+			await estimateSwapGas(validParams, mockChainConfig, mockFibrousRouter);
+
+			expect(mockFibrousRouter.buildApproveStarknet).toHaveBeenCalledWith(
+				(1n << 256n) - 1n,
+				validParams.tokenInAddress
+			);
+			const account = mockAccount.mock.results.at(-1)!.value;
+			expect(account.estimateFee).toHaveBeenCalledWith([
+				expect.objectContaining({ entrypoint: "approve" }),
+				expect.objectContaining({ entrypoint: "swap" }),
+			]);
+		});
+
+		it("should leave out the Starknet approve call when the allowance is sufficient", async () => {
+			mockRpcProvider.mockImplementation(() => ({
+				callContract: jest.fn().mockResolvedValue(["0xffffffffffffffffffffffff", "0x0"]),
+			}));
+
+			await estimateSwapGas(validParams, mockChainConfig, mockFibrousRouter);
+
+			expect(mockFibrousRouter.buildApproveStarknet).not.toHaveBeenCalled();
+			const account = mockAccount.mock.results.at(-1)!.value;
+			expect(account.estimateFee).toHaveBeenCalledWith([
+				expect.objectContaining({ entrypoint: "swap" }),
+			]);
 		});
 
 		it("should estimate gas for EVM chains", async () => {
@@ -257,18 +406,65 @@ describe("Swap Utilities", () => {
 				...mockFibrousRouter,
 				buildRouteAndCalldata: jest.fn().mockResolvedValue({
 					route: { path: ["token1", "token2"] },
-					calldata: "0xcalldata",
+					calldata: evmCalldata,
 				}),
 			};
 
+			mockGetGasCostUsd.mockResolvedValue("18.15");
+
 			const result = await estimateSwapGas(evmParams, evmChainConfig, mockEvmRouter as any);
 
-			const expectedGasPrice = "24000000000"; // 20 Gwei * 1.2
-			const expectedCost = "4800000000000000"; // 200,000 * 24 Gwei
+			expect(result).toEqual({
+				gasEstimate: "200000",
+				gasPrice: "30000000000", // Max fee per gas
+				maxFee: "30000000000",
+				priorityFee: "1000000000",
+				l2ExecutionFee: "6000000000000000", // 200,000 * 30 Gwei
+				l1DataFee: "50000000000000",
+				totalFee: "6050000000000000",
+				estimatedCost: "6050000000000000",
+				feeToken: "ETH",
+				costInUSD: "18.15",
+				source: "rpc",
+			});
+			expect(mockGetGasCostUsd).toHaveBeenCalledWith(
+				"base",
+				expect.objectContaining({ totalFee: "6050000000000000", feeToken: "ETH" }),
+				mockEvmRouter
+			);
+			expect(mockEstimateL1Fee).toHaveBeenCalledWith(
+				mockPublicClient,
+				expect.objectContaining({
+					account: mockAccountFromKey.address,
+					to: "0xRouterBase",
+					data: "0xswapcalldata",
+					value: undefined,
+					gasPriceOracleAddress: "0x420000000000000000000000000000000000000F",
+				})
+			);
+		});
+
+		it("should scale the priority fee by the fee strategy", async () => {
+			mockGetServerConfig.mockReturnValue({ gasPriceMultiplier: 1.2, feeStrategy: "fast" });
+			const mockEvmRouter = {
+				...mockFibrousRouter,
+				buildRouteAndCalldata: jest.fn().mockResolvedValue({ calldata: evmCalldata }),
+			};
+
+			const result = await estimateSwapGas(
+				{ ...validParams, chainName: "scroll" },
+				{ rpcUrl: "https://rpc.scroll.io", privateKey: "0x1234" },
+				mockEvmRouter as any
+			);
 
-			expect(result.gasEstimate).toBe("200000");
-			expect(result.gasPrice).toBe(expectedGasPrice);
-			expect(result.estimatedCost).toBe(expectedCost);
+			expect(result.priorityFee).toBe("2000000000");
+			expect(result.maxFee).toBe("31000000000");
+			expect(mockEstimateL1Fee).toHaveBeenCalledWith(
+				mockPublicClient,
+				expect.objectContaining({
+					gasPriceOracleAddress: "0x5300000000000000000000000000000000000002",
+				})
+			);
 		});
 
 		it("should return fallback values for missing Starknet public key", async () => {
@@ -284,6 +480,27 @@ describe("Swap Utilities", () => {
 			expect(result.gasEstimate).toBe("50000");
 			expect(result.gasPrice).toBe("1000000000");
 			expect(result.estimatedCost).toBe("50000000000000");
+			expect(result).toMatchObject({
+				l1DataFee: "0",
+				totalFee: "50000000000000",
+				source: "fallback",
+				fallbackReason: "Starknet public key is required",
+			});
+		});
+
+		it("should fail instead of falling back in strict mode", async () => {
+			mockGetServerConfig.mockReturnValue({ strictGasEstimates: true });
+
+			await expect(
+				estimateSwapGas(
+					validParams,
+					{ ...mockChainConfig, publicKey: undefined },
+					mockFibrousRouter as any
+				)
+			).rejects.toMatchObject({
+				code: "GAS_ESTIMATION_FAILED",
+				details: { chainName: "starknet", reason: "Starknet public key is required" },
+			});
 		});
 	});
 
@@ -330,7 +547,7 @@ describe("Swap Utilities", () => {
 
 			mockFibrousRouter.buildRouteAndCalldata.mockResolvedValue({
 				route: { path: ["token1", "token2"] },
-				calldata: ["0x4", "0x5", "0x6"],
+				calldata: starknetCalldata,
 			});
 
 			// We don't use these anymore in EVM direct implementation, but keeping for starknet usage if any
@@ -360,7 +577,7 @@ describe("Swap Utilities", () => {
 				...mockFibrousRouter,
 				buildRouteAndCalldata: jest.fn().mockResolvedValue({
 					route: { path: ["token1", "token2"] },
-					calldata: "0xcalldata",
+					calldata: evmCalldata,
 				}),
 			};
 
@@ -372,6 +589,36 @@ describe("Swap Utilities", () => {
 			expect(result.gasUsed).toBe("180000");
 		});
 
+		it("should refuse a route whose minimum output is below the agreed floor", async () => {
+			const evmParams: SwapParams = {
+				...validParams,
+				chainName: "base",
+				minOutput: "2480000000",
+			};
+			const mockEvmRouter = {
+				...mockFibrousRouter,
+				buildRouteAndCalldata: jest.fn().mockResolvedValue({
+					route: { outputAmount: "2500000000" },
+					calldata: evmCalldata,
+				}),
+			};
+
+			// 1% below 2500 USDC leaves 2475 USDC, under the 2480 USDC floor
+			const result = await executeSwap(
+				evmParams,
+				{
+					rpcUrl: "https://mainnet.base.org",
+					privateKey:
+						"0x1234567890123456789012345678901234567890123456789012345678901234",
+				},
+				mockEvmRouter as any
+			);
+
+			expect(result.success).toBe(false);
+			expect(result.errorCode).toBe("SLIPPAGE_EXCEEDED");
+			expect(mockWalletClient.sendTransaction).not.toHaveBeenCalled();
+		});
+
 		it("should handle missing receiver address", async () => {
 			const paramsWithoutReceiver = { ...validParams };
 			delete (paramsWithoutReceiver as any).receiverAddress;
@@ -411,13 +658,15 @@ describe("Swap Utilities", () => {
 				...mockFibrousRouter,
 				buildRouteAndCalldata: jest.fn().mockResolvedValue({
 					route: { path: ["token1", "token2"] },
-					calldata: "0xcalldata",
+					calldata: evmCalldata,
 				}),
 			};
 
 			// Simulate approval failure
 			// Mock allowance as 0
-			mockPublicClient.readContract.mockResolvedValue(BigInt(0));
+			mockPublicClient.readContract.mockImplementation(async ({ functionName }) =>
+				functionName === "allowance" ? BigInt(0) : BigInt("99999999999999999999999999")
+			);
 			// Mock writeContract failure
 			mockWalletClient.writeContract.mockRejectedValue(new Error("Approval rejected"));
 
@@ -471,4 +720,924 @@ describe("Swap Utilities", () => {
 			expect(result.error).toBe("Starknet swap failed");
 		});
 	});
+
+	describe("native token handling", () => {
+		const nativeAddress = "0x0000000000000000000000000000000000000000";
+		const usdcAddress = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+
+		const evmChainConfig = {
+			rpcUrl: "https://mainnet.base.org",
+			privateKey: "0x1234567890123456789012345678901234567890123456789012345678901234",
+		};
+
+		let mockRouter: any;
+
+		beforeEach(() => {
+			mockRouter = {
+				NATIVE_TOKEN_ADDRESS: nativeAddress,
+				supportedChains: [
+					{ chain_name: "base", chain_id: 8453, router_address: "0xRouterBase" },
+				],
+				buildRouteAndCalldata: jest.fn(routeAndCalldata({ outputAmount: "2500000000" })),
+			};
+		});
+
+		it("should recognise native token aliases", () => {
+			expect(isNativeToken(nativeAddress)).toBe(true);
+			expect(isNativeToken("0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE")).toBe(true);
+			expect(isNativeToken("0xCustomSentinel", "0xcustomsentinel")).toBe(true);
+			expect(isNativeToken(usdcAddress)).toBe(false);
+		});
+
+		it("should send native ETH input as value and skip approval", async () => {
+			const result = await executeSwap(
+				{
+					amount: "1000000000000000000",
+					tokenInAddress: "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE",
+					tokenOutAddress: usdcAddress,
+					chainName: "base",
+				},
+				evmChainConfig,
+				mockRouter
+			);
+
+			expect(result.success).toBe(true);
+			expect(mockPublicClient.readContract).not.toHaveBeenCalled();
+			expect(mockWalletClient.writeContract).not.toHaveBeenCalled();
+			expect(mockRouter.buildRouteAndCalldata).toHaveBeenCalledWith(
+				expect.objectContaining({ tokenInAddress: nativeAddress })
+			);
+			expect(mockWalletClient.sendTransaction).toHaveBeenCalledWith(
+				expect.objectContaining({ value: BigInt("1000000000000000000") })
+			);
+		});
+
+		it("should map native ETH output to the router sentinel", async () => {
+			const result = await executeSwap(
+				{
+					amount: "1000000",
+					tokenInAddress: usdcAddress,
+					tokenOutAddress: "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE",
+					chainName: "base",
+				},
+				evmChainConfig,
+				mockRouter
+			);
+
+			expect(result.success).toBe(true);
+			expect(mockRouter.buildRouteAndCalldata).toHaveBeenCalledWith(
+				expect.objectContaining({ tokenOutAddress: nativeAddress })
+			);
+			expect(mockWalletClient.sendTransaction).toHaveBeenCalledWith(
+				expect.objectContaining({ value: undefined })
+			);
+		});
+
+		it("should include value when estimating gas for native input", async () => {
+			await estimateSwapGas(
+				{
+					amount: "1000000000000000000",
+					tokenInAddress: nativeAddress,
+					tokenOutAddress: usdcAddress,
+					chainName: "base",
+				},
+				evmChainConfig,
+				mockRouter
+			);
+
+			expect(mockPublicClient.estimateGas).toHaveBeenCalledWith(
+				expect.objectContaining({ value: BigInt("1000000000000000000") })
+			);
+		});
+	});
+
+	describe("executeSwap (realised output)", () => {
+		const usdcAddress = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+		const wethAddress = "0x4200000000000000000000000000000000000006";
+		const transferTopic = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+		const word = (value: string | bigint) =>
+			`0x${BigInt(value).toString(16).padStart(64, "0")}`;
+
+		const route = {
+			inputAmount: "1000000000000000000",
+			inputToken: { decimals: "18" },
+			outputAmount: "3000000000",
+			outputToken: { decimals: "6" },
+		};
+
+		const mockRouter = {
+			supportedChains: [
+				{ chain_name: "base", chain_id: 8453, router_address: "0xRouterBase" },
+				{ chain_name: "starknet", chain_id: 1, router_address: "0xRouterStarknet" },
+			],
+			buildApproveStarknet: jest.fn(),
+			buildRouteAndCalldata: jest.fn(),
+		};
+
+		beforeEach(() => {
+			mockRouter.buildRouteAndCalldata.mockResolvedValue({ route, calldata: evmCalldata });
+		});
+
+		it("should decode the EVM output transfer and compare it with the route", async () => {
+			mockPublicClient.waitForTransactionReceipt.mockResolvedValue({
+				status: "success",
+				gasUsed: BigInt("180000"),
+				logs: [
+					{
+						address: usdcAddress,
+						topics: [transferTopic, word(1n), word(mockAccountFromKey.address)],
+						data: word(2985000000n),
+					},
+				],
+			});
+
+			const result = await executeSwap(
+				{
+					amount: "1000000000000000000",
+					tokenInAddress: wethAddress,
+					tokenOutAddress: usdcAddress,
+					chainName: "base",
+				},
+				{
+					rpcUrl: "https://mainnet.base.org",
+					privateKey:
+						"0x1234567890123456789012345678901234567890123456789012345678901234",
+				},
+				mockRouter as any
+			);
+
+			expect(result).toEqual(
+				expect.objectContaining({
+					success: true,
+					outputAmount: "2985000000",
+					expectedOutputAmount: "3000000000",
+					effectivePrice: "2985",
+					realisedSlippage: 0.5,
+				})
+			);
+		});
+
+		it("should report a reverted EVM receipt as a failed swap", async () => {
+			mockPublicClient.waitForTransactionReceipt.mockResolvedValue({
+				status: "reverted",
+				gasUsed: BigInt("90000"),
+				logs: [],
+			});
+
+			const result = await executeSwap(
+				{
+					amount: "1000000000000000000",
+					tokenInAddress: wethAddress,
+					tokenOutAddress: usdcAddress,
+					chainName: "base",
+				},
+				{
+					rpcUrl: "https://mainnet.base.org",
+					privateKey:
+						"0x1234567890123456789012345678901234567890123456789012345678901234",
+				},
+				mockRouter as any
+			);
+
+			expect(result).toEqual(
+				expect.objectContaining({
+					success: false,
+					transactionHash: "0xevmtxhash",
+					errorCode: "TRANSACTION_REVERTED",
+				})
+			);
+		});
+
+		it("should wait for the Starknet receipt and decode the output transfer", async () => {
+			const tokenOut = "0x053c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8";
+			const wallet = "0x4567890123456789012345678901234567890123456789012345678901234567";
+			const waitForTransaction = jest.fn().mockResolvedValue({
+				execution_status: "SUCCEEDED",
+				events: [
+					{
+						from_address: tokenOut,
+						keys: [
+							"0x99cd8bde557814842a3121e8ddfd433a539b8c9f14bf31ebf108d12e6196e9",
+							"0x1",
+							wallet,
+						],
+						data: ["0xb2eb1c40", "0x0"],
+					},
+				],
+			});
+			mockRpcProvider.mockImplementation(() => ({
+				callContract: jest.fn().mockResolvedValue(["0xffffffffffffffffffffffff", "0x0"]),
+				waitForTransaction,
+			}));
+
+			const result = await executeSwap(
+				{
+					amount: "1000000000000000000",
+					tokenInAddress:
+						"0x049d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7",
+					tokenOutAddress: tokenOut,
+					chainName: "starknet",
+				},
+				{
+					rpcUrl: "https://starknet-mainnet.public.blastapi.io",
+					privateKey:
+						"0x1234567890123456789012345678901234567890123456789012345678901234",
+					publicKey: wallet,
+				},
+				mockRouter as any
+			);
+
+			expect(waitForTransaction).toHaveBeenCalledWith("0xabc123def456");
+			expect(result).toEqual(
+				expect.objectContaining({
+					success: true,
+					outputAmount: "3001752640",
+					realisedSlippage: -0.0584,
+				})
+			);
+		});
+	});
+
+	describe("executeSwap (stuck transactions)", () => {
+		const timeoutError = Object.assign(new Error("Timed out"), {
+			name: "WaitForTransactionReceiptTimeoutError",
+		});
+
+		const swapParams: SwapParams = {
+			amount: "1000000000000000000",
+			tokenInAddress: "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE",
+			tokenOutAddress: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+			chainName: "base",
+		};
+
+		const evmChainConfig = {
+			rpcUrl: "https://mainnet.base.org",
+			privateKey: "0x1234567890123456789012345678901234567890123456789012345678901234",
+		};
+
+		const mockRouter = {
+			supportedChains: [
+				{ chain_name: "base", chain_id: 8453, router_address: "0xRouterBase" },
+			],
+			buildRouteAndCalldata: jest.fn(),
+		};
+
+		beforeEach(() => {
+			mockRouter.buildRouteAndCalldata.mockResolvedValue({
+				route: {},
+				calldata: evmCalldata,
+			});
+			mockPublicClient.waitForTransactionReceipt.mockRejectedValue(timeoutError);
+			mockPublicClient.getTransaction.mockResolvedValue({
+				from: mockAccountFromKey.address,
+				to: "0xRouterBase",
+				input: "0xswapcalldata",
+				value: BigInt("1000000000000000000"),
+				nonce: 3,
+				gasPrice: BigInt("24000000000"),
+			});
+			mockPublicClient.getTransactionReceipt.mockResolvedValue({
+				transactionHash: "0xspeedup",
+				status: "success",
+				gasUsed: BigInt("180000"),
+			});
+		});
+
+		it("should fail with a timeout when no stuck transaction action is configured", async () => {
+			const result = await executeSwap(swapParams, evmChainConfig, mockRouter as any);
+
+			expect(mockPublicClient.waitForTransactionReceipt).toHaveBeenCalledWith({
+				hash: "0xevmtxhash",
+				timeout: 300000,
+			});
+			expect(result).toEqual(
+				expect.objectContaining({
+					success: false,
+					errorCode: "TRANSACTION_TIMEOUT",
+					transactionHash: "0xevmtxhash",
+					explorerUrl: "https://basescan.org/tx/0xevmtxhash",
+				})
+			);
+		});
+
+		it("should not report a swap hash when the approval timed out", async () => {
+			mockPublicClient.readContract.mockImplementation(async ({ functionName }) =>
+				functionName === "allowance" ? BigInt(0) : BigInt("99999999999999999999999999")
+			);
+
+			const result = await executeSwap(
+				{ ...swapParams, tokenInAddress: "0x4200000000000000000000000000000000000006" },
+				evmChainConfig,
+				mockRouter as any
+			);
+
+			expect(mockWalletClient.sendTransaction).not.toHaveBeenCalled();
+			expect(result).toMatchObject({ success: false, errorCode: "TRANSACTION_TIMEOUT" });
+			expect(result).not.toHaveProperty("transactionHash");
+		});
+
+		it("should report the hash of a Starknet swap that was not accepted in time", async () => {
+			mockGetServerConfig.mockReturnValue({
+				transactionTimeout: 0.01,
+				approvalPolicy: { mode: "exact" },
+			});
+			mockRpcProvider.mockImplementation(() => ({
+				callContract: jest.fn().mockResolvedValue(["0xffffffffffffffffffffffff", "0x0"]),
+				// Never settles, like a transaction stuck in the mempool
+				waitForTransaction: jest.fn().mockReturnValue(new Promise(jest.fn())),
+			}));
+
+			const result = await executeSwap(
+				{
+					amount: "1000000000000000000",
+					tokenInAddress:
+						"0x049d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7",
+					tokenOutAddress:
+						"0x053c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8",
+					chainName: "starknet",
+				},
+				{
+					rpcUrl: "https://starknet-mainnet.public.blastapi.io",
+					privateKey:
+						"0x1234567890123456789012345678901234567890123456789012345678901234",
+					publicKey: "0x4567890123456789012345678901234567890123456789012345678901234567",
+				},
+				{
+					supportedChains: [
+						{ chain_name: "starknet", chain_id: 1, router_address: "0xRouterStarknet" },
+					],
+					buildRouteAndCalldata: jest.fn().mockResolvedValue({
+						route: {},
+						calldata: { entrypoint: "swap", calldata: ["0x1"] },
+					}),
+				} as any
+			);
+
+			expect(result).toMatchObject({
+				success: false,
+				errorCode: "TRANSACTION_TIMEOUT",
+				transactionHash: "0xabc123def456",
+				explorerUrl: "https://starkscan.co/tx/0xabc123def456",
+			});
+		});
+
+		it("should report a speed-up that replaced the stuck swap", async () => {
+			mockGetServerConfig.mockReturnValue({
+				gasPriceMultiplier: 1.2,
+				feeStrategy: "standard",
+				transactionTimeout: 300,
+				stuckTransactionPolicy: { action: "speed-up", feeBump: 20 },
+			});
+			mockWalletClient.sendTransaction
+				.mockResolvedValueOnce("0xevmtxhash")
+				.mockResolvedValueOnce("0xspeedup");
+
+			const result = await executeSwap(swapParams, evmChainConfig, mockRouter as any);
+
+			expect(mockWalletClient.sendTransaction).toHaveBeenLastCalledWith(
+				expect.objectContaining({ nonce: 3, gasPrice: BigInt("28800000000") })
+			);
+			expect(result).toEqual(
+				expect.objectContaining({
+					success: true,
+					transactionHash: "0xspeedup",
+					explorerUrl: "https://basescan.org/tx/0xspeedup",
+					replacements: [
+						{
+							stage: "swap",
+							action: "speed-up",
+							originalHash: "0xevmtxhash",
+							replacementHash: "0xspeedup",
+							outcome: "replaced",
+						},
+					],
+				})
+			);
+		});
+
+		it("should report a cancelled swap as a timeout", async () => {
+			mockGetServerConfig.mockReturnValue({
+				gasPriceMultiplier: 1.2,
+				feeStrategy: "standard",
+				transactionTimeout: 300,
+				stuckTransactionPolicy: { action: "cancel", feeBump: 20 },
+			});
+			mockWalletClient.sendTransaction
+				.mockResolvedValueOnce("0xevmtxhash")
+				.mockResolvedValueOnce("0xspeedup");
+
+			const result = await executeSwap(swapParams, evmChainConfig, mockRouter as any);
+
+			expect(result).toEqual(
+				expect.objectContaining({
+					success: false,
+					errorCode: "TRANSACTION_TIMEOUT",
+					transactionHash: "0xspeedup",
+					explorerUrl: "https://basescan.org/tx/0xspeedup",
+					replacements: [
+						expect.objectContaining({ action: "cancel", outcome: "replaced" }),
+					],
+				})
+			);
+		});
+	});
+
+	describe("executeSwap (dry run)", () => {
+		const evmParams: SwapParams = {
+			amount: "1000000000000000000",
+			tokenInAddress: "0x1111111111111111111111111111111111111111",
+			tokenOutAddress: "0x2222222222222222222222222222222222222222",
+			slippage: 1,
+			chainName: "base",
+			dryRun: true,
+		};
+
+		const evmChainConfig = {
+			rpcUrl: "https://mainnet.base.org",
+			privateKey: "0x1234567890123456789012345678901234567890123456789012345678901234",
+		};
+
+		const starknetChainConfig = {
+			rpcUrl: "https://starknet-mainnet.public.blastapi.io",
+			privateKey: "0x1234567890123456789012345678901234567890123456789012345678901234",
+			publicKey: "0x4567890123456789012345678901234567890123456789012345678901234567",
+		};
+
+		let mockRouter: any;
+
+		beforeEach(() => {
+			mockRouter = {
+				supportedChains: [
+					{ chain_name: "starknet", chain_id: 1, router_address: "0xRouterStarknet" },
+					{ chain_name: "base", chain_id: 8453, router_address: "0xRouterBase" },
+				],
+				buildApproveStarknet: jest.fn().mockResolvedValue({
+					contractAddress: "0x123",
+					entrypoint: "approve",
+					calldata: ["0x1"],
+				}),
+				buildRouteAndCalldata: jest.fn(routeAndCalldata({ outputAmount: "2500000000" })),
+			};
+		});
+
+		it("should simulate an EVM swap via eth_call without broadcasting", async () => {
+			const result = await executeSwap(evmParams, evmChainConfig, mockRouter);
+
+			expect(result).toEqual(
+				expect.objectContaining({
+					success: true,
+					simulated: true,
+					approvalRequired: false,
+					expectedOutputAmount: "2500000000",
+					gasEstimate: "200000",
+				})
+			);
+			expect(mockPublicClient.call).toHaveBeenCalledWith(
+				expect.objectContaining({ to: "0xRouterBase", data: "0xswapcalldata" })
+			);
+			expect(mockWalletClient.writeContract).not.toHaveBeenCalled();
+			expect(mockWalletClient.sendTransaction).not.toHaveBeenCalled();
+		});
+
+		it("should simulate approve and swap together when allowance is missing", async () => {
+			mockPublicClient.readContract.mockImplementation(async ({ functionName }) =>
+				functionName === "allowance" ? BigInt(0) : BigInt("99999999999999999999999999")
+			);
+
+			const result = await executeSwap(evmParams, evmChainConfig, mockRouter);
+
+			expect(result.success).toBe(true);
+			expect(result.approvalRequired).toBe(true);
+			expect(result.gasEstimate).toBe("196000");
+			expect(mockPublicClient.simulateCalls).toHaveBeenCalledWith(
+				expect.objectContaining({
+					calls: [
+						expect.objectContaining({ data: "0xapprovecalldata" }),
+						expect.objectContaining({ to: "0xRouterBase", data: "0xswapcalldata" }),
+					],
+				})
+			);
+			expect(mockWalletClient.writeContract).not.toHaveBeenCalled();
+		});
+
+		it("should report the revert reason of a failing EVM simulation", async () => {
+			const revert = Object.assign(new Error("long message"), {
+				shortMessage: "execution reverted: Insufficient output amount",
+			});
+			mockPublicClient.call.mockRejectedValue(revert);
+
+			const result = await executeSwap(evmParams, evmChainConfig, mockRouter);
+
+			expect(result.success).toBe(false);
+			expect(result.simulated).toBe(true);
+			expect(result.revertReason).toBe("execution reverted: Insufficient output amount");
+			expect(mockWalletClient.sendTransaction).not.toHaveBeenCalled();
+		});
+
+		it("should simulate a Starknet swap without executing it", async () => {
+			const result = await executeSwap(
+				{ ...evmParams, chainName: "starknet" },
+				starknetChainConfig,
+				mockRouter
+			);
+
+			// The last account is the one used for the swap (earlier ones estimate gas)
+			const account = mockAccount.mock.results.at(-1)!.value;
+			expect(account.simulateTransaction).toHaveBeenCalledWith([
+				expect.objectContaining({
+					type: "INVOKE_FUNCTION",
+					payload: [
+						expect.objectContaining({ entrypoint: "approve" }),
+						expect.objectContaining({ entrypoint: "swap" }),
+					],
+				}),
+			]);
+			expect(account.execute).not.toHaveBeenCalled();
+			expect(result).toEqual(
+				expect.objectContaining({
+					success: true,
+					simulated: true,
+					expectedOutputAmount: "2500000000",
+					gasEstimate: "160000",
+				})
+			);
+		});
+
+		it("should report a reverted Starknet simulation", async () => {
+			mockAccount.mockImplementation(() => ({
+				simulateTransaction: jest.fn().mockResolvedValue([
+					{
+						transaction_trace: {
+							execute_invocation: { revert_reason: "Insufficient balance" },
+						},
+						fee_estimation: { gas_consumed: BigInt("1000") },
+					},
+				]),
+			}));
+
+			const result = await executeSwap(
+				{ ...evmParams, chainName: "starknet" },
+				starknetChainConfig,
+				mockRouter
+			);
+
+			expect(result.success).toBe(false);
+			expect(result.revertReason).toBe("Insufficient balance");
+		});
+	});
+
+	describe("executeSwap (pre-flight)", () => {
+		const evmParams: SwapParams = {
+			amount: "1000000000000000000",
+			tokenInAddress: "0x1111111111111111111111111111111111111111",
+			tokenOutAddress: "0x2222222222222222222222222222222222222222",
+			slippage: 1,
+			chainName: "base",
+		};
+
+		const evmChainConfig = {
+			rpcUrl: "https://mainnet.base.org",
+			privateKey: "0x1234567890123456789012345678901234567890123456789012345678901234",
+		};
+
+		// 200000 gas at 20 gwei with the 1.2x multiplier
+		const gasCost = BigInt("6050000000000000"); // 200,000 gas * 30 Gwei max fee + L1 data fee
+
+		let mockRouter: any;
+
+		beforeEach(() => {
+			mockRouter = {
+				supportedChains: [
+					{ chain_name: "starknet", chain_id: 1, router_address: "0xRouterStarknet" },
+					{ chain_name: "base", chain_id: 8453, router_address: "0xRouterBase" },
+				],
+				buildApproveStarknet: jest.fn().mockResolvedValue({
+					contractAddress: "0x123",
+					entrypoint: "approve",
+					calldata: ["0x1"],
+				}),
+				buildRouteAndCalldata: jest.fn(routeAndCalldata({ outputAmount: "2500000000" })),
+			};
+		});
+
+		it("should stop before signing when the token balance is too low", async () => {
+			mockPublicClient.readContract.mockImplementation(async ({ functionName }) =>
+				functionName === "balanceOf" ? BigInt(1) : BigInt("99999999999999999999999999")
+			);
+
+			const result = await executeSwap(evmParams, evmChainConfig, mockRouter);
+
+			expect(result.success).toBe(false);
+			expect(result.errorCode).toBe("INSUFFICIENT_BALANCE");
+			expect(result.preflight?.tokenBalance).toEqual({
+				token: evmParams.tokenInAddress,
+				required: "1000000000000000000",
+				available: "1",
+				sufficient: false,
+			});
+			expect(mockWalletClient.writeContract).not.toHaveBeenCalled();
+			expect(mockWalletClient.sendTransaction).not.toHaveBeenCalled();
+		});
+
+		it("should stop before signing when gas cannot be paid", async () => {
+			mockPublicClient.getBalance.mockResolvedValue(BigInt(1000));
+
+			const result = await executeSwap(evmParams, evmChainConfig, mockRouter);
+
+			expect(result.errorCode).toBe("INSUFFICIENT_BALANCE");
+			expect(result.error).toContain("Insufficient native balance for gas");
+			expect(result.preflight?.gasBalance).toEqual(
+				expect.objectContaining({
+					required: gasCost.toString(),
+					available: "1000",
+					sufficient: false,
+					fallbackEstimate: false,
+				})
+			);
+			expect(mockWalletClient.sendTransaction).not.toHaveBeenCalled();
+		});
+
+		it("should require the amount plus gas when swapping native ETH", async () => {
+			mockPublicClient.getBalance.mockResolvedValue(BigInt("1000000000000000000"));
+
+			const result = await executeSwap(
+				{ ...evmParams, tokenInAddress: "0x0000000000000000000000000000000000000000" },
+				evmChainConfig,
+				mockRouter
+			);
+
+			expect(result.errorCode).toBe("INSUFFICIENT_BALANCE");
+			expect(result.preflight?.tokenBalance.sufficient).toBe(true);
+			expect(result.preflight?.gasBalance.required).toBe(
+				(BigInt("1000000000000000000") + gasCost).toString()
+			);
+		});
+
+		it("should not block the swap on a fallback gas estimate", async () => {
+			mockPublicClient.estimateGas.mockRejectedValue(new Error("execution reverted"));
+			mockPublicClient.getBalance.mockResolvedValue(BigInt(0));
+
+			const result = await executeSwap(evmParams, evmChainConfig, mockRouter);
+
+			expect(result.success).toBe(true);
+			expect(result.preflight?.gasBalance.fallbackEstimate).toBe(true);
+		});
+
+		it("should fail the swap on a failed gas estimate in strict mode", async () => {
+			mockGetServerConfig.mockReturnValue({
+				gasPriceMultiplier: 1.2,
+				feeStrategy: "standard",
+				strictGasEstimates: true,
+			});
+			mockPublicClient.estimateGas.mockRejectedValue(new Error("execution reverted"));
+
+			const result = await executeSwap(evmParams, evmChainConfig, mockRouter);
+
+			expect(result.success).toBe(false);
+			expect(result.errorCode).toBe("GAS_ESTIMATION_FAILED");
+			expect(mockWalletClient.sendTransaction).not.toHaveBeenCalled();
+		});
+
+		it("should estimate a first-time ERC20 swap together with its approval in strict mode", async () => {
+			mockGetServerConfig.mockReturnValue({
+				gasPriceMultiplier: 1.2,
+				feeStrategy: "standard",
+				strictGasEstimates: true,
+				approvalPolicy: { mode: "exact" },
+			});
+			mockPublicClient.readContract.mockImplementation(async ({ functionName }) =>
+				functionName === "allowance" ? BigInt(0) : BigInt("99999999999999999999999999")
+			);
+			// Without an allowance the swap alone reverts
+			mockPublicClient.estimateGas.mockRejectedValue(new Error("execution reverted"));
+
+			const result = await executeSwap(evmParams, evmChainConfig, mockRouter);
+
+			expect(result.success).toBe(true);
+			expect(result.preflight).toEqual(
+				expect.objectContaining({ passed: true, approvalRequired: true })
+			);
+			expect(result.preflight?.gasBalance.fallbackEstimate).toBe(false);
+			expect(mockPublicClient.simulateCalls).toHaveBeenCalledWith(
+				expect.objectContaining({
+					calls: [
+						expect.objectContaining({ to: evmParams.tokenInAddress }),
+						expect.objectContaining({ to: "0xRouterBase", data: "0xswapcalldata" }),
+					],
+				})
+			);
+		});
+
+		it("should report the router allowance", async () => {
+			mockPublicClient.readContract.mockImplementation(async ({ functionName }) =>
+				functionName === "allowance" ? BigInt(5) : BigInt("99999999999999999999999999")
+			);
+
+			const result = await executeSwap(evmParams, evmChainConfig, mockRouter);
+
+			expect(result.success).toBe(true);
+			expect(result.preflight).toEqual(
+				expect.objectContaining({
+					passed: true,
+					approvalRequired: true,
+					allowance: { spender: "0xRouterBase", current: "5", sufficient: false },
+				})
+			);
+		});
+
+		it("should check Starknet token balances before executing", async () => {
+			const callContract = jest.fn().mockResolvedValue(["0x0", "0x0"]);
+			mockRpcProvider.mockImplementation(() => ({ callContract }));
+
+			const result = await executeSwap(
+				{
+					...evmParams,
+					tokenInAddress:
+						"0x053c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8",
+					chainName: "starknet",
+				},
+				{
+					rpcUrl: "https://starknet-mainnet.public.blastapi.io",
+					privateKey:
+						"0x1234567890123456789012345678901234567890123456789012345678901234",
+					publicKey: "0x4567890123456789012345678901234567890123456789012345678901234567",
+				},
+				mockRouter
+			);
+
+			expect(result.errorCode).toBe("INSUFFICIENT_BALANCE");
+			expect(callContract).toHaveBeenCalledWith(
+				expect.objectContaining({ entrypoint: "balanceOf" })
+			);
+			mockAccount.mock.results.forEach(({ value }) => {
+				expect(value.execute).not.toHaveBeenCalled();
+			});
+		});
+
+		it("should check the Starknet fee token the estimate is priced in", async () => {
+			const strk = "0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d";
+			const callContract = jest.fn().mockResolvedValue(["0x0", "0x0"]);
+			mockRpcProvider.mockImplementation(() => ({ callContract }));
+
+			const result = await executeSwap(
+				{
+					...evmParams,
+					tokenInAddress:
+						"0x053c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8",
+					chainName: "starknet",
+				},
+				{
+					rpcUrl: "https://starknet-mainnet.public.blastapi.io",
+					privateKey:
+						"0x1234567890123456789012345678901234567890123456789012345678901234",
+					publicKey: "0x4567890123456789012345678901234567890123456789012345678901234567",
+				},
+				mockRouter
+			);
+
+			expect(result.preflight?.gasBalance).toEqual(
+				expect.objectContaining({ token: strk, estimatedCost: "150000000000000" })
+			);
+			expect(callContract).toHaveBeenCalledWith(
+				expect.objectContaining({ contractAddress: strk, entrypoint: "balanceOf" })
+			);
+		});
+	});
+
+	describe("approval policy", () => {
+		const evmChainConfig = {
+			rpcUrl: "https://mainnet.base.org",
+			privateKey: "0x1234567890123456789012345678901234567890123456789012345678901234",
+		};
+
+		const starknetChainConfig = {
+			rpcUrl: "https://starknet-mainnet.public.blastapi.io",
+			privateKey: "0x1234567890123456789012345678901234567890123456789012345678901234",
+			publicKey: "0x4567890123456789012345678901234567890123456789012345678901234567",
+		};
+
+		const params: SwapParams = {
+			amount: "1000000",
+			tokenInAddress: "0x1111111111111111111111111111111111111111",
+			tokenOutAddress: "0x2222222222222222222222222222222222222222",
+			chainName: "base",
+		};
+
+		let mockRouter: any;
+
+		beforeEach(() => {
+			mockRouter = {
+				supportedChains: [
+					{ chain_name: "starknet", chain_id: 1, router_address: "0xRouterStarknet" },
+					{ chain_name: "base", chain_id: 8453, router_address: "0xRouterBase" },
+				],
+				buildApproveStarknet: jest.fn().mockResolvedValue({
+					contractAddress: "0x123",
+					entrypoint: "approve",
+					calldata: ["0x1"],
+				}),
+				buildRouteAndCalldata: jest.fn(routeAndCalldata({ outputAmount: "2500000000" })),
+			};
+			mockPublicClient.readContract.mockImplementation(async ({ functionName }) =>
+				functionName === "allowance" ? BigInt(0) : BigInt("99999999999999999999999999")
+			);
+		});
+
+		it("should approve exactly the swap amount by default", async () => {
+			await executeSwap(params, evmChainConfig, mockRouter);
+
+			expect(mockWalletClient.writeContract).toHaveBeenCalledWith(
+				expect.objectContaining({ args: ["0xRouterBase", BigInt(1000000)] })
+			);
+		});
+
+		it("should approve the max uint256 under the unlimited policy", async () => {
+			mockGetServerConfig.mockReturnValue({
+				gasPriceMultiplier: 1.2,
+				feeStrategy: "standard",
+				approvalPolicy: { mode: "unlimited" },
+			});
+
+			await executeSwap(params, evmChainConfig, mockRouter);
+
+			expect(mockWalletClient.writeContract).toHaveBeenCalledWith(
+				expect.objectContaining({ args: ["0xRouterBase", (1n << 256n) - 1n] })
+			);
+		});
+
+		it("should approve the token's cap in its own decimals under the capped policy", async () => {
+			mockGetServerConfig.mockReturnValue({
+				gasPriceMultiplier: 1.2,
+				approvalPolicy: { mode: "capped", caps: [{ token: "USDC", amount: "5" }] },
+			});
+			mockRouter.buildRouteAndCalldata = jest.fn(
+				routeAndCalldata({
+					outputAmount: "2500000000",
+					inputToken: { address: params.tokenInAddress, symbol: "USDC", decimals: "6" },
+				})
+			);
+
+			await executeSwap(
+				{ ...params, chainName: "starknet" },
+				starknetChainConfig,
+				mockRouter
+			);
+
+			expect(mockRouter.buildApproveStarknet).toHaveBeenCalledWith(
+				BigInt(5000000),
+				params.tokenInAddress
+			);
+		});
+
+		it("should approve exactly the swap amount for tokens without a cap", async () => {
+			mockGetServerConfig.mockReturnValue({
+				gasPriceMultiplier: 1.2,
+				feeStrategy: "standard",
+				approvalPolicy: { mode: "capped", caps: [{ token: "WETH", amount: "1" }] },
+			});
+			mockRouter.buildRouteAndCalldata = jest.fn(
+				routeAndCalldata({
+					outputAmount: "2500000000",
+					inputToken: { address: params.tokenInAddress, symbol: "USDC", decimals: "6" },
+				})
+			);
+
+			await executeSwap(params, evmChainConfig, mockRouter);
+
+			expect(mockWalletClient.writeContract).toHaveBeenCalledWith(
+				expect.objectContaining({ args: ["0xRouterBase", BigInt(1000000)] })
+			);
+		});
+
+		it("should send the approval with the configured fees", async () => {
+			await executeSwap(params, evmChainConfig, mockRouter);
+
+			expect(mockWalletClient.writeContract).toHaveBeenCalledWith(
+				expect.objectContaining({
+					functionName: "approve",
+					maxFeePerGas: expect.any(BigInt),
+					maxPriorityFeePerGas: expect.any(BigInt),
+				})
+			);
+		});
+
+		it("should skip the Starknet approve call when the allowance is sufficient", async () => {
+			mockRpcProvider.mockImplementation(() => ({
+				callContract: jest.fn().mockResolvedValue(["0xffffffffffffffffffffffff", "0x0"]),
+				waitForTransaction: jest.fn().mockResolvedValue({ execution_status: "SUCCEEDED" }),
+			}));
+
+			const result = await executeSwap(
+				{ ...params, chainName: "starknet" },
+				starknetChainConfig,
+				mockRouter
+			);
+
+			expect(result.success).toBe(true);
+			const account = mockAccount.mock.results.at(-1)!.value;
+			expect(account.execute).toHaveBeenCalledWith([
+				expect.objectContaining({ entrypoint: "swap" }),
+			]);
+		});
+	});
 });
@@ -0,0 +1,282 @@
+import {
+	isSameAddress,
+	isTokenAddress,
+	getTokenDecimals,
+	resolveAmount,
+	resolveTokenAddresses,
+	TokenResolutionError,
+} from "../../src/utils/tokens";
+
+describe("Token Utilities", () => {
+	const usdcAddress = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+
+	const mockRouter = {
+		getToken: jest.fn(),
+		supportedTokens: jest.fn(),
+	};
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+		mockRouter.getToken.mockResolvedValue({
+			address: usdcAddress,
+			symbol: "USDC",
+			decimals: "6",
+		});
+		mockRouter.supportedTokens.mockResolvedValue(new Map());
+	});
+
+	describe("isSameAddress", () => {
+		it("should ignore case and zero padding", () => {
+			expect(isSameAddress(usdcAddress, usdcAddress.toLowerCase())).toBe(true);
+			expect(
+				isSameAddress(
+					"0x049d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7",
+					"0x49D36570D4E46F48E99674BD3FCC84644DDD6B96F7C741B1562B82F9E004DC7"
+				)
+			).toBe(true);
+		});
+
+		it("should detect different addresses", () => {
+			expect(isSameAddress("0x123", "0x456")).toBe(false);
+			expect(isSameAddress("ETH", "eth")).toBe(true);
+		});
+	});
+
+	describe("getTokenDecimals", () => {
+		it("should read decimals from getToken", async () => {
+			const decimals = await getTokenDecimals(usdcAddress, "base", mockRouter as any);
+
+			expect(decimals).toBe(6);
+			expect(mockRouter.getToken).toHaveBeenCalledWith(usdcAddress, "base");
+		});
+
+		it("should use 18 decimals for native ETH on EVM chains", async () => {
+			const decimals = await getTokenDecimals(
+				"0x0000000000000000000000000000000000000000",
+				"scroll",
+				mockRouter as any
+			);
+
+			expect(decimals).toBe(18);
+			expect(mockRouter.getToken).not.toHaveBeenCalled();
+		});
+
+		it("should fall back to the supported token list", async () => {
+			mockRouter.getToken.mockRejectedValue(new Error("Token not found"));
+			mockRouter.supportedTokens.mockResolvedValue(
+				new Map([["usdc", { address: usdcAddress.toLowerCase(), decimals: "6" }]])
+			);
+
+			const decimals = await getTokenDecimals(usdcAddress, "base", mockRouter as any);
+
+			expect(decimals).toBe(6);
+		});
+
+		it("should throw when the token is unknown", async () => {
+			mockRouter.getToken.mockResolvedValue(null);
+
+			await expect(getTokenDecimals("0x999", "base", mockRouter as any)).rejects.toThrow(
+				"Unable to resolve decimals for token 0x999 on base"
+			);
+		});
+	});
+
+	describe("resolveAmount", () => {
+		it("should convert human-readable amounts to wei", async () => {
+			const result = await resolveAmount(
+				{ amountHuman: "1.5" },
+				usdcAddress,
+				"base",
+				mockRouter as any
+			);
+
+			expect(result).toEqual({ wei: "1500000", human: "1.5", decimals: 6 });
+		});
+
+		it("should echo the human-readable form of wei amounts", async () => {
+			const result = await resolveAmount(
+				{ amountWei: "2500000" },
+				usdcAddress,
+				"base",
+				mockRouter as any
+			);
+
+			expect(result).toEqual({ wei: "2500000", human: "2.5", decimals: 6 });
+		});
+
+		it("should accept the legacy amount field as wei", async () => {
+			const result = await resolveAmount(
+				{ amount: "1000000" },
+				usdcAddress,
+				"base",
+				mockRouter as any
+			);
+
+			expect(result.wei).toBe("1000000");
+		});
+
+		it("should keep wei amounts when decimals cannot be resolved", async () => {
+			mockRouter.getToken.mockResolvedValue(null);
+
+			const result = await resolveAmount(
+				{ amountWei: "1000" },
+				"0x999",
+				"base",
+				mockRouter as any
+			);
+
+			expect(result).toEqual({ wei: "1000" });
+		});
+
+		it("should reject missing and conflicting amounts", async () => {
+			await expect(resolveAmount({}, usdcAddress, "base", mockRouter as any)).rejects.toThrow(
+				"An amount is required: provide amountWei or amountHuman"
+			);
+			await expect(
+				resolveAmount(
+					{ amountWei: "1000", amountHuman: "1" },
+					usdcAddress,
+					"base",
+					mockRouter as any
+				)
+			).rejects.toThrow("Provide either amountWei or amountHuman, not both");
+			await expect(
+				resolveAmount(
+					{ amount: "1", amountWei: "2" },
+					usdcAddress,
+					"base",
+					mockRouter as any
+				)
+			).rejects.toThrow("Conflicting amounts: amount and amountWei differ");
+		});
+
+		it("should require decimals for human-readable input", async () => {
+			mockRouter.getToken.mockResolvedValue(null);
+
+			await expect(
+				resolveAmount({ amountHuman: "1" }, "0x999", "base", mockRouter as any)
+			).rejects.toThrow("Unable to resolve decimals");
+		});
+
+		it("should reject more decimal places than the token has", async () => {
+			await expect(
+				resolveAmount({ amountHuman: "1.0000005" }, usdcAddress, "base", mockRouter as any)
+			).rejects.toMatchObject({
+				code: "INVALID_AMOUNT",
+				message:
+					"Amount 1.0000005 has more than 6 decimal places, the most the token supports",
+			});
+
+			// Trailing zeros do not change the amount
+			await expect(
+				resolveAmount({ amountHuman: "1.50000000" }, usdcAddress, "base", mockRouter as any)
+			).resolves.toMatchObject({ wei: "1500000" });
+		});
+	});
+
+	describe("resolveTokenAddresses", () => {
+		const tokenMap = new Map([
+			[
+				"eth",
+				{
+					symbol: "ETH",
+					name: "Ether",
+					address: "0x0000000000000000000000000000000000000000",
+				},
+			],
+			["usdc", { symbol: "USDC", name: "USD Coin", address: usdcAddress }],
+			[
+				"usdbc",
+				{
+					symbol: "USDbC",
+					name: "USD Base Coin",
+					address: "0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA",
+				},
+			],
+			[
+				"usdt",
+				{
+					symbol: "USDT",
+					name: "Tether",
+					address: "0x1111111111111111111111111111111111111111",
+				},
+			],
+			[
+				"usdt.old",
+				{
+					symbol: "USDT",
+					name: "Tether (old)",
+					address: "0x2222222222222222222222222222222222222222",
+				},
+			],
+		]);
+
+		beforeEach(() => {
+			mockRouter.supportedTokens.mockResolvedValue(tokenMap);
+		});
+
+		it("should detect addresses", () => {
+			expect(isTokenAddress(usdcAddress)).toBe(true);
+			expect(isTokenAddress("USDC")).toBe(false);
+		});
+
+		it("should pass addresses through without fetching tokens", async () => {
+			const result = await resolveTokenAddresses([usdcAddress], "base", mockRouter as any);
+
+			expect(result).toEqual([usdcAddress]);
+			expect(mockRouter.supportedTokens).not.toHaveBeenCalled();
+		});
+
+		it("should resolve symbols case-insensitively", async () => {
+			const result = await resolveTokenAddresses(
+				["eth", usdcAddress, "USDC"],
+				"base",
+				mockRouter as any
+			);
+
+			expect(result).toEqual([
+				"0x0000000000000000000000000000000000000000",
+				usdcAddress,
+				usdcAddress,
+			]);
+			expect(mockRouter.supportedTokens).toHaveBeenCalledTimes(1);
+		});
+
+		it("should list candidates for ambiguous symbols", async () => {
+			const error = await resolveTokenAddresses(["USDT"], "base", mockRouter as any).catch(
+				(e) => e
+			);
+
+			expect(error).toBeInstanceOf(TokenResolutionError);
+			expect(error.details).toEqual({
+				symbol: "USDT",
+				chainName: "base",
+				reason: "ambiguous",
+				candidates: [
+					expect.objectContaining({
+						address: "0x1111111111111111111111111111111111111111",
+					}),
+					expect.objectContaining({
+						address: "0x2222222222222222222222222222222222222222",
+					}),
+				],
+			});
+		});
+
+		it("should suggest similar symbols for unknown ones", async () => {
+			const error = await resolveTokenAddresses(["USD"], "base", mockRouter as any).catch(
+				(e) => e
+			);
+
+			expect(error).toBeInstanceOf(TokenResolutionError);
+			expect(error.reason).toBe("unknown");
+			expect(error.candidates.map((c: any) => c.symbol)).toEqual([
+				"USDC",
+				"USDbC",
+				"USDT",
+				"USDT",
+			]);
+			expect(error.message).toContain('Unknown token symbol "USD" on base');
+		});
+	});
+});
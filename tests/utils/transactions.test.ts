@@ -0,0 +1,206 @@
+// Mock external dependencies
+jest.mock("viem", () => ({
+	...jest.requireActual("viem"),
+	createPublicClient: jest.fn(),
+	http: jest.fn(),
+}));
+
+jest.mock("viem/chains", () => ({
+	base: { id: 8453 },
+	scroll: { id: 534352 },
+}));
+
+const mockRpcProvider = jest.fn();
+
+jest.mock("starknet", () => ({
+	RpcProvider: mockRpcProvider,
+}));
+
+import { getTransactionStatus } from "../../src/utils/transactions";
+import { createPublicClient } from "viem";
+
+const namedError = (name: string, message: string) =>
+	Object.assign(new Error(message), { name, shortMessage: message });
+
+describe("Transaction Status", () => {
+	const hash = "0x" + "ab".repeat(32);
+
+	describe("EVM", () => {
+		const publicClient = {
+			getTransactionReceipt: jest.fn(),
+			getTransaction: jest.fn(),
+			getBlockNumber: jest.fn(),
+			call: jest.fn(),
+		};
+
+		const receipt = {
+			status: "success",
+			blockNumber: 100n,
+			gasUsed: 150000n,
+			effectiveGasPrice: 1000000000n,
+		};
+
+		beforeEach(() => {
+			(createPublicClient as jest.Mock).mockReturnValue(publicClient);
+			publicClient.getBlockNumber.mockResolvedValue(102n);
+		});
+
+		it("should report confirmed transactions with their fee and confirmations", async () => {
+			publicClient.getTransactionReceipt.mockResolvedValue(receipt);
+
+			const status = await getTransactionStatus(hash, "scroll", "https://rpc.example");
+
+			expect(status).toEqual({
+				chainName: "scroll",
+				transactionHash: hash,
+				status: "confirmed",
+				blockNumber: "100",
+				confirmations: 3,
+				gasUsed: "150000",
+				effectiveGasPrice: "1000000000",
+				fee: { raw: "150000000000000", formatted: "0.00015", token: "ETH" },
+				explorerUrl: `https://scrollscan.com/tx/${hash}`,
+			});
+		});
+
+		it("should include the L1 data fee reported on Base receipts", async () => {
+			publicClient.getTransactionReceipt.mockResolvedValue({
+				...receipt,
+				l1Fee: 50000000000000n,
+			});
+
+			const status = await getTransactionStatus(hash, "base", "https://rpc.example");
+
+			expect(status.fee?.raw).toBe("200000000000000");
+		});
+
+		it("should replay reverted transactions to decode the revert reason", async () => {
+			publicClient.getTransactionReceipt.mockResolvedValue({
+				...receipt,
+				status: "reverted",
+			});
+			publicClient.getTransaction.mockResolvedValue({
+				from: "0xfrom",
+				to: "0xto",
+				input: "0xdata",
+				value: 0n,
+			});
+			publicClient.call.mockRejectedValue(
+				namedError("CallExecutionError", "Execution reverted: Return amount is not enough")
+			);
+
+			const status = await getTransactionStatus(hash, "base", "https://rpc.example");
+
+			expect(status.status).toBe("reverted");
+			expect(status.revertReason).toBe("Execution reverted: Return amount is not enough");
+			expect(publicClient.call).toHaveBeenCalledWith({
+				account: "0xfrom",
+				to: "0xto",
+				data: "0xdata",
+				value: 0n,
+				blockNumber: 100n,
+			});
+		});
+
+		it("should tell pending transactions from unknown hashes", async () => {
+			publicClient.getTransactionReceipt.mockRejectedValue(
+				namedError("TransactionReceiptNotFoundError", "Receipt not found")
+			);
+			publicClient.getTransaction.mockResolvedValueOnce({ blockNumber: null });
+
+			expect((await getTransactionStatus(hash, "base", "https://rpc.example")).status).toBe(
+				"pending"
+			);
+
+			publicClient.getTransaction.mockRejectedValueOnce(
+				namedError("TransactionNotFoundError", "Transaction not found")
+			);
+
+			expect((await getTransactionStatus(hash, "base", "https://rpc.example")).status).toBe(
+				"not_found"
+			);
+		});
+
+		it("should surface RPC failures", async () => {
+			publicClient.getTransactionReceipt.mockRejectedValue(new Error("fetch failed"));
+
+			await expect(getTransactionStatus(hash, "base", "https://rpc.example")).rejects.toThrow(
+				"fetch failed"
+			);
+		});
+	});
+
+	describe("Starknet", () => {
+		const provider = {
+			getTransactionStatus: jest.fn(),
+			getTransactionReceipt: jest.fn(),
+			getBlockNumber: jest.fn(),
+		};
+
+		beforeEach(() => {
+			mockRpcProvider.mockImplementation(() => provider);
+			provider.getBlockNumber.mockResolvedValue(500);
+		});
+
+		it("should report accepted transactions with their fee", async () => {
+			provider.getTransactionStatus.mockResolvedValue({
+				finality_status: "ACCEPTED_ON_L2",
+				execution_status: "SUCCEEDED",
+			});
+			provider.getTransactionReceipt.mockResolvedValue({
+				block_number: 491,
+				actual_fee: { amount: "0x2386f26fc10000", unit: "FRI" },
+			});
+
+			const status = await getTransactionStatus(hash, "starknet", "https://rpc.example");
+
+			expect(status).toEqual({
+				chainName: "starknet",
+				transactionHash: hash,
+				status: "confirmed",
+				blockNumber: "491",
+				confirmations: 10,
+				fee: { raw: "10000000000000000", formatted: "0.01", token: "STRK" },
+				explorerUrl: `https://starkscan.co/tx/${hash}`,
+			});
+		});
+
+		it("should report the revert reason of reverted transactions", async () => {
+			provider.getTransactionStatus.mockResolvedValue({
+				finality_status: "ACCEPTED_ON_L2",
+				execution_status: "REVERTED",
+			});
+			provider.getTransactionReceipt.mockResolvedValue({
+				block_number: 500,
+				actual_fee: { amount: "0x1", unit: "WEI" },
+				revert_reason: "Insufficient output amount",
+			});
+
+			const status = await getTransactionStatus(hash, "starknet", "https://rpc.example");
+
+			expect(status).toEqual(
+				expect.objectContaining({
+					status: "reverted",
+					revertReason: "Insufficient output amount",
+					fee: expect.objectContaining({ token: "ETH" }),
+				})
+			);
+		});
+
+		it("should report received and unknown transactions", async () => {
+			provider.getTransactionStatus.mockResolvedValueOnce({ finality_status: "RECEIVED" });
+
+			expect(
+				(await getTransactionStatus(hash, "starknet", "https://rpc.example")).status
+			).toBe("pending");
+
+			provider.getTransactionStatus.mockRejectedValueOnce(
+				new Error("RPC: starknet_getTransactionStatus 29: Transaction hash not found")
+			);
+
+			expect(
+				(await getTransactionStatus(hash, "starknet", "https://rpc.example")).status
+			).toBe("not_found");
+		});
+	});
+});